@@ -23,6 +23,13 @@ module.exports = {
       },
       rules: {},
     },
+    {
+      files: ["**/*.test.*"],
+      env: {
+        jest: true,
+      },
+      rules: {},
+    },
   ],
   globals: {},
 };
@@ -0,0 +1,71 @@
+/**
+ * Consistency
+ *
+ * ContextAnalyzer notices when the user contradicts themselves and which of
+ * their commitments they never followed up on. Both are returned to the
+ * client with each reply, so the Notes tab can flag them during the
+ * simulation, and passed to the evaluation as evidence for the Consistency
+ * criterion. Turns are 1-based positions in the transcript, the numbering
+ * buildEvaluationPrompt uses.
+ */
+
+const {ContextAnalyzer} = require("./contextAnalyzer");
+
+/**
+ * Contradictions and unfulfilled commitments in a conversation
+ * @param {Array} transcript - Conversation history
+ * @return {{contradictions: Array<Object>,
+ *   unfulfilledCommitments: Array<Object>}} Contradictions as
+ *   {turn1, turn2, description, content1, content2} and commitments as
+ *   {turn, summary}
+ */
+function summarizeConsistency(transcript) {
+  const analyzer = new ContextAnalyzer(transcript || []);
+
+  return {
+    contradictions: analyzer.getContradictions().map((item) => ({
+      turn1: item.turn1 + 1,
+      turn2: item.turn2 + 1,
+      description: item.description,
+      content1: item.content1,
+      content2: item.content2,
+    })),
+    unfulfilledCommitments: analyzer.getUnfulfilledCommitments()
+        .map((item) => ({turn: item.turn + 1, summary: item.summary})),
+  };
+}
+
+/**
+ * Evaluation prompt section with the consistency evidence
+ * @param {Object} consistency - Result of summarizeConsistency
+ * @return {string} Prompt section
+ */
+function buildConsistencyEvaluationSection(consistency) {
+  const {contradictions, unfulfilledCommitments} = consistency;
+  if (contradictions.length + unfulfilledCommitments.length === 0) {
+    return "Consistency evidence (score it under Consistency):\n" +
+      "No contradictions or unfulfilled commitments were detected.";
+  }
+
+  const lines = [
+    "Consistency evidence (detected automatically; check each against the " +
+      "transcript before scoring it under Consistency):",
+  ];
+  if (contradictions.length > 0) {
+    lines.push("Possible contradictions:");
+    contradictions.forEach((item) => lines.push(
+        `- Turns ${item.turn1} and ${item.turn2}: ${item.description} ` +
+        `("${item.content1}" vs "${item.content2}")`));
+  }
+  if (unfulfilledCommitments.length > 0) {
+    lines.push("Commitments the learner never followed up on:");
+    unfulfilledCommitments.forEach((item) => lines.push(
+        `- Turn ${item.turn}: "${item.summary}"`));
+  }
+  return lines.join("\n");
+}
+
+module.exports = {
+  summarizeConsistency,
+  buildConsistencyEvaluationSection,
+};
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for contradiction and commitment tracking
+ */
+
+const {
+  summarizeConsistency,
+  buildConsistencyEvaluationSection,
+} = require("./consistency");
+const {sampleTranscripts} = require("./testFixtures");
+
+describe("Consistency", () => {
+  test("should number contradictions by transcript turn", () => {
+    const {contradictions} =
+      summarizeConsistency(sampleTranscripts.withContradiction);
+
+    expect(contradictions).toEqual([expect.objectContaining({
+      turn1: 1,
+      turn2: 3,
+      content1: "This project will only take 2 weeks to complete",
+    })]);
+  });
+
+  test("should drop commitments the user followed up on", () => {
+    const transcript = [
+      {type: "user", content: "I'll send you the cost breakdown after lunch."},
+      {type: "ai", content: "Fine. And the hiring plan?"},
+      {type: "user", content: "We will share the hiring plan next week."},
+      {type: "ai", content: "Okay."},
+      {type: "user", content: "Here's the cost breakdown you asked for."},
+    ];
+
+    expect(summarizeConsistency(transcript).unfulfilledCommitments).toEqual([
+      {turn: 3, summary: "We will share the hiring plan next week"},
+    ]);
+  });
+
+  test("should give the evaluator the evidence to check", () => {
+    const section = buildConsistencyEvaluationSection({
+      contradictions: [{
+        turn1: 1,
+        turn2: 3,
+        description: "Contradictory numeric claims about weeks",
+        content1: "It takes 2 weeks",
+        content2: "Probably 6 weeks total",
+      }],
+      unfulfilledCommitments: [{turn: 5, summary: "I'll send the numbers"}],
+    });
+
+    expect(section).toContain("Turns 1 and 3: Contradictory numeric claims");
+    expect(section).toContain("- Turn 5: \"I'll send the numbers\"");
+    expect(buildConsistencyEvaluationSection({
+      contradictions: [],
+      unfulfilledCommitments: [],
+    })).toMatch(/No contradictions or unfulfilled commitments/);
+  });
+});
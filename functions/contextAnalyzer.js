@@ -38,6 +38,21 @@ const commitmentPatterns = [
   /\bI intend to\b/i,
 ];
 
+/**
+ * Follow-up indicator patterns: the user reporting back on a promise
+ */
+const followUpPatterns = [
+  /\bas promised\b/i,
+  /\bas I said\b/i,
+  /\bhere's\b/i,
+  /\bhere (is|are)\b/i,
+  /\bI've (sent|shared|checked|confirmed|pulled|added|put|booked)\b/i,
+  /\bI've (scheduled|done|got)\b/i,
+  /\bI (sent|shared|checked|confirmed|pulled|attached|booked|scheduled)\b/i,
+  /\bfollowing up\b/i,
+  /\bdone\b/i,
+];
+
 /**
  * Decision indicator patterns
  */
@@ -66,6 +81,33 @@ const concernPatterns = [
   /\bwhat about\b/i,
 ];
 
+/**
+ * Discovery question patterns
+ * Open questions that invite a stakeholder to share what they haven't said
+ */
+const discoveryQuestionPatterns = [
+  /\?/,
+  /^\s*(what|why|how|which|who|when|where)\b/i,
+  /\btell me (more )?about\b/i,
+  /\bhelp me understand\b/i,
+  /\bwalk me through\b/i,
+  /\bI'm curious\b/i,
+  /\bI'd like to understand\b/i,
+];
+
+/**
+ * Words too common to tell one topic from another
+ */
+const keywordStopWords = new Set([
+  "that", "this", "with", "will", "what", "when", "they", "them", "have",
+  "been", "from", "your", "more", "into", "than", "then", "also", "just",
+  "over", "some", "very", "want", "wants", "need", "needs", "make", "does",
+  "about", "being", "their", "there", "which", "would", "could", "should",
+  "might", "these", "those", "other", "after", "before", "still", "really",
+  "something", "anything", "everything", "things", "i'll", "we'll", "i've",
+  "here's",
+]);
+
 /**
  * ContextAnalyzer class
  * Analyzes conversation transcript for key points and patterns
@@ -104,6 +146,7 @@ class ContextAnalyzer {
       this.extractKeyPoints();
       this.findContradictions();
       this._extractCommitments();
+      this._trackFollowUps();
       this._extractConcerns();
     } catch (error) {
       console.error('Error analyzing transcript:', error.message);
@@ -268,21 +311,54 @@ class ContextAnalyzer {
       if (message.type === 'user') {
         const content = message.content;
         
-        // Check for commitment patterns
-        commitmentPatterns.forEach(pattern => {
-          if (pattern.test(content)) {
-            this.userCommitments.push({
-              turn: index,
-              commitment: content,
-              addressed: false, // Will be updated by tracking
-              summary: this._summarizePoint(content),
-            });
-          }
-        });
+        // One commitment per message, however many patterns it matches
+        if (commitmentPatterns.some((pattern) => pattern.test(content))) {
+          this.userCommitments.push({
+            turn: index,
+            commitment: content,
+            addressed: false, // Updated by _trackFollowUps
+            summary: this._summarizePoint(content),
+          });
+        }
       }
     });
   }
 
+  /**
+   * Mark commitments the user later reported back on as addressed
+   * A follow-up is a later user message with a follow-up phrase ("here's",
+   * "as promised", "I've sent") that shares a keyword with the commitment.
+   * @private
+   */
+  _trackFollowUps() {
+    this.userCommitments.forEach((commitment) => {
+      const keywords = this._getKeywords(commitment.commitment);
+      const followedUp = this.transcript.some((message, index) =>
+        index > commitment.turn &&
+        message.type === "user" &&
+        followUpPatterns.some((pattern) => pattern.test(message.content)) &&
+        this._getKeywords(message.content)
+            .some((word) => keywords.includes(word)),
+      );
+      if (followedUp) {
+        commitment.addressed = true;
+      }
+    });
+  }
+
+  /**
+   * Meaningful words of a message, for matching follow-ups to commitments
+   * @param {string} content - Message content
+   * @return {Array<string>} Lowercased keywords
+   * @private
+   */
+  _getKeywords(content) {
+    return content
+        .toLowerCase()
+        .split(/[^a-z0-9']+/)
+        .filter((word) => word.length > 3 && !keywordStopWords.has(word));
+  }
+
   /**
    * Extract stakeholder concerns from transcript
    * @private
@@ -469,6 +545,14 @@ class ContextAnalyzer {
     return this.userCommitments;
   }
 
+  /**
+   * Get user commitments that were never followed up
+   * @return {Array} Unaddressed commitments
+   */
+  getUnfulfilledCommitments() {
+    return this.userCommitments.filter((c) => !c.addressed);
+  }
+
   /**
    * Get stakeholder concerns
    * @return {Array} List of stakeholder concerns
@@ -515,6 +599,74 @@ class ContextAnalyzer {
     }
   }
 
+  /**
+   * Find hidden items the user has uncovered with discovery questions
+   * An item is revealed by a user question that mentions one of its
+   * revealWhen topics or, when it has none, a keyword from its text.
+   * @param {Array<Object>} items - Hidden items ({text, revealWhen})
+   * @return {Array<Object>} Revealed items, each with the 1-based turn of
+   *   the question that revealed it, in the order they were revealed
+   */
+  findDiscoveries(items) {
+    let pending = (items || []).map((item) => ({
+      item,
+      terms: this._getRevealTerms(item),
+    }));
+    const discoveries = [];
+
+    this.transcript.forEach((message, index) => {
+      if (message.type !== "user" ||
+          !this._isDiscoveryQuestion(message.content)) {
+        return;
+      }
+
+      const content = message.content.toLowerCase();
+      pending = pending.filter(({item, terms}) => {
+        if (!terms.some((term) => content.includes(term))) {
+          return true;
+        }
+        discoveries.push({...item, turn: index + 1});
+        return false;
+      });
+    });
+
+    return discoveries;
+  }
+
+  /**
+   * Check whether a user message asks an open, discovery-style question
+   * @param {string} content - Message content
+   * @return {boolean} True for discovery questions
+   * @private
+   */
+  _isDiscoveryQuestion(content) {
+    return typeof content === "string" &&
+      discoveryQuestionPatterns.some((pattern) => pattern.test(content));
+  }
+
+  /**
+   * Get the lowercase terms that reveal a hidden item
+   * Keywords taken from the item text are cut to a six letter stem so
+   * "replaced" also matches "replace" and "replacing".
+   * @param {Object} item - Hidden item ({text, revealWhen})
+   * @return {Array<string>} Reveal terms
+   * @private
+   */
+  _getRevealTerms(item) {
+    if (Array.isArray(item.revealWhen) && item.revealWhen.length > 0) {
+      return item.revealWhen
+          .map((term) => String(term).trim().toLowerCase())
+          .filter((term) => term.length > 0);
+    }
+
+    return String(item.text || "")
+        .toLowerCase()
+        .split(/\s+/)
+        .map((word) => word.replace(/[^a-z]/g, ""))
+        .filter((word) => word.length > 3 && !keywordStopWords.has(word))
+        .map((word) => word.slice(0, 6));
+  }
+
   /**
    * Get context summary for prompt engineering
    * @return {string} Context summary for AI model
@@ -576,4 +728,6 @@ module.exports = {
   decisionPatterns,
   concernPatterns,
   importanceWeights,
+  discoveryQuestionPatterns,
+  followUpPatterns,
 };
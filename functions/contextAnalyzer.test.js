@@ -194,6 +194,29 @@ describe('ContextAnalyzer', () => {
       
       expect(analyzer.userCommitments[0].addressed).toBe(true);
     });
+
+    test("should mark commitments addressed when the user follows up", () => {
+      const transcript = [
+        {type: "user", content: "I will send the vendor quotes tomorrow."},
+        {type: "stakeholder", content: "Good, I need them."},
+        {type: "user", content: "As promised, here are the vendor quotes."},
+      ];
+      const analyzer = new ContextAnalyzer(transcript);
+
+      expect(analyzer.userCommitments[0].addressed).toBe(true);
+      expect(analyzer.getUnfulfilledCommitments()).toEqual([]);
+    });
+
+    test("should leave commitments open when a later message is off topic",
+        () => {
+          const transcript = [
+            {type: "user", content: "I will send the vendor quotes tomorrow."},
+            {type: "user", content: "Here is the hiring plan."},
+          ];
+          const analyzer = new ContextAnalyzer(transcript);
+
+          expect(analyzer.getUnfulfilledCommitments()).toHaveLength(1);
+        });
   });
 
   describe('Concern Extraction', () => {
@@ -589,4 +612,37 @@ describe('ContextAnalyzer', () => {
       expect(analyzer.userCommitments.length).toBeGreaterThan(0);
     });
   });
+
+  describe("Discovery", () => {
+    const items = [
+      {text: "Worried the new hire will replace her"},
+      {text: "Wants to lead the EMEA launch",
+        revealWhen: ["europe", "emea", "career"]},
+    ];
+
+    test("should reveal items only through discovery questions", () => {
+      const transcript = [
+        {type: "user", content: "The new hire starts Monday."},
+        {type: "ai", content: "Okay."},
+        {type: "user",
+          content: "How do you feel about the new hire joining?"},
+      ];
+      const analyzer = new ContextAnalyzer(transcript);
+
+      expect(analyzer.findDiscoveries(items)).toEqual([
+        {text: "Worried the new hire will replace her", turn: 3},
+      ]);
+    });
+
+    test("should use revealWhen topics instead of the item text", () => {
+      const analyzer = new ContextAnalyzer([
+        {type: "user", content: "Would you want to lead the launch?"},
+        {type: "user", content: "Tell me about your career plans."},
+      ]);
+
+      expect(analyzer.findDiscoveries(items)).toEqual([
+        {...items[1], turn: 2},
+      ]);
+    });
+  });
 });
@@ -0,0 +1,217 @@
+/**
+ * Context Builder
+ *
+ * Long sessions used to send every message to the model on every call, so
+ * the prompt grew with each turn. The builder keeps the most recent
+ * messages verbatim until a token budget for the task is spent and
+ * replaces everything older with a rolling summary from
+ * ContextAnalyzer.getContextSummary(). The summary is rebuilt from the
+ * older messages on each call, so it moves forward with the window.
+ *
+ * Token counts are estimated from text length (about four characters per
+ * token for English), which is close enough to budget with; the provider's
+ * reported usage is logged next to the estimate for every call.
+ */
+
+const {ContextAnalyzer} = require("./contextAnalyzer");
+
+const CHARS_PER_TOKEN = 4;
+
+// Role markers and separators the chat format adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Transcript token budget per task. Evaluation keeps the most verbatim
+ * text because it quotes turns as evidence.
+ */
+const CONTEXT_BUDGETS = {
+  simulation: 2000,
+  coaching: 1500,
+  suggestions: 1500,
+  evaluation: 8000,
+};
+
+// Messages always kept verbatim, however long they are, so the model sees
+// the exchange it is answering
+const MIN_RECENT_MESSAGES = 4;
+
+// Part of the budget set aside for the summary once one is needed; the
+// analyzer lists every open commitment and contradiction, so it is trimmed
+// to fit
+const SUMMARY_SHARE = 0.25;
+
+/**
+ * Estimated token count of some text
+ * @param {string} text - Text to count
+ * @return {number} Estimated tokens
+ */
+function estimateTokens(text) {
+  return Math.ceil(String(text || "").length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimated token count of a transcript message or chat message
+ * @param {Object} message - Message with content
+ * @return {number} Estimated tokens
+ */
+function estimateMessageTokens(message) {
+  return estimateTokens(message && message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimated token count of chat messages
+ * @param {Array} messages - Chat messages ({role, content})
+ * @return {number} Estimated tokens
+ */
+function estimateMessagesTokens(messages) {
+  return (messages || []).reduce(
+      (total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Rolling summary of the messages that fell out of the window
+ * @param {Array} older - Messages before the window
+ * @param {number} maxTokens - Longest the summary may be
+ * @return {string} Summary, labelled with the turns it covers
+ */
+function buildRollingSummary(older, maxTokens) {
+  const lines = [
+    `Summary of turns 1-${older.length}, which are not repeated below:`,
+    ...new ContextAnalyzer(older).getContextSummary().trim().split("\n"),
+  ];
+
+  // Whole lines only, so a trimmed summary never ends mid-sentence
+  let tokens = 0;
+  const kept = [];
+  for (const line of lines) {
+    tokens += estimateTokens(`${line}\n`);
+    if (tokens > maxTokens) {
+      break;
+    }
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+/**
+ * Index of the first message that fits a token budget, counting back from
+ * the end of the transcript
+ * @param {Array} messages - Conversation history
+ * @param {number} budget - Token budget
+ * @param {number} minRecent - Messages kept whatever the budget
+ * @return {{startIndex: number, tokens: number}} Where the recent messages
+ *   start and what they cost
+ */
+function fitRecentMessages(messages, budget, minRecent) {
+  let startIndex = messages.length;
+  let tokens = 0;
+
+  while (startIndex > 0) {
+    const cost = estimateMessageTokens(messages[startIndex - 1]);
+    const kept = messages.length - startIndex;
+    if (kept >= minRecent && tokens + cost > budget) {
+      break;
+    }
+    tokens += cost;
+    startIndex -= 1;
+  }
+
+  return {startIndex, tokens};
+}
+
+/**
+ * Split a transcript into a summary of older messages and the recent
+ * messages that fit the task's budget
+ * @param {Array} transcript - Conversation history
+ * @param {Object} options - Window options
+ * @param {number} options.budget - Token budget for the transcript
+ * @param {number} options.minRecent - Messages always kept verbatim
+ * @return {{summary: (string|null), recent: Array, startIndex: number,
+ *   tokens: number}} startIndex is the transcript position of the first
+ *   recent message; tokens covers the summary and the recent messages
+ */
+function buildTranscriptWindow(transcript, {
+  budget = CONTEXT_BUDGETS.simulation,
+  minRecent = MIN_RECENT_MESSAGES,
+} = {}) {
+  const messages = transcript || [];
+  const whole = fitRecentMessages(messages, budget, minRecent);
+  if (whole.startIndex === 0) {
+    return {summary: null, recent: messages, startIndex: 0,
+      tokens: whole.tokens};
+  }
+
+  const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+  const {startIndex, tokens} =
+    fitRecentMessages(messages, budget - summaryBudget, minRecent);
+  const summary =
+    buildRollingSummary(messages.slice(0, startIndex), summaryBudget);
+  return {
+    summary,
+    recent: messages.slice(startIndex),
+    startIndex,
+    tokens: tokens + estimateTokens(summary),
+  };
+}
+
+/**
+ * Window for one of the tasks in CONTEXT_BUDGETS
+ * @param {string} task - Task name, one of the llmProvider TASKS
+ * @param {Array} transcript - Conversation history
+ * @return {Object} Result of buildTranscriptWindow
+ */
+function buildTaskWindow(task, transcript) {
+  return buildTranscriptWindow(transcript, {
+    budget: CONTEXT_BUDGETS[task] || CONTEXT_BUDGETS.simulation,
+  });
+}
+
+/**
+ * Inline a window into a prompt: the summary, then each recent message
+ * @param {Object} window - Result of buildTranscriptWindow
+ * @param {Function} formatMessage - Called with each recent message and its
+ *   position in the full transcript
+ * @param {string} separator - Placed between recent messages
+ * @return {string} Prompt text
+ */
+function formatTranscriptWindow(window, formatMessage, separator = "\n") {
+  const lines = window.recent
+      .map((message, index) =>
+        formatMessage(message, window.startIndex + index))
+      .join(separator);
+  return window.summary ? `${window.summary}\n\n${lines}` : lines;
+}
+
+/**
+ * Log the token count of one model call
+ * @param {string} task - Task name
+ * @param {Object} call - What was sent and what came back
+ * @param {Array} call.messages - Chat messages sent to the model
+ * @param {Object} call.window - Transcript window the prompt was built from
+ * @param {Object} call.usage - Usage reported by the provider, if any
+ * @return {Object} The logged counts
+ */
+function reportContextUsage(task, {messages, window, usage}) {
+  const report = {
+    task,
+    estimatedPromptTokens: estimateMessagesTokens(messages),
+    transcriptTokens: window.tokens,
+    verbatimMessages: window.recent.length,
+    summarizedMessages: window.startIndex,
+    promptTokens: usage ? usage.promptTokens : null,
+    completionTokens: usage ? usage.completionTokens : null,
+  };
+  console.log("Context tokens:", report);
+  return report;
+}
+
+module.exports = {
+  CONTEXT_BUDGETS,
+  MIN_RECENT_MESSAGES,
+  estimateTokens,
+  estimateMessagesTokens,
+  buildTranscriptWindow,
+  buildTaskWindow,
+  formatTranscriptWindow,
+  reportContextUsage,
+};
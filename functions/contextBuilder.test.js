@@ -0,0 +1,101 @@
+/**
+ * Unit tests for transcript windowing and token reporting
+ */
+
+const {
+  estimateTokens,
+  buildTranscriptWindow,
+  buildTaskWindow,
+  formatTranscriptWindow,
+  reportContextUsage,
+} = require("./contextBuilder");
+
+/**
+ * Alternating user and stakeholder messages of about 25 tokens each
+ * @param {number} count - Number of messages
+ * @return {Array} Transcript
+ */
+function longTranscript(count) {
+  return Array.from({length: count}, (_, i) => i % 2 === 0 ?
+    {type: "user", content: `Turn ${i + 1}: I will send the budget ` +
+      "breakdown and the vendor quotes by Friday."} :
+    {type: "ai", content: `Turn ${i + 1}: Fine, but what about the ` +
+      "timeline risk for the launch?", stakeholder: "Sarah"});
+}
+
+describe("Context Builder", () => {
+  test("should estimate about four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens(undefined)).toBe(0);
+  });
+
+  test("should keep a short transcript verbatim", () => {
+    const transcript = longTranscript(6);
+    const window = buildTranscriptWindow(transcript, {budget: 1000});
+
+    expect(window.summary).toBeNull();
+    expect(window.recent).toEqual(transcript);
+    expect(window.startIndex).toBe(0);
+  });
+
+  test("should summarize older turns once the budget is spent", () => {
+    const transcript = longTranscript(40);
+    const window = buildTranscriptWindow(transcript, {budget: 200});
+
+    expect(window.startIndex).toBeGreaterThan(0);
+    expect(window.recent).toEqual(transcript.slice(window.startIndex));
+    expect(window.summary).toContain(`turns 1-${window.startIndex}`);
+    expect(window.summary).toContain("Conversation Context");
+    expect(window.tokens - estimateTokens(window.summary))
+        .toBeLessThanOrEqual(200);
+  });
+
+  test("should always keep the latest exchange verbatim", () => {
+    const transcript = longTranscript(10);
+    const window = buildTranscriptWindow(transcript, {budget: 1, minRecent: 4});
+
+    expect(window.recent).toHaveLength(4);
+    expect(window.startIndex).toBe(6);
+  });
+
+  test("should not grow the prompt with the length of the session", () => {
+    const shorter = buildTaskWindow("simulation", longTranscript(100));
+    const longer = buildTaskWindow("simulation", longTranscript(200));
+
+    expect(Math.abs(longer.tokens - shorter.tokens)).toBeLessThan(100);
+  });
+
+  test("should number recent messages by their place in the transcript", () => {
+    const window = buildTranscriptWindow(longTranscript(10),
+        {budget: 100, minRecent: 2});
+    const text = formatTranscriptWindow(window,
+        (msg, i) => `Turn ${i + 1} (${msg.type})`);
+
+    expect(window.startIndex).toBe(7);
+    expect(text).toMatch(/^Summary of turns 1-7, which are not repeated/);
+    expect(text).toMatch(/\nTurn 8 \(ai\)\nTurn 9 \(user\)\nTurn 10 \(ai\)$/);
+  });
+
+  test("should report estimated and actual token counts", () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const window = buildTranscriptWindow(longTranscript(4));
+    const report = reportContextUsage("coaching", {
+      messages: [{role: "user", content: "x".repeat(400)}],
+      window,
+      usage: {promptTokens: 98, completionTokens: 20},
+    });
+
+    expect(report).toEqual({
+      task: "coaching",
+      estimatedPromptTokens: 104,
+      transcriptTokens: window.tokens,
+      verbatimMessages: 4,
+      summarizedMessages: 0,
+      promptTokens: 98,
+      completionTokens: 20,
+    });
+    expect(log).toHaveBeenCalledWith("Context tokens:", report);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Difficulty Profiles
+ *
+ * Maps a scenario's difficulty (Easy, Medium, Hard) to the knobs that make a
+ * stakeholder harder to win over. EmotionalStateTracker reads the thresholds
+ * for concerns, patience and satisfaction; PersonalityEngine reads the
+ * objection and time pressure instructions. Medium matches the behavior the
+ * engines had before difficulty existed, so scenarios without a difficulty
+ * play exactly as they always have.
+ */
+
+const DEFAULT_DIFFICULTY = "Medium";
+
+const difficultyProfiles = {
+  Easy: {
+    level: "Easy",
+    // Concern keywords a message must mention to count the concern addressed
+    concernKeywordMatches: 1,
+    // Same, for detailed messages of more than 30 words
+    detailedConcernKeywordMatches: 1,
+    // Share of concerns that must be addressed before the stakeholder is
+    // satisfied
+    satisfiedShare: 0.5,
+    // Vague replies in a row before the stakeholder turns skeptical or
+    // frustrated
+    vagueRepliesBeforeUpset: 3,
+    // State changes the stakeholder sits through with every concern ignored
+    // before growing concerned or frustrated
+    patience: 5,
+    // Concerns the stakeholder keeps to themselves until asked
+    hiddenConcerns: 0,
+    objectionFrequency: "rare",
+    timePressure: null,
+  },
+  Medium: {
+    level: "Medium",
+    concernKeywordMatches: 2,
+    detailedConcernKeywordMatches: 1,
+    satisfiedShare: 0.6,
+    vagueRepliesBeforeUpset: 2,
+    patience: 3,
+    hiddenConcerns: 0,
+    objectionFrequency: "sometimes",
+    timePressure: null,
+  },
+  Hard: {
+    level: "Hard",
+    concernKeywordMatches: 3,
+    detailedConcernKeywordMatches: 2,
+    satisfiedShare: 0.8,
+    vagueRepliesBeforeUpset: 1,
+    patience: 2,
+    hiddenConcerns: 1,
+    objectionFrequency: "often",
+    timePressure: "You have about 10 minutes before your next meeting. " +
+      "Say so early, keep pulling the conversation back to a decision and " +
+      "show impatience with long preambles.",
+  },
+};
+
+/**
+ * Prompt lines for each objection frequency
+ */
+const objectionInstructions = {
+  rare: [
+    "Accept reasonable answers without much pushback",
+    "Raise an objection only when something important is clearly missing",
+  ],
+  sometimes: [
+    "Push back when a claim is unsupported or vague",
+    "Let well-argued points land without inventing new objections",
+  ],
+  often: [
+    "Challenge most answers with at least one objection or follow-up",
+    "Don't accept claims without evidence, numbers or a concrete plan",
+    "When one concern is answered, move straight to the next",
+  ],
+};
+
+/**
+ * Look up the profile for a difficulty level
+ * @param {string} difficulty - Scenario difficulty, case-insensitive
+ * @return {Object} Difficulty profile, Medium when unknown or missing
+ */
+function getDifficultyProfile(difficulty) {
+  if (typeof difficulty === "string") {
+    const normalized = difficulty.trim().toLowerCase();
+    const level = Object.keys(difficultyProfiles)
+        .find((key) => key.toLowerCase() === normalized);
+    if (level) {
+      return difficultyProfiles[level];
+    }
+  }
+  return difficultyProfiles[DEFAULT_DIFFICULTY];
+}
+
+/**
+ * Pick the concerns a stakeholder keeps to themselves
+ * The last concerns in the list are hidden, and at least one concern always
+ * stays in the open so the learner has something to work with.
+ * @param {Array<string>} concerns - Stakeholder concerns
+ * @param {Object} profile - Difficulty profile
+ * @return {Array<string>} Hidden concerns
+ */
+function getHiddenConcerns(concerns, profile) {
+  const list = concerns || [];
+  const count = Math.min(profile.hiddenConcerns, list.length - 1);
+  return count > 0 ? list.slice(-count) : [];
+}
+
+module.exports = {
+  DEFAULT_DIFFICULTY,
+  difficultyProfiles,
+  objectionInstructions,
+  getDifficultyProfile,
+  getHiddenConcerns,
+};
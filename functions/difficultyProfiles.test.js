@@ -0,0 +1,99 @@
+/**
+ * Unit tests for difficulty profiles and how the engines apply them
+ */
+
+const {
+  getDifficultyProfile,
+  getHiddenConcerns,
+} = require("./difficultyProfiles");
+const {EmotionalStateTracker} = require("./emotionalStateTracker");
+const {PersonalityEngine} = require("./personalityEngine");
+
+describe("Difficulty Profiles", () => {
+  const stakeholder = {
+    name: "Sarah Kim",
+    role: "VP of Product",
+    personality: "analytical",
+    concerns: [
+      "Budget constraints",
+      "Timeline feasibility",
+      "Team capacity",
+    ],
+    motivations: ["Deliver value"],
+  };
+
+  /**
+   * Build a tracker for the given difficulty
+   * @param {string} difficulty - Scenario difficulty
+   * @return {EmotionalStateTracker} Tracker
+   */
+  function trackerFor(difficulty) {
+    return new EmotionalStateTracker(stakeholder,
+        {title: "Product Proposal", difficulty});
+  }
+
+  test("should default to Medium for missing or unknown levels", () => {
+    expect(getDifficultyProfile(undefined).level).toBe("Medium");
+    expect(getDifficultyProfile("Extreme").level).toBe("Medium");
+    expect(getDifficultyProfile(" hard ").level).toBe("Hard");
+  });
+
+  test("should hide trailing concerns but always leave one open", () => {
+    const hard = getDifficultyProfile("Hard");
+    expect(getHiddenConcerns(stakeholder.concerns, hard))
+        .toEqual(["Team capacity"]);
+    expect(getHiddenConcerns(["Budget constraints"], hard)).toEqual([]);
+    expect(getHiddenConcerns(stakeholder.concerns,
+        getDifficultyProfile("Easy"))).toEqual([]);
+  });
+
+  test("should need more of a concern's keywords on harder levels", () => {
+    const transcript = [{type: "user", content: "What about the budget?"}];
+
+    const easy = trackerFor("Easy");
+    easy.analyzeTranscript(transcript);
+    expect(easy.getConcernsAddressed()).toEqual(["Budget constraints"]);
+
+    const medium = trackerFor("Medium");
+    medium.analyzeTranscript(transcript);
+    expect(medium.getConcernsAddressed()).toEqual([]);
+  });
+
+  test("should lose patience after fewer vague replies on Hard", () => {
+    const vague = [
+      {type: "user", content: "I think it will be fine."},
+      {type: "ai", content: "Can you be more specific?"},
+      {type: "user", content: "Trust me on this."},
+    ];
+
+    const hard = trackerFor("Hard");
+    hard.replayTranscript(vague.slice(0, 1));
+    expect(hard.getCurrentState()).toBe("skeptical");
+    hard.replayTranscript(vague.slice(2));
+    expect(hard.getCurrentState()).toBe("frustrated");
+
+    const easy = trackerFor("Easy");
+    easy.replayTranscript(vague);
+    expect(easy.getCurrentState()).toBe("neutral");
+  });
+
+  test("should keep hidden concerns out of the concerns to raise", () => {
+    const instructions = trackerFor("Hard").getStateInstructions();
+    const [open, hidden] = instructions.split("keep to yourself");
+
+    expect(open).toContain("Budget constraints");
+    expect(open).not.toContain("Team capacity");
+    expect(hidden).toContain("Team capacity");
+  });
+
+  test("should scale objections and add time pressure on Hard", () => {
+    const hard = new PersonalityEngine(stakeholder, "Hard");
+    expect(hard.getPushbackInstructions())
+        .toMatch(/Difficulty: Hard[\s\S]*Challenge most answers/);
+    expect(hard.getPushbackInstructions()).toMatch(/Time pressure:/);
+
+    const easy = new PersonalityEngine(stakeholder, "Easy");
+    expect(easy.getPushbackInstructions()).toMatch(/Accept reasonable/);
+    expect(easy.getPushbackInstructions()).not.toMatch(/Time pressure/);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Practice Drills
+ *
+ * Every evaluation recommends a few drills. Starting one turns it into a
+ * short simulation of its own: the model writes a micro-scenario with one
+ * person and a 2-4 turn limit around the drill's instructions, and the
+ * session is scored only on the criterion the drill targets. The drill
+ * names its criterion; older drills that do not are aimed at the
+ * criterion the evaluation scored lowest.
+ *
+ * Drill sessions are created here rather than by the client, so the link
+ * back to the evaluation (the session's `drill` field) cannot be forged.
+ * When a drill session is evaluated, the result is recorded on the
+ * original evaluation under `drillCompletions`, keyed by drill index.
+ */
+
+const {FieldValue} = require("firebase-admin/firestore");
+const {scenarioDraftSchema, buildDraftFormat} =
+  require("./scenarioGenerator");
+
+const MIN_DRILL_TURNS = 2;
+const MAX_DRILL_TURNS = 4;
+
+/**
+ * Field rules for a drill's micro-scenario: a scenario draft with one
+ * person and a few turns
+ */
+const drillScenarioSchema = {
+  ...scenarioDraftSchema,
+  turnLimit: {type: "integer", min: MIN_DRILL_TURNS, max: MAX_DRILL_TURNS},
+  stakeholders: {...scenarioDraftSchema.stakeholders, maxItems: 1},
+};
+
+/**
+ * Thrown when a drill cannot be started
+ */
+class DrillError extends Error {
+  /**
+   * @param {string} code - HttpsError code the callables report
+   * @param {string} message - Message shown to the user
+   */
+  constructor(code, message) {
+    super(message);
+    this.name = "DrillError";
+    this.code = code;
+  }
+}
+
+/**
+ * Rubric criterion a drill practises
+ * @param {Object} evaluation - Evaluation that recommended the drill
+ * @param {Object} drill - Drill from evaluation.drills
+ * @param {Object} rubric - Rubric the evaluation was scored against,
+ *   including any criteria the server added
+ * @return {Object} {name, description, anchors} of the criterion
+ * @throws {DrillError} When the evaluation has nothing to aim the drill at
+ */
+function pickDrillCriterion(evaluation, drill, rubric) {
+  const byName = (name) => rubric.criteria.find((c) => c.name === name);
+  let criterion = drill.criterion && byName(drill.criterion);
+
+  if (!criterion) {
+    const scored = (evaluation.criterion_scores || [])
+        .filter((score) => byName(score.criterion))
+        .sort((a, b) => a.score - b.score);
+    criterion = scored.length > 0 && byName(scored[0].criterion);
+  }
+  if (!criterion) {
+    throw new DrillError("failed-precondition",
+        "This drill has no criterion to practise");
+  }
+
+  const {name, description, anchors} = criterion;
+  return {name, description, anchors};
+}
+
+/**
+ * Rubric a drill session is scored against: its one criterion, with the
+ * whole weight
+ * @param {Object} drill - The session's drill field
+ * @return {Object} Rubric
+ */
+function buildDrillRubric(drill) {
+  return {
+    id: `drill:${drill.evaluationId}:${drill.drillIndex}`,
+    name: drill.title,
+    criteria: [{...drill.criterion, weight: 1}],
+  };
+}
+
+/**
+ * Prompt asking for a drill's micro-scenario
+ * @param {Object} drill - Drill from evaluation.drills
+ * @param {Object} criterion - Criterion from pickDrillCriterion
+ * @param {(Object|null)} scenario - Scenario the evaluation scored, used
+ *   for setting only
+ * @return {string} Generation prompt
+ */
+function buildDrillPrompt(drill, criterion, scenario) {
+  const setting = scenario ?
+    `\nKeep it in a setting like the one the learner just practised:
+${scenario.title}: ${scenario.situation}\n` :
+    "";
+
+  return `Write a very short workplace role-play that drills one skill.
+
+Drill: ${drill.title}
+${drill.instructions}
+
+Skill being practised: ${criterion.name}
+${criterion.description}
+${setting}
+Use one person whose reaction depends on how well the learner shows this \
+skill, 1-3 constraints and a turn limit of \
+${MIN_DRILL_TURNS}-${MAX_DRILL_TURNS}. The objective should be something \
+the learner can achieve in that many messages.
+
+${buildDraftFormat(3)}`;
+}
+
+/**
+ * Evaluation and drill a caller wants to start, with the scenario the
+ * evaluation scored
+ * Someone else's evaluation is reported as missing, not as forbidden.
+ * @param {Object} db - Firestore instance
+ * @param {string} evaluationId - Evaluation document id
+ * @param {string} userId - Caller's uid
+ * @param {number} drillIndex - Index into the evaluation's drills
+ * @return {Promise<Object>} {evaluation, drill, scenario}; scenario is null
+ *   when the session is gone
+ * @throws {DrillError} When the evaluation or drill does not exist
+ */
+async function loadDrillSource(db, evaluationId, userId, drillIndex) {
+  const snapshot = await db.collection("evaluations").doc(evaluationId).get();
+  if (!snapshot.exists || snapshot.data().userId !== userId) {
+    throw new DrillError("not-found", "Evaluation not found");
+  }
+  const evaluation = {...snapshot.data(), id: snapshot.id};
+  const drill = (evaluation.drills || [])[drillIndex];
+  if (!drill) {
+    throw new DrillError("not-found", "Drill not found");
+  }
+
+  const session = await db.collection("sessions")
+      .doc(evaluation.sessionId).get();
+  return {
+    evaluation,
+    drill,
+    scenario: session.exists ? session.data().scenario : null,
+  };
+}
+
+/**
+ * Start a saved session for a drill's micro-scenario
+ * @param {Object} db - Firestore instance
+ * @param {string} userId - Caller's uid
+ * @param {Object} scenario - Generated micro-scenario
+ * @param {Object} drill - {evaluationId, drillIndex, title, criterion}
+ * @return {Promise<string>} Session id
+ */
+async function createDrillSession(db, userId, scenario, drill) {
+  const ref = await db.collection("sessions").add({
+    userId,
+    scenario,
+    turnLimit: scenario.turnLimit,
+    settings: {difficulty: scenario.difficulty},
+    transcript: [],
+    state: "IN_SIM",
+    drill,
+    startedAt: FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * Record a finished drill on the evaluation that recommended it
+ * Later attempts at the same drill replace earlier ones.
+ * @param {Object} db - Firestore instance
+ * @param {Object} drill - The drill session's drill field
+ * @param {string} userId - Caller's uid
+ * @param {Object} completion - {sessionId, evaluationId, score} of the
+ *   drill session's own evaluation
+ * @return {Promise<boolean>} False when the evaluation is gone or not the
+ *   caller's
+ */
+async function recordDrillCompletion(db, drill, userId, completion) {
+  const ref = db.collection("evaluations").doc(drill.evaluationId);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists || snapshot.data().userId !== userId) {
+      return false;
+    }
+    transaction.update(ref, {
+      [`drillCompletions.${drill.drillIndex}`]: {
+        ...completion,
+        completedAt: FieldValue.serverTimestamp(),
+      },
+    });
+    return true;
+  });
+}
+
+module.exports = {
+  MIN_DRILL_TURNS,
+  MAX_DRILL_TURNS,
+  drillScenarioSchema,
+  DrillError,
+  pickDrillCriterion,
+  buildDrillRubric,
+  buildDrillPrompt,
+  loadDrillSource,
+  createDrillSession,
+  recordDrillCompletion,
+};
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for practice drills run as short simulations
+ */
+
+const {
+  drillScenarioSchema,
+  DrillError,
+  pickDrillCriterion,
+  buildDrillRubric,
+  buildDrillPrompt,
+  loadDrillSource,
+  recordDrillCompletion,
+} = require("./drills");
+const {validateScenarioDraft} = require("./scenarioGenerator");
+const {MockProvider} = require("./mockProvider");
+
+/**
+ * Minimal in-memory stand-in for the parts of Firestore drills use
+ * Documents are stored under "collection/id".
+ * @param {Object} docs - Initial documents keyed by path
+ * @return {Object} Fake db exposing the stored docs
+ */
+function fakeDb(docs = {}) {
+  const store = JSON.parse(JSON.stringify(docs));
+  const snapshot = (path) => ({
+    id: path.split("/")[1],
+    exists: path in store,
+    data: () => store[path],
+  });
+  return {
+    store,
+    collection: (name) => ({
+      doc: (id) => ({
+        path: `${name}/${id}`,
+        get: async () => snapshot(`${name}/${id}`),
+      }),
+    }),
+    runTransaction: async (work) => work({
+      get: async (ref) => snapshot(ref.path),
+      update: (ref, data) => {
+        store[ref.path] = {...store[ref.path], ...data};
+      },
+    }),
+  };
+}
+
+const rubric = {
+  criteria: [
+    {name: "Clarity", weight: 0.5, description: "Clear ask",
+      anchors: {1: "Vague", 3: "Mostly clear", 5: "Crisp"}},
+    {name: "Empathy", weight: 0.5, description: "Acknowledges concerns",
+      anchors: {1: "Dismissive", 3: "Polite", 5: "Attuned"}},
+  ],
+};
+
+const evaluation = {
+  userId: "user-1",
+  sessionId: "s1",
+  rubricId: "persuasion_director",
+  criterion_scores: [
+    {criterion: "Clarity", score: 4},
+    {criterion: "Empathy", score: 2},
+  ],
+  drills: [
+    {title: "Mirror", instructions: "Restate concerns", estimated_minutes: 5,
+      criterion: "Clarity"},
+    {title: "Listen", instructions: "Ask two questions", estimated_minutes: 5},
+  ],
+};
+
+describe("Practice Drills", () => {
+  test("should only accept short single-person scenarios", async () => {
+    const mock = new MockProvider();
+    const draft = async (turnLimit) => JSON.parse((await mock.complete({
+      task: "generation",
+      context: {brief: "Restate concerns back to a peer", turnLimit},
+    })).content);
+
+    const valid = await draft(3);
+    expect(validateScenarioDraft(valid, drillScenarioSchema)).toEqual([]);
+    expect(validateScenarioDraft(await draft(10), drillScenarioSchema))
+        .toEqual(["turnLimit must be at most 4 (got 10)"]);
+    expect(validateScenarioDraft({
+      ...valid,
+      stakeholders: [valid.stakeholders[0], valid.stakeholders[0]],
+    }, drillScenarioSchema))
+        .toEqual(["stakeholders must have at most 1 items"]);
+  });
+
+  test("should aim a drill at its criterion or the weakest one", () => {
+    expect(pickDrillCriterion(evaluation, evaluation.drills[0], rubric))
+        .toEqual({
+          name: "Clarity",
+          description: "Clear ask",
+          anchors: rubric.criteria[0].anchors,
+        });
+    expect(pickDrillCriterion(evaluation, evaluation.drills[1], rubric).name)
+        .toBe("Empathy");
+    expect(() => pickDrillCriterion({criterion_scores: []},
+        evaluation.drills[1], rubric)).toThrow(DrillError);
+  });
+
+  test("should score a drill on its criterion alone", () => {
+    const criterion = pickDrillCriterion(evaluation, evaluation.drills[1],
+        rubric);
+    const drill = {evaluationId: "e1", drillIndex: 1, title: "Listen",
+      criterion};
+
+    expect(buildDrillRubric(drill).criteria)
+        .toEqual([{...criterion, weight: 1}]);
+    expect(buildDrillPrompt(evaluation.drills[1], criterion, null))
+        .toMatch(/Skill being practised: Empathy/);
+  });
+
+  test("should hide other users' evaluations", async () => {
+    const db = fakeDb({"evaluations/e1": evaluation});
+
+    await expect(loadDrillSource(db, "e1", "user-2", 0))
+        .rejects.toMatchObject({code: "not-found"});
+    await expect(loadDrillSource(db, "e1", "user-1", 5))
+        .rejects.toThrow("Drill not found");
+
+    const source = await loadDrillSource(db, "e1", "user-1", 1);
+    expect(source).toMatchObject({drill: {title: "Listen"}, scenario: null});
+  });
+
+  test("should record a finished drill on its evaluation", async () => {
+    const db = fakeDb({"evaluations/e1": evaluation});
+    const drill = {evaluationId: "e1", drillIndex: 1};
+    const completion = {sessionId: "s2", evaluationId: "e2", score: 80};
+
+    expect(await recordDrillCompletion(db, drill, "user-2", completion))
+        .toBe(false);
+    expect(await recordDrillCompletion(db, drill, "user-1", completion))
+        .toBe(true);
+    expect(db.store["evaluations/e1"]["drillCompletions.1"])
+        .toMatchObject(completion);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Emotion Classifier
+ *
+ * EmotionalStateTracker decides how a user turn lands with a stakeholder
+ * from keyword rules, which miss paraphrases ("the money side is covered"
+ * never says "budget"). In classifier mode the LLM provider is asked for the
+ * same signals the rules produce, as a structured judgment of the latest
+ * user message. The tracker uses a confident judgment in place of the
+ * rules; the rules remain the fallback when the call fails or returns
+ * something unusable, and break the tie when the model is unsure.
+ *
+ * Every classified turn is compared with the rules and the disagreement is
+ * logged, per signal and as a running rate for the function instance.
+ *
+ * Configuration (environment variables):
+ * - EMOTION_CLASSIFIER: rules (default) | llm
+ */
+
+const {TASKS} = require("./llmProvider");
+const {EmotionalStateTracker} = require("./emotionalStateTracker");
+
+const CLASSIFIER_MODES = {
+  RULES: "rules",
+  LLM: "llm",
+};
+
+/**
+ * Signals the rules and the classifier both report
+ */
+const SIGNALS = ["concernsAddressed", "hasSpecifics", "hasEvidence",
+  "isVague"];
+
+// Recent messages shown to the classifier for context
+const CONTEXT_MESSAGES = 4;
+
+/**
+ * Whether the classifier is switched on
+ * @param {Object} env - Environment variables
+ * @return {boolean} True in llm mode
+ */
+function isClassifierEnabled(env = process.env) {
+  return (env.EMOTION_CLASSIFIER || CLASSIFIER_MODES.RULES)
+      .toLowerCase() === CLASSIFIER_MODES.LLM;
+}
+
+/**
+ * Latest user message in a transcript
+ * @param {Array} transcript - Conversation history
+ * @return {(Object|undefined)} Message
+ */
+function getLastUserMessage(transcript) {
+  return (transcript || []).filter((msg) => msg && msg.type === "user").pop();
+}
+
+/**
+ * Prompt asking for a judgment of the latest user message
+ * @param {Object} stakeholder - Stakeholder the message is addressed to
+ * @param {Array} transcript - Conversation ending in the user's message
+ * @return {string} Prompt
+ */
+function buildClassifierPrompt(stakeholder, transcript) {
+  const message = getLastUserMessage(transcript);
+  const recent = transcript.slice(-CONTEXT_MESSAGES - 1, -1)
+      .map((msg) => `${msg.type === "user" ? "User" : stakeholder.name}: \
+${msg.content}`)
+      .join("\n");
+  const concerns = (stakeholder.concerns || [])
+      .map((concern) => `- ${concern}`)
+      .join("\n");
+
+  return `You judge how a message in a workplace role-play lands with \
+${stakeholder.name}, ${stakeholder.role}.
+
+Their concerns:
+${concerns || "- (none listed)"}
+
+Recent conversation:
+${recent || "(this is the first message)"}
+
+Judge only the user's latest message:
+"${message ? message.content : ""}"
+
+Reply with a JSON object only:
+{
+  "concernsAddressed": [concerns from the list the message genuinely \
+addresses, even in other words, copied exactly],
+  "hasSpecifics": true if it gives numbers, dates, owners or concrete \
+examples,
+  "hasEvidence": true if it backs a claim with data or past results,
+  "isVague": true if it is short and non-committal or dodges the question,
+  "confident": false if the message is ambiguous and you are guessing,
+  "reason": "one short sentence"
+}`;
+}
+
+/**
+ * Read a judgment from the model's reply
+ * @param {string} content - Completion text
+ * @param {Array<string>} concerns - The stakeholder's concerns
+ * @return {(Object|null)} Judgment, or null when unusable
+ */
+function parseJudgment(content, concerns = []) {
+  let data;
+  try {
+    data = JSON.parse(String(content || "")
+        .replace(/^\s*```(?:json)?\s*/i, "")
+        .replace(/\s*```\s*$/, ""));
+  } catch (error) {
+    return null;
+  }
+
+  const flags = ["hasSpecifics", "hasEvidence", "isVague", "confident"];
+  if (!data || !Array.isArray(data.concernsAddressed) ||
+      flags.some((flag) => typeof data[flag] !== "boolean")) {
+    return null;
+  }
+
+  // Map the model's spelling back onto the stakeholder's own concerns
+  const byText = new Map(concerns.map((c) => [c.toLowerCase().trim(), c]));
+  const addressed = data.concernsAddressed
+      .filter((concern) => typeof concern === "string")
+      .map((concern) => byText.get(concern.toLowerCase().trim()))
+      .filter(Boolean);
+
+  return {
+    concernsAddressed: [...new Set(addressed)],
+    hasSpecifics: data.hasSpecifics,
+    hasEvidence: data.hasEvidence,
+    isVague: data.isVague,
+    confident: data.confident,
+    reason: typeof data.reason === "string" ? data.reason : "",
+  };
+}
+
+/**
+ * Signals on which the rules and the classifier disagree
+ * @param {Object} rules - Keyword-rule analysis
+ * @param {Object} judgment - Classifier judgment
+ * @return {Array<string>} Names from SIGNALS
+ */
+function compareAnalyses(rules, judgment) {
+  const sameConcerns = (a, b) =>
+    [...a].sort().join("|") === [...b].sort().join("|");
+
+  return SIGNALS.filter((signal) => signal === "concernsAddressed" ?
+    !sameConcerns(rules.concernsAddressed, judgment.concernsAddressed) :
+    rules[signal] !== judgment[signal]);
+}
+
+/**
+ * Empty disagreement counters
+ * @return {Object} {turns, disagreements, signals}
+ */
+function createDisagreementStats() {
+  return {
+    turns: 0,
+    disagreements: 0,
+    signals: Object.fromEntries(SIGNALS.map((signal) => [signal, 0])),
+  };
+}
+
+/**
+ * Count one classified turn
+ * @param {Object} stats - Counters from createDisagreementStats
+ * @param {Array<string>} signals - Signals that disagreed on the turn
+ */
+function recordDisagreement(stats, signals) {
+  stats.turns += 1;
+  if (signals.length > 0) {
+    stats.disagreements += 1;
+  }
+  signals.forEach((signal) => {
+    stats.signals[signal] += 1;
+  });
+}
+
+/**
+ * Disagreement rates for logging and reports
+ * @param {Object} stats - Counters from createDisagreementStats
+ * @return {Object} {turns, disagreementRate, signalRates}
+ */
+function summarizeDisagreement(stats) {
+  const rate = (count) => stats.turns === 0 ?
+    0 :
+    Math.round((count / stats.turns) * 100) / 100;
+
+  return {
+    turns: stats.turns,
+    disagreementRate: rate(stats.disagreements),
+    signalRates: Object.fromEntries(SIGNALS.map((signal) =>
+      [signal, rate(stats.signals[signal])])),
+  };
+}
+
+// Running totals for this function instance
+const instanceStats = createDisagreementStats();
+
+/**
+ * Ask the provider to judge the latest user message
+ * Returns null, so the caller falls back to the rules, when there is no
+ * user message or the call fails or returns something unusable.
+ * @param {Object} provider - LLM provider with complete()
+ * @param {Object} turn - {scenario, stakeholder, transcript, signal}
+ * @param {Object} stats - Disagreement counters to update
+ * @return {Promise<(Object|null)>} Judgment
+ */
+async function classifyTurn(provider, {scenario, stakeholder, transcript,
+  signal}, stats = instanceStats) {
+  const message = getLastUserMessage(transcript);
+  if (!message) {
+    return null;
+  }
+
+  let judgment;
+  try {
+    const completion = await provider.complete({
+      task: TASKS.CLASSIFICATION,
+      messages: [{
+        role: "user",
+        content: buildClassifierPrompt(stakeholder, transcript),
+      }],
+      maxTokens: 200,
+      temperature: 0,
+      signal,
+      context: {scenario, stakeholder, transcript},
+    });
+    judgment = parseJudgment(completion.content, stakeholder.concerns || []);
+  } catch (error) {
+    console.error("Emotion classifier failed, using rules:", {
+      error: error.message,
+      stakeholder: stakeholder.name,
+    });
+    return null;
+  }
+
+  if (!judgment) {
+    console.warn("Emotion classifier returned an unusable judgment, " +
+      "using rules:", {stakeholder: stakeholder.name});
+    return null;
+  }
+
+  const rules = new EmotionalStateTracker(stakeholder, scenario)
+      .analyzeMessage(message);
+  const disagreed = compareAnalyses(rules, judgment);
+  recordDisagreement(stats, disagreed);
+  console.log("Emotion classifier disagreement:", {
+    stakeholder: stakeholder.name,
+    disagreed,
+    confident: judgment.confident,
+    ...summarizeDisagreement(stats),
+  });
+
+  return judgment;
+}
+
+/**
+ * Classify every user turn of some conversations and measure how often the
+ * classifier disagrees with the rules
+ * @param {Object} provider - LLM provider with complete()
+ * @param {Array<Object>} cases - {scenario, stakeholder, transcript}
+ * @return {Promise<Object>} Summary from summarizeDisagreement, plus
+ *   unusable: turns where the classifier gave no judgment
+ */
+async function measureDisagreement(provider, cases) {
+  const stats = createDisagreementStats();
+  let unusable = 0;
+
+  for (const {scenario, stakeholder, transcript} of cases) {
+    for (let index = 0; index < transcript.length; index++) {
+      if (transcript[index].type !== "user") {
+        continue;
+      }
+      const judgment = await classifyTurn(provider, {
+        scenario,
+        stakeholder,
+        transcript: transcript.slice(0, index + 1),
+      }, stats);
+      if (!judgment) {
+        unusable += 1;
+      }
+    }
+  }
+
+  return {...summarizeDisagreement(stats), unusable};
+}
+
+module.exports = {
+  CLASSIFIER_MODES,
+  SIGNALS,
+  isClassifierEnabled,
+  buildClassifierPrompt,
+  parseJudgment,
+  compareAnalyses,
+  createDisagreementStats,
+  recordDisagreement,
+  summarizeDisagreement,
+  classifyTurn,
+  measureDisagreement,
+};
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the LLM emotion classifier and its rule fallback
+ */
+
+const {
+  parseJudgment,
+  compareAnalyses,
+  createDisagreementStats,
+  classifyTurn,
+  measureDisagreement,
+  isClassifierEnabled,
+} = require("./emotionClassifier");
+const {EmotionalStateTracker} = require("./emotionalStateTracker");
+const {sampleScenarios, sampleTranscripts} = require("./testFixtures");
+
+/**
+ * Provider that answers every classification with the same judgment
+ * @param {(Object|string|Error)} reply - Judgment, raw text or error
+ * @return {Object} Provider with complete()
+ */
+function fakeProvider(reply) {
+  return {
+    complete: jest.fn(async () => {
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return {
+        content: typeof reply === "string" ? reply : JSON.stringify(reply),
+      };
+    }),
+  };
+}
+
+const judgment = {
+  concernsAddressed: ["budget constraints"],
+  hasSpecifics: false,
+  hasEvidence: false,
+  isVague: false,
+  confident: true,
+  reason: "Says the money side is covered",
+};
+
+describe("Emotion Classifier", () => {
+  const stakeholder = {
+    name: "Sarah Kim",
+    role: "VP of Product",
+    personality: "analytical",
+    concerns: ["Budget constraints", "Team capacity"],
+    motivations: ["Deliver value"],
+  };
+  const scenario = {title: "Product Proposal", difficulty: "Medium"};
+  const paraphrase = [
+    {type: "user", content: "The money side is covered by finance already."},
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should be off unless EMOTION_CLASSIFIER is llm", () => {
+    expect(isClassifierEnabled({})).toBe(false);
+    expect(isClassifierEnabled({EMOTION_CLASSIFIER: "LLM"})).toBe(true);
+  });
+
+  test("should read fenced JSON and keep only the stakeholder's concerns",
+      () => {
+        const content = "```json\n" + JSON.stringify({
+          ...judgment,
+          concernsAddressed: ["BUDGET CONSTRAINTS", "Office snacks"],
+        }) + "\n```";
+
+        expect(parseJudgment(content, stakeholder.concerns))
+            .toEqual({...judgment, concernsAddressed: ["Budget constraints"]});
+        expect(parseJudgment("not json", stakeholder.concerns)).toBeNull();
+        expect(parseJudgment(JSON.stringify({...judgment, isVague: "no"}),
+            stakeholder.concerns)).toBeNull();
+      });
+
+  test("should let a confident judgment catch a paraphrase", () => {
+    const rulesOnly = new EmotionalStateTracker(stakeholder, scenario);
+    rulesOnly.replayTranscript(paraphrase);
+    expect(rulesOnly.getConcernsAddressed()).toEqual([]);
+
+    const classified = new EmotionalStateTracker(stakeholder, scenario);
+    classified.replayTranscript(paraphrase,
+        parseJudgment(JSON.stringify(judgment), stakeholder.concerns));
+    expect(classified.getConcernsAddressed()).toEqual(["Budget constraints"]);
+    expect(classified.getCurrentState()).toBe("curious");
+
+    const unsure = new EmotionalStateTracker(stakeholder, scenario);
+    unsure.replayTranscript(paraphrase, {...judgment, confident: false});
+    expect(unsure.getConcernsAddressed()).toEqual([]);
+  });
+
+  test("should replay the judgment stored with an earlier reply", () => {
+    const stored = parseJudgment(JSON.stringify(judgment),
+        stakeholder.concerns);
+    const transcript = [
+      ...paraphrase,
+      {type: "ai", content: "Good.", stakeholder: "Someone Else",
+        judgment: {...stored, concernsAddressed: []}},
+      {type: "ai", content: "Good to hear.", stakeholder: "Sarah Kim",
+        judgment: stored},
+      {type: "user", content: "Shall we talk about the rollout next?"},
+    ];
+
+    const tracker = new EmotionalStateTracker(stakeholder, scenario);
+    tracker.replayTranscript(transcript);
+
+    expect(tracker.getConcernsAddressed()).toEqual(["Budget constraints"]);
+  });
+
+  test("should count disagreements with the rules", async () => {
+    const stats = createDisagreementStats();
+    const result = await classifyTurn(fakeProvider(judgment),
+        {scenario, stakeholder, transcript: paraphrase}, stats);
+
+    expect(result.concernsAddressed).toEqual(["Budget constraints"]);
+    expect(stats).toEqual({
+      turns: 1,
+      disagreements: 1,
+      signals: {
+        concernsAddressed: 1,
+        hasSpecifics: 0,
+        hasEvidence: 0,
+        isVague: 1,
+      },
+    });
+    expect(compareAnalyses(
+        {...judgment, concernsAddressed: ["a", "b"]},
+        {...judgment, concernsAddressed: ["b", "a"]},
+    )).toEqual([]);
+  });
+
+  test("should fall back to the rules when the classifier fails", async () => {
+    const turn = {scenario, stakeholder, transcript: paraphrase};
+    const stats = createDisagreementStats();
+
+    expect(await classifyTurn(fakeProvider(new Error("timeout")), turn, stats))
+        .toBeNull();
+    expect(await classifyTurn(fakeProvider("I think they'd be pleased"),
+        turn, stats)).toBeNull();
+    expect(stats.turns).toBe(0);
+  });
+
+  test("should measure disagreement over the sample transcripts",
+      async () => {
+        const cases = Object.values(sampleTranscripts).map((transcript) => ({
+          scenario: sampleScenarios.budgetRequest,
+          stakeholder: sampleScenarios.budgetRequest.stakeholders[0],
+          transcript,
+        }));
+        const userTurns = Object.values(sampleTranscripts).flat()
+            .filter((msg) => msg.type === "user").length;
+
+        const summary = await measureDisagreement(fakeProvider({
+          ...judgment,
+          concernsAddressed: [],
+        }), cases);
+
+        expect(summary.turns).toBe(userTurns);
+        expect(summary.unusable).toBe(0);
+        expect(summary.disagreementRate).toBeGreaterThan(0);
+        expect(summary.disagreementRate).toBeLessThanOrEqual(1);
+      });
+});
@@ -7,6 +7,9 @@
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 4.4
  */
 
+const {getDifficultyProfile, getHiddenConcerns} =
+  require("./difficultyProfiles");
+
 /**
  * Emotional state definitions with characteristics
  */
@@ -48,6 +51,19 @@ const emotionalStates = {
   },
 };
 
+/**
+ * How positive each state is, from frustrated (1) to satisfied (7)
+ */
+const stateScores = {
+  frustrated: 1,
+  concerned: 2,
+  skeptical: 3,
+  neutral: 4,
+  curious: 5,
+  warming_up: 6,
+  satisfied: 7,
+};
+
 /**
  * State transition rules based on conversation patterns
  */
@@ -115,7 +131,10 @@ class EmotionalStateTracker {
       turn: 0,
       reason: 'Initial state',
     }];
+    this.difficulty = getDifficultyProfile(scenario.difficulty);
     this.concerns = stakeholder.concerns || [];
+    this.hiddenConcerns =
+      new Set(getHiddenConcerns(this.concerns, this.difficulty));
     this.concernsAddressed = new Set();
     this.concernsUnaddressed = new Set(this.concerns);
     this.lastUserMessageLength = 0;
@@ -125,9 +144,12 @@ class EmotionalStateTracker {
   /**
    * Analyze transcript and update emotional state
    * @param {Array} transcript - Conversation history
+   * @param {Object} judgment - Optional classifier judgment of the latest
+   *   user message (see emotionClassifier.js); used in place of the keyword
+   *   rules when the classifier is confident
    * @return {string} Updated emotional state
    */
-  analyzeTranscript(transcript) {
+  analyzeTranscript(transcript, judgment = null) {
     if (!transcript || transcript.length === 0) {
       return this.currentState;
     }
@@ -144,7 +166,9 @@ class EmotionalStateTracker {
       }
 
       // Analyze user message characteristics
-      const analysis = this._analyzeUserMessage(lastUserMessage, transcript);
+      const analysis = this._applyJudgment(
+          this._analyzeUserMessage(lastUserMessage, transcript), judgment);
+      this._recordAnalysis(analysis);
 
       // Determine state transition
       const newState = this._determineStateTransition(analysis);
@@ -162,6 +186,62 @@ class EmotionalStateTracker {
     }
   }
 
+  /**
+   * Replay a full transcript turn by turn
+   * analyzeTranscript() only looks at the latest user message, so a fresh
+   * tracker would forget earlier turns. Replaying every prefix that ends in
+   * a user message rebuilds the state history for the whole conversation.
+   * Earlier turns use the classifier judgment stored on this stakeholder's
+   * reply to them, so a paraphrase the classifier caught keeps counting.
+   * @param {Array} transcript - Conversation history
+   * @param {Object} judgment - Optional classifier judgment of the last
+   *   user message; without one its stored judgment is used, if any
+   * @return {string} Emotional state after the last user message
+   */
+  replayTranscript(transcript, judgment = null) {
+    if (!transcript || transcript.length === 0) {
+      return this.currentState;
+    }
+
+    let lastUserIndex = -1;
+    transcript.forEach((message, index) => {
+      if (message && message.type === "user") {
+        lastUserIndex = index;
+      }
+    });
+
+    transcript.forEach((message, index) => {
+      if (message && message.type === "user") {
+        const turnJudgment = index === lastUserIndex && judgment ?
+          judgment :
+          this._storedJudgment(transcript, index);
+        this.analyzeTranscript(transcript.slice(0, index + 1), turnJudgment);
+      }
+    });
+
+    return this.currentState;
+  }
+
+  /**
+   * Classifier judgment stored on this stakeholder's reply to a user message
+   * @param {Array} transcript - Conversation history
+   * @param {number} userIndex - Index of the user message
+   * @return {Object|null} Judgment, or null when the rules scored the turn
+   * @private
+   */
+  _storedJudgment(transcript, userIndex) {
+    for (const message of transcript.slice(userIndex + 1)) {
+      if (!message || message.type === "user") {
+        break;
+      }
+      if (message.type === "ai" && message.judgment &&
+          message.stakeholder === this.stakeholder.name) {
+        return message.judgment;
+      }
+    }
+    return null;
+  }
+
   /**
    * Analyze user message for state transition signals
    * @param {Object} message - User message object
@@ -181,17 +261,19 @@ class EmotionalStateTracker {
       reason: '',
     };
 
-    // Check if message addresses any concerns
+    // Check if message addresses any concerns; harder levels need more of
+    // the concern's keywords before it counts
+    const requiredMatches = wordCount > 30 ?
+      this.difficulty.detailedConcernKeywordMatches :
+      this.difficulty.concernKeywordMatches;
     for (const concern of this.concerns) {
       const concernKeywords = this._extractKeywords(concern);
       const matchCount = concernKeywords.filter(keyword => 
         content.includes(keyword.toLowerCase())
       ).length;
 
-      if (matchCount >= 2 || (matchCount >= 1 && wordCount > 30)) {
+      if (matchCount >= requiredMatches) {
         analysis.concernsAddressed.push(concern);
-        this.concernsAddressed.add(concern);
-        this.concernsUnaddressed.delete(concern);
       }
     }
 
@@ -212,29 +294,83 @@ class EmotionalStateTracker {
 
     // Check if message is vague
     analysis.isVague = wordCount < 15 && !analysis.hasSpecifics;
-    
-    if (analysis.isVague) {
-      this.vagueResponseCount++;
-    } else {
-      this.vagueResponseCount = 0;
-    }
 
-    // Determine primary reason for state change
+    analysis.reason = this._describeAnalysis(analysis);
+
+    return analysis;
+  }
+
+  /**
+   * Keyword-rule analysis of a user message, without changing any state
+   * @param {Object} message - User message object
+   * @return {Object} Analysis results
+   */
+  analyzeMessage(message) {
+    return this._analyzeUserMessage(message, [message]);
+  }
+
+  /**
+   * Primary reason for a state change
+   * @param {Object} analysis - Message analysis results
+   * @return {string} Reason
+   * @private
+   */
+  _describeAnalysis(analysis) {
     if (analysis.concernsAddressed.length > 0) {
-      analysis.reason = `Addressed concern: ${analysis.concernsAddressed[0]}`;
+      return `Addressed concern: ${analysis.concernsAddressed[0]}`;
     } else if (analysis.hasEvidence) {
-      analysis.reason = 'Provided evidence and data';
+      return "Provided evidence and data";
     } else if (analysis.hasSpecifics) {
-      analysis.reason = 'Provided specific details';
+      return "Provided specific details";
     } else if (analysis.isVague) {
-      analysis.reason = 'Vague or insufficient response';
-    } else {
-      analysis.reason = 'General response';
+      return "Vague or insufficient response";
+    }
+    return "General response";
+  }
+
+  /**
+   * Let a confident classifier judgment replace the keyword rules
+   * When the classifier is unsure, the rules break the tie.
+   * @param {Object} rules - Keyword-rule analysis
+   * @param {Object} judgment - Classifier judgment, or null
+   * @return {Object} Analysis to apply
+   * @private
+   */
+  _applyJudgment(rules, judgment) {
+    if (!judgment || !judgment.confident) {
+      return rules;
     }
 
+    const analysis = {
+      concernsAddressed: judgment.concernsAddressed
+          .filter((concern) => this.concerns.includes(concern)),
+      hasSpecifics: judgment.hasSpecifics,
+      isVague: judgment.isVague,
+      hasEvidence: judgment.hasEvidence,
+      reason: "",
+    };
+    analysis.reason = this._describeAnalysis(analysis);
     return analysis;
   }
 
+  /**
+   * Record what a user message addressed
+   * @param {Object} analysis - Analysis being applied
+   * @private
+   */
+  _recordAnalysis(analysis) {
+    analysis.concernsAddressed.forEach((concern) => {
+      this.concernsAddressed.add(concern);
+      this.concernsUnaddressed.delete(concern);
+    });
+
+    if (analysis.isVague) {
+      this.vagueResponseCount++;
+    } else {
+      this.vagueResponseCount = 0;
+    }
+  }
+
   /**
    * Extract keywords from a concern string
    * @param {string} concern - Concern text
@@ -266,7 +402,8 @@ class EmotionalStateTracker {
     const current = this.currentState;
 
     // Multiple concerns addressed -> satisfied
-    if (this.concernsAddressed.size >= Math.ceil(this.concerns.length * 0.6)) {
+    if (this.concernsAddressed.size >=
+        Math.ceil(this.concerns.length * this.difficulty.satisfiedShare)) {
       if (current === 'warming_up' || current === 'curious') {
         return 'satisfied';
       }
@@ -298,7 +435,7 @@ class EmotionalStateTracker {
 
     // Vague responses -> skeptical or frustrated
     if (analysis.isVague) {
-      if (this.vagueResponseCount >= 2) {
+      if (this.vagueResponseCount >= this.difficulty.vagueRepliesBeforeUpset) {
         if (current === 'concerned' || current === 'skeptical') {
           return 'frustrated';
         }
@@ -310,7 +447,7 @@ class EmotionalStateTracker {
 
     // Concerns not being addressed -> concerned or frustrated
     if (this.concernsUnaddressed.size === this.concerns.length && 
-        this.stateHistory.length > 3) {
+        this.stateHistory.length > this.difficulty.patience) {
       if (current === 'neutral' || current === 'curious') {
         return 'concerned';
       }
@@ -371,6 +508,38 @@ class EmotionalStateTracker {
     return Array.from(this.concernsUnaddressed);
   }
 
+  /**
+   * Get concerns the stakeholder keeps to themselves at this difficulty
+   * @return {Array<string>} List of hidden concerns
+   */
+  getHiddenConcerns() {
+    return Array.from(this.hiddenConcerns);
+  }
+
+  /**
+   * Stop keeping concerns to yourself once the user has asked about them
+   * @param {Array<string>} concerns - Concerns the user uncovered
+   */
+  revealConcerns(concerns) {
+    (concerns || []).forEach((concern) => this.hiddenConcerns.delete(concern));
+  }
+
+  /**
+   * Get the state shown to the user alongside a reply
+   * Concerns the stakeholder is still keeping to themselves are left out,
+   * so the snapshot never gives away what hasn't been said.
+   * @return {Object} State, trajectory and addressed/unaddressed concerns
+   */
+  getSnapshot() {
+    const spoken = (concern) => !this.hiddenConcerns.has(concern);
+    return {
+      state: this.currentState,
+      trajectory: this.getTrajectory(),
+      concernsAddressed: this.getConcernsAddressed().filter(spoken),
+      concernsUnaddressed: this.getConcernsUnaddressed().filter(spoken),
+    };
+  }
+
   /**
    * Get state instructions for prompt engineering
    * @return {string} Instructions for AI model based on current state
@@ -445,14 +614,27 @@ class EmotionalStateTracker {
     instructions += '\nConcern Status:\n';
     instructions += `- ${concernsAddressedCount} of ${concernsTotal} concerns addressed\n`;
     
-    if (this.concernsUnaddressed.size > 0) {
+    const openConcerns = Array.from(this.concernsUnaddressed)
+        .filter((concern) => !this.hiddenConcerns.has(concern));
+    const privateConcerns = Array.from(this.concernsUnaddressed)
+        .filter((concern) => this.hiddenConcerns.has(concern));
+
+    if (openConcerns.length > 0) {
       instructions += '- Unaddressed concerns:\n';
-      Array.from(this.concernsUnaddressed).forEach(concern => {
+      openConcerns.forEach((concern) => {
         instructions += `  • ${concern}\n`;
       });
       instructions += '- Naturally bring up unaddressed concerns when relevant\n';
     }
 
+    if (privateConcerns.length > 0) {
+      instructions +=
+        "- Concerns you keep to yourself unless the user asks about them:\n";
+      privateConcerns.forEach((concern) => {
+        instructions += `  • ${concern}\n`;
+      });
+    }
+
     if (this.concernsAddressed.size > 0) {
       instructions += '- Addressed concerns:\n';
       Array.from(this.concernsAddressed).forEach(concern => {
@@ -472,17 +654,6 @@ class EmotionalStateTracker {
       return 'stable';
     }
 
-    // Define state positivity scores
-    const stateScores = {
-      frustrated: 1,
-      concerned: 2,
-      skeptical: 3,
-      neutral: 4,
-      curious: 5,
-      warming_up: 6,
-      satisfied: 7,
-    };
-
     const recentStates = this.stateHistory.slice(-3);
     const scores = recentStates.map(s => stateScores[s.state] || 4);
 
@@ -505,5 +676,6 @@ class EmotionalStateTracker {
 module.exports = {
   EmotionalStateTracker,
   emotionalStates,
+  stateScores,
   stateTransitions,
 };
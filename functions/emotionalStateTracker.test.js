@@ -345,4 +345,57 @@ describe('EmotionalStateTracker', () => {
       expect(history[1].turn).toBe(5);
     });
   });
+
+  describe("Transcript Replay", () => {
+    test("should accumulate addressed concerns across earlier turns", () => {
+      const tracker = new EmotionalStateTracker(stakeholder, scenario);
+      tracker.replayTranscript([
+        {type: "user",
+          content: "We can cover budget constraints with the Q3 allocation."},
+        {type: "ai", content: "Okay, and the timeline?"},
+        {type: "user",
+          content: "Timeline feasibility is fine: the plan takes 6 weeks."},
+        {type: "ai", content: "Go on."},
+      ]);
+
+      expect(tracker.getConcernsAddressed()).toEqual(
+          expect.arrayContaining(
+              ["Budget constraints", "Timeline feasibility"]),
+      );
+      expect(tracker.getConcernsUnaddressed()).toEqual(["Team capacity"]);
+    });
+
+    test("should return current state for empty transcript", () => {
+      const tracker = new EmotionalStateTracker(stakeholder, scenario);
+      expect(tracker.replayTranscript([])).toBe("neutral");
+    });
+  });
+
+  describe("Snapshot", () => {
+    test("should report state and concerns without hidden ones", () => {
+      const tracker = new EmotionalStateTracker(stakeholder,
+          {...scenario, difficulty: "Hard"});
+      tracker.replayTranscript([
+        {
+          type: "user",
+          content: "We can cover the budget constraints with the existing " +
+            "Q3 allocation, because finance already set aside money for " +
+            "exactly this kind of pilot, and the spend stays well under the " +
+            "threshold that needs a separate approval from the leadership " +
+            "team.",
+        },
+      ]);
+
+      expect(tracker.getSnapshot()).toEqual({
+        state: tracker.getCurrentState(),
+        trajectory: tracker.getTrajectory(),
+        concernsAddressed: ["Budget constraints"],
+        concernsUnaddressed: ["Timeline feasibility"],
+      });
+
+      tracker.revealConcerns(["Team capacity"]);
+      expect(tracker.getSnapshot().concernsUnaddressed)
+          .toEqual(["Timeline feasibility", "Team capacity"]);
+    });
+  });
 });
@@ -0,0 +1,374 @@
+/**
+ * Evaluation Schema
+ *
+ * Validates the evaluation JSON the model returns against the shape of the
+ * Evaluation interface in src/types/models.ts, plus the rules that depend on
+ * the session: every rubric criterion scored exactly once, scores of 1-5,
+ * weights summing to 1 and moments pointing at real transcript turns.
+ * Invalid output gets a bounded number of repair attempts; if none passes,
+ * the result is marked degraded instead of being given a made-up score.
+ * The overall score of a valid evaluation is computed in scoring.js.
+ */
+
+const {scoreCriteria} = require("./scoring");
+
+/**
+ * Field rules mirroring Evaluation (minus the fields the server adds)
+ */
+const evaluationSchema = {
+  holistic_score: {type: "number", min: 0, max: 100, optional: true},
+  criterion_scores: {
+    type: "array",
+    fields: {
+      criterion: {type: "string"},
+      weight: {type: "number", min: 0, max: 1},
+      score: {type: "number", min: 1, max: 5},
+      evidence: {type: "array", items: {type: "string"}},
+    },
+  },
+  moments_that_mattered: {
+    type: "array",
+    fields: {
+      turn: {type: "integer", min: 1},
+      description: {type: "string"},
+      why: {type: "string"},
+    },
+  },
+  missed_opportunities: {
+    type: "array",
+    fields: {
+      criterion: {type: "string"},
+      what: {type: "string"},
+      how_to_improve: {type: "string"},
+    },
+  },
+  drills: {
+    type: "array",
+    fields: {
+      title: {type: "string"},
+      instructions: {type: "string"},
+      estimated_minutes: {type: "number", min: 1},
+      criterion: {type: "string", optional: true},
+    },
+  },
+  reflection_prompt: {type: "string"},
+};
+
+// Rounding slack allowed when the criterion weights are summed
+const WEIGHT_SUM_TOLERANCE = 0.01;
+
+// Extra model calls made to fix invalid output before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Pull the JSON object out of a model response, tolerating code fences
+ * and prose around it
+ * @param {string} text - Model response text
+ * @return {{value: (Object|null), error: (string|null)}} Parsed object or
+ *   the reason it could not be parsed
+ */
+function extractJson(text) {
+  if (typeof text !== "string" || !text.trim()) {
+    return {value: null, error: "Response was empty"};
+  }
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return {value: null, error: "Response did not contain a JSON object"};
+  }
+
+  try {
+    const value = JSON.parse(text.slice(start, end + 1));
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return {value: null, error: "Response JSON was not an object"};
+    }
+    return {value, error: null};
+  } catch (error) {
+    return {
+      value: null,
+      error: `Response was not valid JSON: ${error.message}`,
+    };
+  }
+}
+
+/**
+ * Check one value against a field rule
+ * @param {*} value - Value to check
+ * @param {Object} rule - Field rule ({type, optional} plus min/max for
+ *   numbers, values for strings, fields for objects, and items or fields
+ *   with minItems/maxItems for arrays)
+ * @param {string} path - Path used in error messages
+ * @param {Array<string>} errors - Collected errors
+ */
+function checkField(value, rule, path, errors) {
+  if (rule.type === "array") {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be an array`);
+      return;
+    }
+    if (rule.minItems !== undefined && value.length < rule.minItems) {
+      errors.push(`${path} must have at least ${rule.minItems} items`);
+    }
+    if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+      errors.push(`${path} must have at most ${rule.maxItems} items`);
+    }
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (rule.items) {
+        checkField(item, rule.items, itemPath, errors);
+      } else {
+        checkObject(item, rule.fields, itemPath, errors);
+      }
+    });
+    return;
+  }
+
+  if (rule.type === "object") {
+    checkObject(value, rule.fields, path, errors);
+    return;
+  }
+
+  if (rule.type === "boolean") {
+    if (typeof value !== "boolean") {
+      errors.push(`${path} must be true or false`);
+    }
+    return;
+  }
+
+  if (rule.type === "string") {
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push(`${path} must be a non-empty string`);
+    } else if (rule.values && !rule.values.includes(value)) {
+      errors.push(`${path} must be one of ${rule.values.join(", ")} ` +
+        `(got "${value}")`);
+    }
+    return;
+  }
+
+  const isNumber = typeof value === "number" && Number.isFinite(value);
+  if (!isNumber || (rule.type === "integer" && !Number.isInteger(value))) {
+    errors.push(`${path} must be ${rule.type === "integer" ?
+      "an integer" : "a number"}`);
+    return;
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    errors.push(`${path} must be at least ${rule.min} (got ${value})`);
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    errors.push(`${path} must be at most ${rule.max} (got ${value})`);
+  }
+}
+
+/**
+ * Check every field of an object against its rules
+ * @param {*} value - Object to check
+ * @param {Object} fields - Field rules keyed by field name
+ * @param {string} path - Path used in error messages
+ * @param {Array<string>} errors - Collected errors
+ */
+function checkObject(value, fields, path, errors) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push(`${path || "evaluation"} must be an object`);
+    return;
+  }
+  Object.entries(fields).forEach(([name, rule]) => {
+    const fieldPath = path ? `${path}.${name}` : name;
+    if (value[name] === undefined || value[name] === null) {
+      if (!rule.optional) {
+        errors.push(`${fieldPath} is required`);
+      }
+      return;
+    }
+    checkField(value[name], rule, fieldPath, errors);
+  });
+}
+
+/**
+ * Validate an evaluation against the schema and the session it scores
+ * @param {Object} evaluation - Parsed evaluation
+ * @param {Object} session - What the evaluation must agree with
+ * @param {Object} session.rubric - Rubric used ({criteria: [{name}]})
+ * @param {number} session.transcriptLength - Number of transcript messages
+ * @return {Array<string>} Validation errors, empty when valid
+ */
+function validateEvaluation(evaluation, {rubric, transcriptLength}) {
+  const errors = [];
+  checkObject(evaluation, evaluationSchema, "", errors);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const expected = ((rubric && rubric.criteria) || []).map((c) => c.name);
+  const seen = new Set();
+  evaluation.criterion_scores.forEach((score, index) => {
+    const name = canonicalCriterion(score.criterion, expected);
+    if (!name) {
+      errors.push(`criterion_scores[${index}].criterion "${score.criterion}" ` +
+        `is not in the rubric (${expected.join(", ")})`);
+    } else if (seen.has(name)) {
+      errors.push(`criterion_scores has "${name}" more than once`);
+    } else {
+      seen.add(name);
+    }
+  });
+  expected
+      .filter((name) => !seen.has(name))
+      .forEach((name) => errors.push(`criterion_scores is missing "${name}"`));
+
+  const weightSum = evaluation.criterion_scores
+      .reduce((total, score) => total + score.weight, 0);
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_TOLERANCE) {
+    errors.push("criterion_scores weights must sum to 1 " +
+      `(got ${Number(weightSum.toFixed(3))})`);
+  }
+
+  evaluation.moments_that_mattered.forEach((moment, index) => {
+    if (moment.turn > transcriptLength) {
+      errors.push(`moments_that_mattered[${index}].turn ${moment.turn} is ` +
+        `outside the transcript (1-${transcriptLength})`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Rubric name a criterion refers to, ignoring case and outer whitespace
+ * @param {string} criterion - Criterion name from the model
+ * @param {Array<string>} names - Rubric criterion names
+ * @return {(string|undefined)} Matching rubric name
+ */
+function canonicalCriterion(criterion, names) {
+  const wanted = String(criterion).trim().toLowerCase();
+  return names.find((name) => name.toLowerCase() === wanted);
+}
+
+/**
+ * Copy of a valid evaluation restricted to schema fields, with criterion
+ * names (in scores and drills) spelled exactly as in the rubric and the
+ * overall score computed
+ * from the weighted criteria. The model's own 0-100 opinion is kept as
+ * holistic_score (older prompts called it overall_score).
+ * @param {Object} evaluation - Evaluation that passed validateEvaluation
+ * @param {Object} rubric - Rubric used
+ * @return {Object} Normalized evaluation
+ */
+function normalizeEvaluation(evaluation, rubric) {
+  const names = rubric.criteria.map((c) => c.name);
+  const normalized = {};
+  Object.keys(evaluationSchema).forEach((field) => {
+    if (evaluation[field] !== undefined && evaluation[field] !== null) {
+      normalized[field] = evaluation[field];
+    }
+  });
+
+  const legacyScore = evaluation.overall_score;
+  if (normalized.holistic_score === undefined &&
+      typeof legacyScore === "number" && legacyScore >= 0 &&
+      legacyScore <= 100) {
+    normalized.holistic_score = legacyScore;
+  }
+
+  const {criterion_scores: criterionScores, overall_score: overallScore} =
+    scoreCriteria(evaluation.criterion_scores.map((score) => ({
+      criterion: canonicalCriterion(score.criterion, names),
+      weight: score.weight,
+      score: score.score,
+      evidence: score.evidence,
+    })), rubric);
+
+  // A drill that names no rubric criterion is kept without one; starting
+  // it then targets the lowest-scored criterion instead
+  normalized.drills = evaluation.drills.map((drill) => {
+    const {criterion, ...rest} = drill;
+    const name = criterion && canonicalCriterion(criterion, names);
+    return name ? {...rest, criterion: name} : rest;
+  });
+  normalized.criterion_scores = criterionScores;
+  normalized.overall_score = overallScore;
+  normalized.degraded = false;
+  return normalized;
+}
+
+/**
+ * Evaluation returned when no attempt produced valid output. It carries no
+ * scores: a number here would look real in progress stats.
+ * @param {Array<string>} errors - Errors from the last attempt
+ * @return {Object} Degraded evaluation
+ */
+function createDegradedEvaluation(errors) {
+  return {
+    overall_score: null,
+    criterion_scores: [],
+    moments_that_mattered: [],
+    missed_opportunities: [],
+    drills: [],
+    reflection_prompt: "What could you have done differently?",
+    degraded: true,
+    validation_errors: errors,
+  };
+}
+
+/**
+ * Follow-up message asking the model to fix its previous answer
+ * @param {Array<string>} errors - Validation errors to fix
+ * @return {string} Repair prompt
+ */
+function buildRepairPrompt(errors) {
+  return `Your evaluation could not be accepted:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply with the corrected evaluation as a single JSON object in the same \
+format, with no other text.`;
+}
+
+/**
+ * Request an evaluation, re-asking the model to fix invalid output up to
+ * maxRepairs times
+ * @param {Object} provider - LLM provider ({complete})
+ * @param {Object} request - Completion request for the first attempt
+ * @param {Object} session - {rubric, transcriptLength} to validate against
+ * @param {number} maxRepairs - Repair attempts after the first call
+ * @param {Function} onAttempt - Called with the messages sent and the
+ *   completion received for each attempt, repairs included
+ * @return {Promise<Object>} Normalized or degraded evaluation
+ */
+async function requestValidatedEvaluation(provider, request, session,
+    maxRepairs = MAX_REPAIR_ATTEMPTS, onAttempt = () => {}) {
+  const messages = [...request.messages];
+  let errors = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const completion = await provider.complete({...request, messages});
+    onAttempt([...messages], completion);
+    const parsed = extractJson(completion.content);
+    errors = parsed.error ?
+      [parsed.error] :
+      validateEvaluation(parsed.value, session);
+
+    if (errors.length === 0) {
+      return normalizeEvaluation(parsed.value, session.rubric);
+    }
+
+    console.warn(`Evaluation attempt ${attempt} failed validation:`, errors);
+    messages.push(
+        {role: "assistant", content: completion.content || ""},
+        {role: "user", content: buildRepairPrompt(errors)},
+    );
+  }
+
+  return createDegradedEvaluation(errors);
+}
+
+module.exports = {
+  evaluationSchema,
+  MAX_REPAIR_ATTEMPTS,
+  extractJson,
+  checkObject,
+  validateEvaluation,
+  normalizeEvaluation,
+  createDegradedEvaluation,
+  buildRepairPrompt,
+  requestValidatedEvaluation,
+};
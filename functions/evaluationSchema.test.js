@@ -0,0 +1,254 @@
+/**
+ * Unit tests for evaluation schema validation and repair retries
+ */
+
+const {
+  extractJson,
+  validateEvaluation,
+  normalizeEvaluation,
+  requestValidatedEvaluation,
+  MAX_REPAIR_ATTEMPTS,
+} = require("./evaluationSchema");
+const {MockProvider} = require("./mockProvider");
+
+describe("Evaluation Schema", () => {
+  const rubric = {
+    criteria: [
+      {name: "Clarity", weight: 0.6},
+      {name: "Empathy", weight: 0.4},
+    ],
+  };
+  const session = {rubric, transcriptLength: 4};
+
+  const validEvaluation = () => ({
+    holistic_score: 72,
+    criterion_scores: [
+      {criterion: "Clarity", weight: 0.6, score: 4, evidence: ["Turn 2"]},
+      {criterion: "Empathy", weight: 0.4, score: 3, evidence: ["Turn 4"]},
+    ],
+    moments_that_mattered: [
+      {turn: 2, description: "Clear ask", why: "Set expectations"},
+    ],
+    missed_opportunities: [
+      {criterion: "Empathy", what: "No check-in", how_to_improve: "Ask"},
+    ],
+    drills: [
+      {title: "Mirror", instructions: "Restate concerns", estimated_minutes: 5},
+    ],
+    reflection_prompt: "What did they need to hear?",
+  });
+
+  describe("extractJson", () => {
+    test("should parse JSON wrapped in a code fence", () => {
+      const {value, error} = extractJson("```json\n{\"a\": 1}\n```");
+      expect(error).toBeNull();
+      expect(value).toEqual({a: 1});
+    });
+
+    test("should report responses without JSON", () => {
+      expect(extractJson("I cannot evaluate this.").error)
+          .toMatch(/did not contain a JSON object/);
+      expect(extractJson("").error).toMatch(/empty/);
+      expect(extractJson("{\"a\": }").error).toMatch(/not valid JSON/);
+    });
+  });
+
+  describe("validateEvaluation", () => {
+    test("should accept a complete evaluation", () => {
+      expect(validateEvaluation(validEvaluation(), session)).toEqual([]);
+    });
+
+    test("should accept criterion names in a different case", () => {
+      const evaluation = validEvaluation();
+      evaluation.criterion_scores[0].criterion = "clarity ";
+      expect(validateEvaluation(evaluation, session)).toEqual([]);
+    });
+
+    test("should treat holistic_score as optional", () => {
+      const evaluation = validEvaluation();
+      delete evaluation.holistic_score;
+      expect(validateEvaluation(evaluation, session)).toEqual([]);
+    });
+
+    test("should report missing fields with their path", () => {
+      const evaluation = validEvaluation();
+      delete evaluation.reflection_prompt;
+      delete evaluation.criterion_scores[1].evidence;
+      expect(validateEvaluation(evaluation, session)).toEqual([
+        "criterion_scores[1].evidence is required",
+        "reflection_prompt is required",
+      ]);
+    });
+
+    test("should reject scores outside 1-5", () => {
+      const evaluation = validEvaluation();
+      evaluation.criterion_scores[0].score = 7;
+      evaluation.criterion_scores[1].score = 0;
+      expect(validateEvaluation(evaluation, session)).toEqual([
+        "criterion_scores[0].score must be at most 5 (got 7)",
+        "criterion_scores[1].score must be at least 1 (got 0)",
+      ]);
+    });
+
+    test("should require every rubric criterion exactly once", () => {
+      const evaluation = validEvaluation();
+      evaluation.criterion_scores[1] = {
+        ...evaluation.criterion_scores[1],
+        criterion: "Charisma",
+      };
+      const errors = validateEvaluation(evaluation, session);
+      expect(errors).toContain(
+          "criterion_scores[1].criterion \"Charisma\" is not in the rubric " +
+          "(Clarity, Empathy)");
+      expect(errors).toContain("criterion_scores is missing \"Empathy\"");
+    });
+
+    test("should require weights to sum to 1", () => {
+      const evaluation = validEvaluation();
+      evaluation.criterion_scores[1].weight = 0.2;
+      expect(validateEvaluation(evaluation, session)).toEqual([
+        "criterion_scores weights must sum to 1 (got 0.8)",
+      ]);
+    });
+
+    test("should reject turns outside the transcript", () => {
+      const evaluation = validEvaluation();
+      evaluation.moments_that_mattered.push(
+          {turn: 9, description: "Late", why: "Invented"});
+      expect(validateEvaluation(evaluation, session)).toEqual([
+        "moments_that_mattered[1].turn 9 is outside the transcript (1-4)",
+      ]);
+    });
+  });
+
+  describe("normalizeEvaluation", () => {
+    test("should compute the overall score from rubric weights", () => {
+      const evaluation = validEvaluation();
+      evaluation.criterion_scores[0].weight = 0.5;
+      evaluation.criterion_scores[1].weight = 0.5;
+
+      const normalized = normalizeEvaluation(evaluation, rubric);
+
+      expect(normalized.criterion_scores.map((c) => c.weight))
+          .toEqual([0.6, 0.4]);
+      expect(normalized.criterion_scores.map((c) => c.contribution))
+          .toEqual([45, 20]);
+      expect(normalized.overall_score).toBe(65);
+    });
+
+    test("should keep an overall_score from the model as holistic", () => {
+      const evaluation = validEvaluation();
+      delete evaluation.holistic_score;
+      evaluation.overall_score = 90;
+
+      const normalized = normalizeEvaluation(evaluation, rubric);
+
+      expect(normalized.holistic_score).toBe(90);
+      expect(normalized.overall_score).toBe(65);
+    });
+
+    test("should spell drill criteria as in the rubric", () => {
+      const evaluation = validEvaluation();
+      evaluation.drills = [
+        {...evaluation.drills[0], criterion: " empathy"},
+        {...evaluation.drills[0], criterion: "Charisma"},
+      ];
+
+      const normalized = normalizeEvaluation(evaluation, rubric);
+
+      expect(normalized.drills[0].criterion).toBe("Empathy");
+      expect(normalized.drills[1]).not.toHaveProperty("criterion");
+    });
+  });
+
+  describe("requestValidatedEvaluation", () => {
+    const scriptedProvider = (...replies) => ({
+      complete: jest.fn()
+          .mockImplementation(async () => ({content: replies.shift()})),
+    });
+    const request = {
+      task: "evaluation",
+      messages: [{role: "user", content: "Evaluate"}],
+    };
+
+    test("should return the first valid evaluation", async () => {
+      const provider = scriptedProvider(JSON.stringify(validEvaluation()));
+      const evaluation = await requestValidatedEvaluation(
+          provider, request, session);
+
+      expect(provider.complete).toHaveBeenCalledTimes(1);
+      expect(evaluation.degraded).toBe(false);
+      // 0.6 * 75 + 0.4 * 50, not the model's holistic 72
+      expect(evaluation.overall_score).toBe(65);
+      expect(evaluation.holistic_score).toBe(72);
+    });
+
+    test("should send errors back and accept the repaired output", async () => {
+      const broken = validEvaluation();
+      broken.criterion_scores[0].score = 9;
+      const provider = scriptedProvider(
+          JSON.stringify(broken),
+          JSON.stringify(validEvaluation()),
+      );
+
+      const evaluation = await requestValidatedEvaluation(
+          provider, request, session);
+
+      expect(provider.complete).toHaveBeenCalledTimes(2);
+      const repairMessages = provider.complete.mock.calls[1][0].messages;
+      expect(repairMessages).toHaveLength(3);
+      expect(repairMessages[1].role).toBe("assistant");
+      expect(repairMessages[2].content)
+          .toMatch(/criterion_scores\[0\]\.score must be at most 5/);
+      expect(evaluation.degraded).toBe(false);
+      // The caller's message list is left untouched
+      expect(request.messages).toHaveLength(1);
+    });
+
+    test("should report each attempt's messages and usage", async () => {
+      const usage = {promptTokens: 10, completionTokens: 5, totalTokens: 15};
+      const replies = ["not json", JSON.stringify(validEvaluation())];
+      const provider = {
+        complete: async () => ({content: replies.shift(), usage}),
+      };
+      const onAttempt = jest.fn();
+
+      await requestValidatedEvaluation(
+          provider, request, session, MAX_REPAIR_ATTEMPTS, onAttempt);
+
+      expect(onAttempt).toHaveBeenCalledTimes(2);
+      expect(onAttempt.mock.calls[0][0]).toHaveLength(1);
+      expect(onAttempt.mock.calls[1][0]).toHaveLength(3);
+      expect(onAttempt.mock.calls[1][1].usage).toBe(usage);
+    });
+
+    test("should give up after the repair budget and mark it degraded",
+        async () => {
+          const provider = scriptedProvider(
+              ...Array(MAX_REPAIR_ATTEMPTS + 1).fill("not json"));
+
+          const evaluation = await requestValidatedEvaluation(
+              provider, request, session);
+
+          expect(provider.complete)
+              .toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS + 1);
+          expect(evaluation.degraded).toBe(true);
+          expect(evaluation.overall_score).toBeNull();
+          expect(evaluation.criterion_scores).toEqual([]);
+          expect(evaluation.validation_errors[0]).toMatch(/JSON object/);
+        });
+
+    test("should accept the scripted mock provider's evaluation", async () => {
+      const transcript = [
+        {type: "ai", content: "Hello"},
+        {type: "user", content: "Hi"},
+      ];
+      const evaluation = await requestValidatedEvaluation(
+          new MockProvider(),
+          {...request, context: {scenario: {id: "x"}, transcript, rubric}},
+          {rubric, transcriptLength: transcript.length},
+      );
+      expect(evaluation.degraded).toBe(false);
+    });
+  });
+});
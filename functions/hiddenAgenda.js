@@ -0,0 +1,235 @@
+/**
+ * Hidden Agenda
+ *
+ * Stakeholders can carry hiddenConcerns and hiddenMotivations the learner
+ * is never shown, and harder difficulties hold back some of their public
+ * concerns too (difficultyProfiles.js). A stakeholder keeps each item to
+ * themselves until the user asks a discovery question about it, as
+ * detected by ContextAnalyzer, and replies to it. Items revealed on a turn
+ * are returned with the stakeholder's reply, and the evaluation scores how
+ * much of the agenda the user uncovered.
+ */
+
+const {ContextAnalyzer} = require("./contextAnalyzer");
+const {getDifficultyProfile, getHiddenConcerns} =
+  require("./difficultyProfiles");
+
+/**
+ * Normalize a hidden item from a scenario
+ * @param {(string|Object)} item - Item text or {text, revealWhen}
+ * @return {Object} {text, revealWhen}
+ */
+function toHiddenItem(item) {
+  if (typeof item === "string") {
+    return {text: item, revealWhen: []};
+  }
+  return {
+    text: String((item && item.text) || ""),
+    revealWhen: Array.isArray(item && item.revealWhen) ? item.revealWhen : [],
+  };
+}
+
+/**
+ * Everything one stakeholder keeps to themselves at the given difficulty
+ * @param {Object} stakeholder - Stakeholder from the scenario
+ * @param {string} difficulty - Scenario difficulty
+ * @return {Array<Object>} Items as {stakeholder, kind, text, revealWhen},
+ *   kind being "concern" or "motivation"
+ */
+function getHiddenAgenda(stakeholder, difficulty) {
+  const withheld = getHiddenConcerns(stakeholder.concerns,
+      getDifficultyProfile(difficulty));
+  const items = [
+    ...withheld.map((text) => ({kind: "concern", ...toHiddenItem(text)})),
+    ...(stakeholder.hiddenConcerns || [])
+        .map((item) => ({kind: "concern", ...toHiddenItem(item)})),
+    ...(stakeholder.hiddenMotivations || [])
+        .map((item) => ({kind: "motivation", ...toHiddenItem(item)})),
+  ];
+  return items
+      .filter((item) => item.text.trim().length > 0)
+      .map((item) => ({stakeholder: stakeholder.name, ...item}));
+}
+
+/**
+ * Everything the scenario's stakeholders keep to themselves
+ * @param {Object} scenario - Scenario with stakeholders and difficulty
+ * @return {Array<Object>} Hidden items for every stakeholder
+ */
+function getScenarioHiddenAgenda(scenario) {
+  return (scenario.stakeholders || []).flatMap((stakeholder) =>
+    getHiddenAgenda(stakeholder, scenario.difficulty));
+}
+
+/**
+ * Identify an item across copies
+ * @param {Object} item - Hidden item
+ * @return {string} Key
+ */
+function itemKey(item) {
+  return `${item.stakeholder}|${item.kind}|${item.text}`;
+}
+
+/**
+ * Whether a stakeholder replied to a user message
+ * @param {Array} transcript - Conversation
+ * @param {number} index - Index of the user message
+ * @param {string} name - Stakeholder name
+ * @return {boolean} True if they spoke before the next user message
+ */
+function repliedTo(transcript, index, name) {
+  for (const message of transcript.slice(index + 1)) {
+    if (message.type === "user") {
+      return false;
+    }
+    if (message.type === "ai" && message.stakeholder === name) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the items of one stakeholder's agenda the user has uncovered
+ * Only questions the stakeholder replied to count: an item asked about on
+ * a turn someone else answered stays hidden, since its owner never opened
+ * up about it.
+ * @param {string} name - Stakeholder name
+ * @param {Array<Object>} agenda - The stakeholder's hidden items
+ * @param {Array} transcript - Conversation
+ * @param {(number|null)} turn - 1-based turn the stakeholder is replying
+ *   to now, if any
+ * @return {Array<Object>} Uncovered items, each with its discovery turn
+ */
+function findStakeholderDiscoveries(name, agenda, transcript, turn = null) {
+  const heard = transcript.map((message, index) =>
+    message.type !== "user" || index + 1 === turn ||
+      repliedTo(transcript, index, name) ?
+      message :
+      {...message, content: ""});
+  return new ContextAnalyzer(heard).findDiscoveries(agenda);
+}
+
+/**
+ * Split a stakeholder's hidden agenda by what the user has uncovered
+ * @param {Object} stakeholder - Stakeholder about to reply
+ * @param {string} difficulty - Scenario difficulty
+ * @param {Array} transcript - Conversation including the user's message
+ * @param {number} turn - 1-based turn of the user's message
+ * @return {{hidden: Array<Object>, shared: Array<Object>,
+ *   revealed: Array<Object>}} Items still hidden, items uncovered on
+ *   earlier turns and items uncovered by this turn's message
+ */
+function discoverHiddenAgenda(stakeholder, difficulty, transcript, turn) {
+  const agenda = getHiddenAgenda(stakeholder, difficulty);
+  const discoveries = findStakeholderDiscoveries(stakeholder.name, agenda,
+      transcript || [], turn);
+  const found = new Set(discoveries.map(itemKey));
+
+  return {
+    hidden: agenda.filter((item) => !found.has(itemKey(item))),
+    shared: discoveries.filter((item) => item.turn !== turn),
+    revealed: discoveries.filter((item) => item.turn === turn),
+  };
+}
+
+/**
+ * Prompt section telling a stakeholder what to hold back and what to share
+ * @param {Object} discovery - Result of discoverHiddenAgenda
+ * @return {string} Prompt section, empty without a hidden agenda
+ */
+function buildHiddenAgendaSection({hidden, shared, revealed}) {
+  if (hidden.length + shared.length + revealed.length === 0) {
+    return "";
+  }
+
+  const list = (items) => items
+      .map((item) => `  - ${item.text} (${item.kind})`)
+      .join("\n");
+
+  let section = "\n\nWHAT YOU HAVEN'T SAID YET:";
+  if (hidden.length > 0) {
+    section += `
+• Keep these to yourself. Don't hint at them; only open up if the user \
+asks a question that gets at one:
+${list(hidden)}`;
+  }
+  if (revealed.length > 0) {
+    section += `
+• The user just asked about these. Open up about them now, in your own \
+words and a little reluctantly:
+${list(revealed)}`;
+  }
+  if (shared.length > 0) {
+    section += `
+• You've already shared these and can refer back to them:
+${list(shared)}`;
+  }
+  return section;
+}
+
+/**
+ * Summarize how much of the scenario's hidden agenda the user uncovered,
+ * by the same rule as discoverHiddenAgenda
+ * @param {Object} scenario - Scenario with stakeholders and difficulty
+ * @param {Array} transcript - Full conversation
+ * @return {(Object|null)} {found, total, items} with each item's
+ *   discovery turn (null when never found), or null without an agenda
+ */
+function summarizeDiscovery(scenario, transcript) {
+  const agenda = getScenarioHiddenAgenda(scenario);
+  if (agenda.length === 0) {
+    return null;
+  }
+
+  const discoveries = (scenario.stakeholders || []).flatMap((stakeholder) =>
+    findStakeholderDiscoveries(stakeholder.name,
+        agenda.filter((item) => item.stakeholder === stakeholder.name),
+        transcript || []));
+  const turns = new Map(discoveries.map((item) => [itemKey(item), item.turn]));
+  const items = agenda.map(({stakeholder, kind, text}) => ({
+    stakeholder,
+    kind,
+    text,
+    turn: turns.get(itemKey({stakeholder, kind, text})) || null,
+  }));
+
+  return {
+    found: discoveries.length,
+    total: agenda.length,
+    items,
+  };
+}
+
+/**
+ * Evaluation prompt section describing the hidden agenda and what was found
+ * @param {Object} discovery - Result of summarizeDiscovery
+ * @return {string} Prompt section
+ */
+function buildDiscoveryEvaluationSection(discovery) {
+  return `Hidden agenda (not shown to the learner; score it under Discovery):
+The learner uncovered ${discovery.found} of ${discovery.total} items \
+through discovery questions.
+${discovery.items.map(describeDiscoveredItem).join("\n")}`;
+}
+
+/**
+ * One line of the evaluation's hidden agenda list
+ * @param {Object} item - Item from summarizeDiscovery
+ * @return {string} Line
+ */
+function describeDiscoveredItem(item) {
+  const found = item.turn ?
+    `uncovered at turn ${item.turn}` :
+    "never uncovered";
+  return `- ${item.stakeholder}'s ${item.kind}: ${item.text} (${found})`;
+}
+
+module.exports = {
+  getHiddenAgenda,
+  getScenarioHiddenAgenda,
+  discoverHiddenAgenda,
+  buildHiddenAgendaSection,
+  summarizeDiscovery,
+  buildDiscoveryEvaluationSection,
+};
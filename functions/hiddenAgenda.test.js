@@ -0,0 +1,120 @@
+/**
+ * Unit tests for hidden agendas and how discovery is tracked
+ */
+
+const {
+  getHiddenAgenda,
+  discoverHiddenAgenda,
+  buildHiddenAgendaSection,
+  summarizeDiscovery,
+} = require("./hiddenAgenda");
+
+describe("Hidden Agenda", () => {
+  const stakeholder = {
+    name: "Sarah Kim",
+    role: "VP of Product",
+    personality: "analytical",
+    concerns: ["Budget constraints", "Team capacity"],
+    motivations: ["Deliver value"],
+    hiddenConcerns: ["Worried the new hire will replace her"],
+    hiddenMotivations: [
+      {text: "Wants to lead the EMEA launch", revealWhen: ["emea", "career"]},
+    ],
+  };
+  const scenario = {
+    title: "Product Proposal",
+    difficulty: "Medium",
+    stakeholders: [stakeholder],
+  };
+
+  test("should add concerns withheld by the difficulty", () => {
+    expect(getHiddenAgenda(stakeholder, "Medium").map((item) => item.text))
+        .toEqual([
+          "Worried the new hire will replace her",
+          "Wants to lead the EMEA launch",
+        ]);
+    expect(getHiddenAgenda(stakeholder, "Hard")[0]).toEqual({
+      stakeholder: "Sarah Kim",
+      kind: "concern",
+      text: "Team capacity",
+      revealWhen: [],
+    });
+  });
+
+  test("should split the agenda by when each item was uncovered", () => {
+    const transcript = [
+      {type: "user", content: "Where do you see your career going?"},
+      {type: "ai", content: "Honestly? I'd love to run EMEA.",
+        stakeholder: "Sarah Kim"},
+      {type: "user", content: "And how do you feel about the new hire?"},
+    ];
+
+    const discovery = discoverHiddenAgenda(stakeholder, "Medium",
+        transcript, 3);
+
+    expect(discovery.hidden).toEqual([]);
+    expect(discovery.shared.map((item) => item.kind)).toEqual(["motivation"]);
+    expect(discovery.revealed).toEqual([expect.objectContaining({
+      kind: "concern",
+      text: "Worried the new hire will replace her",
+      turn: 3,
+    })]);
+
+    const section = buildHiddenAgendaSection(discovery);
+    expect(section).toMatch(/just asked about these[\s\S]*new hire/);
+    expect(section).toMatch(/already shared these[\s\S]*EMEA launch/);
+    expect(section).not.toMatch(/Keep these to yourself/);
+  });
+
+  test("should only count questions the item's stakeholder answered", () => {
+    const transcript = [
+      {type: "user", content: "How do you feel about the new hire?"},
+      {type: "ai", content: "It's fine by me.", stakeholder: "Mike Chen"},
+      {type: "user", content: "What about your career plans?"},
+    ];
+
+    const discovery = discoverHiddenAgenda(stakeholder, "Medium",
+        transcript, 3);
+    expect(discovery.shared).toEqual([]);
+    expect(discovery.revealed.map((item) => item.kind))
+        .toEqual(["motivation"]);
+    expect(discovery.hidden.map((item) => item.kind)).toEqual(["concern"]);
+
+    // Nobody has replied to the last question yet
+    expect(summarizeDiscovery(scenario, transcript).found).toBe(0);
+  });
+
+  test("should leave the prompt alone without a hidden agenda", () => {
+    const plain = {...stakeholder, hiddenConcerns: [], hiddenMotivations: []};
+    expect(buildHiddenAgendaSection(
+        discoverHiddenAgenda(plain, "Medium", [], 1))).toBe("");
+    expect(summarizeDiscovery({...scenario, stakeholders: [plain]}, []))
+        .toBeNull();
+  });
+
+  test("should summarize what was found for the evaluation", () => {
+    const transcript = [
+      {type: "user", content: "Tell me about your career plans."},
+      {type: "ai", content: "I'd like to run EMEA.", stakeholder: "Sarah Kim"},
+    ];
+
+    expect(summarizeDiscovery(scenario, transcript)).toEqual({
+      found: 1,
+      total: 2,
+      items: [
+        {
+          stakeholder: "Sarah Kim",
+          kind: "concern",
+          text: "Worried the new hire will replace her",
+          turn: null,
+        },
+        {
+          stakeholder: "Sarah Kim",
+          kind: "motivation",
+          text: "Wants to lead the EMEA launch",
+          turn: 1,
+        },
+      ],
+    });
+  });
+});
@@ -10,6 +10,9 @@
  * 3. Set OpenAI API key: firebase functions:config:set openai.key="YOUR_KEY"
  * 4. Copy this code to functions/index.js
  * 5. Deploy: firebase deploy --only functions
+ *
+ * Model calls go through the provider layer in llmProvider.js. Set
+ * LLM_PROVIDER=mock to run against the emulators without network access.
  */
 
 /* eslint-disable max-len */
@@ -18,34 +21,57 @@ require("dotenv").config();
 
 const functions = require("firebase-functions");
 const admin = require("firebase-admin");
-const OpenAI = require("openai");
 const {PersonalityEngine} = require("./personalityEngine");
 const {EmotionalStateTracker} = require("./emotionalStateTracker");
+const {isClassifierEnabled, classifyTurn} = require("./emotionClassifier");
 const {ContextAnalyzer} = require("./contextAnalyzer");
+const {discoverHiddenAgenda, buildHiddenAgendaSection, summarizeDiscovery, buildDiscoveryEvaluationSection} = require("./hiddenAgenda");
+const {StakeholderRouter} = require("./stakeholderRouter");
+const {createProvider, TASKS} = require("./llmProvider");
+const {MAX_REPAIR_ATTEMPTS: MAX_EVALUATION_REPAIRS, requestValidatedEvaluation} = require("./evaluationSchema");
+const {resolveRubric, withDiscoveryCriterion, withConsistencyCriterion, RubricNotFoundError} = require("./rubricRegistry");
+const {summarizeConsistency, buildConsistencyEvaluationSection} = require("./consistency");
+const {buildTaskWindow, formatTranscriptWindow, reportContextUsage} = require("./contextBuilder");
+const {QUOTA_TIERS, QuotaExceededError, getCaller, checkQuota, chargeTokens, meterProvider} = require("./quota");
+const {SessionError, getBranchId, loadSession, openTurn, runTurn, forkSession, recordCoachingHint, beginEvaluation, markEvaluated, releaseEvaluation} = require("./sessionStore");
+const {MAX_REPAIR_ATTEMPTS, checkBrief, buildScenarioPrompt, requestScenarioDraft} = require("./scenarioGenerator");
+const {updatePracticePlan} = require("./practicePlan");
+const {drillScenarioSchema, DrillError, pickDrillCriterion, buildDrillRubric, buildDrillPrompt, loadDrillSource, createDrillSession, recordDrillCompletion} = require("./drills");
 const ConversationalPatterns = require("./conversationalPatterns");
 
 admin.initializeApp();
 
+let provider = null;
+
 /**
- * Get OpenAI instance
- * @return {OpenAI} OpenAI instance
+ * Get the configured LLM provider
+ * @return {object} Provider with a complete() method
  */
-function getOpenAI() {
-  // Try multiple sources for the API key
-  const apiKey = process.env.OPENAI_API_KEY ||
-                 functions.config()?.openai?.key;
+function getProvider() {
+  if (provider) {
+    return provider;
+  }
+
+  const providerName = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+  const overrides = {};
+
+  if (providerName === "openai") {
+    // Try multiple sources for the API key
+    const apiKey = process.env.OPENAI_API_KEY ||
+                   functions.config()?.openai?.key;
 
-  if (!apiKey) {
-    console.error("OpenAI API key not found in environment or config");
-    console.error("process.env.OPENAI_API_KEY:", process.env.OPENAI_API_KEY ? "EXISTS" : "NOT SET");
-    console.error("functions.config().openai?.key:", functions.config()?.openai?.key ? "EXISTS" : "NOT SET");
-    throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.");
+    if (!apiKey) {
+      console.error("OpenAI API key not found in environment or config");
+      console.error("process.env.OPENAI_API_KEY:", process.env.OPENAI_API_KEY ? "EXISTS" : "NOT SET");
+      console.error("functions.config().openai?.key:", functions.config()?.openai?.key ? "EXISTS" : "NOT SET");
+      throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.");
+    }
+    overrides.apiKey = apiKey;
   }
 
-  console.log("OpenAI API key found, initializing...");
-  return new OpenAI({
-    apiKey: apiKey,
-  });
+  provider = createProvider(process.env, overrides);
+  console.log(`LLM provider "${provider.name}" initialized`);
+  return provider;
 }
 
 /**
@@ -53,7 +79,8 @@ function getOpenAI() {
  */
 exports.simulateStakeholder = functions.https.onCall(async (request) => {
   // Allow both authenticated and guest users
-  // Guest users can use the simulation but won't have data saved
+  // Guest users can use the simulation but won't have data saved; both are
+  // held to their quota
 
   // Gen 2 functions receive data differently
   const data = request.data || request;
@@ -61,7 +88,7 @@ exports.simulateStakeholder = functions.https.onCall(async (request) => {
   console.log("Raw request received:", typeof request, Object.keys(request));
   console.log("Data extracted:", typeof data, data ? Object.keys(data) : "null");
 
-  const {scenario, transcript, userMessage} = data;
+  const {scenario, transcript, userMessage, sessionId, turnId} = data;
 
   // Debug logging
   console.log("Received data:", {
@@ -69,90 +96,168 @@ exports.simulateStakeholder = functions.https.onCall(async (request) => {
     scenarioKeys: scenario ? Object.keys(scenario) : "N/A",
     hasTranscript: !!transcript,
     hasUserMessage: !!userMessage,
+    sessionId: sessionId || null,
   });
 
-  if (!scenario) {
-    console.error("Scenario is missing from request data");
-    throw new functions.https.HttpsError("invalid-argument", "Scenario data is required");
+  // Saved sessions answer from the stored scenario and transcript
+  const session = await openSessionTurn(sessionId, request.auth && request.auth.uid, turnId);
+  assertValidScenario(session ? session.scenario : scenario);
+
+  try {
+    const {result: {responses, progress}, quota} = await withQuota(getCallableCaller(request),
+        (llm) => runRecordedTurn(session, {scenario, transcript, userMessage, turnId}, {}, llm));
+
+    // Top-level fields mirror the first reply for single-stakeholder clients
+    return {
+      ...responses[0],
+      responses,
+      ...(progress ? {session: progress} : {}),
+      ...(quota ? {quota} : {}),
+    };
+  } catch (error) {
+    console.error("Error in simulateStakeholder:", error);
+    throw toHttpsError(error, "Failed to generate response");
   }
+});
 
-  if (!scenario.stakeholders || scenario.stakeholders.length === 0) {
-    console.error("Scenario is missing stakeholders:", scenario);
-    throw new functions.https.HttpsError("invalid-argument", "Scenario must have at least one stakeholder");
+/**
+ * Stream stakeholder replies token by token
+ *
+ * HTTP counterpart of simulateStakeholder. Takes the same JSON body and
+ * answers with newline-delimited JSON events:
+ * - {type: "start", stakeholder, role} when a stakeholder begins speaking
+ * - {type: "delta", text} for each text fragment
+ * - {type: "end", message, stakeholder, role, timestamp, revealed,
+ *   emotionalState, consistency} per finished reply
+ * - {type: "done", responses, session, quota} once every responder has
+ *   spoken; session is {turnCount, state} for saved sessions
+ * - {type: "error", message} if generation fails mid-stream
+ * Closing the connection aborts generation. Saved sessions need the
+ * caller's Firebase ID token as a Bearer Authorization header; guests send
+ * their anonymous ID token so their quota follows them. A caller over
+ * quota gets a 429 with {error, quota} before anything is streamed.
+ */
+exports.streamStakeholder = functions.https.onRequest({cors: true}, async (req, res) => {
+  if (req.method !== "POST") {
+    res.status(405).json({error: "Method not allowed"});
+    return;
   }
 
+  const {scenario, transcript, userMessage, sessionId, turnId} = req.body || {};
+
+  const auth = await getRequestAuth(req);
+  const caller = getCaller(auth, req.ip);
+  let session = null;
+  let metered = null;
   try {
-    // Build the enhanced system prompt with transcript context
-    const systemPrompt = buildSimulationPrompt(scenario, transcript);
+    session = await openSessionTurn(sessionId, auth && auth.uid, turnId);
+    assertValidScenario(session ? session.scenario : scenario);
+    metered = await startQuotaCall(caller);
+  } catch (error) {
+    res.status(error.httpErrorCode ? error.httpErrorCode.status : 400).json({
+      error: error.message,
+      ...(error.details && error.details.quota ? {quota: error.details.quota} : {}),
+    });
+    return;
+  }
 
-    // Build conversation history
-    const messages = [
-      {role: "system", content: systemPrompt},
-      ...transcript.map((msg) => ({
-        role: msg.type === "user" ? "user" : "assistant",
-        content: msg.content,
-      })),
-      {role: "user", content: userMessage},
-    ];
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
 
-    // Call OpenAI with enhanced parameters
-    const openai = getOpenAI();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Cost-effective and fast
-      messages: messages,
-      max_tokens: 300, // Increased for natural flow
-      temperature: 1.0, // Increased for more variation
-      presence_penalty: 0.3, // Discourage repetition
-      frequency_penalty: 0.3, // Encourage varied vocabulary
-    });
+  res.status(200);
+  res.set({
+    "Content-Type": "application/x-ndjson; charset=utf-8",
+    "Cache-Control": "no-cache",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
 
-    const response = completion.choices[0].message.content;
-    const stakeholder = scenario.stakeholders[0];
+  const send = (event) => res.write(`${JSON.stringify(event)}\n`);
 
-    return {
-      message: response,
-      stakeholder: stakeholder.name,
-      role: stakeholder.role,
-      timestamp: new Date().toISOString(),
-    };
+  try {
+    let turn;
+    try {
+      turn = await runRecordedTurn(session, {scenario, transcript, userMessage, turnId}, {
+        signal: controller.signal,
+        onStart: (stakeholder) => send({type: "start", stakeholder: stakeholder.name, role: stakeholder.role}),
+        onDelta: (text) => send({type: "delta", text}),
+        onReply: (reply) => send({type: "end", ...reply}),
+      }, metered.provider);
+    } catch (error) {
+      // Cancelled and failed turns are charged for what they generated
+      await finishQuotaCall(caller, metered);
+      throw error;
+    }
+    const {responses, progress} = turn;
+    const quota = await finishQuotaCall(caller, metered);
+
+    if (!controller.signal.aborted) {
+      send({type: "done", responses, ...(progress ? {session: progress} : {}), ...(quota ? {quota} : {})});
+    }
   } catch (error) {
-    console.error("Error in simulateStakeholder:", error);
-    throw new functions.https.HttpsError("internal", "Failed to generate response");
+    if (controller.signal.aborted) {
+      console.log("streamStakeholder cancelled by client");
+    } else {
+      console.error("Error in streamStakeholder:", error);
+      send({type: "error", message: error instanceof SessionError ? error.message : "Failed to generate response"});
+    }
   }
+
+  res.end();
 });
 
 /**
  * Get coaching hint during timeout
  */
 exports.getCoachingHint = functions.https.onCall(async (request) => {
-  // Allow both authenticated and guest users
+  // Allow both authenticated and guest users, within their quota
 
   const data = request.data || request;
-  const {scenario, transcript} = data;
+  const {sessionId} = data;
+  let {scenario, transcript} = data;
+
+  // Hints for saved sessions are based on, and saved to, the stored transcript
+  const session = sessionId ? await loadOwnSession(sessionId, request.auth && request.auth.uid) : null;
+  if (session) {
+    ({scenario, transcript} = session);
+  }
 
   try {
+    // Older turns are summarized so long sessions stay within budget
+    const contextWindow = buildTaskWindow(TASKS.COACHING, transcript);
     // eslint-disable-next-line max-len
     const prompt = `You are a business communication coach. Based on this conversation transcript in a "${scenario.title}" scenario, provide ONE specific, actionable coaching hint (2-3 sentences max) to help the user improve their next response.
 
 Transcript:
-${transcript.map((msg) => `${msg.type}: ${msg.content}`).join("\n")}
+${formatTranscriptWindow(contextWindow, (msg) => `${msg.type}: ${msg.content}`)}
 
 Coaching hint:`;
 
-    const openai = getOpenAI();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{role: "user", content: prompt}],
-      max_tokens: 120,
+    const messages = [{role: "user", content: prompt}];
+    const {result: completion, quota} = await withQuota(getCallableCaller(request), (llm) => llm.complete({
+      task: TASKS.COACHING,
+      messages,
+      maxTokens: 120,
       temperature: 0.7,
-    });
+      context: {scenario, transcript},
+    }));
+    reportContextUsage(TASKS.COACHING, {messages, window: contextWindow, usage: completion.usage});
+
+    if (session) {
+      await recordCoachingHint(admin.firestore(), session, completion.content);
+    }
 
     return {
-      hint: completion.choices[0].message.content,
+      hint: completion.content,
+      ...(quota ? {quota} : {}),
     };
   } catch (error) {
     console.error("Error in getCoachingHint:", error);
-    throw new functions.https.HttpsError("internal", "Failed to generate hint");
+    throw toHttpsError(error, "Failed to generate hint");
   }
 });
 
@@ -160,27 +265,29 @@ Coaching hint:`;
  * Get AI-powered conversation suggestions
  */
 exports.getSuggestions = functions.https.onCall(async (request) => {
-  // Allow both authenticated and guest users
+  // Allow both authenticated and guest users, within their quota
 
   const data = request.data || request;
   const {scenario, transcript} = data;
 
   try {
-    const stakeholder = scenario.stakeholders[0];
+    const stakeholders = scenario.stakeholders;
+    const participants = stakeholders.map((s) => `${s.name}, ${s.role}`).join("; ");
+    const contextWindow = buildTaskWindow(TASKS.SUGGESTIONS, transcript);
 
     // Build context-aware prompt for suggestions
     // eslint-disable-next-line max-len
-    const prompt = `You are a business communication coach helping someone navigate a conversation with ${stakeholder.name}, ${stakeholder.role}.
+    const prompt = `You are a business communication coach helping someone navigate a conversation with ${participants}.
 
 Scenario: ${scenario.title}
 Situation: ${scenario.situation}
 User's Objective: ${scenario.objective}
 
-Stakeholder's concerns: ${stakeholder.concerns.join(", ")}
-Stakeholder's motivations: ${stakeholder.motivations.join(", ")}
+${stakeholders.map((s) => `${s.name}'s concerns: ${s.concerns.join(", ")}
+${s.name}'s motivations: ${s.motivations.join(", ")}`).join("\n\n")}
 
 Conversation so far:
-${transcript.map((msg) => `${msg.type === "user" ? "User" : stakeholder.name}: ${msg.content}`).join("\n")}
+${formatTranscriptWindow(contextWindow, (msg) => `${msg.type === "user" ? "User" : msg.stakeholder || stakeholders[0].name}: ${msg.content}`)}
 
 Based on this conversation, provide 3 short, effective response options the user could say next. Each suggestion should:
 - Be 1-2 sentences max
@@ -192,21 +299,23 @@ Based on this conversation, provide 3 short, effective response options the user
 Return ONLY a JSON array with 3 suggestions, no other text:
 ["suggestion 1", "suggestion 2", "suggestion 3"]`;
 
-    const openai = getOpenAI();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{role: "user", content: prompt}],
-      max_tokens: 250,
+    const messages = [{role: "user", content: prompt}];
+    const {result: completion, quota} = await withQuota(getCallableCaller(request), (llm) => llm.complete({
+      task: TASKS.SUGGESTIONS,
+      messages,
+      maxTokens: 250,
       temperature: 0.8,
-    });
+      context: {scenario, transcript},
+    }));
+    reportContextUsage(TASKS.SUGGESTIONS, {messages, window: contextWindow, usage: completion.usage});
 
-    const responseText = completion.choices[0].message.content;
+    const responseText = completion.content;
 
     // Try to parse JSON response
     try {
       const suggestions = JSON.parse(responseText);
       if (Array.isArray(suggestions) && suggestions.length > 0) {
-        return {suggestions: suggestions.slice(0, 3)};
+        return {suggestions: suggestions.slice(0, 3), ...(quota ? {quota} : {})};
       }
     } catch (parseError) {
       console.warn("Could not parse suggestions as JSON, extracting manually");
@@ -223,10 +332,10 @@ Return ONLY a JSON array with 3 suggestions, no other text:
       throw new Error("No valid suggestions extracted");
     }
 
-    return {suggestions};
+    return {suggestions, ...(quota ? {quota} : {})};
   } catch (error) {
     console.error("Error in getSuggestions:", error);
-    throw new functions.https.HttpsError("internal", "Failed to generate suggestions");
+    throw toHttpsError(error, "Failed to generate suggestions");
   }
 });
 
@@ -234,43 +343,82 @@ Return ONLY a JSON array with 3 suggestions, no other text:
  * Evaluate session and provide detailed feedback
  */
 exports.evaluateSession = functions.https.onCall(async (request) => {
-  // Allow both authenticated and guest users
+  // Allow both authenticated and guest users, within their quota
 
   const data = request.data || request;
-  // eslint-disable-next-line no-unused-vars
   const context = request; // Used for auth checking in Firestore write
 
-  const {sessionId, scenario, transcript, rubricId} = data;
+  const {sessionId} = data;
+  let {scenario, transcript, rubricId} = data;
+
+  // Saved sessions are exited and scored on the transcript the server
+  // recorded; only guests' sessions are scored from the payload
+  const session = context.auth && sessionId ?
+    await beginSessionEvaluation(sessionId, context.auth.uid) :
+    null;
+  // A retried or repeated call for a scored session gets the stored result
+  if (session && session.evaluationId) {
+    return loadStoredEvaluation(session.evaluationId, context.auth.uid);
+  }
+  if (session) {
+    ({scenario, transcript} = session);
+    rubricId = scenario.rubricId;
+  }
+  const drill = session && session.drill;
 
   try {
-    // Get rubric from Firestore
-    const rubricDoc = await admin.firestore()
-        .collection("rubrics")
-        .doc(rubricId)
-        .get();
-
-    const rubric = rubricDoc.exists ? rubricDoc.data() : getDefaultRubric(rubricId);
-
-    // Build evaluation prompt
-    const evaluationPrompt = buildEvaluationPrompt(scenario, transcript, rubric);
+    // The same rubric the sidebar showed; an unknown id is an error rather
+    // than a reason to score against something else. A drill is scored only
+    // on the criterion it practises.
+    const scenarioRubric = drill ?
+      buildDrillRubric(drill) :
+      await loadRubric(rubricId, context.auth && context.auth.uid);
+
+    // Scenarios with a hidden agenda are also scored on how much of it the
+    // user uncovered, and every session on consistency; the sidebar adds the
+    // same criteria
+    const discovery = drill ? null : summarizeDiscovery(scenario, transcript);
+    const consistency = drill ? null : summarizeConsistency(transcript);
+    const rubric = drill ?
+      scenarioRubric :
+      withConsistencyCriterion(discovery ? withDiscoveryCriterion(scenarioRubric) : scenarioRubric);
+
+    // Build evaluation prompt; discovery and consistency are worked out from
+    // the whole transcript, but only recent turns are quoted in full
+    const contextWindow = buildTaskWindow(TASKS.EVALUATION, transcript);
+    const evaluationPrompt = buildEvaluationPrompt(scenario, contextWindow, rubric, discovery, consistency);
+    const messages = [
+      {role: "system", content: "You are an expert evaluator of business communication. Provide detailed, actionable feedback."},
+      {role: "user", content: evaluationPrompt},
+    ];
 
-    // Call OpenAI for evaluation
-    const openai = getOpenAI();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o", // Use stronger model for evaluation
-      messages: [
-        {role: "system", content: "You are an expert evaluator of business communication. Provide detailed, actionable feedback."},
-        {role: "user", content: evaluationPrompt},
-      ],
-      max_tokens: 2500,
+    // Evaluation runs on the provider's stronger evaluation model; output
+    // that fails the schema is sent back for repair a bounded number of
+    // times before the result is marked degraded. A stored session that was
+    // just exited is scored even when the day's token budget is spent; a
+    // transcript sent in the payload is held to the budget like any other
+    // call. Each attempt's context usage is reported, repairs included.
+    const {result: evaluation} = await withQuota(getCallableCaller(request), (llm) => requestValidatedEvaluation(llm, {
+      task: TASKS.EVALUATION,
+      messages,
+      maxTokens: 2500,
       temperature: 0.7,
-    });
+      context: {scenario, transcript, rubric},
+    }, {rubric, transcriptLength: transcript.length}, MAX_EVALUATION_REPAIRS, (attemptMessages, completion) =>
+      reportContextUsage(TASKS.EVALUATION, {messages: attemptMessages, window: contextWindow, usage: completion.usage}),
+    ), {enforceBudget: !session});
 
-    const evaluationText = completion.choices[0].message.content;
-    const evaluation = parseEvaluation(evaluationText, rubric);
+    if (discovery) {
+      evaluation.discovery = discovery;
+    }
 
-    // Store evaluation in Firestore only for authenticated users
-    if (context.auth && sessionId) {
+    // Store evaluation in Firestore only for saved sessions, against the
+    // branch the user submitted
+    if (session) {
+      evaluation.branchId = getBranchId(session);
+      if (drill) {
+        evaluation.drill = drill;
+      }
       const evaluationRef = await admin.firestore()
           .collection("evaluations")
           .add({
@@ -281,37 +429,594 @@ exports.evaluateSession = functions.https.onCall(async (request) => {
             createdAt: admin.firestore.FieldValue.serverTimestamp(),
           });
 
-      // Update session with evaluation ID
-      await admin.firestore()
-          .collection("sessions")
-          .doc(sessionId)
-          .update({
-            evaluationId: evaluationRef.id,
-            state: "EVALUATED",
-          });
+      // Link the evaluation and move the session to EVALUATED
+      await markEvaluated(admin.firestore(), sessionId, evaluationRef.id);
+
+      // A finished drill counts towards the evaluation that recommended it
+      if (drill) {
+        await recordDrillCompletion(admin.firestore(), drill, context.auth.uid, {
+          sessionId,
+          evaluationId: evaluationRef.id,
+          score: evaluation.overall_score,
+        });
+      }
+
+      // Weak criteria carry forward into the user's practice plan; the
+      // evaluation is already stored, so a failed update is only logged
+      try {
+        await updatePracticePlan(admin.firestore(), context.auth.uid, {
+          evaluationId: evaluationRef.id,
+          evaluation,
+          scenario,
+          drill: drill || null,
+        });
+      } catch (error) {
+        console.error("Failed to update practice plan:", {sessionId, error: error.message});
+      }
+
+      return {...evaluation, id: evaluationRef.id};
     }
 
     return evaluation;
   } catch (error) {
     console.error("Error in evaluateSession:", error);
-    throw new functions.https.HttpsError("internal", "Failed to evaluate session");
+    // Let the session be scored again by a retry
+    if (session) {
+      await releaseEvaluation(admin.firestore(), sessionId).catch((releaseError) =>
+        console.error("Failed to release evaluation:", {sessionId, error: releaseError.message}));
+    }
+    throw toHttpsError(error, "Failed to evaluate session");
   }
 });
 
+/**
+ * Branch a saved session after one of its turns
+ *
+ * Takes {sessionId, branchId, keepTurns}: the session continues on a new
+ * branch, chosen by the client, that starts with the first keepTurns turns.
+ * The client regenerates a reply or edits its last message by branching
+ * before the latest turn and sending it again. Returns {branchId,
+ * transcript, session}. No model is called, so no quota is charged. Guests
+ * have no stored transcript and branch on the client.
+ */
+exports.branchSession = functions.https.onCall(async (request) => {
+  const data = request.data || request;
+  const {sessionId, branchId, keepTurns} = data;
+
+  if (!request.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "Sign in to continue this session");
+  }
+  if (!sessionId || typeof branchId !== "string" || !branchId) {
+    throw new functions.https.HttpsError("invalid-argument", "A session and branch id are required");
+  }
+
+  try {
+    return await forkSession(admin.firestore(), sessionId, request.auth.uid, {branchId, keepTurns});
+  } catch (error) {
+    console.error("Error in branchSession:", error);
+    throw toHttpsError(error, "Failed to branch session");
+  }
+});
+
+/**
+ * Draft a complete custom scenario from a short free-text brief
+ *
+ * Returns {scenario}: a ScenarioTemplate the client opens in the custom
+ * scenario form for editing. Custom scenarios need an account, so guests,
+ * including anonymous sign-ins, are turned away before a model call is made.
+ */
+exports.generateScenario = functions.https.onCall(async (request) => {
+  const caller = getCallableCaller(request);
+  if (caller.tier !== QUOTA_TIERS.USER) {
+    throw new functions.https.HttpsError("unauthenticated", "Sign in to generate scenarios");
+  }
+
+  const data = request.data || request;
+  const {brief, rubricId = "persuasion_director"} = data;
+
+  const briefError = checkBrief(brief);
+  if (briefError) {
+    throw new functions.https.HttpsError("invalid-argument", briefError);
+  }
+
+  // The draft is scored against a rubric the caller can actually use
+  const rubric = await loadRubric(rubricId, request.auth.uid);
+
+  try {
+    const {result: scenario} = await withQuota(caller, (llm) => requestScenarioDraft(llm, {
+      task: TASKS.GENERATION,
+      messages: [
+        {role: "system", content: "You design realistic workplace role-play scenarios for communication training."},
+        {role: "user", content: buildScenarioPrompt(brief)},
+      ],
+      maxTokens: 1500,
+      temperature: 0.8,
+      context: {brief},
+    }, rubric.id));
+
+    return {scenario};
+  } catch (error) {
+    console.error("Error in generateScenario:", error);
+    throw toHttpsError(error, "Failed to generate scenario");
+  }
+});
+
+/**
+ * Start one of an evaluation's recommended drills as a short simulation
+ *
+ * Takes {evaluationId, drillIndex}. Generates a micro-scenario with one
+ * person and a 2-4 turn limit around the drill and starts a saved session
+ * for it, which evaluateSession scores only on the drill's criterion.
+ * Returns {sessionId, scenario}. Drill results are stored against the
+ * evaluation, so guests, including anonymous sign-ins, are turned away.
+ */
+exports.startDrill = functions.https.onCall(async (request) => {
+  const caller = getCallableCaller(request);
+  if (caller.tier !== QUOTA_TIERS.USER) {
+    throw new functions.https.HttpsError("unauthenticated", "Sign in to practise drills");
+  }
+
+  const data = request.data || request;
+  const {evaluationId, drillIndex} = data;
+  if (typeof evaluationId !== "string" || !evaluationId || !Number.isInteger(drillIndex) || drillIndex < 0) {
+    throw new functions.https.HttpsError("invalid-argument", "An evaluation and drill are required");
+  }
+
+  const userId = request.auth.uid;
+  const db = admin.firestore();
+  let source;
+  try {
+    source = await loadDrillSource(db, evaluationId, userId, drillIndex);
+  } catch (error) {
+    throw toHttpsError(error, "Failed to load drill");
+  }
+
+  // The drill is aimed at a criterion of the rubric the evaluation used,
+  // including the ones evaluateSession adds
+  const evaluationRubric = await loadRubric(source.evaluation.rubricId, userId);
+
+  try {
+    const criterion = pickDrillCriterion(source.evaluation, source.drill,
+        withConsistencyCriterion(withDiscoveryCriterion(evaluationRubric)));
+
+    const {result: scenario} = await withQuota(caller, (llm) => requestScenarioDraft(llm, {
+      task: TASKS.GENERATION,
+      messages: [
+        {role: "system", content: "You design short, focused workplace role-play drills for communication training."},
+        {role: "user", content: buildDrillPrompt(source.drill, criterion, source.scenario)},
+      ],
+      maxTokens: 1200,
+      temperature: 0.8,
+      context: {brief: source.drill.instructions, turnLimit: 3},
+    }, evaluationRubric.id, MAX_REPAIR_ATTEMPTS, drillScenarioSchema));
+
+    const drillScenario = {...scenario, id: "drill"};
+    const sessionId = await createDrillSession(db, userId, drillScenario, {
+      evaluationId,
+      drillIndex,
+      title: source.drill.title,
+      criterion,
+    });
+
+    return {sessionId, scenario: drillScenario};
+  } catch (error) {
+    console.error("Error in startDrill:", error);
+    throw toHttpsError(error, "Failed to start drill");
+  }
+});
+
+/**
+ * Helper: Reject scenarios the simulation cannot run
+ * @param {object} scenario - Scenario sent by the client
+ */
+function assertValidScenario(scenario) {
+  if (!scenario) {
+    console.error("Scenario is missing from request data");
+    throw new functions.https.HttpsError("invalid-argument", "Scenario data is required");
+  }
+
+  if (!scenario.stakeholders || scenario.stakeholders.length === 0) {
+    console.error("Scenario is missing stakeholders:", scenario);
+    throw new functions.https.HttpsError("invalid-argument", "Scenario must have at least one stakeholder");
+  }
+}
+
+/**
+ * Helper: Report a failure to the client
+ * Session and drill errors keep their code and message, quota errors also
+ * carry the caller's quota status as details; anything else is internal.
+ * @param {Error} error - Error thrown while handling the call
+ * @param {string} message - Message for unexpected errors
+ * @return {functions.https.HttpsError} Error to throw
+ */
+function toHttpsError(error, message) {
+  if (error instanceof functions.https.HttpsError) {
+    return error;
+  }
+  if (error instanceof SessionError || error instanceof DrillError) {
+    return new functions.https.HttpsError(error.code, error.message);
+  }
+  if (error instanceof QuotaExceededError) {
+    return new functions.https.HttpsError(error.code, error.message, {quota: error.quota});
+  }
+  return new functions.https.HttpsError("internal", message);
+}
+
+/**
+ * Helper: Caller's auth from a Bearer ID token, for HTTP functions
+ * @param {object} req - HTTP request
+ * @return {Promise<object|null>} {uid, token} as callables receive it, or
+ *   null when missing or invalid
+ */
+async function getRequestAuth(req) {
+  const match = /^Bearer (.+)$/.exec(req.get("Authorization") || "");
+  if (!match) {
+    return null;
+  }
+  try {
+    const token = await admin.auth().verifyIdToken(match[1]);
+    return {uid: token.uid, token};
+  } catch (error) {
+    console.warn("Ignoring invalid ID token:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Helper: Who a callable's model calls are charged to
+ * @param {object} request - Callable request
+ * @return {object} Caller from getCaller
+ */
+function getCallableCaller(request) {
+  return getCaller(request.auth, request.rawRequest && request.rawRequest.ip);
+}
+
+/**
+ * Helper: Count a request against the caller's quota before calling a model
+ * @param {object} caller - Caller from getCaller
+ * @param {object} options - Passed to checkQuota
+ * @return {Promise<object>} Metered provider from meterProvider
+ */
+async function startQuotaCall(caller, options = {}) {
+  try {
+    await checkQuota(admin.firestore(), caller, options);
+  } catch (error) {
+    throw toHttpsError(error, "Failed to check usage limits");
+  }
+  return meterProvider(getProvider());
+}
+
+/**
+ * Helper: Charge the tokens a request used to the caller
+ * A failed charge is logged rather than failing a call that succeeded.
+ * @param {object} caller - Caller from getCaller
+ * @param {object} metered - Result of startQuotaCall
+ * @return {Promise<object|null>} Quota status, or null if the charge failed
+ */
+async function finishQuotaCall(caller, metered) {
+  try {
+    return await chargeTokens(admin.firestore(), caller, metered.getTokens());
+  } catch (error) {
+    console.error("Failed to charge tokens:", {caller: caller.id, tokens: metered.getTokens(), error: error.message});
+    return null;
+  }
+}
+
+/**
+ * Helper: Run a request's model calls within the caller's quota
+ * Tokens are charged whether or not the work succeeds.
+ * @param {object} caller - Caller from getCaller
+ * @param {Function} work - Called with the metered provider
+ * @param {object} options - Passed to checkQuota
+ * @return {Promise<object>} {result, quota}; quota is the caller's status
+ *   after the request, or null if it could not be charged
+ */
+async function withQuota(caller, work, options = {}) {
+  const metered = await startQuotaCall(caller, options);
+  try {
+    const result = await work(metered.provider);
+    return {result, quota: await finishQuotaCall(caller, metered)};
+  } catch (error) {
+    await finishQuotaCall(caller, metered);
+    throw error;
+  }
+}
+
+/**
+ * Helper: Load a saved session the caller owns
+ * @param {string} sessionId - Session document id
+ * @param {string} userId - Caller's uid
+ * @return {Promise<object>} Stored session
+ */
+async function loadOwnSession(sessionId, userId) {
+  if (!userId) {
+    throw new functions.https.HttpsError("unauthenticated", "Sign in to continue this session");
+  }
+  try {
+    return await loadSession(admin.firestore(), sessionId, userId);
+  } catch (error) {
+    throw toHttpsError(error, "Failed to load session");
+  }
+}
+
+/**
+ * Helper: Load a saved session that can take the user's next turn
+ * @param {string} sessionId - Session document id, absent for guests
+ * @param {string} userId - Caller's uid
+ * @param {string} turnId - Client-chosen id of the turn, if any
+ * @return {Promise<object|null>} Stored session, or null for guests
+ */
+async function openSessionTurn(sessionId, userId, turnId) {
+  if (!sessionId) {
+    return null;
+  }
+  if (!userId) {
+    throw new functions.https.HttpsError("unauthenticated", "Sign in to continue this session");
+  }
+  try {
+    return await openTurn(admin.firestore(), sessionId, userId, turnId);
+  } catch (error) {
+    throw toHttpsError(error, "Failed to load session");
+  }
+}
+
+/**
+ * Helper: Load an evaluation the caller already received
+ * @param {string} evaluationId - Evaluation document id
+ * @param {string} userId - Caller's uid
+ * @return {Promise<object>} Evaluation as evaluateSession returns it
+ */
+async function loadStoredEvaluation(evaluationId, userId) {
+  const snapshot = await admin.firestore().collection("evaluations").doc(evaluationId).get();
+  if (!snapshot.exists || snapshot.data().userId !== userId) {
+    throw new functions.https.HttpsError("not-found", "Evaluation not found");
+  }
+  // The timestamp does not survive the callable; new results leave it out too
+  const evaluation = {...snapshot.data(), id: snapshot.id};
+  delete evaluation.createdAt;
+  return evaluation;
+}
+
+/**
+ * Helper: Exit a saved session and load it for evaluation
+ * @param {string} sessionId - Session document id
+ * @param {string} userId - Caller's uid
+ * @return {Promise<object>} Stored session
+ */
+async function beginSessionEvaluation(sessionId, userId) {
+  try {
+    return await beginEvaluation(admin.firestore(), sessionId, userId);
+  } catch (error) {
+    throw toHttpsError(error, "Failed to load session");
+  }
+}
+
+/**
+ * Helper: Run a user turn and, for a saved session, record it
+ * See runTurn for what is recorded when generation is cancelled or fails.
+ * A turn the session already recorded is answered from the transcript.
+ * @param {object|null} session - Stored session from openSessionTurn
+ * @param {object} turn - {scenario, transcript, userMessage, turnId} from
+ *   the payload
+ * @param {object} handlers - Optional signal, onStart, onDelta and onReply
+ * @param {object} llm - Provider to generate with
+ * @return {Promise<object>} {responses, progress}; progress is the session's
+ *   {turnCount, state} after the turn, or null for guests
+ */
+async function runRecordedTurn(session, turn, handlers = {}, llm = getProvider()) {
+  if (!session) {
+    return {responses: await runStakeholderTurn(turn, handlers, llm), progress: null};
+  }
+  if (session.recordedTurn) {
+    console.log("Replaying recorded turn:", turn.turnId);
+  }
+
+  return runTurn(admin.firestore(), session, turn, (onReply) => runStakeholderTurn({
+    scenario: session.scenario,
+    transcript: session.transcript,
+    userMessage: turn.userMessage,
+  }, {
+    ...handlers,
+    onReply: (reply) => {
+      onReply(reply);
+      if (handlers.onReply) {
+        handlers.onReply(reply);
+      }
+    },
+  }, llm), handlers.signal);
+}
+
+/**
+ * Helper: Generate every stakeholder reply for one user turn
+ * Streams through the provider when an onDelta handler is given.
+ * @param {object} turn - {scenario, transcript, userMessage}
+ * @param {object} handlers - Optional signal, onStart, onDelta and onReply
+ * @param {object} llm - Provider to generate with
+ * @return {Promise<Array>} Replies in speaking order
+ */
+async function runStakeholderTurn({scenario, transcript, userMessage}, handlers = {}, llm = getProvider()) {
+  const history = getHistoryBeforeMessage(transcript || [], userMessage);
+
+  // Decide who takes the floor this turn
+  const router = new StakeholderRouter(scenario);
+  const responders = router.route(userMessage, history);
+  console.log("Routing turn to:", responders.map((r) => `${r.stakeholder.name} (${r.reason})`));
+
+  const turnMessages = [{type: "user", content: userMessage}];
+  const responses = [];
+  const userTurn = history.length + 1;
+  // Flags for the Notes tab; the same for every reply this turn
+  const consistency = summarizeConsistency([...history, ...turnMessages]);
+
+  // Responders speak in order so later voices can react to earlier ones
+  for (const {stakeholder} of responders) {
+    if (handlers.signal && handlers.signal.aborted) {
+      break;
+    }
+
+    const conversation = [...history, ...turnMessages];
+    const discovery = discoverHiddenAgenda(stakeholder, scenario.difficulty, conversation, userTurn);
+    // Optional LLM judgment of the user's message; null falls back to the rules
+    const judgment = isClassifierEnabled() ?
+      await classifyTurn(llm, {scenario, stakeholder, transcript: conversation, signal: handlers.signal}) :
+      null;
+    const systemPrompt = buildSimulationPrompt(scenario, conversation, stakeholder, {
+      previousSpeakers: responses.map((r) => r.stakeholder),
+      discovery,
+      judgment,
+    });
+
+    // Recent messages go verbatim and older ones as a summary; the prompt
+    // builders above still read the whole conversation
+    const contextWindow = buildTaskWindow(TASKS.SIMULATION, conversation);
+    const request = {
+      task: TASKS.SIMULATION,
+      messages: [
+        {role: "system", content: systemPrompt},
+        ...(contextWindow.summary ? [{role: "system", content: contextWindow.summary}] : []),
+        ...buildConversationMessages(contextWindow.recent, stakeholder),
+      ],
+      maxTokens: 300, // Increased for natural flow
+      temperature: 1.0, // Increased for more variation
+      presencePenalty: 0.3, // Discourage repetition
+      frequencyPenalty: 0.3, // Encourage varied vocabulary
+      signal: handlers.signal,
+      context: {scenario, stakeholder, transcript: conversation},
+    };
+
+    if (handlers.onStart) {
+      handlers.onStart(stakeholder);
+    }
+
+    const completion = handlers.onDelta ?
+      await llm.stream(request, handlers.onDelta) :
+      await llm.complete(request);
+    reportContextUsage(TASKS.SIMULATION, {messages: request.messages, window: contextWindow, usage: completion.usage});
+
+    const reply = {
+      message: completion.content,
+      stakeholder: stakeholder.name,
+      role: stakeholder.role,
+      timestamp: new Date().toISOString(),
+      // Hidden concerns and motivations the user's question uncovered
+      revealed: discovery.revealed.map(({kind, text}) => ({kind, text})),
+      emotionalState: getEmotionalSnapshot(scenario, conversation, stakeholder, discovery, judgment),
+      // Contradictions and unfulfilled commitments so far
+      consistency,
+      // Stored with the reply so later turns replay the same reading
+      ...(judgment ? {judgment} : {}),
+    };
+    responses.push(reply);
+    turnMessages.push({type: "ai", content: reply.message, stakeholder: reply.stakeholder});
+
+    if (handlers.onReply) {
+      handlers.onReply(reply);
+    }
+  }
+
+  return responses;
+}
+
+/**
+ * Helper: Drop the user's new message from the end of the transcript
+ * The client sends the transcript including the message being answered, so
+ * strip it to avoid sending the same user turn to the model twice.
+ * @param {Array} transcript - Transcript as sent by the client
+ * @param {string} userMessage - The message being answered
+ * @return {Array} Conversation history before the user's message
+ */
+function getHistoryBeforeMessage(transcript, userMessage) {
+  const last = transcript[transcript.length - 1];
+  if (last && last.type === "user" && last.content === userMessage) {
+    return transcript.slice(0, -1);
+  }
+  return transcript;
+}
+
+/**
+ * Helper: Map the transcript to chat messages from one stakeholder's view
+ * The stakeholder's own lines become assistant turns; other stakeholders'
+ * lines are passed as labelled user turns so the model never speaks for them.
+ * @param {Array} transcript - Conversation history
+ * @param {object} stakeholder - The stakeholder who is about to reply
+ * @return {Array} Chat completion messages
+ */
+function buildConversationMessages(transcript, stakeholder) {
+  return transcript
+      .filter((msg) => msg.type === "user" || msg.type === "ai" || msg.type === "stakeholder")
+      .map((msg) => {
+        if (msg.type === "user") {
+          return {role: "user", content: msg.content};
+        }
+        if (!msg.stakeholder || msg.stakeholder === stakeholder.name) {
+          return {role: "assistant", content: msg.content};
+        }
+        return {role: "user", content: `[${msg.stakeholder}]: ${msg.content}`};
+      });
+}
+
+/**
+ * Helper: Track a stakeholder's emotional state over the conversation
+ * @param {object} scenario - The scenario configuration
+ * @param {Array} transcript - Conversation including the user's message
+ * @param {object} stakeholder - The stakeholder who replies
+ * @param {object} discovery - The stakeholder's hidden agenda, from discoverHiddenAgenda
+ * @param {object} judgment - Classifier judgment of the user's message, or null for the rules
+ * @return {EmotionalStateTracker} Tracker after the latest user message
+ */
+function createEmotionalStateTracker(scenario, transcript, stakeholder, discovery, judgment = null) {
+  const tracker = new EmotionalStateTracker(stakeholder, scenario);
+  // Replay every turn so patience and concern tracking carry across the
+  // whole conversation, not just the latest message
+  tracker.replayTranscript(transcript, judgment);
+  tracker.revealConcerns([...discovery.shared, ...discovery.revealed].map((item) => item.text));
+  return tracker;
+}
+
+/**
+ * Helper: Emotional state returned to the client with a reply
+ * @param {object} scenario - The scenario configuration
+ * @param {Array} transcript - Conversation including the user's message
+ * @param {object} stakeholder - The stakeholder who replies
+ * @param {object} discovery - The stakeholder's hidden agenda, from discoverHiddenAgenda
+ * @param {object} judgment - Classifier judgment of the user's message, or null for the rules
+ * @return {object|null} Snapshot from EmotionalStateTracker, or null if tracking failed
+ */
+function getEmotionalSnapshot(scenario, transcript, stakeholder, discovery, judgment) {
+  try {
+    return createEmotionalStateTracker(scenario, transcript, stakeholder, discovery, judgment).getSnapshot();
+  } catch (error) {
+    console.error("Emotional snapshot failed:", {
+      error: error.message,
+      stakeholder: stakeholder?.name,
+    });
+    return null;
+  }
+}
+
 /**
  * Helper: Build enhanced simulation system prompt with personality, emotional state, and context
  * @param {object} scenario - The scenario configuration
  * @param {Array} transcript - Conversation history (optional)
+ * @param {object} stakeholder - The stakeholder who replies (defaults to the first)
+ * @param {object} turnContext - Multi-party context for this turn
+ * @param {Array<string>} turnContext.previousSpeakers - Stakeholders who already replied this turn
+ * @param {object} turnContext.discovery - The stakeholder's hidden agenda, from discoverHiddenAgenda
+ * @param {object} turnContext.judgment - Classifier judgment of the user's message, if any
  * @return {string} Enhanced system prompt for OpenAI
  */
-function buildSimulationPrompt(scenario, transcript = []) {
-  const stakeholder = scenario.stakeholders[0];
+function buildSimulationPrompt(scenario, transcript = [], stakeholder = scenario.stakeholders[0], turnContext = {}) {
+  const otherStakeholders = scenario.stakeholders.filter((s) => s.name !== stakeholder.name);
+  const previousSpeakers = turnContext.previousSpeakers || [];
+  const discovery = turnContext.discovery || {hidden: [], shared: [], revealed: []};
+  const stillHidden = discovery.hidden.map((item) => item.text);
 
   // Initialize enhancement components with error handling
   let personalityEngine = null;
   let emotionalStateTracker = null;
   let contextAnalyzer = null;
   let personalityInstructions = "";
+  let pushbackInstructions = "";
   let emotionalStateInstructions = "";
   let contextReferences = "";
   let examplePhrases = "";
@@ -321,8 +1026,9 @@ function buildSimulationPrompt(scenario, transcript = []) {
 
   try {
     // Initialize PersonalityEngine
-    personalityEngine = new PersonalityEngine(stakeholder);
+    personalityEngine = new PersonalityEngine(stakeholder, scenario.difficulty);
     personalityInstructions = personalityEngine.getLanguageInstructions();
+    pushbackInstructions = personalityEngine.getPushbackInstructions();
     examplePhrases = personalityEngine.getSamplePhrases();
     console.log("PersonalityEngine initialized successfully");
   } catch (error) {
@@ -335,15 +1041,14 @@ function buildSimulationPrompt(scenario, transcript = []) {
     enhancementFailures.push("PersonalityEngine");
     // Fallback to balanced personality
     personalityInstructions = "Use a balanced, professional communication style.";
+    pushbackInstructions = "Push back when a claim is unsupported or vague.";
     examplePhrases = "";
   }
 
   try {
     // Initialize EmotionalStateTracker
-    emotionalStateTracker = new EmotionalStateTracker(stakeholder, scenario);
-    if (transcript && transcript.length > 0) {
-      emotionalStateTracker.analyzeTranscript(transcript);
-    }
+    emotionalStateTracker = createEmotionalStateTracker(
+        scenario, transcript, stakeholder, discovery, turnContext.judgment);
     emotionalStateInstructions = emotionalStateTracker.getStateInstructions();
     console.log("EmotionalStateTracker initialized successfully");
   } catch (error) {
@@ -402,6 +1107,9 @@ function buildSimulationPrompt(scenario, transcript = []) {
     acknowledgmentExamples = ["I see what you're saying", "Fair point", "That makes sense"];
   }
 
+  // Harder levels keep some concerns back until the user asks about them
+  const openConcerns = stakeholder.concerns.filter((c) => !stillHidden.includes(c));
+
   // Log overall enhancement status
   if (enhancementFailures.length > 0) {
     console.warn("Some enhancements failed but conversation will continue:", {
@@ -422,9 +1130,11 @@ ABOUT YOU:
 • Current emotional state: ${emotionalStateInstructions}
 
 YOUR PRIORITIES & CONCERNS:
-Concerns: ${stakeholder.concerns.join(", ")}
-Motivations: ${stakeholder.motivations.join(", ")}
+Concerns: ${openConcerns.join(", ")}
+Motivations: ${stakeholder.motivations.join(", ")}${buildHiddenAgendaSection(discovery)}
 
+HOW HARD YOU ARE TO CONVINCE:
+${pushbackInstructions}
 TODAY'S MEETING:
 Context: ${scenario.situation}
 Your objective: ${scenario.objective || "Understand if this proposal is worth pursuing"}
@@ -432,6 +1142,7 @@ Your objective: ${scenario.objective || "Understand if this proposal is worth pu
 CURRENT CONSTRAINTS YOU'RE MANAGING:
 ${scenario.constraints.map((c) => `• ${c}`).join("\n")}
 ${contextReferences}
+${buildParticipantsSection(stakeholder, otherStakeholders, previousSpeakers)}
 
 HOW TO RESPOND NATURALLY (CRITICAL - READ CAREFULLY):
 
@@ -505,20 +1216,50 @@ Good: "Q3... that gives us some breathing room. But I'm still not clear on the b
 Stay fully in character as ${stakeholder.name}. Respond naturally to what the user just said, using contractions, varied structure, and authentic workplace language:`;
 }
 
+/**
+ * Helper: Describe the other people in a multi-party conversation
+ * @param {object} stakeholder - The stakeholder who replies
+ * @param {Array} otherStakeholders - Everyone else in the room
+ * @param {Array<string>} previousSpeakers - Who already replied this turn
+ * @return {string} Prompt section, empty for one-on-one scenarios
+ */
+function buildParticipantsSection(stakeholder, otherStakeholders, previousSpeakers) {
+  if (otherStakeholders.length === 0) {
+    return "";
+  }
+
+  let section = `
+OTHER PEOPLE IN THIS CONVERSATION:
+${otherStakeholders.map((s) => `• ${s.name}, ${s.role} (${s.personality})`).join("\n")}
+Their lines appear as "[Name]: ..." - react to them like a real colleague would, but only ever speak as ${stakeholder.name}.
+Never write lines for anyone else or prefix your reply with your own name.`;
+
+  if (previousSpeakers.length > 0) {
+    section += `
+${previousSpeakers.join(" and ")} just replied to the user. Don't repeat their points - add your own angle, agree or push back.`;
+  }
+
+  return section;
+}
+
 /**
  * Helper: Build evaluation prompt
+ * Quoted turns keep their numbers in the full transcript, so moments and
+ * evidence still point at the right turn when older ones are summarized.
  * @param {object} scenario - The scenario configuration
- * @param {Array} transcript - Conversation transcript
+ * @param {object} contextWindow - Transcript window from buildTaskWindow
  * @param {object} rubric - Evaluation rubric
+ * @param {object} discovery - Hidden agenda summary from summarizeDiscovery (optional)
+ * @param {object} consistency - Contradictions and unfulfilled commitments from summarizeConsistency (optional)
  * @return {string} Evaluation prompt for OpenAI
  */
-function buildEvaluationPrompt(scenario, transcript, rubric) {
+function buildEvaluationPrompt(scenario, contextWindow, rubric, discovery = null, consistency = null) {
   return `Evaluate this business simulation conversation using the provided rubric.
 
 Scenario: ${scenario.title}
-
+${discovery ? `\n${buildDiscoveryEvaluationSection(discovery)}\n` : ""}${consistency ? `\n${buildConsistencyEvaluationSection(consistency)}\n` : ""}
 Transcript:
-${transcript.map((msg, i) => `Turn ${i + 1} (${msg.type}): ${msg.content}`).join("\n\n")}
+${formatTranscriptWindow(contextWindow, (msg, i) => `Turn ${i + 1} (${msg.type}): ${msg.content}`, "\n\n")}
 
 Rubric Criteria:
 ${rubric.criteria.map((c) => `
@@ -529,9 +1270,10 @@ ${c.description}
 - Score 5: ${c.anchors[5]}
 `).join("\n")}
 
-Provide evaluation in JSON format:
+Provide evaluation in JSON format. The overall score is calculated from the
+weighted criterion scores; holistic_score is your own overall impression.
 {
-  "overall_score": 0-100,
+  "holistic_score": 0-100,
   "criterion_scores": [
     {
       "criterion": "name",
@@ -558,7 +1300,8 @@ Provide evaluation in JSON format:
     {
       "title": "Exercise name",
       "instructions": "specific practice task",
-      "estimated_minutes": 10
+      "estimated_minutes": 10,
+      "criterion": "name of the rubric criterion it practises"
     }
   ],
   "reflection_prompt": "one powerful question"
@@ -566,58 +1309,21 @@ Provide evaluation in JSON format:
 }
 
 /**
- * Helper: Parse evaluation response
- * @param {string} text - OpenAI response text
- * @param {object} rubric - Evaluation rubric
- * @return {object} Parsed evaluation object
+ * Helper: Look up the rubric for an evaluation
+ * @param {string} rubricId - Rubric id from scenario.rubricId
+ * @param {string} userId - Caller's uid, needed for custom rubrics
+ * @return {Promise<object>} Rubric
  */
-function parseEvaluation(text, rubric) {
+async function loadRubric(rubricId, userId) {
   try {
-    // Try to extract JSON from response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const evaluation = JSON.parse(jsonMatch[0]);
-      return evaluation;
-    }
+    return await resolveRubric(admin.firestore(), rubricId, {userId});
   } catch (error) {
-    console.error("Error parsing evaluation:", error);
-  }
-
-  // Fallback to default structure
-  return {
-    overall_score: 70,
-    criterion_scores: rubric.criteria.map((c) => ({
-      criterion: c.name,
-      weight: c.weight,
-      score: 3,
-      evidence: ["Evaluation could not be fully parsed"],
-    })),
-    moments_that_mattered: [],
-    missed_opportunities: [],
-    drills: [],
-    reflection_prompt: "What could you have done differently?",
-  };
-}
-
-/**
- * Helper: Get default rubric structure
- * @param {string} rubricId - The rubric ID
- * @return {object} Default rubric structure
- */
-function getDefaultRubric(rubricId) {
-  // Return default rubric structure
-  // In production, this would be stored in Firestore
-  return {
-    id: rubricId,
-    criteria: [
-      {
-        name: "Overall Performance",
-        weight: 1.0,
-        description: "General assessment",
-        anchors: {1: "Poor", 3: "Average", 5: "Excellent"},
-      },
-    ],
-  };
+    console.error("Error loading rubric:", error);
+    if (error instanceof RubricNotFoundError) {
+      throw new functions.https.HttpsError("not-found", error.message);
+    }
+    throw new functions.https.HttpsError("failed-precondition", error.message);
+  }
 }
 
 /**
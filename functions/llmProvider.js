@@ -0,0 +1,320 @@
+/**
+ * LLM Provider Layer
+ *
+ * Every model call made by the callables goes through a provider with a
+ * `complete()` method (and `stream()` for token-by-token replies), so the
+ * backing model can be swapped without touching the callables. Three
+ * providers ship with the functions:
+ *
+ * - openai: the hosted OpenAI API (default)
+ * - local: any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ * - mock: deterministic scripted replies for emulator runs and e2e tests
+ *
+ * Configuration (environment variables):
+ * - LLM_PROVIDER: openai | local | mock
+ * - LLM_MODEL: model used for every task
+ * - LLM_MODEL_SIMULATION, LLM_MODEL_COACHING, LLM_MODEL_SUGGESTIONS,
+ *   LLM_MODEL_EVALUATION, LLM_MODEL_GENERATION,
+ *   LLM_MODEL_CLASSIFICATION: per-task model overrides
+ * - LLM_BASE_URL, LLM_API_KEY: endpoint and optional key for `local`
+ * - LLM_MOCK_SCRIPT: path to a JSON script that replaces the mock defaults
+ */
+
+const OpenAI = require("openai");
+const {MockProvider} = require("./mockProvider");
+
+/**
+ * Tasks the callables ask a provider to perform
+ */
+const TASKS = {
+  SIMULATION: "simulation",
+  COACHING: "coaching",
+  SUGGESTIONS: "suggestions",
+  EVALUATION: "evaluation",
+  GENERATION: "generation",
+  CLASSIFICATION: "classification",
+};
+
+/**
+ * Default model per task for each provider
+ */
+const defaultModels = {
+  openai: {
+    simulation: "gpt-4o-mini",
+    coaching: "gpt-4o-mini",
+    suggestions: "gpt-4o-mini",
+    evaluation: "gpt-4o",
+    generation: "gpt-4o",
+    classification: "gpt-4o-mini",
+  },
+  local: {
+    simulation: "llama3.1",
+    coaching: "llama3.1",
+    suggestions: "llama3.1",
+    evaluation: "llama3.1",
+    generation: "llama3.1",
+    classification: "llama3.1",
+  },
+  mock: {
+    simulation: "mock-scripted",
+    coaching: "mock-scripted",
+    suggestions: "mock-scripted",
+    evaluation: "mock-scripted",
+    generation: "mock-scripted",
+    classification: "mock-scripted",
+  },
+};
+
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Resolve the model for every task from defaults and env overrides
+ * @param {string} providerName - Provider the models belong to
+ * @param {Object} env - Environment variables
+ * @return {Object} Model name keyed by task
+ */
+function resolveModels(providerName, env = {}) {
+  const defaults = defaultModels[providerName] || defaultModels.openai;
+  const models = {};
+
+  Object.values(TASKS).forEach((task) => {
+    models[task] = env[`LLM_MODEL_${task.toUpperCase()}`] ||
+      env.LLM_MODEL ||
+      defaults[task];
+  });
+
+  return models;
+}
+
+/**
+ * OpenAIProvider class
+ * Completes chat requests against the OpenAI API
+ */
+class OpenAIProvider {
+  /**
+   * Create an OpenAIProvider
+   * @param {Object} options - Provider options
+   * @param {string} options.apiKey - OpenAI API key
+   * @param {Object} options.models - Model name keyed by task
+   * @param {Object} options.client - Pre-built client (tests)
+   */
+  constructor(options = {}) {
+    this.name = "openai";
+    this.supportsStreamUsage = true;
+    this.models = options.models || resolveModels(this.name);
+    this.client = options.client || this._createClient(options);
+  }
+
+  /**
+   * Build the SDK client
+   * @param {Object} options - Provider options
+   * @return {OpenAI} OpenAI client
+   * @private
+   */
+  _createClient(options) {
+    if (!options.apiKey) {
+      throw new Error(
+          "OpenAI API key not configured. " +
+          "Please set OPENAI_API_KEY environment variable.");
+    }
+    return new OpenAI({apiKey: options.apiKey});
+  }
+
+  /**
+   * Model used for a task
+   * @param {string} task - One of TASKS
+   * @return {string} Model name
+   */
+  getModel(task) {
+    return this.models[task] || this.models[TASKS.SIMULATION];
+  }
+
+  /**
+   * Complete a chat request
+   * @param {Object} request - Completion request
+   * @param {string} request.task - One of TASKS
+   * @param {Array} request.messages - Chat messages ({role, content})
+   * @param {number} request.maxTokens - Completion token cap
+   * @param {number} request.temperature - Sampling temperature
+   * @param {number} request.presencePenalty - Optional presence penalty
+   * @param {number} request.frequencyPenalty - Optional frequency penalty
+   * @param {AbortSignal} request.signal - Optional abort signal
+   * @return {Promise<Object>} {content, model, provider, usage}
+   */
+  async complete(request) {
+    const params = this._buildParams(request);
+    const completion = await this.client.chat.completions.create(
+        params, {signal: request.signal});
+    const choice = completion.choices && completion.choices[0];
+
+    return this._toResult(
+        (choice && choice.message && choice.message.content) || "",
+        completion.model || params.model,
+        completion.usage);
+  }
+
+  /**
+   * Stream a chat request, reporting each text fragment as it arrives
+   * @param {Object} request - Completion request (same shape as complete)
+   * @param {Function} onDelta - Called with each text fragment
+   * @return {Promise<Object>} {content, model, provider, usage}
+   */
+  async stream(request, onDelta) {
+    const params = {...this._buildParams(request), stream: true};
+    if (this.supportsStreamUsage) {
+      params.stream_options = {include_usage: true};
+    }
+
+    const stream = await this.client.chat.completions.create(
+        params, {signal: request.signal});
+
+    let content = "";
+    let model = params.model;
+    let usage = null;
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices && chunk.choices[0];
+      const delta = choice && choice.delta && choice.delta.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.model) {
+        model = chunk.model;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    return this._toResult(content, model, usage);
+  }
+
+  /**
+   * Map a request onto chat completion parameters
+   * @param {Object} request - Completion request
+   * @return {Object} Chat completion parameters
+   * @private
+   */
+  _buildParams(request) {
+    const params = {
+      model: this.getModel(request.task),
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+    if (request.presencePenalty !== undefined) {
+      params.presence_penalty = request.presencePenalty;
+    }
+    if (request.frequencyPenalty !== undefined) {
+      params.frequency_penalty = request.frequencyPenalty;
+    }
+    return params;
+  }
+
+  /**
+   * Build the provider-neutral result
+   * @param {string} content - Completion text
+   * @param {string} model - Model that served the request
+   * @param {Object} usage - Raw token usage from the API
+   * @return {Object} {content, model, provider, usage}
+   * @private
+   */
+  _toResult(content, model, usage) {
+    const tokens = usage || {};
+    return {
+      content,
+      model,
+      provider: this.name,
+      usage: {
+        promptTokens: tokens.prompt_tokens || 0,
+        completionTokens: tokens.completion_tokens || 0,
+        totalTokens: tokens.total_tokens || 0,
+      },
+    };
+  }
+}
+
+/**
+ * OpenAICompatibleProvider class
+ * Completes chat requests against a self-hosted OpenAI-compatible endpoint
+ */
+class OpenAICompatibleProvider extends OpenAIProvider {
+  /**
+   * Create an OpenAICompatibleProvider
+   * @param {Object} options - Provider options
+   * @param {string} options.baseURL - Endpoint base URL (ending in /v1)
+   * @param {string} options.apiKey - Optional key; most local servers
+   *   ignore it
+   * @param {Object} options.models - Model name keyed by task
+   * @param {Object} options.client - Pre-built client (tests)
+   */
+  constructor(options = {}) {
+    super({
+      models: options.models || resolveModels("local"),
+      ...options,
+    });
+    this.name = "local";
+    // Not every local server understands stream_options
+    this.supportsStreamUsage = false;
+    this.baseURL = options.baseURL || DEFAULT_LOCAL_BASE_URL;
+  }
+
+  /**
+   * Build the SDK client pointed at the local endpoint
+   * @param {Object} options - Provider options
+   * @return {OpenAI} OpenAI client
+   * @private
+   */
+  _createClient(options) {
+    return new OpenAI({
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseURL || DEFAULT_LOCAL_BASE_URL,
+    });
+  }
+}
+
+/**
+ * Create the provider selected by the environment
+ * @param {Object} env - Environment variables (defaults to process.env)
+ * @param {Object} overrides - Extra provider options (e.g. apiKey)
+ * @return {Object} Provider with complete() and stream() methods
+ */
+function createProvider(env = process.env, overrides = {}) {
+  const name = (env.LLM_PROVIDER || "openai").toLowerCase();
+  const models = resolveModels(name, env);
+
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        models,
+        ...overrides,
+      });
+    case "local":
+      return new OpenAICompatibleProvider({
+        baseURL: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        models,
+        ...overrides,
+      });
+    case "mock":
+      return new MockProvider({
+        scriptPath: env.LLM_MOCK_SCRIPT,
+        models,
+        ...overrides,
+      });
+    default:
+      throw new Error(
+          `Unknown LLM_PROVIDER "${name}". Use openai, local or mock.`);
+  }
+}
+
+module.exports = {
+  TASKS,
+  defaultModels,
+  resolveModels,
+  createProvider,
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+};
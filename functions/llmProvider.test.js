@@ -0,0 +1,292 @@
+/**
+ * Unit tests for the LLM provider layer and the scripted mock provider
+ */
+
+const {
+  TASKS,
+  resolveModels,
+  createProvider,
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+} = require("./llmProvider");
+const {MockProvider} = require("./mockProvider");
+
+describe("LLM Provider", () => {
+  const fakeClient = (content = "Hello there") => {
+    const create = jest.fn().mockResolvedValue({
+      model: "served-model",
+      choices: [{message: {content}}],
+      usage: {prompt_tokens: 12, completion_tokens: 3, total_tokens: 15},
+    });
+    return {create, client: {chat: {completions: {create}}}};
+  };
+
+  describe("Model configuration", () => {
+    test("should use provider defaults when nothing is set", () => {
+      const models = resolveModels("openai", {});
+      expect(models.simulation).toBe("gpt-4o-mini");
+      expect(models.evaluation).toBe("gpt-4o");
+    });
+
+    test("should let LLM_MODEL and per-task overrides win", () => {
+      const models = resolveModels("openai", {
+        LLM_MODEL: "gpt-4.1-mini",
+        LLM_MODEL_EVALUATION: "gpt-4.1",
+      });
+      expect(models.simulation).toBe("gpt-4.1-mini");
+      expect(models.coaching).toBe("gpt-4.1-mini");
+      expect(models.evaluation).toBe("gpt-4.1");
+    });
+  });
+
+  describe("createProvider", () => {
+    test("should default to OpenAI and require a key", () => {
+      expect(() => createProvider({})).toThrow(/API key/);
+      const provider = createProvider({OPENAI_API_KEY: "sk-test"});
+      expect(provider).toBeInstanceOf(OpenAIProvider);
+      expect(provider.name).toBe("openai");
+    });
+
+    test("should build a local provider without a key", () => {
+      const provider = createProvider({
+        LLM_PROVIDER: "local",
+        LLM_BASE_URL: "http://localhost:1234/v1",
+        LLM_MODEL: "qwen2.5",
+      });
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(provider.name).toBe("local");
+      expect(provider.baseURL).toBe("http://localhost:1234/v1");
+      expect(provider.getModel(TASKS.EVALUATION)).toBe("qwen2.5");
+    });
+
+    test("should build the mock provider", () => {
+      const provider = createProvider({LLM_PROVIDER: "mock"});
+      expect(provider).toBeInstanceOf(MockProvider);
+    });
+
+    test("should reject unknown providers", () => {
+      expect(() => createProvider({LLM_PROVIDER: "carrier-pigeon"}))
+          .toThrow(/Unknown LLM_PROVIDER/);
+    });
+  });
+
+  describe("OpenAIProvider", () => {
+    test("should map the request onto the chat completions API", async () => {
+      const {create, client} = fakeClient();
+      const provider = new OpenAIProvider({
+        client,
+        models: resolveModels("openai", {}),
+      });
+
+      const result = await provider.complete({
+        task: TASKS.SIMULATION,
+        messages: [{role: "user", content: "Hi"}],
+        maxTokens: 300,
+        temperature: 1.0,
+        presencePenalty: 0.3,
+        context: {scenario: {id: "ignored"}},
+      });
+
+      expect(create).toHaveBeenCalledWith({
+        model: "gpt-4o-mini",
+        messages: [{role: "user", content: "Hi"}],
+        max_tokens: 300,
+        temperature: 1.0,
+        presence_penalty: 0.3,
+      }, {signal: undefined});
+      expect(result).toEqual({
+        content: "Hello there",
+        model: "served-model",
+        provider: "openai",
+        usage: {promptTokens: 12, completionTokens: 3, totalTokens: 15},
+      });
+    });
+
+    test("should stream deltas and read usage off the last chunk", async () => {
+      const chunks = [
+        {model: "gpt-4o-mini", choices: [{delta: {content: "Hel"}}]},
+        {choices: [{delta: {content: "lo"}}]},
+        {choices: [],
+          usage: {prompt_tokens: 5, completion_tokens: 2, total_tokens: 7}},
+      ];
+      const create = jest.fn().mockResolvedValue({
+        async* [Symbol.asyncIterator]() {
+          yield* chunks;
+        },
+      });
+      const provider = new OpenAIProvider({
+        client: {chat: {completions: {create}}},
+        models: resolveModels("openai", {}),
+      });
+
+      const deltas = [];
+      const result = await provider.stream(
+          {task: TASKS.SIMULATION, messages: []},
+          (text) => deltas.push(text),
+      );
+
+      expect(deltas).toEqual(["Hel", "lo"]);
+      expect(result.content).toBe("Hello");
+      expect(result.usage.totalTokens).toBe(7);
+      expect(create.mock.calls[0][0]).toMatchObject({
+        stream: true,
+        stream_options: {include_usage: true},
+      });
+    });
+
+    test("should not ask local servers for stream usage", async () => {
+      const create = jest.fn().mockResolvedValue({
+        async* [Symbol.asyncIterator]() {},
+      });
+      const provider = new OpenAICompatibleProvider({
+        client: {chat: {completions: {create}}},
+      });
+
+      await provider.stream({task: TASKS.SIMULATION, messages: []}, () => {});
+      expect(create.mock.calls[0][0].stream_options).toBeUndefined();
+    });
+
+    test("should use the evaluation model for evaluation calls", async () => {
+      const {create, client} = fakeClient("{}");
+      const provider = new OpenAIProvider({
+        client,
+        models: resolveModels("openai", {}),
+      });
+
+      await provider.complete({task: TASKS.EVALUATION, messages: []});
+      expect(create.mock.calls[0][0].model).toBe("gpt-4o");
+    });
+  });
+
+  describe("MockProvider", () => {
+    const conflict = {
+      id: "team_conflict_resolution",
+      stakeholders: [{name: "Jamie Lee"}, {name: "Taylor Morgan"}],
+    };
+
+    test("should play back replies by scenario and stakeholder", async () => {
+      const provider = new MockProvider();
+      const first = await provider.complete({
+        task: TASKS.SIMULATION,
+        messages: [{role: "user", content: "Hi"}],
+        context: {scenario: conflict, stakeholder: {name: "Taylor Morgan"}},
+      });
+      const second = await provider.complete({
+        task: TASKS.SIMULATION,
+        messages: [
+          {role: "user", content: "Hi"},
+          {role: "assistant", content: first.content},
+          {role: "user", content: "Go on"},
+        ],
+        context: {scenario: conflict, stakeholder: {name: "Taylor Morgan"}},
+      });
+
+      expect(first.content).toMatch(/deadline in three weeks/);
+      expect(second.content).toMatch(/velocity/);
+      expect(first.provider).toBe("mock");
+    });
+
+    test("should be deterministic for the same request", async () => {
+      const provider = new MockProvider();
+      const request = {
+        task: TASKS.SIMULATION,
+        messages: [{role: "user", content: "Hi"}],
+        context: {scenario: {id: "unknown"}, stakeholder: {name: "Someone"}},
+      };
+      const a = await provider.complete(request);
+      const b = await provider.complete(request);
+      expect(a).toEqual(b);
+    });
+
+    test("should hold on the last scripted reply", async () => {
+      const provider = new MockProvider({
+        script: {scenarios: {s1: {replies: ["one", "two"]}}},
+      });
+      const messages = [
+        {role: "assistant", content: "one"},
+        {role: "assistant", content: "two"},
+        {role: "assistant", content: "two"},
+      ];
+      const result = await provider.complete({
+        task: TASKS.SIMULATION,
+        messages,
+        context: {scenario: {id: "s1"}},
+      });
+      expect(result.content).toBe("two");
+    });
+
+    test("should stream the scripted reply word by word", async () => {
+      const provider = new MockProvider({
+        script: {scenarios: {s1: {replies: ["Let us talk numbers."]}}},
+      });
+      const deltas = [];
+      const result = await provider.stream(
+          {task: TASKS.SIMULATION, messages: [],
+            context: {scenario: {id: "s1"}}},
+          (text) => deltas.push(text),
+      );
+
+      expect(deltas).toEqual(["Let ", "us ", "talk ", "numbers."]);
+      expect(deltas.join("")).toBe(result.content);
+    });
+
+    test("should stop streaming when the request is aborted", async () => {
+      const provider = new MockProvider();
+      const controller = new AbortController();
+      const deltas = [];
+
+      await expect(provider.stream(
+          {
+            task: TASKS.SIMULATION,
+            messages: [],
+            signal: controller.signal,
+            context: {scenario: {id: "director_project_approval"}},
+          },
+          (text) => {
+            deltas.push(text);
+            controller.abort();
+          },
+      )).rejects.toThrow(/aborted/);
+      expect(deltas).toHaveLength(1);
+    });
+
+    test("should return suggestions as a JSON array", async () => {
+      const provider = new MockProvider();
+      const result = await provider.complete({
+        task: TASKS.SUGGESTIONS,
+        messages: [{role: "user", content: "prompt"}],
+        context: {scenario: conflict, transcript: []},
+      });
+      const suggestions = JSON.parse(result.content);
+      expect(suggestions).toHaveLength(3);
+    });
+
+    test("should build an evaluation covering every criterion", async () => {
+      const provider = new MockProvider();
+      const rubric = {
+        criteria: [
+          {name: "Clarity", weight: 0.6},
+          {name: "Empathy", weight: 0.4},
+        ],
+      };
+      const result = await provider.complete({
+        task: TASKS.EVALUATION,
+        messages: [],
+        context: {
+          scenario: conflict,
+          transcript: [
+            {type: "ai", content: "Hello"},
+            {type: "user", content: "Hi both"},
+          ],
+          rubric,
+        },
+      });
+
+      const evaluation = JSON.parse(result.content);
+      expect(evaluation.criterion_scores.map((c) => c.criterion))
+          .toEqual(["Clarity", "Empathy"]);
+      expect(evaluation.holistic_score).toBe(60);
+      expect(evaluation.moments_that_mattered[0].turn).toBe(2);
+    });
+  });
+});
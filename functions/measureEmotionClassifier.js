@@ -0,0 +1,31 @@
+/**
+ * Measure how often the emotion classifier disagrees with the keyword rules
+ * on the sample transcripts in testFixtures.js
+ *
+ * Usage (from functions/):
+ *   npm run measure:classifier
+ *
+ * Uses the provider selected by LLM_PROVIDER (see llmProvider.js). Every
+ * sample transcript is played against every sample scenario's stakeholder.
+ */
+
+const {createProvider} = require("./llmProvider");
+const {measureDisagreement} = require("./emotionClassifier");
+const {sampleScenarios, sampleTranscripts} = require("./testFixtures");
+
+const cases = Object.values(sampleScenarios).flatMap((scenario) =>
+  Object.values(sampleTranscripts).map((transcript) => ({
+    scenario,
+    stakeholder: scenario.stakeholders[0],
+    transcript,
+  })));
+
+measureDisagreement(createProvider(process.env), cases)
+    .then((summary) => {
+      console.log(JSON.stringify(summary, null, 2));
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Failed to measure the emotion classifier:", error);
+      process.exit(1);
+    });
@@ -0,0 +1,305 @@
+/**
+ * Mock LLM Provider
+ *
+ * Plays back canned replies from a script keyed on the scenario id, so the
+ * whole app can run against the Firebase emulators with no network and
+ * end-to-end tests get the same conversation on every run. Replies are
+ * picked by how far the conversation has progressed, never at random.
+ */
+
+const fs = require("fs");
+const defaultScript = require("./mockScripts.json");
+
+/**
+ * MockProvider class
+ * Deterministic scripted provider with the same interface as the others
+ */
+class MockProvider {
+  /**
+   * Create a MockProvider
+   * @param {Object} options - Provider options
+   * @param {Object} options.script - Script object (takes precedence)
+   * @param {string} options.scriptPath - Path to a JSON script file
+   * @param {Object} options.models - Model name keyed by task
+   */
+  constructor(options = {}) {
+    this.name = "mock";
+    this.models = options.models || {};
+    this.script = options.script ||
+      (options.scriptPath ? loadScript(options.scriptPath) : defaultScript);
+  }
+
+  /**
+   * Complete a chat request from the script
+   * @param {Object} request - Completion request
+   * @param {string} request.task - Task being performed
+   * @param {Array} request.messages - Chat messages ({role, content})
+   * @param {Object} request.context - Scenario, stakeholder, transcript
+   *   and rubric for the call
+   * @return {Promise<Object>} {content, model, provider, usage}
+   */
+  async complete(request) {
+    const context = request.context || {};
+    let content;
+
+    switch (request.task) {
+      case "coaching":
+        content = this.getHint(context);
+        break;
+      case "suggestions":
+        content = JSON.stringify(this.getSuggestions(context));
+        break;
+      case "evaluation":
+        content = JSON.stringify(this.getEvaluation(context));
+        break;
+      case "generation":
+        content = JSON.stringify(this.getScenarioDraft(context));
+        break;
+      case "classification":
+        content = JSON.stringify(this.getJudgment());
+        break;
+      default:
+        content = this.getReply(context, request.messages || []);
+    }
+
+    const promptChars = (request.messages || [])
+        .reduce((total, msg) => total + (msg.content || "").length, 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: this.models[request.task] || "mock-scripted",
+      provider: this.name,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  /**
+   * Stream a scripted reply one word at a time
+   * @param {Object} request - Completion request (same shape as complete)
+   * @param {Function} onDelta - Called with each text fragment
+   * @return {Promise<Object>} {content, model, provider, usage}
+   */
+  async stream(request, onDelta) {
+    const result = await this.complete(request);
+    const fragments = result.content.match(/\S+\s*/g) || [];
+
+    for (const fragment of fragments) {
+      if (request.signal && request.signal.aborted) {
+        const error = new Error("Request was aborted.");
+        error.name = "AbortError";
+        throw error;
+      }
+      onDelta(fragment);
+      // Yield so aborts and writes interleave like a real stream
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    return result;
+  }
+
+  /**
+   * Next scripted stakeholder reply
+   * @param {Object} context - Call context ({scenario, stakeholder})
+   * @param {Array} messages - Chat messages sent to the model
+   * @return {string} Reply text
+   */
+  getReply(context, messages) {
+    const section = this.getSection(context.scenario);
+    const stakeholderName = context.stakeholder && context.stakeholder.name;
+    let replies = section.replies;
+
+    if (replies && !Array.isArray(replies)) {
+      replies = replies[stakeholderName] || Object.values(replies)[0];
+    }
+    if (!Array.isArray(replies) || replies.length === 0) {
+      replies = defaultScript.default.replies;
+    }
+
+    // The stakeholder's own earlier lines arrive as assistant turns
+    const spoken = messages.filter((msg) => msg.role === "assistant").length;
+    return pick(replies, spoken);
+  }
+
+  /**
+   * Scripted coaching hint for the current turn
+   * @param {Object} context - Call context ({scenario, transcript})
+   * @return {string} Hint text
+   */
+  getHint(context) {
+    const hints = this.getSection(context.scenario).hints ||
+      defaultScript.default.hints;
+    return pick(hints, countUserTurns(context.transcript));
+  }
+
+  /**
+   * Scripted suggestion set for the current turn
+   * @param {Object} context - Call context ({scenario, transcript})
+   * @return {Array<string>} Three suggestions
+   */
+  getSuggestions(context) {
+    const sets = this.getSection(context.scenario).suggestions ||
+      defaultScript.default.suggestions;
+    return pick(sets, countUserTurns(context.transcript));
+  }
+
+  /**
+   * Evaluation built from the rubric so every criterion is present
+   * @param {Object} context - Call context ({transcript, rubric})
+   * @return {Object} Evaluation in the shape buildEvaluationPrompt asks for
+   */
+  getEvaluation(context) {
+    const settings = {
+      ...defaultScript.default.evaluation,
+      ...this.getSection(context.scenario).evaluation,
+    };
+    const criteria = (context.rubric && context.rubric.criteria) || [];
+    const transcript = context.transcript || [];
+    const firstUserTurn = transcript.findIndex((msg) => msg.type === "user");
+    const score = settings.score;
+
+    const criterionScores = criteria.map((criterion) => ({
+      criterion: criterion.name,
+      weight: criterion.weight,
+      score,
+      evidence: [`Scripted evidence for ${criterion.name}`],
+    }));
+    const holistic = criteria.reduce(
+        (total, criterion) => total + criterion.weight * (score / 5) * 100, 0);
+
+    return {
+      holistic_score: Math.round(holistic),
+      criterion_scores: criterionScores,
+      moments_that_mattered: firstUserTurn === -1 ? [] : [{
+        turn: firstUserTurn + 1,
+        description: "Opened the conversation",
+        why: "Set the tone for the rest of the discussion",
+      }],
+      missed_opportunities: criteria.slice(0, 1).map((criterion) => ({
+        criterion: criterion.name,
+        what: `More depth on ${criterion.name.toLowerCase()}`,
+        how_to_improve: "Ask one more open question before proposing",
+      })),
+      drills: [{
+        title: "Open-question warm-up",
+        instructions: "Write three open questions for your next meeting.",
+        estimated_minutes: 10,
+        ...(criteria[0] ? {criterion: criteria[0].name} : {}),
+      }],
+      reflection_prompt: settings.reflection_prompt,
+    };
+  }
+
+  /**
+   * Scenario draft built around the brief so the same brief always gives
+   * the same draft
+   * @param {Object} context - Call context ({brief} plus turnLimit for
+   *   drills)
+   * @return {Object} Draft in the shape buildScenarioPrompt asks for
+   */
+  getScenarioDraft(context) {
+    const brief = (context.brief || "A difficult workplace conversation")
+        .trim();
+    const title = brief.split(/[.!?\n]/)[0].slice(0, 60);
+
+    return {
+      title,
+      category: "Custom",
+      difficulty: "Medium",
+      description: brief.slice(0, 160),
+      situation: brief,
+      objective: "Reach an agreement both sides can commit to.",
+      turnLimit: context.turnLimit || 10,
+      stakeholders: [{
+        name: "Jordan Lee",
+        role: "Department Head",
+        relationshipType: "stakeholder",
+        personality: "Pragmatic, time-pressed and wary of new commitments",
+        concerns: ["Budget impact", "Team capacity"],
+        motivations: ["Hitting quarterly targets", "Keeping the team stable"],
+        communicationStyle: {
+          directness: "direct",
+          formality: "professional",
+          emotionalExpressiveness: "low",
+          questioningStyle: "probing",
+        },
+        speechPatterns: {
+          averageSentenceLength: "short",
+          usesIdioms: false,
+          usesHumor: false,
+          thinkingPauses: "occasional",
+        },
+      }],
+      constraints: [
+        "No additional budget this quarter",
+        "Decision needed by the end of the meeting",
+        "Existing commitments cannot slip",
+      ],
+    };
+  }
+
+  /**
+   * Emotion judgment that defers to the keyword rules, so emulator runs
+   * behave the same with the classifier on or off
+   * @return {Object} Judgment in the shape buildClassifierPrompt asks for
+   */
+  getJudgment() {
+    return {
+      concernsAddressed: [],
+      hasSpecifics: false,
+      hasEvidence: false,
+      isVague: false,
+      confident: false,
+      reason: "Scripted judgment",
+    };
+  }
+
+  /**
+   * Script section for a scenario, merged over the defaults
+   * @param {Object} scenario - Scenario being played
+   * @return {Object} Script section
+   */
+  getSection(scenario) {
+    const scenarios = this.script.scenarios || {};
+    const base = this.script.default || defaultScript.default;
+    const id = scenario && scenario.id;
+    return {...base, ...(id && scenarios[id])};
+  }
+}
+
+/**
+ * Load a script file from disk
+ * @param {string} scriptPath - Path to a JSON script
+ * @return {Object} Parsed script
+ */
+function loadScript(scriptPath) {
+  return JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+}
+
+/**
+ * Pick an entry by index, holding on the last one once the script runs out
+ * @param {Array} entries - Scripted entries
+ * @param {number} index - Position in the conversation
+ * @return {*} Entry at the index
+ */
+function pick(entries, index) {
+  return entries[Math.min(index, entries.length - 1)];
+}
+
+/**
+ * Count the user's turns in a transcript
+ * @param {Array} transcript - Conversation history
+ * @return {number} Number of user messages
+ */
+function countUserTurns(transcript) {
+  return (transcript || []).filter((msg) => msg.type === "user").length;
+}
+
+module.exports = {
+  MockProvider,
+};
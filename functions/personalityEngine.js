@@ -7,6 +7,9 @@
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5
  */
 
+const {getDifficultyProfile, objectionInstructions} =
+  require("./difficultyProfiles");
+
 /**
  * Personality pattern mappings
  * Each personality type has specific language characteristics
@@ -168,14 +171,16 @@ class PersonalityEngine {
   /**
    * Create a PersonalityEngine
    * @param {Object} stakeholder - Stakeholder object with personality field
+   * @param {string} difficulty - Scenario difficulty (defaults to Medium)
    */
-  constructor(stakeholder) {
+  constructor(stakeholder, difficulty) {
     if (!stakeholder) {
       throw new Error('PersonalityEngine requires a valid stakeholder object');
     }
     this.stakeholder = stakeholder;
     this.personalityType = this._normalizePersonality(stakeholder.personality);
     this.patterns = this.derivePatterns();
+    this.difficulty = getDifficultyProfile(difficulty);
   }
 
   /**
@@ -294,6 +299,26 @@ class PersonalityEngine {
     return instructions;
   }
 
+  /**
+   * Get pushback instructions for the scenario difficulty
+   * Covers how often to object and, at harder levels, time pressure.
+   * @return {string} Instructions for AI model
+   */
+  getPushbackInstructions() {
+    const profile = this.difficulty;
+
+    let instructions = `Difficulty: ${profile.level}\n`;
+    objectionInstructions[profile.objectionFrequency].forEach((line) => {
+      instructions += `- ${line}\n`;
+    });
+
+    if (profile.timePressure) {
+      instructions += `- Time pressure: ${profile.timePressure}\n`;
+    }
+
+    return instructions;
+  }
+
   /**
    * Get sample phrases for this personality
    * @return {Array<string>} Example phrases demonstrating personality
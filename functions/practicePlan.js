@@ -0,0 +1,234 @@
+/**
+ * Practice Plan
+ *
+ * Carries each user's weak criteria forward from one evaluation to the
+ * next. A criterion scored 3 or lower becomes a plan item, together with
+ * the evaluation's advice for it (missed_opportunities), a drill that
+ * targets it and the scenario to re-run. Items are scheduled with a
+ * spaced-repetition algorithm adapted from SM-2, reading the 1-5
+ * criterion score as the recall grade:
+ *
+ * - Every later evaluation that scores the criterion reviews the item,
+ *   whether it came from a drill, a re-run or any other session.
+ * - A score below 3 starts the item over, due the next day.
+ * - A score of 3 or more lengthens the interval: 1 day, then 3, then the
+ *   previous interval times the item's ease. Higher scores raise the ease.
+ * - Two reviews in a row scoring 4 or more retire the item.
+ *
+ * Each review switches the item between a drill and a scenario re-run, so
+ * the skill is practised in isolation and in context. The plan is kept in
+ * `practicePlans/{userId}` and only written by the functions; the client
+ * picks out what is due today.
+ */
+
+const {FieldValue} = require("firebase-admin/firestore");
+
+// A criterion scored at or below this joins the plan
+const WEAK_SCORE = 3;
+
+// Scores below this start an item over
+const PASS_SCORE = 3;
+
+// Reviews in a row at or above STRONG_SCORE that retire an item
+const STRONG_SCORE = 4;
+const RETIRE_STREAK = 2;
+
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Same criterion name, ignoring case and outer whitespace
+ * @param {string} a - Criterion name
+ * @param {string} b - Criterion name
+ * @return {boolean} True if they name the same criterion
+ */
+function sameCriterion(a, b) {
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+/**
+ * ISO time a number of days after now
+ * @param {Date} now - Current time
+ * @param {number} days - Days to add
+ * @return {string} ISO timestamp
+ */
+function addDays(now, days) {
+  return new Date(now.getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Schedule an item after a review
+ * @param {Object} item - Plan item
+ * @param {number} score - Criterion score from the review, 1-5
+ * @param {Date} now - Time of the review
+ * @return {(Object|null)} Rescheduled item, or null when it is retired
+ */
+function reviewItem(item, score, now) {
+  const streak = score >= STRONG_SCORE ? item.streak + 1 : 0;
+  if (streak >= RETIRE_STREAK) {
+    return null;
+  }
+
+  const grade = 5 - score;
+  const ease = Math.max(MIN_EASE,
+      item.ease + 0.1 - grade * (0.08 + grade * 0.02));
+
+  let repetitions = 0;
+  let intervalDays = 1;
+  if (score >= PASS_SCORE) {
+    intervalDays = item.repetitions === 0 ? 1 :
+      item.repetitions === 1 ? 3 :
+      Math.round(item.intervalDays * ease);
+    repetitions = item.repetitions + 1;
+  }
+
+  return {
+    ...item,
+    score,
+    ease: Number(ease.toFixed(2)),
+    repetitions,
+    intervalDays,
+    streak,
+    dueAt: addDays(now, intervalDays),
+    practisedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Activity to do next time an item is due
+ * @param {Object} item - Plan item with its drill and scenario
+ * @param {boolean} practisedInDrill - Whether the review was a drill
+ * @return {string} "drill" or "rerun"
+ */
+function nextActivity(item, practisedInDrill) {
+  if (!item.drill) {
+    return "rerun";
+  }
+  if (!item.scenario) {
+    return "drill";
+  }
+  return practisedInDrill ? "rerun" : "drill";
+}
+
+/**
+ * What an evaluation offers for practising a criterion
+ * @param {string} criterion - Criterion name
+ * @param {Object} review - Evaluation being applied (see applyEvaluation)
+ * @return {Object} drill, scenario and tip fields, each only when present
+ */
+function getPracticeMaterial(criterion, {evaluationId, evaluation, scenario,
+  drill}) {
+  const drillIndex = (evaluation.drills || [])
+      .findIndex((d) => d.criterion && sameCriterion(d.criterion, criterion));
+  const missed = (evaluation.missed_opportunities || [])
+      .find((m) => sameCriterion(m.criterion, criterion));
+
+  let planDrill = null;
+  if (drillIndex !== -1) {
+    planDrill = {
+      evaluationId,
+      drillIndex,
+      title: evaluation.drills[drillIndex].title,
+    };
+  } else if (drill) {
+    // A drill session recommends the drill it came from again
+    const {evaluationId: sourceId, drillIndex: sourceIndex, title} = drill;
+    planDrill = {evaluationId: sourceId, drillIndex: sourceIndex, title};
+  }
+
+  return {
+    ...(planDrill ? {drill: planDrill} : {}),
+    // A drill's micro-scenario is not worth re-running
+    ...(scenario && !drill ? {scenario} : {}),
+    ...(missed ? {tip: missed.how_to_improve} : {}),
+  };
+}
+
+/**
+ * Plan items after an evaluation
+ * Criteria the evaluation did not score are left as they were.
+ * @param {Array<Object>} items - Current plan items
+ * @param {Object} review - The evaluation to apply
+ * @param {string} review.evaluationId - Stored evaluation id
+ * @param {Object} review.evaluation - Normalized evaluation
+ * @param {Object} review.scenario - Scenario the session ran
+ * @param {(Object|null)} review.drill - The session's drill field, if any
+ * @param {Date} now - Time of the evaluation
+ * @return {Array<Object>} Plan items, soonest due first
+ */
+function applyEvaluation(items, review, now) {
+  const {evaluation} = review;
+  if (evaluation.degraded || !evaluation.criterion_scores) {
+    return items;
+  }
+
+  const remaining = [...items];
+  const updated = [];
+  evaluation.criterion_scores.forEach(({criterion, score}) => {
+    const index = remaining
+        .findIndex((item) => sameCriterion(item.criterion, criterion));
+    const existing = index === -1 ? null : remaining.splice(index, 1)[0];
+    if (!existing && score > WEAK_SCORE) {
+      return;
+    }
+
+    const scheduled = existing ? reviewItem(existing, score, now) : {
+      criterion,
+      score,
+      ease: START_EASE,
+      repetitions: 0,
+      intervalDays: 1,
+      streak: 0,
+      dueAt: addDays(now, 1),
+      practisedAt: now.toISOString(),
+    };
+    if (!scheduled) {
+      return;
+    }
+
+    const item = {...scheduled, ...getPracticeMaterial(criterion, review)};
+    const practisedInDrill = Boolean(review.drill);
+    updated.push({...item, activity: nextActivity(item, practisedInDrill)});
+  });
+
+  return [...remaining, ...updated]
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt) || a.score - b.score);
+}
+
+/**
+ * Apply an evaluation to the user's stored plan
+ * @param {Object} db - Firestore instance
+ * @param {string} userId - Owner of the plan
+ * @param {Object} review - See applyEvaluation
+ * @param {Date} now - Time of the evaluation
+ * @return {Promise<Array<Object>>} Plan items after the update
+ */
+async function updatePracticePlan(db, userId, review, now = new Date()) {
+  const ref = db.collection("practicePlans").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const items = applyEvaluation(
+        snapshot.exists ? snapshot.data().items || [] : [], review, now);
+    transaction.set(ref, {
+      userId,
+      items,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return items;
+  });
+}
+
+module.exports = {
+  WEAK_SCORE,
+  PASS_SCORE,
+  STRONG_SCORE,
+  RETIRE_STREAK,
+  START_EASE,
+  MIN_EASE,
+  reviewItem,
+  applyEvaluation,
+  updatePracticePlan,
+};
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the spaced-repetition practice plan
+ */
+
+const {
+  START_EASE,
+  reviewItem,
+  applyEvaluation,
+  updatePracticePlan,
+} = require("./practicePlan");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date("2026-03-02T09:00:00.000Z");
+const daysLater = (days) => new Date(start.getTime() + days * DAY_MS);
+
+const scenario = {id: "budget", title: "Budget pitch", rubricId: "r1"};
+
+/**
+ * Evaluation scoring the given criteria
+ * @param {Object} scores - Score keyed by criterion name
+ * @param {Object} extra - Other evaluation fields
+ * @return {Object} Normalized evaluation
+ */
+function evaluationWith(scores, extra = {}) {
+  return {
+    criterion_scores: Object.entries(scores)
+        .map(([criterion, score]) => ({criterion, score})),
+    drills: [],
+    missed_opportunities: [],
+    ...extra,
+  };
+}
+
+describe("Practice Plan", () => {
+  test("should add weak criteria with their drill, tip and scenario", () => {
+    const items = applyEvaluation([], {
+      evaluationId: "e1",
+      scenario,
+      drill: null,
+      evaluation: evaluationWith({Clarity: 2, Empathy: 4}, {
+        drills: [{title: "Mirror", criterion: "clarity"}],
+        missed_opportunities: [
+          {criterion: "Clarity", what: "No ask",
+            how_to_improve: "Lead with it"},
+        ],
+      }),
+    }, start);
+
+    expect(items).toEqual([{
+      criterion: "Clarity",
+      score: 2,
+      ease: START_EASE,
+      repetitions: 0,
+      intervalDays: 1,
+      streak: 0,
+      dueAt: daysLater(1).toISOString(),
+      practisedAt: start.toISOString(),
+      drill: {evaluationId: "e1", drillIndex: 0, title: "Mirror"},
+      scenario,
+      tip: "Lead with it",
+      activity: "drill",
+    }]);
+  });
+
+  test("should space reviews further apart as scores improve", () => {
+    let item = applyEvaluation([], {
+      evaluationId: "e1",
+      scenario,
+      drill: null,
+      evaluation: evaluationWith({Clarity: 2}),
+    }, start)[0];
+
+    item = reviewItem(item, 3, daysLater(1));
+    expect(item.intervalDays).toBe(1);
+    item = reviewItem(item, 3, daysLater(2));
+    expect(item.intervalDays).toBe(3);
+    item = reviewItem(item, 4, daysLater(5));
+    expect(item.intervalDays).toBe(Math.round(3 * item.ease));
+    expect(item.dueAt).toBe(daysLater(5 + item.intervalDays).toISOString());
+
+    expect(reviewItem(item, 5, daysLater(12))).toBeNull();
+  });
+
+  test("should start an item over when the score drops", () => {
+    const item = {
+      criterion: "Clarity", score: 3, ease: 2.5, repetitions: 3,
+      intervalDays: 8, streak: 1, dueAt: start.toISOString(),
+    };
+
+    const reviewed = reviewItem(item, 2, start);
+
+    expect(reviewed)
+        .toMatchObject({repetitions: 0, intervalDays: 1, streak: 0});
+    expect(reviewed.ease).toBeLessThan(2.5);
+  });
+
+  test("should alternate drills and re-runs", () => {
+    const review = (evaluation, drill = null) => ({
+      evaluationId: "e2", scenario, drill, evaluation,
+    });
+    const [item] = applyEvaluation([], review(evaluationWith({Clarity: 2}, {
+      drills: [{title: "Mirror", criterion: "Clarity"}],
+    })), start);
+    expect(item.activity).toBe("drill");
+
+    const drill = {evaluationId: "e2", drillIndex: 0, title: "Mirror"};
+    const [afterDrill] = applyEvaluation([item],
+        review(evaluationWith({Clarity: 3}), drill), daysLater(1));
+    expect(afterDrill).toMatchObject({activity: "rerun", drill, scenario});
+
+    const [afterRerun] = applyEvaluation([afterDrill],
+        review(evaluationWith({Clarity: 3})), daysLater(2));
+    expect(afterRerun.activity).toBe("drill");
+  });
+
+  test("should leave the plan alone for degraded evaluations", () => {
+    const items = [{criterion: "Clarity", dueAt: start.toISOString()}];
+    expect(applyEvaluation(items, {
+      evaluation: {degraded: true, criterion_scores: []},
+    }, start)).toBe(items);
+  });
+
+  test("should store the plan per user", async () => {
+    const store = {};
+    const db = {
+      collection: () => ({doc: (id) => ({id})}),
+      runTransaction: async (work) => work({
+        get: async (ref) => ({
+          exists: ref.id in store,
+          data: () => store[ref.id],
+        }),
+        set: (ref, data) => {
+          store[ref.id] = data;
+        },
+      }),
+    };
+
+    await updatePracticePlan(db, "user-1", {
+      evaluationId: "e1",
+      scenario,
+      drill: null,
+      evaluation: evaluationWith({Clarity: 1}),
+    }, start);
+
+    expect(store["user-1"]).toMatchObject({
+      userId: "user-1",
+      items: [{criterion: "Clarity", activity: "rerun"}],
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Quota
+ *
+ * Every model call is charged to the caller: signed-in users by uid,
+ * guests by their anonymous-auth uid, and guests without one by IP address.
+ * Each caller gets a number of requests per minute and a number of tokens
+ * per day, kept in the `quotas` collection. A request is counted before the
+ * model is called; the tokens it used are charged once it finishes, from
+ * the provider's reported usage or an estimate when a provider reports none.
+ * A stream that is cancelled or fails is charged for what it streamed.
+ *
+ * A caller over either limit gets a resource-exhausted error whose details
+ * carry the quota status, so the client can say what is left and when it
+ * resets. Successful calls return the same status.
+ *
+ * Configuration (environment variables, all optional):
+ * - QUOTA_USER_REQUESTS_PER_MINUTE, QUOTA_USER_TOKENS_PER_DAY
+ * - QUOTA_GUEST_REQUESTS_PER_MINUTE, QUOTA_GUEST_TOKENS_PER_DAY
+ */
+
+const {estimateTokens, estimateMessagesTokens} = require("./contextBuilder");
+
+const QUOTA_TIERS = {
+  USER: "user",
+  GUEST: "guest",
+};
+
+/**
+ * Limits per tier when the environment sets none
+ */
+const DEFAULT_LIMITS = {
+  user: {requestsPerMinute: 20, tokensPerDay: 200000},
+  guest: {requestsPerMinute: 6, tokensPerDay: 30000},
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Thrown when a caller is over one of their limits
+ */
+class QuotaExceededError extends Error {
+  /**
+   * @param {Object} quota - Quota status, with exceeded set
+   */
+  constructor(quota) {
+    super(quota.exceeded === "rate" ?
+      "Too many requests. Wait a minute and try again." :
+      "You've used today's AI allowance.");
+    this.name = "QuotaExceededError";
+    this.code = "resource-exhausted";
+    this.quota = quota;
+  }
+}
+
+/**
+ * Limits for a tier, with environment overrides applied
+ * @param {string} tier - One of QUOTA_TIERS
+ * @param {Object} env - Environment variables
+ * @return {{requestsPerMinute: number, tokensPerDay: number}} Limits
+ */
+function getLimits(tier, env = process.env) {
+  const prefix = `QUOTA_${tier.toUpperCase()}_`;
+  const read = (name, fallback) => {
+    const value = parseInt(env[prefix + name], 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const defaults = DEFAULT_LIMITS[tier] || DEFAULT_LIMITS.guest;
+
+  return {
+    requestsPerMinute:
+      read("REQUESTS_PER_MINUTE", defaults.requestsPerMinute),
+    tokensPerDay: read("TOKENS_PER_DAY", defaults.tokensPerDay),
+  };
+}
+
+/**
+ * Who a call is charged to
+ * Anonymous sign-ins are guests with a stable id; without any auth the
+ * caller's IP address stands in.
+ * @param {(Object|null)} auth - Decoded auth ({uid, token}), if any
+ * @param {string} ip - Caller's IP address
+ * @return {{id: string, tier: string}} Quota document id and tier
+ */
+function getCaller(auth, ip) {
+  if (auth && auth.uid) {
+    const firebase = (auth.token && auth.token.firebase) || {};
+    return firebase.sign_in_provider === "anonymous" ?
+      {id: `guest_${auth.uid}`, tier: QUOTA_TIERS.GUEST} :
+      {id: `user_${auth.uid}`, tier: QUOTA_TIERS.USER};
+  }
+  return {id: `ip_${ip || "unknown"}`, tier: QUOTA_TIERS.GUEST};
+}
+
+/**
+ * UTC day a time falls on; daily budgets reset at midnight UTC
+ * @param {number} now - Time in milliseconds
+ * @return {string} Day as YYYY-MM-DD
+ */
+function getDay(now) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Counters as of now, with any elapsed minute or day reset
+ * @param {(Object|undefined)} stored - Stored quota document
+ * @param {number} now - Time in milliseconds
+ * @return {{minute: number, requests: number, day: string, tokens: number}}
+ *   Current counters
+ */
+function currentUsage(stored, now) {
+  const minute = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  const day = getDay(now);
+  const data = stored || {};
+
+  return {
+    minute,
+    requests: data.minute === minute ? data.requests || 0 : 0,
+    day,
+    tokens: data.day === day ? data.tokens || 0 : 0,
+  };
+}
+
+/**
+ * Quota status as reported to the client
+ * @param {string} tier - One of QUOTA_TIERS
+ * @param {Object} limits - Result of getLimits
+ * @param {Object} usage - Result of currentUsage
+ * @param {(string|null)} exceeded - "rate", "tokens" or null
+ * @return {Object} Quota status
+ */
+function toQuotaStatus(tier, limits, usage, exceeded = null) {
+  const nextDay = new Date(`${usage.day}T00:00:00.000Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+  return {
+    tier,
+    requestsPerMinute: limits.requestsPerMinute,
+    requestsRemaining:
+      Math.max(0, limits.requestsPerMinute - usage.requests),
+    tokensPerDay: limits.tokensPerDay,
+    tokensRemaining: Math.max(0, limits.tokensPerDay - usage.tokens),
+    resetsAt: exceeded === "rate" ?
+      new Date(usage.minute + MINUTE_MS).toISOString() :
+      nextDay.toISOString(),
+    exceeded,
+  };
+}
+
+/**
+ * Count a request against the caller's limits
+ * @param {Object} db - Firestore instance
+ * @param {Object} caller - Result of getCaller
+ * @param {Object} options - Check options
+ * @param {boolean} options.enforceBudget - Refuse callers out of tokens;
+ *   off for calls that finish work already paid for
+ * @param {number} options.now - Current time in milliseconds
+ * @param {Object} options.env - Environment variables
+ * @return {Promise<Object>} Quota status after the request
+ * @throws {QuotaExceededError} When the caller is over a limit
+ */
+async function checkQuota(db, caller, {
+  enforceBudget = true,
+  now = Date.now(),
+  env = process.env,
+} = {}) {
+  const ref = db.collection("quotas").doc(caller.id);
+  const limits = getLimits(caller.tier, env);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const usage = currentUsage(snapshot.exists ? snapshot.data() : null, now);
+
+    if (usage.requests >= limits.requestsPerMinute) {
+      throw new QuotaExceededError(
+          toQuotaStatus(caller.tier, limits, usage, "rate"));
+    }
+    if (enforceBudget && usage.tokens >= limits.tokensPerDay) {
+      throw new QuotaExceededError(
+          toQuotaStatus(caller.tier, limits, usage, "tokens"));
+    }
+
+    const counted = {...usage, requests: usage.requests + 1};
+    transaction.set(ref, {tier: caller.tier, ...counted});
+    return toQuotaStatus(caller.tier, limits, counted);
+  });
+}
+
+/**
+ * Charge the tokens a request used to the caller's daily budget
+ * @param {Object} db - Firestore instance
+ * @param {Object} caller - Result of getCaller
+ * @param {number} tokens - Tokens used
+ * @param {Object} options - {now, env} as for checkQuota
+ * @return {Promise<Object>} Quota status after the charge
+ */
+async function chargeTokens(db, caller, tokens, {
+  now = Date.now(),
+  env = process.env,
+} = {}) {
+  const ref = db.collection("quotas").doc(caller.id);
+  const limits = getLimits(caller.tier, env);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const usage = currentUsage(snapshot.exists ? snapshot.data() : null, now);
+    const charged = {...usage, tokens: usage.tokens + tokens};
+
+    transaction.set(ref, {tier: caller.tier, ...charged});
+    return toQuotaStatus(caller.tier, limits, charged);
+  });
+}
+
+/**
+ * Wrap a provider so every completion through it is counted
+ * A stream that is cancelled or fails part way is counted from its prompt
+ * and the text it streamed, since the provider reports no usage for it.
+ * @param {Object} provider - LLM provider with complete() and stream()
+ * @return {{provider: Object, getTokens: Function}} The wrapped provider
+ *   and a function returning the tokens used so far
+ */
+function meterProvider(provider) {
+  let tokens = 0;
+  const count = (request, completion) => {
+    const usage = completion.usage || {};
+    tokens += usage.totalTokens ||
+      estimateMessagesTokens(request.messages) +
+      estimateTokens(completion.content);
+    return completion;
+  };
+
+  const metered = Object.create(provider);
+  metered.complete = async (request) =>
+    count(request, await provider.complete(request));
+  metered.stream = async (request, onDelta) => {
+    let streamed = "";
+    let completion = null;
+    try {
+      completion = await provider.stream(request, (text) => {
+        streamed += text;
+        if (onDelta) {
+          onDelta(text);
+        }
+      });
+      return completion;
+    } finally {
+      count(request, completion || {content: streamed});
+    }
+  };
+
+  return {provider: metered, getTokens: () => tokens};
+}
+
+module.exports = {
+  QUOTA_TIERS,
+  DEFAULT_LIMITS,
+  QuotaExceededError,
+  getLimits,
+  getCaller,
+  checkQuota,
+  chargeTokens,
+  meterProvider,
+};
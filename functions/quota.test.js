@@ -0,0 +1,148 @@
+/**
+ * Unit tests for per-caller rate limits and daily token budgets
+ */
+
+const {
+  QuotaExceededError,
+  getLimits,
+  getCaller,
+  checkQuota,
+  chargeTokens,
+  meterProvider,
+} = require("./quota");
+
+/**
+ * Minimal in-memory stand-in for the parts of Firestore the quota uses
+ * @return {Object} Fake db exposing the stored docs
+ */
+function fakeDb() {
+  const store = {};
+  return {
+    store,
+    collection: () => ({doc: (id) => ({id})}),
+    runTransaction: async (work) => {
+      const writes = [];
+      const result = await work({
+        get: async (ref) => ({
+          exists: ref.id in store,
+          data: () => store[ref.id],
+        }),
+        set: (ref, data) => writes.push([ref.id, data]),
+      });
+      writes.forEach(([id, data]) => {
+        store[id] = data;
+      });
+      return result;
+    },
+  };
+}
+
+const env = {
+  QUOTA_GUEST_REQUESTS_PER_MINUTE: "2",
+  QUOTA_GUEST_TOKENS_PER_DAY: "100",
+};
+const guest = {id: "guest_abc", tier: "guest"};
+const noon = Date.parse("2026-03-02T12:00:10.000Z");
+
+describe("Quota", () => {
+  test("should tell users, anonymous guests and IP guests apart", () => {
+    expect(getCaller({uid: "u1", token: {firebase:
+      {sign_in_provider: "password"}}}, "1.2.3.4"))
+        .toEqual({id: "user_u1", tier: "user"});
+    expect(getCaller({uid: "a1", token: {firebase:
+      {sign_in_provider: "anonymous"}}}, "1.2.3.4"))
+        .toEqual({id: "guest_a1", tier: "guest"});
+    expect(getCaller(null, "1.2.3.4"))
+        .toEqual({id: "ip_1.2.3.4", tier: "guest"});
+  });
+
+  test("should read limits from the environment", () => {
+    expect(getLimits("guest", env))
+        .toEqual({requestsPerMinute: 2, tokensPerDay: 100});
+    expect(getLimits("user", {QUOTA_USER_TOKENS_PER_DAY: "nope"}))
+        .toEqual({requestsPerMinute: 20, tokensPerDay: 200000});
+  });
+
+  test("should refuse requests over the per-minute limit", async () => {
+    const db = fakeDb();
+    await checkQuota(db, guest, {now: noon, env});
+    const second = await checkQuota(db, guest, {now: noon, env});
+    expect(second.requestsRemaining).toBe(0);
+
+    const error = await checkQuota(db, guest, {now: noon, env})
+        .catch((e) => e);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.quota).toMatchObject({
+      exceeded: "rate",
+      resetsAt: "2026-03-02T12:01:00.000Z",
+    });
+
+    // A new minute starts a new window
+    await expect(checkQuota(db, guest, {now: noon + 60000, env}))
+        .resolves.toMatchObject({requestsRemaining: 1});
+  });
+
+  test("should refuse requests once the day's tokens are spent",
+      async () => {
+        const db = fakeDb();
+        await checkQuota(db, guest, {now: noon, env});
+        const status = await chargeTokens(db, guest, 120, {now: noon, env});
+        expect(status).toMatchObject({tokensRemaining: 0, exceeded: null});
+
+        await expect(checkQuota(db, guest, {now: noon + 60000, env}))
+            .rejects.toMatchObject({
+              code: "resource-exhausted",
+              quota: {exceeded: "tokens",
+                resetsAt: "2026-03-03T00:00:00.000Z"},
+            });
+        // Finishing paid-for work only counts against the rate limit
+        await expect(checkQuota(db, guest,
+            {now: noon + 60000, env, enforceBudget: false}))
+            .resolves.toMatchObject({tokensRemaining: 0});
+        // The budget resets the next day
+        await expect(checkQuota(db, guest,
+            {now: Date.parse("2026-03-03T00:00:01.000Z"), env}))
+            .resolves.toMatchObject({tokensRemaining: 100});
+      });
+
+  test("should count reported usage and estimate the rest", async () => {
+    const provider = {
+      name: "mock",
+      complete: async () => ({content: "Hi", usage: {totalTokens: 42}}),
+      stream: async (request, onDelta) => {
+        onDelta("12345678");
+        return {content: "12345678", usage: {totalTokens: 0}};
+      },
+    };
+    const metered = meterProvider(provider);
+
+    await metered.provider.complete({messages: []});
+    await metered.provider.stream(
+        {messages: [{role: "user", content: "1234"}]}, () => {});
+    // 42 reported, then 1 + 4 overhead for the prompt and 2 for the reply
+    expect(metered.getTokens()).toBe(49);
+    expect(metered.provider.name).toBe("mock");
+  });
+
+  test("should charge a stream cancelled part way", async () => {
+    const controller = new AbortController();
+    const provider = {
+      stream: async (request, onDelta) => {
+        onDelta("12345678");
+        controller.abort();
+        throw new Error("Request aborted");
+      },
+    };
+    const metered = meterProvider(provider);
+    const deltas = [];
+
+    await expect(metered.provider.stream({
+      messages: [{role: "user", content: "1234"}],
+      signal: controller.signal,
+    }, (text) => deltas.push(text))).rejects.toThrow("Request aborted");
+
+    expect(deltas).toEqual(["12345678"]);
+    // 1 + 4 overhead for the prompt and 2 for what was streamed
+    expect(metered.getTokens()).toBe(7);
+  });
+});
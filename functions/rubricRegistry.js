@@ -0,0 +1,249 @@
+/**
+ * Rubric Registry
+ *
+ * rubrics.json is the single definition of the built-in rubrics. The
+ * frontend imports the same file (src/constants/rubrics.ts), so the rubric
+ * the sidebar shows is the one evaluateSession scores against. The
+ * Firestore `rubrics` collection is a mirror written by seedRubrics.js;
+ * it is only consulted for ids that are not built in. Rubrics users write
+ * themselves live in `customRubrics` and are referenced as
+ * `custom:<document id>`.
+ */
+
+const {
+  rubrics: builtInRubrics,
+  discoveryCriterion,
+  consistencyCriterion,
+} = require("./rubrics.json");
+
+// Rounding slack allowed when a rubric's weights are summed
+const WEIGHT_SUM_TOLERANCE = 0.01;
+
+// Score levels every criterion must describe
+const ANCHOR_LEVELS = [1, 3, 5];
+
+// Prefix of scenario rubric ids that point at the customRubrics collection
+const CUSTOM_RUBRIC_PREFIX = "custom:";
+
+/**
+ * Thrown when a rubric id matches no built-in or stored rubric
+ */
+class RubricNotFoundError extends Error {
+  /**
+   * @param {string} rubricId - Id that was looked up
+   */
+  constructor(rubricId) {
+    super(`Unknown rubric "${rubricId}"`);
+    this.name = "RubricNotFoundError";
+    this.rubricId = rubricId;
+  }
+}
+
+/**
+ * Check a rubric is complete enough to evaluate against
+ * @param {Object} rubric - Rubric to check
+ * @return {Array<string>} Problems found, empty when valid
+ */
+function validateRubric(rubric) {
+  const errors = [];
+  if (!rubric || typeof rubric !== "object") {
+    return ["rubric must be an object"];
+  }
+  if (!rubric.id || typeof rubric.id !== "string") {
+    errors.push("id is required");
+  }
+  if (!rubric.name || typeof rubric.name !== "string") {
+    errors.push("name is required");
+  }
+  if (!Array.isArray(rubric.criteria) || rubric.criteria.length === 0) {
+    errors.push("criteria must be a non-empty array");
+    return errors;
+  }
+
+  const names = new Set();
+  rubric.criteria.forEach((criterion, index) => {
+    const path = `criteria[${index}]`;
+    if (!criterion.name || typeof criterion.name !== "string") {
+      errors.push(`${path}.name is required`);
+    } else if (names.has(criterion.name)) {
+      errors.push(`${path}.name "${criterion.name}" is used twice`);
+    } else {
+      names.add(criterion.name);
+    }
+    if (typeof criterion.weight !== "number" ||
+        criterion.weight <= 0 || criterion.weight > 1) {
+      errors.push(`${path}.weight must be between 0 and 1`);
+    }
+    if (!criterion.description || typeof criterion.description !== "string") {
+      errors.push(`${path}.description is required`);
+    }
+    ANCHOR_LEVELS.forEach((level) => {
+      const anchor = criterion.anchors && criterion.anchors[level];
+      if (!anchor || typeof anchor !== "string") {
+        errors.push(`${path}.anchors.${level} is required`);
+      }
+    });
+  });
+
+  const weightSum = rubric.criteria
+      .reduce((total, criterion) => total + (Number(criterion.weight) || 0), 0);
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_TOLERANCE) {
+    errors.push(`criterion weights must sum to 1 ` +
+      `(got ${Number(weightSum.toFixed(3))})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Built-in rubric by id
+ * @param {string} rubricId - Rubric id, e.g. "persuasion_director"
+ * @return {(Object|undefined)} Rubric, if built in
+ */
+function getBuiltInRubric(rubricId) {
+  return builtInRubrics.find((rubric) => rubric.id === rubricId);
+}
+
+/**
+ * Find the rubric a scenario refers to: a user's custom rubric for
+ * `custom:` ids, otherwise built-in first, then the Firestore `rubrics`
+ * collection
+ * @param {Object} db - Firestore instance
+ * @param {string} rubricId - Rubric id from scenario.rubricId
+ * @param {Object} options - Lookup options
+ * @param {string} options.userId - Caller's uid; custom rubrics are only
+ *   found for their owner
+ * @return {Promise<Object>} Rubric
+ * @throws {RubricNotFoundError} When no rubric has the id
+ * @throws {Error} When the stored rubric is malformed
+ */
+async function resolveRubric(db, rubricId, {userId} = {}) {
+  if (!rubricId || typeof rubricId !== "string") {
+    throw new RubricNotFoundError(rubricId);
+  }
+
+  let rubric;
+  if (rubricId.startsWith(CUSTOM_RUBRIC_PREFIX)) {
+    const doc = await db.collection("customRubrics")
+        .doc(rubricId.slice(CUSTOM_RUBRIC_PREFIX.length))
+        .get();
+    // Someone else's rubric is reported as missing, not as forbidden
+    if (!doc.exists || !userId || doc.data().userId !== userId) {
+      throw new RubricNotFoundError(rubricId);
+    }
+    const {name, criteria} = doc.data();
+    rubric = {id: rubricId, name, criteria};
+  } else {
+    const builtIn = getBuiltInRubric(rubricId);
+    if (builtIn) {
+      return builtIn;
+    }
+
+    const doc = await db.collection("rubrics").doc(rubricId).get();
+    if (!doc.exists) {
+      throw new RubricNotFoundError(rubricId);
+    }
+    rubric = {id: doc.id, ...doc.data()};
+  }
+
+  const errors = validateRubric(rubric);
+  if (errors.length > 0) {
+    throw new Error(`Rubric "${rubricId}" is invalid: ${errors.join("; ")}`);
+  }
+  return rubric;
+}
+
+/**
+ * Append a criterion to a rubric, scaling the rubric's own weights down to
+ * make room so they still add up to 1
+ * @param {Object} rubric - Rubric to extend
+ * @param {Object} added - Criterion to append
+ * @return {Object} Rubric with the criterion last, or the rubric unchanged
+ *   when it already has it
+ */
+function withCriterion(rubric, added) {
+  if (rubric.criteria.some((c) => c.name === added.name)) {
+    return rubric;
+  }
+  const share = 1 - added.weight;
+  return {
+    ...rubric,
+    criteria: [
+      ...rubric.criteria.map((criterion) => ({
+        ...criterion,
+        weight: Math.round(criterion.weight * share * 10000) / 10000,
+      })),
+      {...added},
+    ],
+  };
+}
+
+/**
+ * Add the Discovery criterion to a rubric for scenarios with a hidden
+ * agenda. src/constants/rubrics.ts applies the same change for the sidebar.
+ * @param {Object} rubric - Rubric the scenario refers to
+ * @return {Object} Rubric with Discovery as its last criterion
+ */
+function withDiscoveryCriterion(rubric) {
+  return withCriterion(rubric, discoveryCriterion);
+}
+
+/**
+ * Add the Consistency criterion, which every session is scored on. Apply
+ * it after withDiscoveryCriterion so Consistency keeps its full weight.
+ * src/constants/rubrics.ts applies the same change for the sidebar.
+ * @param {Object} rubric - Rubric the scenario refers to
+ * @return {Object} Rubric with Consistency as its last criterion
+ */
+function withConsistencyCriterion(rubric) {
+  return withCriterion(rubric, consistencyCriterion);
+}
+
+/**
+ * Write the built-in rubrics to Firestore and remove mirrored rubrics that
+ * are no longer built in. Rubrics added to the collection by hand (without
+ * the builtIn flag) are left alone.
+ * @param {Object} db - Firestore instance
+ * @return {Promise<{written: Array<string>, removed: Array<string>}>}
+ *   Ids written and ids removed
+ */
+async function seedRubrics(db) {
+  builtInRubrics.forEach((rubric) => {
+    const errors = validateRubric(rubric);
+    if (errors.length > 0) {
+      throw new Error(`Built-in rubric "${rubric.id}" is invalid: ` +
+        errors.join("; "));
+    }
+  });
+
+  const collection = db.collection("rubrics");
+  const batch = db.batch();
+  const seededAt = new Date();
+
+  builtInRubrics.forEach((rubric) => {
+    batch.set(collection.doc(rubric.id), {...rubric, builtIn: true, seededAt});
+  });
+
+  const mirrored = await collection.where("builtIn", "==", true).get();
+  const removed = mirrored.docs
+      .map((doc) => doc.id)
+      .filter((id) => !getBuiltInRubric(id));
+  removed.forEach((id) => batch.delete(collection.doc(id)));
+
+  await batch.commit();
+  return {written: builtInRubrics.map((rubric) => rubric.id), removed};
+}
+
+module.exports = {
+  builtInRubrics,
+  discoveryCriterion,
+  consistencyCriterion,
+  CUSTOM_RUBRIC_PREFIX,
+  RubricNotFoundError,
+  validateRubric,
+  getBuiltInRubric,
+  resolveRubric,
+  withDiscoveryCriterion,
+  withConsistencyCriterion,
+  seedRubrics,
+};
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the rubric registry and Firestore seeding
+ */
+
+const {
+  builtInRubrics,
+  RubricNotFoundError,
+  validateRubric,
+  resolveRubric,
+  withDiscoveryCriterion,
+  withConsistencyCriterion,
+  seedRubrics,
+} = require("./rubricRegistry");
+
+/**
+ * Minimal in-memory stand-in for the parts of Firestore the registry uses
+ * @param {Object} docs - Initial `rubrics` documents keyed by id
+ * @return {Object} Fake db exposing the stored docs and batch operations
+ */
+function fakeDb(docs = {}) {
+  const store = {...docs};
+  const operations = [];
+  const collection = {
+    doc: (id) => ({
+      id,
+      get: async () => ({
+        id,
+        exists: id in store,
+        data: () => store[id],
+      }),
+    }),
+    where: (field, op, value) => ({
+      get: async () => ({
+        docs: Object.entries(store)
+            .filter(([, data]) => data[field] === value)
+            .map(([id]) => ({id})),
+      }),
+    }),
+  };
+  return {
+    store,
+    operations,
+    collection: () => collection,
+    batch: () => ({
+      set: (ref, data) => operations.push(["set", ref.id, data]),
+      delete: (ref) => operations.push(["delete", ref.id]),
+      commit: async () => {
+        operations.forEach(([type, id, data]) => {
+          if (type === "set") store[id] = data;
+          else delete store[id];
+        });
+      },
+    }),
+  };
+}
+
+describe("Rubric Registry", () => {
+  const storedRubric = {
+    name: "Stored",
+    criteria: [{
+      name: "Only",
+      weight: 1,
+      description: "Everything",
+      anchors: {1: "Poor", 3: "Fair", 5: "Great"},
+    }],
+  };
+
+  test("should ship valid built-in rubrics", () => {
+    expect(builtInRubrics.length).toBeGreaterThan(0);
+    builtInRubrics.forEach((rubric) => {
+      expect(validateRubric(rubric)).toEqual([]);
+    });
+  });
+
+  test("should report incomplete criteria and bad weights", () => {
+    const errors = validateRubric({
+      id: "broken",
+      name: "Broken",
+      criteria: [
+        {name: "A", weight: 0.5, description: "x", anchors: {1: "a", 3: "b"}},
+        {name: "A", weight: 0.2, description: "y",
+          anchors: {1: "a", 3: "b", 5: "c"}},
+      ],
+    });
+    expect(errors).toEqual([
+      "criteria[0].anchors.5 is required",
+      "criteria[1].name \"A\" is used twice",
+      "criterion weights must sum to 1 (got 0.7)",
+    ]);
+  });
+
+  test("should make room for Discovery without breaking the weights", () => {
+    builtInRubrics.forEach((rubric) => {
+      const scored = withDiscoveryCriterion(rubric);
+      expect(validateRubric(scored)).toEqual([]);
+      expect(scored.criteria.map((c) => c.name))
+          .toEqual([...rubric.criteria.map((c) => c.name), "Discovery"]);
+      expect(withDiscoveryCriterion(scored)).toBe(scored);
+    });
+  });
+
+  test("should keep Consistency at its full weight after Discovery", () => {
+    builtInRubrics.forEach((rubric) => {
+      const scored = withConsistencyCriterion(withDiscoveryCriterion(rubric));
+      expect(validateRubric(scored)).toEqual([]);
+      expect(scored.criteria.slice(-2)).toEqual([
+        expect.objectContaining({name: "Discovery", weight: 0.18}),
+        expect.objectContaining({name: "Consistency", weight: 0.1}),
+      ]);
+    });
+  });
+
+  describe("resolveRubric", () => {
+    test("should prefer the built-in rubric over the mirror", async () => {
+      const db = fakeDb({persuasion_director: {...storedRubric}});
+      const rubric = await resolveRubric(db, "persuasion_director");
+      expect(rubric.name).toBe("Persuasion to a Director");
+    });
+
+    test("should fall back to Firestore for other ids", async () => {
+      const db = fakeDb({stored: storedRubric});
+      const rubric = await resolveRubric(db, "stored");
+      expect(rubric).toMatchObject({id: "stored", name: "Stored"});
+    });
+
+    test("should fail loudly for unknown ids", async () => {
+      await expect(resolveRubric(fakeDb(), "nope"))
+          .rejects.toBeInstanceOf(RubricNotFoundError);
+      await expect(resolveRubric(fakeDb(), undefined))
+          .rejects.toThrow(/Unknown rubric/);
+    });
+
+    test("should reject malformed stored rubrics", async () => {
+      const db = fakeDb({stored: {...storedRubric, criteria: []}});
+      await expect(resolveRubric(db, "stored"))
+          .rejects.toThrow(/"stored" is invalid: criteria must be a non-empty/);
+    });
+
+    test("should load custom rubrics for their owner", async () => {
+      const db = fakeDb({abc123: {...storedRubric, userId: "user-1"}});
+      const rubric = await resolveRubric(db, "custom:abc123",
+          {userId: "user-1"});
+      expect(rubric).toEqual({id: "custom:abc123", ...storedRubric});
+    });
+
+    test("should hide custom rubrics from other users", async () => {
+      const db = fakeDb({abc123: {...storedRubric, userId: "user-1"}});
+      await expect(resolveRubric(db, "custom:abc123", {userId: "user-2"}))
+          .rejects.toBeInstanceOf(RubricNotFoundError);
+      await expect(resolveRubric(db, "custom:abc123"))
+          .rejects.toBeInstanceOf(RubricNotFoundError);
+    });
+  });
+
+  describe("seedRubrics", () => {
+    test("should mirror built-ins and prune retired ones", async () => {
+      const db = fakeDb({
+        retired: {...storedRubric, builtIn: true},
+        handmade: storedRubric,
+      });
+
+      const result = await seedRubrics(db);
+
+      expect(result.written).toEqual(builtInRubrics.map((r) => r.id));
+      expect(result.removed).toEqual(["retired"]);
+      expect(Object.keys(db.store).sort()).toEqual(
+          ["handmade", ...builtInRubrics.map((r) => r.id)].sort());
+      expect(db.store.persuasion_director.builtIn).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Scenario Generator
+ *
+ * Turns a short free-text brief into a complete ScenarioTemplate draft for
+ * the custom scenario form. The model's JSON is checked against the same
+ * rules the built-in scenarios are held to (src/constants/
+ * scenarios.validation.test.ts): every stakeholder has a name, role,
+ * relationship, personality, concerns, motivations, communication style and
+ * speech patterns. Invalid output gets a bounded number of repair attempts;
+ * if none passes the caller gets an error rather than a half-filled draft.
+ */
+
+const {extractJson, checkObject} = require("./evaluationSchema");
+
+// Extra model calls made to fix an invalid draft before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const MIN_BRIEF_LENGTH = 10;
+const MAX_BRIEF_LENGTH = 2000;
+
+const stakeholderSchema = {
+  name: {type: "string"},
+  role: {type: "string"},
+  relationshipType: {
+    type: "string",
+    values: ["direct_report", "peer", "stakeholder"],
+  },
+  personality: {type: "string"},
+  concerns: {type: "array", minItems: 1, items: {type: "string"}},
+  motivations: {type: "array", minItems: 1, items: {type: "string"}},
+  communicationStyle: {
+    type: "object",
+    fields: {
+      directness: {type: "string", values: ["direct", "indirect", "balanced"]},
+      formality: {type: "string", values: ["formal", "casual", "professional"]},
+      emotionalExpressiveness: {
+        type: "string",
+        values: ["high", "medium", "low"],
+      },
+      questioningStyle: {
+        type: "string",
+        values: ["probing", "supportive", "challenging"],
+      },
+    },
+  },
+  speechPatterns: {
+    type: "object",
+    fields: {
+      averageSentenceLength: {
+        type: "string",
+        values: ["short", "medium", "long"],
+      },
+      usesIdioms: {type: "boolean"},
+      usesHumor: {type: "boolean"},
+      thinkingPauses: {
+        type: "string",
+        values: ["frequent", "occasional", "rare"],
+      },
+    },
+  },
+};
+
+/**
+ * Field rules mirroring ScenarioTemplate (minus id and rubricId, which the
+ * server sets)
+ */
+const scenarioDraftSchema = {
+  title: {type: "string"},
+  category: {type: "string"},
+  difficulty: {type: "string", values: ["Easy", "Medium", "Hard"]},
+  description: {type: "string"},
+  situation: {type: "string"},
+  objective: {type: "string"},
+  turnLimit: {type: "integer", min: 5, max: 50},
+  stakeholders: {
+    type: "array",
+    minItems: 1,
+    maxItems: 3,
+    fields: stakeholderSchema,
+  },
+  constraints: {type: "array", minItems: 1, items: {type: "string"}},
+};
+
+/**
+ * Check a brief is usable before spending a model call on it
+ * @param {*} brief - Brief from the client
+ * @return {(string|null)} Problem with the brief, or null when usable
+ */
+function checkBrief(brief) {
+  if (typeof brief !== "string" || brief.trim().length < MIN_BRIEF_LENGTH) {
+    return `Describe the scenario in at least ${MIN_BRIEF_LENGTH} characters`;
+  }
+  if (brief.length > MAX_BRIEF_LENGTH) {
+    return `Keep the brief under ${MAX_BRIEF_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validate a generated draft
+ * @param {Object} draft - Parsed model output
+ * @param {Object} schema - Field rules to hold it to
+ * @return {Array<string>} Validation errors, empty when valid
+ */
+function validateScenarioDraft(draft, schema = scenarioDraftSchema) {
+  const errors = [];
+  checkObject(draft, schema, "", errors);
+  return errors;
+}
+
+/**
+ * Trim a valid draft down to ScenarioTemplate fields
+ * @param {Object} draft - Validated model output
+ * @param {string} rubricId - Rubric the scenario will be scored against
+ * @return {Object} ScenarioTemplate draft
+ */
+function normalizeScenarioDraft(draft, rubricId) {
+  const text = (value) => value.trim();
+  return {
+    id: "custom",
+    title: text(draft.title).slice(0, 100),
+    category: text(draft.category),
+    difficulty: draft.difficulty,
+    rubricId,
+    description: text(draft.description),
+    situation: text(draft.situation),
+    objective: text(draft.objective),
+    turnLimit: draft.turnLimit,
+    stakeholders: draft.stakeholders.map((stakeholder) => ({
+      name: text(stakeholder.name),
+      role: text(stakeholder.role),
+      relationshipType: stakeholder.relationshipType,
+      personality: text(stakeholder.personality),
+      concerns: stakeholder.concerns.map(text),
+      motivations: stakeholder.motivations.map(text),
+      communicationStyle: {...stakeholder.communicationStyle},
+      speechPatterns: {...stakeholder.speechPatterns},
+    })),
+    constraints: draft.constraints.map(text),
+  };
+}
+
+/**
+ * JSON format every scenario prompt asks the model to reply in
+ * @param {number} turnLimit - Turn limit shown in the example
+ * @return {string} Reply instructions and example object
+ */
+function buildDraftFormat(turnLimit) {
+  return `Reply with a single JSON object and no other text:
+{
+  "title": "Short title",
+  "category": "Persuasion | Reporting | Negotiation | Communication | \
+Leadership | Custom",
+  "difficulty": "Easy | Medium | Hard",
+  "description": "One sentence summary",
+  "situation": "2-4 sentences of context",
+  "objective": "What the learner must achieve",
+  "turnLimit": ${turnLimit},
+  "stakeholders": [{
+    "name": "Full name",
+    "role": "Job title",
+    "relationshipType": "direct_report | peer | stakeholder",
+    "personality": "One sentence",
+    "concerns": ["..."],
+    "motivations": ["..."],
+    "communicationStyle": {
+      "directness": "direct | indirect | balanced",
+      "formality": "formal | casual | professional",
+      "emotionalExpressiveness": "high | medium | low",
+      "questioningStyle": "probing | supportive | challenging"
+    },
+    "speechPatterns": {
+      "averageSentenceLength": "short | medium | long",
+      "usesIdioms": false,
+      "usesHumor": false,
+      "thinkingPauses": "frequent | occasional | rare"
+    }
+  }],
+  "constraints": ["..."]
+}`;
+}
+
+/**
+ * Prompt asking for a scenario draft
+ * @param {string} brief - What the user wants to practise
+ * @return {string} Generation prompt
+ */
+function buildScenarioPrompt(brief) {
+  return `Write a workplace role-play scenario for communication practice \
+from this brief:
+
+"""
+${brief.trim()}
+"""
+
+Invent realistic names and details the brief leaves out. Give each person \
+concerns and motivations that pull against the learner's objective, so the \
+conversation takes real skill. Use 1-3 people, 3-5 constraints and a turn \
+limit of 5-20, or up to 50 if the brief describes a long negotiation.
+
+${buildDraftFormat(10)}`;
+}
+
+/**
+ * Follow-up message asking the model to fix its previous draft
+ * @param {Array<string>} errors - Validation errors to fix
+ * @return {string} Repair prompt
+ */
+function buildRepairPrompt(errors) {
+  return `Your scenario could not be accepted:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply with the corrected scenario as a single JSON object in the same \
+format, with no other text.`;
+}
+
+/**
+ * Generate a scenario draft, re-asking the model to fix invalid output up
+ * to maxRepairs times
+ * @param {Object} provider - LLM provider ({complete})
+ * @param {Object} request - Completion request for the first attempt
+ * @param {string} rubricId - Rubric the scenario will be scored against
+ * @param {number} maxRepairs - Repair attempts after the first call
+ * @param {Object} schema - Field rules the draft must pass
+ * @return {Promise<Object>} ScenarioTemplate draft
+ * @throws {Error} When no attempt produced a valid draft
+ */
+async function requestScenarioDraft(provider, request, rubricId,
+    maxRepairs = MAX_REPAIR_ATTEMPTS, schema = scenarioDraftSchema) {
+  const messages = [...request.messages];
+  let errors = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const completion = await provider.complete({...request, messages});
+    const parsed = extractJson(completion.content);
+    errors = parsed.error ?
+      [parsed.error] :
+      validateScenarioDraft(parsed.value, schema);
+
+    if (errors.length === 0) {
+      return normalizeScenarioDraft(parsed.value, rubricId);
+    }
+
+    console.warn(`Scenario draft attempt ${attempt} failed validation:`,
+        errors);
+    messages.push(
+        {role: "assistant", content: completion.content || ""},
+        {role: "user", content: buildRepairPrompt(errors)},
+    );
+  }
+
+  const error = new Error("Generated scenario failed validation");
+  error.validationErrors = errors;
+  throw error;
+}
+
+module.exports = {
+  scenarioDraftSchema,
+  MAX_REPAIR_ATTEMPTS,
+  checkBrief,
+  validateScenarioDraft,
+  normalizeScenarioDraft,
+  buildDraftFormat,
+  buildScenarioPrompt,
+  requestScenarioDraft,
+};
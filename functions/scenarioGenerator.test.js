@@ -0,0 +1,87 @@
+/**
+ * Unit tests for scenario draft generation and validation
+ */
+
+const {
+  checkBrief,
+  validateScenarioDraft,
+  requestScenarioDraft,
+} = require("./scenarioGenerator");
+const {MockProvider} = require("./mockProvider");
+
+/**
+ * Provider that returns the given responses in order
+ * @param {Array<string>} responses - Completion texts
+ * @return {Object} Provider with a jest complete() mock
+ */
+function queuedProvider(responses) {
+  const queue = [...responses];
+  return {
+    complete: jest.fn(async () => ({content: queue.shift()})),
+  };
+}
+
+describe("Scenario Generator", () => {
+  const brief = "Ask my skip-level manager for a promotion. " +
+    "She thinks I am not ready to lead.";
+  let validDraft;
+
+  beforeEach(async () => {
+    const mock = new MockProvider();
+    const result = await mock.complete({task: "generation", context: {brief}});
+    validDraft = JSON.parse(result.content);
+  });
+
+  test("should accept the mock draft", () => {
+    expect(validateScenarioDraft(validDraft)).toEqual([]);
+  });
+
+  test("should hold stakeholders to the built-in scenario rules", () => {
+    const stakeholder = validDraft.stakeholders[0];
+    delete stakeholder.speechPatterns;
+    stakeholder.communicationStyle.directness = "blunt";
+    stakeholder.concerns = [];
+
+    expect(validateScenarioDraft(validDraft)).toEqual([
+      "stakeholders[0].concerns must have at least 1 items",
+      "stakeholders[0].communicationStyle.directness must be one of " +
+        "direct, indirect, balanced (got \"blunt\")",
+      "stakeholders[0].speechPatterns is required",
+    ]);
+  });
+
+  test("should reject briefs that are too short or too long", () => {
+    expect(checkBrief("pitch")).toMatch(/at least 10 characters/);
+    expect(checkBrief("x".repeat(2001))).toMatch(/under 2000 characters/);
+    expect(checkBrief(brief)).toBeNull();
+  });
+
+  test("should repair an invalid draft and set the server fields", async () => {
+    const provider = queuedProvider([
+      JSON.stringify({...validDraft, turnLimit: 60}),
+      "```json\n" + JSON.stringify(validDraft) + "\n```",
+    ]);
+
+    const scenario = await requestScenarioDraft(provider,
+        {task: "generation", messages: [{role: "user", content: "brief"}]},
+        "monthly_business_review");
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    const repairMessages = provider.complete.mock.calls[1][0].messages;
+    expect(repairMessages[2].content).toMatch(/turnLimit must be at most 50/);
+    expect(scenario).toMatchObject({
+      id: "custom",
+      rubricId: "monthly_business_review",
+      title: validDraft.title,
+    });
+  });
+
+  test("should give up after the repair budget", async () => {
+    const provider = queuedProvider(["no json", "still none", "nope"]);
+
+    await expect(requestScenarioDraft(provider,
+        {task: "generation", messages: []}, "persuasion_director"))
+        .rejects.toThrow("Generated scenario failed validation");
+    expect(provider.complete).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Overall Scoring
+ *
+ * The overall score is computed from the criterion scores and the rubric
+ * weights rather than chosen by the model, so the two always agree:
+ *
+ *   normalized(score) = (score - 1) / 4        1 -> 0, 3 -> 0.5, 5 -> 1
+ *   contribution      = 100 * weight * normalized(score)
+ *   overall_score     = round(sum of contributions)
+ *
+ * A 1 is the bottom anchor of the scale and earns no points, so an
+ * all-5 session scores 100 and an all-3 session scores 50. Weights are
+ * divided by their sum, which keeps the total on 0-100 when a rubric's
+ * weights add up to 0.99 or 1.01 after rounding.
+ */
+
+const SCORE_MIN = 1;
+const SCORE_MAX = 5;
+
+/**
+ * Map a 1-5 criterion score onto 0-1
+ * @param {number} score - Criterion score
+ * @return {number} Normalized score
+ */
+function normalizeCriterionScore(score) {
+  const clamped = Math.min(Math.max(score, SCORE_MIN), SCORE_MAX);
+  return (clamped - SCORE_MIN) / (SCORE_MAX - SCORE_MIN);
+}
+
+/**
+ * Apply rubric weights to criterion scores and total them
+ * @param {Array<Object>} criterionScores - Scores named as in the rubric
+ * @param {Object} rubric - Rubric with weighted criteria
+ * @return {{criterion_scores: Array<Object>, overall_score: number}}
+ *   Scores carrying the rubric weight and their contribution in points,
+ *   and the overall score out of 100
+ */
+function scoreCriteria(criterionScores, rubric) {
+  const weights = new Map(rubric.criteria.map((c) => [c.name, c.weight]));
+  const totalWeight = criterionScores.reduce(
+      (total, score) => total + (weights.get(score.criterion) ?? score.weight),
+      0);
+
+  let overall = 0;
+  const scored = criterionScores.map((score) => {
+    const weight = weights.get(score.criterion) ?? score.weight;
+    const points = totalWeight > 0 ?
+      100 * (weight / totalWeight) * normalizeCriterionScore(score.score) :
+      0;
+    overall += points;
+    return {
+      ...score,
+      weight,
+      contribution: Math.round(points * 10) / 10,
+    };
+  });
+
+  return {criterion_scores: scored, overall_score: Math.round(overall)};
+}
+
+module.exports = {
+  SCORE_MIN,
+  SCORE_MAX,
+  normalizeCriterionScore,
+  scoreCriteria,
+};
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for computing the overall score from weighted criteria
+ */
+
+const {normalizeCriterionScore, scoreCriteria} = require("./scoring");
+
+describe("Overall Scoring", () => {
+  const rubric = {
+    criteria: [
+      {name: "Clarity", weight: 0.5},
+      {name: "Empathy", weight: 0.3},
+      {name: "Plan", weight: 0.2},
+    ],
+  };
+  const scores = (clarity, empathy, plan) => [
+    {criterion: "Clarity", weight: 0.5, score: clarity, evidence: []},
+    {criterion: "Empathy", weight: 0.3, score: empathy, evidence: []},
+    {criterion: "Plan", weight: 0.2, score: plan, evidence: []},
+  ];
+
+  test("should map the 1-5 scale linearly onto 0-1", () => {
+    expect(normalizeCriterionScore(1)).toBe(0);
+    expect(normalizeCriterionScore(3)).toBe(0.5);
+    expect(normalizeCriterionScore(5)).toBe(1);
+  });
+
+  test("should span 0-100 from all-1 to all-5 sessions", () => {
+    expect(scoreCriteria(scores(1, 1, 1), rubric).overall_score).toBe(0);
+    expect(scoreCriteria(scores(3, 3, 3), rubric).overall_score).toBe(50);
+    expect(scoreCriteria(scores(5, 5, 5), rubric).overall_score).toBe(100);
+  });
+
+  test("should weight each criterion by the rubric", () => {
+    const result = scoreCriteria(scores(5, 3, 1), rubric);
+
+    expect(result.criterion_scores.map((c) => c.contribution))
+        .toEqual([50, 15, 0]);
+    expect(result.overall_score).toBe(65);
+  });
+
+  test("should rescale weights that do not quite sum to 1", () => {
+    const rounded = {
+      criteria: [
+        {name: "Clarity", weight: 0.33},
+        {name: "Empathy", weight: 0.33},
+        {name: "Plan", weight: 0.33},
+      ],
+    };
+    expect(scoreCriteria(scores(5, 5, 5), rounded).overall_score).toBe(100);
+  });
+
+  test("should be the same for the same scores", () => {
+    const a = scoreCriteria(scores(4, 2, 5), rubric);
+    const b = scoreCriteria(scores(4, 2, 5), rubric);
+    expect(a).toEqual(b);
+    expect(a.overall_score).toBe(65);
+  });
+});
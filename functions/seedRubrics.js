@@ -0,0 +1,27 @@
+/**
+ * Seed the Firestore `rubrics` collection from rubrics.json
+ *
+ * Usage (from functions/):
+ *   npm run seed:rubrics
+ *
+ * Uses application default credentials, or the emulator when
+ * FIRESTORE_EMULATOR_HOST is set.
+ */
+
+const admin = require("firebase-admin");
+const {seedRubrics} = require("./rubricRegistry");
+
+admin.initializeApp();
+
+seedRubrics(admin.firestore())
+    .then(({written, removed}) => {
+      console.log(`Seeded rubrics: ${written.join(", ")}`);
+      if (removed.length > 0) {
+        console.log(`Removed retired rubrics: ${removed.join(", ")}`);
+      }
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Failed to seed rubrics:", error);
+      process.exit(1);
+    });
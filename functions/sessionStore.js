@@ -0,0 +1,580 @@
+/**
+ * Session Store
+ *
+ * Sessions of signed-in users are the server's record of a simulation. The
+ * functions load a session by id and answer from its stored scenario and
+ * transcript, append every turn themselves, stop taking turns at the turn
+ * limit and move the session through IN_SIM -> EXITED -> EVALUATED.
+ * Evaluation reads the stored transcript, so editing the payload cannot
+ * change what a session is scored on. Firestore rules keep clients from
+ * writing these fields directly.
+ *
+ * Each user turn carries an id chosen by the client. A turn sent again
+ * after a dropped connection is answered from what was recorded the first
+ * time instead of being generated and appended twice.
+ *
+ * A running session can be branched: the transcript is cut back to an
+ * earlier turn and continues from there, so the user can regenerate a
+ * reply, edit their last message or try a different line from any turn.
+ * The session document always holds the active branch. Every branch the
+ * user left, and the one they submit for evaluation, is kept in the
+ * session's `branches` subcollection; the evaluation records which branch
+ * it scored.
+ *
+ * Guests have no session document; their calls still carry the transcript.
+ */
+
+const {FieldValue} = require("firebase-admin/firestore");
+
+/**
+ * Branch a session is on until it is first branched
+ */
+const MAIN_BRANCH = "main";
+
+/**
+ * Turn limits a client-created session may have, as in scenario files
+ */
+const MIN_TURN_LIMIT = 5;
+const MAX_TURN_LIMIT = 50;
+
+/**
+ * How long a call may hold a session's evaluation before another can take it
+ */
+const EVALUATION_CLAIM_MS = 5 * 60 * 1000;
+
+const SESSION_STATES = {
+  IN_SIM: "IN_SIM",
+  EXITED: "EXITED",
+  EVALUATED: "EVALUATED",
+};
+
+/**
+ * States each state may move to
+ */
+const TRANSITIONS = {
+  IN_SIM: [SESSION_STATES.EXITED],
+  EXITED: [SESSION_STATES.EVALUATED],
+  EVALUATED: [],
+};
+
+/**
+ * Thrown when a session cannot be used for the requested step
+ */
+class SessionError extends Error {
+  /**
+   * @param {string} code - HttpsError code the callables report
+   * @param {string} message - Message shown to the user
+   */
+  constructor(code, message) {
+    super(message);
+    this.name = "SessionError";
+    this.code = code;
+  }
+}
+
+/**
+ * Whether a session may move from one state to another
+ * @param {string} from - Current state
+ * @param {string} to - Requested state
+ * @return {boolean} True if the transition is allowed
+ */
+function canTransition(from, to) {
+  return (TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Reject a transition the state machine does not allow
+ * @param {string} from - Current state
+ * @param {string} to - Requested state
+ * @throws {SessionError} When the transition is not allowed
+ */
+function assertTransition(from, to) {
+  if (!canTransition(from, to)) {
+    throw new SessionError("failed-precondition",
+        `A session that is ${from} cannot become ${to}`);
+  }
+}
+
+/**
+ * Turns the session allows
+ * Clients create their own sessions, so the limit they wrote is kept within
+ * the range scenario files and generated scenarios allow. Drill sessions are
+ * only created by the functions and keep their shorter limit.
+ * @param {Object} session - Stored session
+ * @return {number} Turn limit
+ */
+function getTurnLimit(session) {
+  const requested = Math.floor(Number(session.turnLimit ||
+      (session.scenario && session.scenario.turnLimit))) || MIN_TURN_LIMIT;
+  if (session.drill) {
+    return requested;
+  }
+  return Math.min(MAX_TURN_LIMIT, Math.max(MIN_TURN_LIMIT, requested));
+}
+
+/**
+ * Stored session from a snapshot, if the caller owns it
+ * Someone else's session is reported as missing, not as forbidden.
+ * @param {Object} snapshot - Document snapshot
+ * @param {string} userId - Caller's uid
+ * @return {Object} Session with transcript and turnCount defaulted
+ * @throws {SessionError} When the session does not exist for the caller
+ */
+function readSession(snapshot, userId) {
+  if (!snapshot.exists || !userId || snapshot.data().userId !== userId) {
+    throw new SessionError("not-found", "Session not found");
+  }
+  const data = snapshot.data();
+  return {
+    ...data,
+    id: snapshot.id,
+    transcript: data.transcript || [],
+    turnCount: data.turnCount || 0,
+  };
+}
+
+/**
+ * Reject a turn the session cannot take
+ * @param {Object} session - Stored session
+ * @throws {SessionError} When the session has ended or is out of turns
+ */
+function assertCanTakeTurn(session) {
+  if (session.state !== SESSION_STATES.IN_SIM) {
+    throw new SessionError("failed-precondition", "This session has ended");
+  }
+  if (session.turnCount >= getTurnLimit(session)) {
+    throw new SessionError("failed-precondition",
+        "This session has reached its turn limit");
+  }
+}
+
+/**
+ * Branch the session is on
+ * @param {Object} session - Stored session
+ * @return {string} Branch id
+ */
+function getBranchId(session) {
+  return session.branchId || MAIN_BRANCH;
+}
+
+/**
+ * Load a session the caller owns
+ * @param {Object} db - Firestore instance
+ * @param {string} sessionId - Session document id
+ * @param {string} userId - Caller's uid
+ * @return {Promise<Object>} Stored session
+ */
+async function loadSession(db, sessionId, userId) {
+  return readSession(
+      await db.collection("sessions").doc(sessionId).get(), userId);
+}
+
+/**
+ * Replies already recorded for a turn, in the shape runStakeholderTurn
+ * returns them
+ * @param {Object} session - Stored session
+ * @param {string} turnId - Client-chosen id of the user's turn
+ * @return {(Object|null)} {responses, progress}, or null if the turn has
+ *   not been recorded
+ */
+function findRecordedTurn(session, turnId) {
+  const transcript = session.transcript || [];
+  const index = turnId ? transcript.findIndex((message) =>
+    message.type === "user" && message.turnId === turnId) : -1;
+  if (index === -1) {
+    return null;
+  }
+
+  const responses = [];
+  for (const message of transcript.slice(index + 1)) {
+    if (message.type === "user") {
+      break;
+    }
+    if (message.type === "ai") {
+      responses.push({
+        message: message.content,
+        stakeholder: message.stakeholder,
+        role: message.role,
+        timestamp: message.timestamp,
+        revealed: message.revealed || [],
+        emotionalState: message.emotionalState || null,
+        ...(message.consistency ? {consistency: message.consistency} : {}),
+        ...(message.judgment ? {judgment: message.judgment} : {}),
+      });
+    }
+  }
+  return {
+    responses,
+    progress: {turnCount: session.turnCount, state: session.state},
+  };
+}
+
+/**
+ * Load a session that is ready for the user's next turn
+ * A turn that was already recorded is allowed through even if the session
+ * has since ended, so the client can collect its replies.
+ * @param {Object} db - Firestore instance
+ * @param {string} sessionId - Session document id
+ * @param {string} userId - Caller's uid
+ * @param {string} turnId - Client-chosen id of the user's turn, if any
+ * @return {Promise<Object>} Stored session; recordedTurn is set, from
+ *   findRecordedTurn, when the turn was already recorded
+ */
+async function openTurn(db, sessionId, userId, turnId = null) {
+  const session = await loadSession(db, sessionId, userId);
+  const recordedTurn = findRecordedTurn(session, turnId);
+  if (recordedTurn) {
+    return {...session, recordedTurn};
+  }
+  assertCanTakeTurn(session);
+  return session;
+}
+
+/**
+ * Transcript message for a stakeholder reply, in the shape the client
+ * stores; empty fields are left out because Firestore rejects undefined
+ * @param {Object} reply - Reply from runStakeholderTurn
+ * @return {Object} Transcript message
+ */
+function toTranscriptMessage(reply) {
+  return {
+    type: "ai",
+    content: reply.message,
+    stakeholder: reply.stakeholder,
+    role: reply.role,
+    timestamp: reply.timestamp,
+    ...(reply.revealed && reply.revealed.length > 0 ?
+      {revealed: reply.revealed} : {}),
+    ...(reply.emotionalState ? {emotionalState: reply.emotionalState} : {}),
+    ...(reply.consistency ? {consistency: reply.consistency} : {}),
+    ...(reply.judgment ? {judgment: reply.judgment} : {}),
+  };
+}
+
+/**
+ * Append a user turn and the replies to it, counting the turn and ending
+ * the session when it reaches the turn limit. Replies cut short by a cancel
+ * are simply not passed in; the user's message still counts.
+ * @param {Object} db - Firestore instance
+ * @param {Object} session - Session from openTurn
+ * @param {string} userMessage - The user's message
+ * @param {Array} replies - Completed replies, in speaking order
+ * @param {string} sentAt - When the user's message arrived (ISO string)
+ * @param {string} turnId - Client-chosen id of the user's turn, if any
+ * @return {Promise<Object>} {turnCount, state} after the turn
+ * @throws {SessionError} When another turn was recorded in the meantime
+ */
+async function recordTurn(db, session, userMessage, replies,
+    sentAt = new Date().toISOString(), turnId = null) {
+  const ref = db.collection("sessions").doc(session.id);
+
+  return db.runTransaction(async (transaction) => {
+    const current = readSession(await transaction.get(ref), session.userId);
+    if (current.state !== SESSION_STATES.IN_SIM ||
+        current.turnCount !== session.turnCount ||
+        getBranchId(current) !== getBranchId(session)) {
+      throw new SessionError("aborted",
+          "The session changed while the reply was being written");
+    }
+
+    const turnCount = current.turnCount + 1;
+    const update = {
+      transcript: [
+        ...current.transcript,
+        {type: "user", content: userMessage, timestamp: sentAt,
+          ...(turnId ? {turnId} : {})},
+        ...replies.map(toTranscriptMessage),
+      ],
+      turnCount,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    if (turnCount >= getTurnLimit(current)) {
+      assertTransition(current.state, SESSION_STATES.EXITED);
+      update.state = SESSION_STATES.EXITED;
+      update.completedAt = FieldValue.serverTimestamp();
+    }
+    transaction.update(ref, update);
+
+    return {turnCount, state: update.state || current.state};
+  });
+}
+
+/**
+ * Generate the replies to a user turn and record the turn
+ * A turn the session already recorded is answered from the transcript. A
+ * cancelled turn is recorded with the replies that finished, matching what
+ * the client keeps. A failed turn is not recorded at all, so the client can
+ * retry it under the same turnId and have its replies generated again.
+ * @param {Object} db - Firestore instance
+ * @param {Object} session - Session from openTurn
+ * @param {Object} turn - {userMessage, turnId}
+ * @param {Function} generate - Called with an onReply callback for each
+ *   finished reply; resolves with every reply, in speaking order
+ * @param {AbortSignal} signal - Cancels the turn, if given
+ * @return {Promise<Object>} {responses, progress}; progress is the
+ *   session's {turnCount, state} after the turn
+ */
+async function runTurn(db, session, {userMessage, turnId = null}, generate,
+    signal = null) {
+  if (session.recordedTurn) {
+    return session.recordedTurn;
+  }
+
+  const sentAt = new Date().toISOString();
+  const completed = [];
+  let responses = [];
+  let failure = null;
+  try {
+    responses = await generate((reply) => completed.push(reply));
+  } catch (error) {
+    if (!signal || !signal.aborted) {
+      throw error;
+    }
+    failure = error;
+  }
+
+  const progress = await recordTurn(
+      db, session, userMessage, completed, sentAt, turnId);
+  if (failure) {
+    throw failure;
+  }
+  return {responses, progress};
+}
+
+/**
+ * The start of a transcript, up to the replies to its nth user turn
+ * Coaching hints given after that turn are dropped with the later turns.
+ * @param {Array} transcript - Stored transcript
+ * @param {number} keepTurns - User turns to keep
+ * @return {Array} Transcript of the first keepTurns turns
+ */
+function truncateTranscript(transcript, keepTurns) {
+  let turns = 0;
+  const end = transcript.findIndex((message) =>
+    message.type === "user" && ++turns > keepTurns);
+  return end === -1 ? transcript : transcript.slice(0, end);
+}
+
+/**
+ * Fields kept for a branch in the `branches` subcollection
+ * @param {Object} session - Stored session on that branch
+ * @return {Object} Branch document data
+ */
+function toBranchDocument(session) {
+  return {
+    transcript: session.transcript,
+    turnCount: session.turnCount,
+    parentBranchId: session.parentBranchId || null,
+    forkedAfterTurn: session.forkedAfterTurn || 0,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Start a new branch of a running session after one of its turns
+ * The branch being left is saved to the `branches` subcollection and the
+ * session continues on the new one. The client chooses the branch id, so a
+ * request sent again after a dropped connection does not branch twice.
+ * @param {Object} db - Firestore instance
+ * @param {string} sessionId - Session document id
+ * @param {string} userId - Caller's uid
+ * @param {Object} branch - {branchId, keepTurns}: the new branch's id and
+ *   how many of the current turns it starts with; at least the latest turn
+ *   is dropped
+ * @return {Promise<Object>} {branchId, transcript, session} where session
+ *   is {turnCount, state} on the new branch
+ * @throws {SessionError} When the session has ended, keepTurns is out of
+ *   range or branchId names a branch the session left
+ */
+async function forkSession(db, sessionId, userId, {branchId, keepTurns}) {
+  const ref = db.collection("sessions").doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const session = readSession(await transaction.get(ref), userId);
+    const toResult = (current) => ({
+      branchId: getBranchId(current),
+      transcript: current.transcript,
+      session: {turnCount: current.turnCount, state: current.state},
+    });
+    if (getBranchId(session) === branchId) {
+      return toResult(session);
+    }
+    if (session.state !== SESSION_STATES.IN_SIM) {
+      throw new SessionError("failed-precondition", "This session has ended");
+    }
+    if (!Number.isInteger(keepTurns) || keepTurns < 0 ||
+        keepTurns >= session.turnCount) {
+      throw new SessionError("invalid-argument",
+          "A branch must start before the latest turn");
+    }
+
+    const branches = ref.collection("branches");
+    // Only the current branch may be asked for again; any other saved
+    // branch, "main" included, would be overwritten
+    if ((await transaction.get(branches.doc(branchId))).exists) {
+      throw new SessionError("already-exists", "That branch already exists");
+    }
+    const branch = {
+      transcript: truncateTranscript(session.transcript, keepTurns),
+      turnCount: keepTurns,
+      branchId,
+      parentBranchId: getBranchId(session),
+      forkedAfterTurn: keepTurns,
+    };
+    transaction.set(branches.doc(getBranchId(session)),
+        toBranchDocument(session), {merge: true});
+    transaction.set(branches.doc(branchId), {
+      ...toBranchDocument(branch),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    transaction.update(ref, {
+      ...branch,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return toResult({...session, ...branch});
+  });
+}
+
+/**
+ * Append a coaching hint to the stored transcript; hints are not turns
+ * @param {Object} db - Firestore instance
+ * @param {Object} session - Stored session the hint was written for
+ * @param {string} hint - Coaching hint
+ * @return {Promise<void>}
+ * @throws {SessionError} When a turn was recorded or the session was
+ *   forked in the meantime
+ */
+async function recordCoachingHint(db, session, hint) {
+  const ref = db.collection("sessions").doc(session.id);
+
+  await db.runTransaction(async (transaction) => {
+    const current = readSession(await transaction.get(ref), session.userId);
+    if (current.turnCount !== session.turnCount ||
+        getBranchId(current) !== getBranchId(session)) {
+      throw new SessionError("aborted",
+          "The session changed while the hint was being written");
+    }
+
+    transaction.update(ref, {
+      transcript: [
+        ...current.transcript,
+        {type: "coaching", content: hint, timestamp: new Date().toISOString()},
+      ],
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Load a session for evaluation, exiting it first if it is still running
+ * The caller claims the evaluation, so a retried or repeated call cannot
+ * score the session a second time while the first is still working. A
+ * claim lapses after EVALUATION_CLAIM_MS in case its caller never finished.
+ * @param {Object} db - Firestore instance
+ * @param {string} sessionId - Session document id
+ * @param {string} userId - Caller's uid
+ * @param {number} now - Current time in milliseconds
+ * @return {Promise<Object>} Stored session, now EXITED; a session that was
+ *   already scored is returned as it is, EVALUATED with its evaluationId
+ * @throws {SessionError} When the session was abandoned or another call is
+ *   scoring it
+ */
+async function beginEvaluation(db, sessionId, userId, now = Date.now()) {
+  const ref = db.collection("sessions").doc(sessionId);
+
+  return db.runTransaction(async (transaction) => {
+    const session = readSession(await transaction.get(ref), userId);
+    if (session.abandoned) {
+      throw new SessionError("failed-precondition",
+          "Abandoned sessions are not evaluated");
+    }
+    if (session.state === SESSION_STATES.EVALUATED && session.evaluationId) {
+      return session;
+    }
+    if (session.evaluatingSince &&
+        now - session.evaluatingSince < EVALUATION_CLAIM_MS) {
+      throw new SessionError("aborted",
+          "This session is already being evaluated");
+    }
+
+    const update = {
+      evaluatingSince: now,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    if (session.state !== SESSION_STATES.EXITED) {
+      assertTransition(session.state, SESSION_STATES.EXITED);
+      update.state = SESSION_STATES.EXITED;
+      update.completedAt = FieldValue.serverTimestamp();
+    }
+    transaction.update(ref, update);
+    // Keep the submitted branch with the others the user tried
+    if (session.branchId) {
+      transaction.set(ref.collection("branches").doc(session.branchId),
+          toBranchDocument(session), {merge: true});
+    }
+    return {...session, state: SESSION_STATES.EXITED};
+  });
+}
+
+/**
+ * Mark a session evaluated
+ * @param {Object} db - Firestore instance
+ * @param {string} sessionId - Session document id
+ * @param {string} evaluationId - Stored evaluation id
+ * @return {Promise<void>}
+ */
+async function markEvaluated(db, sessionId, evaluationId) {
+  const ref = db.collection("sessions").doc(sessionId);
+
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    assertTransition(snapshot.data().state, SESSION_STATES.EVALUATED);
+    transaction.update(ref, {
+      evaluationId,
+      state: SESSION_STATES.EVALUATED,
+      evaluatingSince: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Give up a claim on evaluating a session, so it can be scored again
+ * @param {Object} db - Firestore instance
+ * @param {string} sessionId - Session document id
+ * @return {Promise<void>}
+ */
+async function releaseEvaluation(db, sessionId) {
+  await db.collection("sessions").doc(sessionId).update({
+    evaluatingSince: FieldValue.delete(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+module.exports = {
+  MAIN_BRANCH,
+  MIN_TURN_LIMIT,
+  MAX_TURN_LIMIT,
+  EVALUATION_CLAIM_MS,
+  SESSION_STATES,
+  TRANSITIONS,
+  SessionError,
+  canTransition,
+  assertTransition,
+  getTurnLimit,
+  getBranchId,
+  assertCanTakeTurn,
+  loadSession,
+  findRecordedTurn,
+  openTurn,
+  toTranscriptMessage,
+  recordTurn,
+  runTurn,
+  truncateTranscript,
+  forkSession,
+  recordCoachingHint,
+  beginEvaluation,
+  markEvaluated,
+  releaseEvaluation,
+};
@@ -0,0 +1,357 @@
+/**
+ * Unit tests for the server-side session state machine
+ */
+
+const {
+  SESSION_STATES,
+  SessionError,
+  canTransition,
+  getTurnLimit,
+  openTurn,
+  recordTurn,
+  runTurn,
+  recordCoachingHint,
+  truncateTranscript,
+  forkSession,
+  beginEvaluation,
+  markEvaluated,
+  releaseEvaluation,
+  EVALUATION_CLAIM_MS,
+} = require("./sessionStore");
+const {FieldValue} = require("firebase-admin/firestore");
+
+/**
+ * Document data after an update; fields set to FieldValue.delete() go
+ * @param {Object} current - Stored data
+ * @param {Object} data - Update
+ * @return {Object} Updated data
+ */
+function applyUpdate(current, data) {
+  const next = {...current, ...data};
+  Object.keys(data)
+      .filter((key) => FieldValue.delete().isEqual(data[key]))
+      .forEach((key) => delete next[key]);
+  return next;
+}
+
+/**
+ * Minimal in-memory stand-in for the parts of Firestore the store uses
+ * Subcollection documents are stored under their path, e.g. "s1/branches/b".
+ * @param {Object} docs - Initial `sessions` documents keyed by id
+ * @return {Object} Fake db exposing the stored docs
+ */
+function fakeDb(docs = {}) {
+  const store = JSON.parse(JSON.stringify(docs));
+  const snapshot = (id) => ({
+    id,
+    exists: id in store,
+    data: () => store[id],
+  });
+  const collection = {
+    doc: (id) => ({
+      id,
+      get: async () => snapshot(id),
+      update: async (data) => {
+        store[id] = applyUpdate(store[id], data);
+      },
+      collection: (name) => ({
+        doc: (child) => ({id: `${id}/${name}/${child}`}),
+      }),
+    }),
+  };
+  return {
+    store,
+    collection: () => collection,
+    runTransaction: async (work) => {
+      const updates = [];
+      const result = await work({
+        get: async (ref) => snapshot(ref.id),
+        update: (ref, data) => updates.push([ref.id, data]),
+        set: (ref, data) => updates.push([ref.id, data]),
+      });
+      // Writes only land when the whole transaction succeeds
+      updates.forEach(([id, data]) => {
+        store[id] = applyUpdate(store[id], data);
+      });
+      return result;
+    },
+  };
+}
+
+const session = {
+  userId: "user-1",
+  scenario: {title: "Budget pitch", turnLimit: 5},
+  turnLimit: 5,
+  transcript: [],
+  state: "IN_SIM",
+};
+
+const reply = {
+  message: "What's the timeline?",
+  stakeholder: "Sarah",
+  role: "Director",
+  timestamp: "2026-01-01T10:00:05.000Z",
+  revealed: [],
+  emotionalState: null,
+  consistency: {contradictions: [], unfulfilledCommitments: []},
+};
+
+describe("Session Store", () => {
+  test("should only allow IN_SIM -> EXITED -> EVALUATED", () => {
+    expect(canTransition("IN_SIM", "EXITED")).toBe(true);
+    expect(canTransition("EXITED", "EVALUATED")).toBe(true);
+    expect(canTransition("IN_SIM", "EVALUATED")).toBe(false);
+    expect(canTransition("EVALUATED", "IN_SIM")).toBe(false);
+  });
+
+  test("should keep client turn limits within range", () => {
+    expect(getTurnLimit({turnLimit: 10000})).toBe(50);
+    expect(getTurnLimit({scenario: {turnLimit: 1}})).toBe(5);
+    expect(getTurnLimit({turnLimit: "abc"})).toBe(5);
+    expect(getTurnLimit({turnLimit: 12})).toBe(12);
+    // Drill sessions are created by the functions with 2-4 turns
+    expect(getTurnLimit({turnLimit: 3, drill: {drillIndex: 0}})).toBe(3);
+  });
+
+  test("should hide other users' sessions", async () => {
+    const db = fakeDb({s1: session});
+
+    await expect(openTurn(db, "s1", "user-2"))
+        .rejects.toMatchObject({code: "not-found"});
+    await expect(openTurn(db, "missing", "user-1"))
+        .rejects.toBeInstanceOf(SessionError);
+  });
+
+  test("should append turns and exit at the turn limit", async () => {
+    const db = fakeDb({s1: session});
+
+    const first = await openTurn(db, "s1", "user-1");
+    expect(await recordTurn(db, first, "Hi Sarah", [reply],
+        "2026-01-01T10:00:00.000Z"))
+        .toEqual({turnCount: 1, state: SESSION_STATES.IN_SIM});
+    expect(db.store.s1.transcript).toEqual([
+      {type: "user", content: "Hi Sarah",
+        timestamp: "2026-01-01T10:00:00.000Z"},
+      {
+        type: "ai",
+        content: reply.message,
+        stakeholder: "Sarah",
+        role: "Director",
+        timestamp: reply.timestamp,
+        consistency: reply.consistency,
+      },
+    ]);
+
+    for (const message of ["Two weeks", "Next quarter", "Agreed"]) {
+      await recordTurn(db, await openTurn(db, "s1", "user-1"), message, []);
+    }
+    const last = await openTurn(db, "s1", "user-1");
+    expect(await recordTurn(db, last, "Thanks", []))
+        .toEqual({turnCount: 5, state: SESSION_STATES.EXITED});
+    await expect(openTurn(db, "s1", "user-1"))
+        .rejects.toThrow("This session has ended");
+  });
+
+  test("should refuse a turn recorded over a newer one", async () => {
+    const db = fakeDb({s1: session});
+    const stale = await openTurn(db, "s1", "user-1");
+    await recordTurn(db, stale, "First tab", []);
+
+    await expect(recordTurn(db, stale, "Second tab", []))
+        .rejects.toMatchObject({code: "aborted"});
+    expect(db.store.s1.turnCount).toBe(1);
+  });
+
+  test("should only record a hint on the session it was written for",
+      async () => {
+        const db = fakeDb({s1: session});
+        const open = await openTurn(db, "s1", "user-1");
+        await recordCoachingHint(db, open, "Ask about the timeline");
+        expect(db.store.s1.transcript).toEqual([
+          expect.objectContaining(
+              {type: "coaching", content: "Ask about the timeline"}),
+        ]);
+
+        await recordTurn(db, open, "Hi Sarah", []);
+        await expect(recordCoachingHint(db, open, "Stale hint"))
+            .rejects.toMatchObject({code: "aborted"});
+        expect(db.store.s1.transcript).toHaveLength(2);
+      });
+
+  test("should answer a resent turn from the transcript", async () => {
+    const db = fakeDb({s1: session});
+    const first = await openTurn(db, "s1", "user-1", "turn-1");
+    await recordTurn(db, first, "Hi Sarah", [reply],
+        "2026-01-01T10:00:00.000Z", "turn-1");
+    for (const message of ["Go on", "Agreed", "Thanks", "Bye"]) {
+      await recordTurn(db, await openTurn(db, "s1", "user-1"), message, []);
+    }
+
+    // The session has ended, but the first turn's replies can be collected
+    const resent = await openTurn(db, "s1", "user-1", "turn-1");
+    expect(resent.recordedTurn).toEqual({
+      responses: [{
+        message: reply.message,
+        stakeholder: "Sarah",
+        role: "Director",
+        timestamp: reply.timestamp,
+        revealed: [],
+        emotionalState: null,
+        consistency: reply.consistency,
+      }],
+      progress: {turnCount: 5, state: SESSION_STATES.EXITED},
+    });
+    expect(db.store.s1.transcript).toHaveLength(6);
+    await expect(openTurn(db, "s1", "user-1", "turn-2"))
+        .rejects.toThrow("This session has ended");
+  });
+
+  test("should generate a failed turn again when it is retried", async () => {
+    const db = fakeDb({s1: session});
+    const turn = {userMessage: "Hi Sarah", turnId: "turn-1"};
+
+    const failed = await openTurn(db, "s1", "user-1", "turn-1");
+    await expect(runTurn(db, failed, turn, async () => {
+      throw new Error("Provider unavailable");
+    })).rejects.toThrow("Provider unavailable");
+    expect(db.store.s1.transcript).toEqual([]);
+
+    const retried = await openTurn(db, "s1", "user-1", "turn-1");
+    expect(retried.recordedTurn).toBeUndefined();
+    const result = await runTurn(db, retried, turn, async (onReply) => {
+      onReply(reply);
+      return [reply];
+    });
+
+    expect(result).toEqual({
+      responses: [reply],
+      progress: {turnCount: 1, state: SESSION_STATES.IN_SIM},
+    });
+    expect(db.store.s1.transcript.map((message) => message.content))
+        .toEqual(["Hi Sarah", reply.message]);
+  });
+
+  test("should keep the replies that finished before a cancel", async () => {
+    const db = fakeDb({s1: session});
+    const controller = new AbortController();
+
+    await expect(runTurn(db, await openTurn(db, "s1", "user-1"),
+        {userMessage: "Hi Sarah"}, async (onReply) => {
+          onReply(reply);
+          controller.abort();
+          throw new Error("Cancelled");
+        }, controller.signal)).rejects.toThrow("Cancelled");
+
+    expect(db.store.s1.turnCount).toBe(1);
+    expect(db.store.s1.transcript).toHaveLength(2);
+  });
+
+  test("should branch from an earlier turn and keep the branch left",
+      async () => {
+        const transcript = [
+          {type: "user", content: "Hi", turnId: "t1"},
+          {type: "ai", content: "Hello"},
+          {type: "coaching", content: "Ask about budget"},
+          {type: "user", content: "Budget?", turnId: "t2"},
+          {type: "ai", content: "Tight"},
+        ];
+        expect(truncateTranscript(transcript, 1))
+            .toEqual(transcript.slice(0, 3));
+        expect(truncateTranscript(transcript, 0)).toEqual([]);
+
+        const db = fakeDb({s1: {...session, turnLimit: 5, transcript,
+          turnCount: 2}});
+        const result = await forkSession(db, "s1", "user-1",
+            {branchId: "b1", keepTurns: 1});
+        expect(result).toEqual({
+          branchId: "b1",
+          transcript: transcript.slice(0, 3),
+          session: {turnCount: 1, state: SESSION_STATES.IN_SIM},
+        });
+        expect(db.store.s1).toMatchObject({branchId: "b1",
+          parentBranchId: "main", forkedAfterTurn: 1, turnCount: 1});
+        expect(db.store["s1/branches/main"])
+            .toMatchObject({transcript, turnCount: 2});
+        expect(db.store["s1/branches/b1"]).toMatchObject({
+          parentBranchId: "main", forkedAfterTurn: 1, turnCount: 1});
+
+        // Sent again after a dropped connection: already on the branch
+        await expect(forkSession(db, "s1", "user-1",
+            {branchId: "b1", keepTurns: 1}))
+            .resolves.toMatchObject({branchId: "b1"});
+        await expect(forkSession(db, "s1", "user-1",
+            {branchId: "b2", keepTurns: 1}))
+            .rejects.toMatchObject({code: "invalid-argument"});
+
+        // A turn started on the old branch cannot land on the new one
+        await expect(recordTurn(db, {...session, id: "s1", turnCount: 1},
+            "Late", [])).rejects.toMatchObject({code: "aborted"});
+
+        // The submitted branch is saved with the others
+        await recordTurn(db, await openTurn(db, "s1", "user-1"), "Next", []);
+        await beginEvaluation(db, "s1", "user-1");
+        expect(db.store["s1/branches/b1"].turnCount).toBe(2);
+      });
+
+  test("should not branch onto a branch the session left", async () => {
+    const transcript = [
+      {type: "user", content: "Hi", turnId: "t1"},
+      {type: "ai", content: "Hello"},
+      {type: "user", content: "Budget?", turnId: "t2"},
+    ];
+    const db = fakeDb({s1: {...session, transcript, turnCount: 2}});
+
+    // Asking for the branch the session is on changes nothing
+    await expect(forkSession(db, "s1", "user-1",
+        {branchId: "main", keepTurns: 1}))
+        .resolves.toMatchObject({branchId: "main", session: {turnCount: 2}});
+
+    await forkSession(db, "s1", "user-1", {branchId: "b1", keepTurns: 1});
+    await recordTurn(db, await openTurn(db, "s1", "user-1"), "Next", []);
+    await expect(forkSession(db, "s1", "user-1",
+        {branchId: "main", keepTurns: 1}))
+        .rejects.toMatchObject({code: "already-exists"});
+    expect(db.store["s1/branches/main"]).toMatchObject({transcript});
+    expect(db.store.s1.branchId).toBe("b1");
+  });
+
+  test("should score the stored transcript, not the payload", async () => {
+    const stored = [{type: "user", content: "Stored"}];
+    const db = fakeDb({s1: {...session, transcript: stored}});
+
+    const loaded = await beginEvaluation(db, "s1", "user-1");
+    expect(loaded.transcript).toEqual(stored);
+    expect(db.store.s1.state).toBe(SESSION_STATES.EXITED);
+
+    await markEvaluated(db, "s1", "eval-1");
+    expect(db.store.s1)
+        .toMatchObject({state: "EVALUATED", evaluationId: "eval-1"});
+    // Asked again, the session points at the evaluation it already has
+    await expect(beginEvaluation(db, "s1", "user-1"))
+        .resolves.toMatchObject({evaluationId: "eval-1"});
+  });
+
+  test("should let only one call score a session at a time", async () => {
+    const db = fakeDb({s1: session});
+    const now = Date.parse("2026-01-01T10:00:00.000Z");
+
+    await beginEvaluation(db, "s1", "user-1", now);
+    await expect(beginEvaluation(db, "s1", "user-1", now + 1000))
+        .rejects.toMatchObject({code: "aborted"});
+
+    // A claim its caller gave up, or never finished, can be taken over
+    await releaseEvaluation(db, "s1");
+    await expect(beginEvaluation(db, "s1", "user-1", now + 2000))
+        .resolves.toMatchObject({state: SESSION_STATES.EXITED});
+    await expect(beginEvaluation(db, "s1", "user-1",
+        now + 2000 + EVALUATION_CLAIM_MS))
+        .resolves.toMatchObject({state: SESSION_STATES.EXITED});
+  });
+
+  test("should not evaluate abandoned sessions", async () => {
+    const db = fakeDb({s1: {...session, state: "EXITED", abandoned: true}});
+
+    await expect(beginEvaluation(db, "s1", "user-1"))
+        .rejects.toMatchObject({code: "failed-precondition"});
+  });
+});
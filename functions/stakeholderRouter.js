@@ -0,0 +1,266 @@
+/**
+ * Stakeholder Router
+ *
+ * Decides which stakeholder (or stakeholders) should reply to a user
+ * message in multi-party scenarios. Routing considers who was addressed
+ * by name or role, who was addressed as a group, relationship type and
+ * which stakeholders still have unresolved concerns.
+ */
+
+const {EmotionalStateTracker} = require("./emotionalStateTracker");
+
+/**
+ * Relative priority of each relationship type when nobody is addressed.
+ * Senior stakeholders tend to take the floor first in a real meeting.
+ */
+const relationshipPriority = {
+  stakeholder: 3,
+  peer: 2,
+  direct_report: 1,
+};
+
+/**
+ * Phrases that address the whole room rather than one person
+ */
+const groupAddressPatterns = [
+  /\beveryone\b/i,
+  /\beverybody\b/i,
+  /\ball of you\b/i,
+  /\bboth of you\b/i,
+  /\byou both\b/i,
+  /\byou two\b/i,
+  /\byou all\b/i,
+  /\by'all\b/i,
+  /\b(hey|hi|thanks),? team\b/i,
+  /\bfolks\b/i,
+];
+
+const commonWords = new Set([
+  "the", "and", "but", "for", "with", "from", "this", "that", "these",
+  "those", "have", "has", "had", "will", "would", "could", "should",
+  "about", "what", "when", "your", "their", "there", "they", "been",
+  "being", "into", "just", "like", "more", "some", "than", "then",
+]);
+
+/**
+ * StakeholderRouter class
+ * Picks the responders for each turn of a multi-stakeholder conversation
+ */
+class StakeholderRouter {
+  /**
+   * Create a StakeholderRouter
+   * @param {Object} scenario - Scenario with a stakeholders array
+   * @param {Object} options - Routing options
+   * @param {number} options.maxResponders - Cap on replies per turn
+   */
+  constructor(scenario, options = {}) {
+    if (!scenario || !Array.isArray(scenario.stakeholders) ||
+        scenario.stakeholders.length === 0) {
+      throw new Error(
+          "StakeholderRouter requires a scenario with stakeholders");
+    }
+    this.scenario = scenario;
+    this.stakeholders = scenario.stakeholders;
+    this.maxResponders = options.maxResponders || 2;
+  }
+
+  /**
+   * Decide who replies to the user's latest message
+   * @param {string} userMessage - The message the user just sent
+   * @param {Array} transcript - Conversation history before the message
+   * @return {Array<Object>} Ordered responders: {stakeholder, reason}
+   */
+  route(userMessage, transcript = []) {
+    if (this.stakeholders.length === 1) {
+      return [{stakeholder: this.stakeholders[0], reason: "only_stakeholder"}];
+    }
+
+    const message = userMessage || "";
+
+    // Past the cap, those addressed first reply
+    const addressed = this.findAddressed(message);
+    if (addressed.length > 0) {
+      return addressed.slice(0, this.maxResponders).map((stakeholder) => ({
+        stakeholder,
+        reason: "addressed",
+      }));
+    }
+
+    const ranked = this.rankStakeholders(message, transcript);
+
+    if (this.isGroupAddress(message)) {
+      return ranked
+          .slice(0, this.maxResponders)
+          .map((entry) => ({stakeholder: entry.stakeholder, reason: "group"}));
+    }
+
+    const responders = [{stakeholder: ranked[0].stakeholder, reason: "ranked"}];
+
+    // A second voice interjects only when the message hits one of their
+    // own unresolved concerns - otherwise multi-party turns feel noisy.
+    const interjection = ranked
+        .slice(1)
+        .find((entry) => entry.concernMatches >= 2);
+    if (interjection && responders.length < this.maxResponders) {
+      responders.push({
+        stakeholder: interjection.stakeholder,
+        reason: "unresolved_concern",
+      });
+    }
+
+    return responders;
+  }
+
+  /**
+   * Find stakeholders the user addressed by name or role
+   * @param {string} message - User message
+   * @return {Array<Object>} Addressed stakeholders in order of mention
+   */
+  findAddressed(message) {
+    const lower = message.toLowerCase();
+    const mentions = [];
+
+    this.stakeholders.forEach((stakeholder) => {
+      const position = this._mentionPosition(lower, stakeholder);
+      if (position !== -1) {
+        mentions.push({stakeholder, position});
+      }
+    });
+
+    return mentions
+        .sort((a, b) => a.position - b.position)
+        .map((mention) => mention.stakeholder);
+  }
+
+  /**
+   * Check whether the message addresses the whole group
+   * @param {string} message - User message
+   * @return {boolean} True if the message is addressed to everyone
+   */
+  isGroupAddress(message) {
+    return groupAddressPatterns.some((pattern) => pattern.test(message));
+  }
+
+  /**
+   * Rank stakeholders by how likely they are to take the floor
+   * @param {string} message - User message
+   * @param {Array} transcript - Conversation history
+   * @return {Array<Object>} Entries sorted by descending score
+   */
+  rankStakeholders(message, transcript) {
+    const messageKeywords = new Set(this._keywords(message));
+    const lastSpeaker = this._lastSpeaker(transcript);
+
+    const entries = this.stakeholders.map((stakeholder, index) => {
+      const unresolved = this.getUnresolvedConcerns(stakeholder, transcript);
+      const concernMatches = unresolved.reduce((count, concern) => {
+        const hits = this._keywords(concern)
+            .filter((word) => messageKeywords.has(word)).length;
+        return count + hits;
+      }, 0);
+
+      let score = relationshipPriority[stakeholder.relationshipType] || 1;
+      score += concernMatches * 2;
+      score += unresolved.length * 0.5;
+      if (lastSpeaker && lastSpeaker === stakeholder.name) {
+        score += 1.5;
+      }
+
+      return {stakeholder, index, score, concernMatches, unresolved};
+    });
+
+    return entries.sort((a, b) => b.score - a.score || a.index - b.index);
+  }
+
+  /**
+   * Concerns the user has not yet addressed for a stakeholder
+   * @param {Object} stakeholder - Stakeholder to check
+   * @param {Array} transcript - Conversation history
+   * @return {Array<string>} Unresolved concerns
+   */
+  getUnresolvedConcerns(stakeholder, transcript) {
+    try {
+      const tracker = new EmotionalStateTracker(stakeholder, this.scenario);
+      tracker.replayTranscript(transcript || []);
+      return tracker.getConcernsUnaddressed();
+    } catch (error) {
+      console.error("StakeholderRouter concern tracking failed:", {
+        error: error.message,
+        stakeholder: stakeholder?.name,
+      });
+      return stakeholder.concerns || [];
+    }
+  }
+
+  /**
+   * Position of the first mention of a stakeholder in the message
+   * @param {string} lower - Lowercased user message
+   * @param {Object} stakeholder - Stakeholder to look for
+   * @return {number} Character index, or -1 when not mentioned
+   * @private
+   */
+  _mentionPosition(lower, stakeholder) {
+    const candidates = [];
+    const name = (stakeholder.name || "").toLowerCase().trim();
+
+    if (name) {
+      candidates.push(name);
+      const nameParts = name.split(/\s+/).filter((part) =>
+        part.length > 2 && !/^(dr|mr|ms|mrs)\.?$/.test(part));
+      candidates.push(...nameParts);
+    }
+    if (stakeholder.role) {
+      candidates.push(stakeholder.role.toLowerCase().trim());
+    }
+
+    let position = -1;
+    candidates.forEach((candidate) => {
+      const escaped = candidate.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const match = new RegExp(`\\b${escaped}\\b`).exec(lower);
+      if (match && (position === -1 || match.index < position)) {
+        position = match.index;
+      }
+    });
+
+    return position;
+  }
+
+  /**
+   * Name of the stakeholder who spoke most recently
+   * @param {Array} transcript - Conversation history
+   * @return {string|null} Stakeholder name or null
+   * @private
+   */
+  _lastSpeaker(transcript) {
+    if (!Array.isArray(transcript)) {
+      return null;
+    }
+    for (let i = transcript.length - 1; i >= 0; i--) {
+      const msg = transcript[i];
+      if (msg && msg.type !== "user" && msg.stakeholder) {
+        return msg.stakeholder;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Extract comparable keywords from text
+   * @param {string} text - Text to tokenize
+   * @return {Array<string>} Keywords
+   * @private
+   */
+  _keywords(text) {
+    return (text || "")
+        .toLowerCase()
+        .split(/[^a-z0-9']+/)
+        .filter((word) => word.length > 3 && !commonWords.has(word))
+        .map((word) => word.replace(/s$/, ""));
+  }
+}
+
+module.exports = {
+  StakeholderRouter,
+  relationshipPriority,
+  groupAddressPatterns,
+};
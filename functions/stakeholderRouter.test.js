@@ -0,0 +1,184 @@
+/**
+ * Unit tests for Stakeholder Router
+ */
+
+const {StakeholderRouter} = require("./stakeholderRouter");
+
+describe("StakeholderRouter", () => {
+  const jamie = {
+    name: "Jamie Lee",
+    role: "Product Designer",
+    relationshipType: "direct_report",
+    personality: "creative",
+    concerns: [
+      "Ideas being dismissed",
+      "Feeling disrespected",
+      "Quality of final work",
+    ],
+    motivations: ["Great user experiences"],
+  };
+
+  const taylor = {
+    name: "Taylor Morgan",
+    role: "Product Manager",
+    relationshipType: "direct_report",
+    personality: "direct",
+    concerns: ["Meeting deadlines", "Endless debate cycles", "Team velocity"],
+    motivations: ["Shipping features"],
+  };
+
+  const director = {
+    name: "Dana Brooks",
+    role: "Director of Engineering",
+    relationshipType: "stakeholder",
+    personality: "analytical",
+    concerns: ["Budget overruns"],
+    motivations: ["Predictable delivery"],
+  };
+
+  const conflictScenario = {
+    title: "Mediate Conflict",
+    situation: "Two team members are clashing",
+    stakeholders: [jamie, taylor],
+  };
+
+  const names = (responders) => responders.map((r) => r.stakeholder.name);
+
+  describe("Initialization", () => {
+    test("should throw without stakeholders", () => {
+      expect(() => new StakeholderRouter({stakeholders: []})).toThrow();
+      expect(() => new StakeholderRouter(null)).toThrow();
+    });
+  });
+
+  describe("Single stakeholder", () => {
+    test("should always route to the only stakeholder", () => {
+      const router = new StakeholderRouter({stakeholders: [jamie]});
+      const responders = router.route("Taylor, what do you think?");
+      expect(names(responders)).toEqual(["Jamie Lee"]);
+      expect(responders[0].reason).toBe("only_stakeholder");
+    });
+  });
+
+  describe("Addressed stakeholders", () => {
+    test("should route to a stakeholder addressed by first name", () => {
+      const router = new StakeholderRouter(conflictScenario);
+      const responders = router.route(
+          "Taylor, can you walk me through the timeline?");
+      expect(names(responders)).toEqual(["Taylor Morgan"]);
+      expect(responders[0].reason).toBe("addressed");
+    });
+
+    test("should route to a stakeholder addressed by role", () => {
+      const router = new StakeholderRouter(conflictScenario);
+      const responders = router.route(
+          "I'd like the product designer's view on this.");
+      expect(names(responders)).toEqual(["Jamie Lee"]);
+    });
+
+    test("should keep the order of mention when several are addressed", () => {
+      const router = new StakeholderRouter(conflictScenario);
+      const responders = router.route(
+          "Taylor and Jamie, let's hear from each of you.");
+      expect(names(responders)).toEqual(["Taylor Morgan", "Jamie Lee"]);
+    });
+
+    test("should not match names inside other words", () => {
+      const router = new StakeholderRouter({
+        stakeholders: [{...jamie, name: "Al Stone", role: "Analyst"}, taylor],
+      });
+      expect(router.findAddressed("We should finalize the plan"))
+          .toHaveLength(0);
+    });
+  });
+
+  describe("Group address", () => {
+    test("should let several stakeholders reply to the whole room", () => {
+      const router = new StakeholderRouter(conflictScenario);
+      const responders = router.route(
+          "I want to hear from both of you on how this started.");
+      expect(responders).toHaveLength(2);
+      expect(responders.every((r) => r.reason === "group")).toBe(true);
+    });
+  });
+
+  describe("Reply cap", () => {
+    const meeting = {
+      title: "Roadmap review",
+      stakeholders: [jamie, taylor, director],
+    };
+
+    test("should cap replies when several stakeholders are addressed", () => {
+      const router = new StakeholderRouter(meeting);
+      const responders = router.route("Dana, Taylor and Jamie, status?");
+      expect(names(responders)).toEqual(["Dana Brooks", "Taylor Morgan"]);
+    });
+
+    test("should hold a cap of one for addressed and group turns", () => {
+      const router = new StakeholderRouter(meeting, {maxResponders: 1});
+      expect(router.route("Taylor and Jamie, thoughts?")).toHaveLength(1);
+      expect(router.route("Thoughts, everyone?")).toHaveLength(1);
+    });
+  });
+
+  describe("Ranking", () => {
+    test("should favour the stakeholder whose unresolved concerns match",
+        () => {
+          const router = new StakeholderRouter(conflictScenario);
+          const responders = router.route(
+              "How do we stop the endless debate cycles and protect velocity?");
+          expect(responders[0].stakeholder.name).toBe("Taylor Morgan");
+        });
+
+    test("should favour senior stakeholders when nothing else applies", () => {
+      const router = new StakeholderRouter({stakeholders: [jamie, director]});
+      const responders = router.route("Okay, let's get started.");
+      expect(responders[0].stakeholder.name).toBe("Dana Brooks");
+    });
+
+    test("should give the floor back to the last speaker in a back-and-forth",
+        () => {
+          const router = new StakeholderRouter(conflictScenario);
+          const transcript = [
+            {type: "user", content: "Let's talk."},
+            {type: "ai", content: "Sure.", stakeholder: "Jamie Lee"},
+          ];
+          const responders = router.route("Okay, go on.", transcript);
+          expect(responders[0].stakeholder.name).toBe("Jamie Lee");
+        });
+
+    test("should add a second voice when the message hits their concern",
+        () => {
+          const router = new StakeholderRouter(conflictScenario);
+          const transcript = [
+            {type: "user", content: "Let's talk."},
+            {type: "ai", content: "Sure.", stakeholder: "Jamie Lee"},
+          ];
+          const responders = router.route(
+              "Jamie, I hear you, but we keep missing deadlines and the " +
+              "debate cycles drag on.",
+              transcript,
+          );
+          // Explicit address wins: only Jamie is routed
+          expect(names(responders)).toEqual(["Jamie Lee"]);
+
+          const implicit = router.route(
+              "We keep missing deadlines and the debate cycles drag on.",
+              transcript,
+          );
+          expect(names(implicit)).toContain("Taylor Morgan");
+          expect(implicit.length).toBeLessThanOrEqual(2);
+        });
+
+    test("should stop treating concerns as unresolved once addressed", () => {
+      const router = new StakeholderRouter(conflictScenario);
+      const transcript = [
+        {type: "user", content: "Let's agree on meeting deadlines: " +
+          "we'll timebox debate cycles to one day."},
+      ];
+      const unresolved = router.getUnresolvedConcerns(taylor, transcript);
+      expect(unresolved).not.toContain("Meeting deadlines");
+      expect(unresolved).toContain("Team velocity");
+    });
+  });
+});
@@ -9,23 +9,29 @@ const ChatInterface = lazy(() => import('./components/ChatInterface'));
 const Sidebar = lazy(() => import('./components/Sidebar'));
 const Feedback = lazy(() => import('./components/Feedback'));
 const ProgressDashboard = lazy(() => import('./components/ProgressDashboard'));
+const SessionDetail = lazy(() => import('./components/SessionDetail'));
 const ThemeToggle = lazy(() => import('./components/ThemeToggle'));
+const ResumeSessionPrompt = lazy(() => import('./components/ResumeSessionPrompt'));
 
 // Direct imports (not lazy loaded)
 import { OfflineIndicator } from './components/OfflineIndicator';
+import { ErrorMessage } from './components/ErrorMessage';
 
 // Hooks and utils
 import { useAuth } from './hooks/useAuth';
 import { useSimulation } from './hooks/useSimulation';
+import { useUnfinishedSession } from './hooks/useUnfinishedSession';
+import { useDebounce } from './hooks/useDebounce';
 import { signOutUser } from './firebase/auth';
-import { createSession } from './firebase/firestore';
-import { getSuggestions } from './utils/aiService';
+import { createSession, updateSession } from './firebase/firestore';
+import { getSuggestions, startDrill } from './utils/aiService';
+import { handleApiError } from './utils/errorHandling';
 
 // Constants
 import { SIM_STATES, SIDEBAR_TABS, MESSAGE_TYPES } from './constants/states';
 
 // Types
-import type { ScenarioTemplate, Evaluation, Message } from './types';
+import type { ScenarioTemplate, Evaluation, Message, SimulationSession } from './types';
 
 type AppState = typeof SIM_STATES[keyof typeof SIM_STATES];
 type SidebarTab = typeof SIDEBAR_TABS[keyof typeof SIDEBAR_TABS];
@@ -37,6 +43,10 @@ function App() {
   const [appState, setAppState] = useState<AppState>(SIM_STATES.SCENARIO_SELECT);
   const [selectedScenario, setSelectedScenario] = useState<ScenarioTemplate | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // Set when a signed-in user's session could not be created and the
+  // simulation runs unsaved, as it does for guests
+  const [sessionSaveError, setSessionSaveError] = useState<string | null>(null);
+  const [detailSessionId, setDetailSessionId] = useState<string | null>(null);
   
   // Suggestions state
   const [suggestions, setSuggestions] = useState<string[]>([]);
@@ -63,6 +73,36 @@ function App() {
     }, []),
   });
 
+  // Sessions left IN_SIM by a reload can be resumed or abandoned
+  const { unfinishedSession, abandon: abandonUnfinishedSession, dismiss: dismissUnfinishedSession } =
+    useUnfinishedSession(user?.uid);
+
+  // Save notes with the session so they survive a reload. Notes are
+  // debounced together with the session they were written in, so a save
+  // that lands after a rerun or resume still goes to that session.
+  const canSaveNotes = appState === SIM_STATES.IN_SIM || appState === SIM_STATES.TIMEOUT;
+  const notesDraft = useMemo(
+    () => ({ sessionId: canSaveNotes ? currentSessionId : null, notes }),
+    [canSaveNotes, currentSessionId, notes]
+  );
+  const debouncedNotesDraft = useDebounce(notesDraft, 1000);
+  useEffect(() => {
+    const { sessionId, notes: draftNotes } = debouncedNotesDraft;
+    if (!sessionId) {
+      return;
+    }
+
+    const saveNotes = async () => {
+      try {
+        await updateSession(sessionId, { notes: draftNotes });
+      } catch (error) {
+        console.error('Error saving notes:', error);
+      }
+    };
+
+    saveNotes();
+  }, [debouncedNotesDraft]);
+
   // Auto-exit when turn limit is reached
   useEffect(() => {
     if (
@@ -82,6 +122,9 @@ function App() {
     setNotes('');
     setEvaluation(null);
     setSuggestions([]);
+    // Never carry the previous session's id into this one
+    setCurrentSessionId(null);
+    setSessionSaveError(null);
     
     // Create session in Firebase if user is authenticated
     if (user) {
@@ -97,12 +140,47 @@ function App() {
         setCurrentSessionId(sessionId);
       } catch (error) {
         console.error('Error creating session:', error);
+        setSessionSaveError(
+          `${handleApiError(error).userMessage} This session will not be saved, but you can still practise.`
+        );
       }
     }
     
     setAppState(SIM_STATES.IN_SIM);
   }, [user, simulation]);
 
+  // Handle starting a recommended drill; the server drafts the drill's
+  // micro-scenario and starts its session
+  const handleStartDrill = useCallback(async (evaluationId: string, drillIndex: number) => {
+    const { sessionId, scenario } = await startDrill(evaluationId, drillIndex);
+    setSelectedScenario(scenario);
+    simulation.clearMessages();
+    setNotes('');
+    setEvaluation(null);
+    setSuggestions([]);
+    setCurrentSessionId(sessionId);
+    setSessionSaveError(null);
+    setAppState(SIM_STATES.IN_SIM);
+  }, [simulation]);
+
+  // Handle resuming an interrupted session
+  const handleResumeSession = useCallback((session: SimulationSession) => {
+    setSelectedScenario(session.scenario);
+    simulation.restoreSession({
+      messages: session.transcript || [],
+      turnCount: session.turnCount || 0,
+      sessionId: session.id,
+      ...(session.branchId ? { branchId: session.branchId } : {}),
+    });
+    setNotes(session.notes || '');
+    setEvaluation(null);
+    setSuggestions([]);
+    setCurrentSessionId(session.id);
+    setSessionSaveError(null);
+    dismissUnfinishedSession();
+    setAppState(SIM_STATES.IN_SIM);
+  }, [simulation, dismissUnfinishedSession]);
+
   // Handle sending a message
   const handleSendMessage = useCallback(async (content: string) => {
     setSuggestions([]); // Clear suggestions after sending
@@ -155,13 +233,14 @@ function App() {
     simulation.clearMessages();
     setEvaluation(null);
     setCurrentSessionId(null);
+    setSessionSaveError(null);
     setSuggestions([]);
   }, [simulation]);
 
-  // Handle rerun scenario
-  const handleRerunScenario = useCallback(() => {
+  // Handle rerun scenario, possibly at a different difficulty
+  const handleRerunScenario = useCallback((difficulty: ScenarioTemplate['difficulty']) => {
     if (selectedScenario) {
-      handleSelectScenario(selectedScenario);
+      handleSelectScenario({ ...selectedScenario, difficulty });
     }
   }, [selectedScenario, handleSelectScenario]);
 
@@ -170,6 +249,12 @@ function App() {
     setAppState(SIM_STATES.PROGRESS_VIEW);
   }, []);
 
+  // Handle opening a past session from the progress dashboard
+  const handleViewSessionDetails = useCallback((sessionId: string) => {
+    setDetailSessionId(sessionId);
+    setAppState(SIM_STATES.SESSION_DETAIL);
+  }, []);
+
   // Handle sign out
   const handleSignOut = useCallback(async () => {
     try {
@@ -212,7 +297,8 @@ function App() {
           <h1 className="app-title" onClick={handleBackHome} style={{ cursor: 'pointer' }}>
             SkillLoops
           </h1>
-          {appState !== SIM_STATES.SCENARIO_SELECT && appState !== SIM_STATES.PROGRESS_VIEW && (
+          {appState !== SIM_STATES.SCENARIO_SELECT && appState !== SIM_STATES.PROGRESS_VIEW &&
+            appState !== SIM_STATES.SESSION_DETAIL && (
             <span className="header-subtitle">{selectedScenario?.title}</span>
           )}
         </div>
@@ -260,23 +346,50 @@ function App() {
           </div>
         }>
           {appState === SIM_STATES.SCENARIO_SELECT && (
-            <ScenarioSelect 
-              onSelectScenario={handleSelectScenario}
-              isGuest={isGuest}
-              onAuthRequired={promptAuth}
-            />
+            <>
+              {unfinishedSession && (
+                <ResumeSessionPrompt
+                  session={unfinishedSession}
+                  onResume={handleResumeSession}
+                  onAbandon={abandonUnfinishedSession}
+                />
+              )}
+              <ScenarioSelect 
+                onSelectScenario={handleSelectScenario}
+                isGuest={isGuest}
+                onAuthRequired={promptAuth}
+                userId={user?.uid}
+                onStartDrill={handleStartDrill}
+              />
+            </>
           )}
 
           {appState === SIM_STATES.PROGRESS_VIEW && (
             <ProgressDashboard
               userId={user?.uid}
               onStartNewScenario={handleBackHome}
+              onViewSessionDetails={handleViewSessionDetails}
+            />
+          )}
+
+          {appState === SIM_STATES.SESSION_DETAIL && detailSessionId && (
+            <SessionDetail
+              sessionId={detailSessionId}
+              userId={user?.uid}
+              onBack={handleViewProgress}
             />
           )}
 
           {(appState === SIM_STATES.IN_SIM || appState === SIM_STATES.TIMEOUT) && selectedScenario && (
             <div className="simulation-layout">
               <div className="simulation-main">
+                {sessionSaveError && (
+                  <ErrorMessage
+                    message={sessionSaveError}
+                    type="warning"
+                    onDismiss={() => setSessionSaveError(null)}
+                  />
+                )}
                 <ChatInterface
                   scenario={selectedScenario}
                   messages={simulation.messages}
@@ -288,6 +401,16 @@ function App() {
                   isLoading={simulation.isLoading}
                   suggestions={suggestions}
                   isSuggestionsLoading={isSuggestionsLoading}
+                  isStreaming={simulation.isStreaming}
+                  onCancelResponse={simulation.cancelResponse}
+                  quota={simulation.quota}
+                  turnError={simulation.turnError?.error ?? null}
+                  onRetryTurn={simulation.turnError?.turnId ? simulation.retryTurn : undefined}
+                  onDismissTurnError={simulation.dismissTurnError}
+                  canBranch={simulation.canBranch}
+                  onRegenerate={simulation.regenerateReply}
+                  onEditLastMessage={simulation.editLastMessage}
+                  onBranchFromTurn={simulation.branchFromTurn}
                 />
               </div>
               <Sidebar
@@ -296,6 +419,7 @@ function App() {
                 onTabChange={setActiveSidebarTab}
                 notes={notes}
                 onNotesChange={setNotes}
+                messages={simulation.messages}
               />
             </div>
           )}
@@ -308,6 +432,8 @@ function App() {
               onRerunScenario={handleRerunScenario}
               isGuest={isGuest}
               onAuthRequired={promptAuth}
+              onStartDrill={handleStartDrill}
+              messages={simulation.messages}
             />
           )}
 
@@ -83,6 +83,48 @@ describe('ChatInterface', () => {
       expect(screen.getByText('Executive')).toBeInTheDocument();
     });
 
+    test('shows the stakeholder mood next to their reply', () => {
+      const aiMessage: Message = {
+        type: MESSAGE_TYPES.AI,
+        content: 'Go on.',
+        timestamp: new Date().toISOString(),
+        stakeholder: 'CEO',
+        emotionalState: {
+          state: 'warming_up',
+          trajectory: 'improving',
+          concernsAddressed: ['Budget'],
+          concernsUnaddressed: ['Timeline']
+        }
+      };
+
+      render(<ChatInterface {...defaultProps} messages={[aiMessage]} />);
+
+      expect(screen.getByLabelText('Mood: Warming up, 1 of 2 concerns addressed')).toHaveTextContent('Warming up');
+    });
+
+    test('gives each stakeholder a distinct identity in multi-party scenarios', () => {
+      const multiPartyScenario: ScenarioTemplate = {
+        ...mockScenario,
+        stakeholders: [
+          { name: 'Jamie Lee', role: 'Product Designer', relationshipType: 'direct_report', personality: 'Creative', concerns: [], motivations: [] },
+          { name: 'Taylor Morgan', role: 'Product Manager', relationshipType: 'direct_report', personality: 'Decisive', concerns: [], motivations: [] }
+        ]
+      };
+      const messages: Message[] = [
+        { type: MESSAGE_TYPES.AI, content: 'From Jamie', timestamp: new Date().toISOString(), stakeholder: 'Jamie Lee', role: 'Product Designer' },
+        { type: MESSAGE_TYPES.AI, content: 'From Taylor', timestamp: new Date().toISOString(), stakeholder: 'Taylor Morgan', role: 'Product Manager' }
+      ];
+
+      render(<ChatInterface {...defaultProps} scenario={multiPartyScenario} messages={messages} />);
+
+      const jamieMessage = screen.getByRole('article', { name: 'Message from Jamie Lee' });
+      const taylorMessage = screen.getByRole('article', { name: 'Message from Taylor Morgan' });
+      expect(jamieMessage).toHaveClass('speaker-0');
+      expect(taylorMessage).toHaveClass('speaker-1');
+      expect(screen.getByText('JL')).toBeInTheDocument();
+      expect(screen.getByText('TM')).toBeInTheDocument();
+    });
+
     test('renders coaching message with proper header', () => {
       const coachingMessage: Message = {
         type: MESSAGE_TYPES.COACHING,
@@ -225,6 +267,36 @@ describe('ChatInterface', () => {
       const exitButton = screen.getByRole('button', { name: /exit & score/i });
       expect(exitButton).not.toBeDisabled();
     });
+
+    test('replaces typing indicator with the streaming reply and offers stop', () => {
+      const onCancelResponse = vi.fn();
+      const streamingMessages: Message[] = [
+        ...mockMessages,
+        {
+          type: MESSAGE_TYPES.AI,
+          content: 'Let me think',
+          timestamp: new Date().toISOString(),
+          stakeholder: 'Manager',
+          streaming: true
+        }
+      ];
+
+      render(
+        <ChatInterface
+          {...defaultProps}
+          messages={streamingMessages}
+          isLoading={true}
+          isStreaming={true}
+          onCancelResponse={onCancelResponse}
+        />
+      );
+
+      expect(document.querySelector('.typing-indicator')).not.toBeInTheDocument();
+      expect(screen.getByText('Let me think').closest('.message')).toHaveClass('streaming');
+
+      fireEvent.click(screen.getByRole('button', { name: /stop the stakeholder's reply/i }));
+      expect(onCancelResponse).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Turn Limit Behavior', () => {
@@ -375,4 +447,140 @@ describe('ChatInterface', () => {
       expect(hintsButton).toBeDisabled();
     });
   });
+
+  describe('Quota Banner', () => {
+    const quota = {
+      tier: 'guest' as const,
+      requestsPerMinute: 6,
+      requestsRemaining: 5,
+      tokensPerDay: 30000,
+      tokensRemaining: 24000,
+      resetsAt: '2026-03-03T00:00:00.000Z',
+      exceeded: null
+    };
+
+    test('stays hidden until the allowance is known', () => {
+      render(<ChatInterface {...defaultProps} />);
+
+      expect(screen.queryByText(/AI allowance/)).not.toBeInTheDocument();
+    });
+
+    test('shows the remaining allowance while plenty is left', () => {
+      render(<ChatInterface {...defaultProps} quota={quota} />);
+
+      const banner = screen.getByText(/80% of today's AI allowance left/).parentElement;
+      expect(banner).toHaveClass('quota-banner');
+      expect(banner).not.toHaveClass('quota-banner-low');
+    });
+
+    test('stands out once the allowance runs low', () => {
+      render(<ChatInterface {...defaultProps} quota={{ ...quota, tokensRemaining: 3000 }} />);
+
+      const banner = screen.getByText(/10% of today's AI allowance left/).parentElement;
+      expect(banner).toHaveTextContent(/Sign in for a larger daily allowance/);
+      expect(banner).toHaveClass('quota-banner-low');
+    });
+
+    test('alerts when a limit has been hit', () => {
+      render(
+        <ChatInterface
+          {...defaultProps}
+          quota={{ ...quota, requestsRemaining: 0, exceeded: 'rate', resetsAt: '2026-03-02T12:01:00.000Z' }}
+        />
+      );
+
+      expect(screen.getByRole('alert')).toHaveTextContent(/faster than 6 a minute/);
+    });
+  });
+
+  describe('Turn Errors', () => {
+    const turnError = {
+      code: 'deadline-exceeded',
+      message: 'Timed out',
+      userMessage: 'The request took too long. Please try again.',
+      retryable: true
+    };
+
+    test('offers to retry a turn the AI could not answer', async () => {
+      const user = userEvent.setup();
+      const onRetryTurn = vi.fn();
+      const onDismissTurnError = vi.fn();
+      render(
+        <ChatInterface
+          {...defaultProps}
+          turnError={turnError}
+          onRetryTurn={onRetryTurn}
+          onDismissTurnError={onDismissTurnError}
+        />
+      );
+
+      expect(screen.getByRole('alert')).toHaveTextContent('The request took too long. Please try again.');
+      await user.click(screen.getByRole('button', { name: 'Retry this turn' }));
+      expect(onRetryTurn).toHaveBeenCalledTimes(1);
+
+      await user.click(screen.getByRole('button', { name: 'Dismiss error' }));
+      expect(onDismissTurnError).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not offer a retry that would fail again', () => {
+      render(
+        <ChatInterface
+          {...defaultProps}
+          turnError={{ ...turnError, code: 'invalid-argument', retryable: false }}
+          onRetryTurn={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByRole('button', { name: 'Retry this turn' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Branching', () => {
+    const conversation: Message[] = [
+      { type: MESSAGE_TYPES.USER, content: 'First pitch', timestamp: new Date().toISOString() },
+      { type: MESSAGE_TYPES.AI, content: 'Not convinced', timestamp: new Date().toISOString(), stakeholder: 'Manager' },
+      { type: MESSAGE_TYPES.USER, content: 'Second pitch', timestamp: new Date().toISOString() },
+      { type: MESSAGE_TYPES.AI, content: 'Tell me more', timestamp: new Date().toISOString(), stakeholder: 'Manager' }
+    ];
+    const branchProps = {
+      ...defaultProps,
+      messages: conversation,
+      turnCount: 2,
+      onRegenerate: vi.fn(),
+      onEditLastMessage: vi.fn(),
+      onBranchFromTurn: vi.fn()
+    };
+
+    test('offers regenerate, edit and branch on the right turns', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface {...branchProps} canBranch />);
+
+      await user.click(screen.getByRole('button', { name: 'Regenerate' }));
+      expect(branchProps.onRegenerate).toHaveBeenCalledTimes(1);
+
+      // Only earlier turns can be branched from
+      await user.click(screen.getByRole('button', { name: 'Branch from here' }));
+      expect(branchProps.onBranchFromTurn).toHaveBeenCalledWith(1);
+    });
+
+    test('edits and resends the latest turn', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface {...branchProps} canBranch />);
+
+      await user.click(screen.getByRole('button', { name: 'Edit' }));
+      const editor = screen.getByLabelText('Edit your message');
+      await user.clear(editor);
+      await user.type(editor, 'Better pitch');
+      await user.click(screen.getByRole('button', { name: 'Resend' }));
+
+      expect(branchProps.onEditLastMessage).toHaveBeenCalledWith('Better pitch');
+    });
+
+    test('hides the actions while the conversation cannot be branched', () => {
+      render(<ChatInterface {...branchProps} canBranch={false} />);
+
+      expect(screen.queryByRole('button', { name: 'Regenerate' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Edit' })).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,8 +1,10 @@
 import { memo, useState } from 'react';
-import { Clock } from 'lucide-react';
+import { Clock, Square } from 'lucide-react';
 import { ChatInterfaceProps } from '../types/props';
 import MessageList from './MessageList';
 import MessageInput from './MessageInput';
+import QuotaBanner from './QuotaBanner';
+import { ErrorMessage } from './ErrorMessage';
 
 const ChatInterface = memo(function ChatInterface({
   scenario,
@@ -14,7 +16,17 @@ const ChatInterface = memo(function ChatInterface({
   turnCount,
   isLoading,
   suggestions,
-  isSuggestionsLoading
+  isSuggestionsLoading,
+  isStreaming = false,
+  onCancelResponse,
+  quota,
+  turnError,
+  onRetryTurn,
+  onDismissTurnError,
+  canBranch = false,
+  onRegenerate,
+  onEditLastMessage,
+  onBranchFromTurn
 }: ChatInterfaceProps) {
   const [isTimeoutActive, setIsTimeoutActive] = useState(false);
 
@@ -49,6 +61,16 @@ const ChatInterface = memo(function ChatInterface({
           </span>
         </div>
         <div className="chat-actions" role="toolbar" aria-label="Chat actions">
+          {isStreaming && onCancelResponse && (
+            <button
+              className="btn btn-secondary btn-small"
+              onClick={onCancelResponse}
+              aria-label="Stop the stakeholder's reply"
+            >
+              <Square size={16} aria-hidden="true" />
+              <span>Stop</span>
+            </button>
+          )}
           <button 
             className="btn btn-secondary btn-small" 
             onClick={handleTimeout} 
@@ -70,13 +92,30 @@ const ChatInterface = memo(function ChatInterface({
         </div>
       </div>
 
+      <QuotaBanner quota={quota} />
+
       <MessageList
         scenario={scenario}
         messages={messages}
         isLoading={isLoading}
         isTimeoutActive={isTimeoutActive}
+        canBranch={canBranch}
+        onRegenerate={onRegenerate}
+        onEditLastMessage={onEditLastMessage}
+        onBranchFromTurn={onBranchFromTurn}
       />
 
+      {turnError && (
+        <div className="turn-error">
+          <ErrorMessage
+            message={turnError.userMessage}
+            onRetry={turnError.retryable ? onRetryTurn : undefined}
+            onDismiss={onDismissTurnError}
+            retryLabel="Retry this turn"
+          />
+        </div>
+      )}
+
       <MessageInput
         onSendMessage={handleSendMessage}
         onGetSuggestions={onGetSuggestions}
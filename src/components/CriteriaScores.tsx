@@ -19,6 +19,11 @@ export const CriteriaScores = memo(function CriteriaScores({
               <div>
                 <h4>{criterion.criterion}</h4>
                 <span className="weight-badge">{Math.round(criterion.weight * 100)}% weight</span>
+                {typeof criterion.contribution === 'number' && (
+                  <span className="contribution-badge">
+                    +{criterion.contribution} of {Math.round(criterion.weight * 100)} pts
+                  </span>
+                )}
               </div>
               <span className="score-badge">{criterion.score} / 5</span>
             </div>
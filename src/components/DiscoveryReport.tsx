@@ -0,0 +1,29 @@
+import { memo } from 'react';
+import { Search } from 'lucide-react';
+import { DiscoverySummary } from '../types/models';
+
+interface DiscoveryReportProps {
+  discovery: DiscoverySummary;
+}
+
+export const DiscoveryReport = memo(function DiscoveryReport({ discovery }: DiscoveryReportProps) {
+  return (
+    <div className="discovery-report">
+      <h3>
+        <Search size={20} />
+        Hidden Agenda: {discovery.found} of {discovery.total} uncovered
+      </h3>
+      <ul>
+        {discovery.items.map((item, idx) => (
+          <li key={idx} className={item.turn ? 'discovered' : 'missed'}>
+            <span className="discovered-kind">{item.stakeholder}'s {item.kind}</span>
+            <p>{item.text}</p>
+            <span className="discovery-turn">
+              {item.turn ? `Uncovered at turn ${item.turn}` : 'Never uncovered'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
@@ -0,0 +1,60 @@
+import { memo, useMemo } from 'react';
+import { CheckCircle, Circle } from 'lucide-react';
+import { DrillCompletion, Evaluation, PracticeDrill } from '../types/models';
+
+export interface DrillProgressProps {
+  evaluations: Evaluation[];
+}
+
+interface RecommendedDrill {
+  key: string;
+  drill: PracticeDrill;
+  completion?: DrillCompletion;
+}
+
+/**
+ * Drills recommended by recent evaluations and which of them were done.
+ * Drill sessions' own evaluations recommend nothing here.
+ */
+const DrillProgress = memo(function DrillProgress({ evaluations }: DrillProgressProps) {
+  const drills = useMemo<RecommendedDrill[]>(() =>
+    evaluations
+      .filter((evaluation) => !evaluation.drill)
+      .flatMap((evaluation) => (evaluation.drills || []).map((drill, idx) => ({
+        key: `${evaluation.id}-${idx}`,
+        drill,
+        completion: evaluation.drillCompletions?.[idx],
+      }))),
+    [evaluations]
+  );
+
+  if (drills.length === 0) {
+    return null;
+  }
+
+  const done = drills.filter((item) => item.completion).length;
+
+  return (
+    <div className="drill-progress">
+      <h2>Recommended Drills</h2>
+      <p className="section-description">{done} of {drills.length} done</p>
+      <ul className="drill-progress-list">
+        {drills.map(({ key, drill, completion }) => (
+          <li key={key} className={completion ? 'done' : undefined}>
+            {completion
+              ? <CheckCircle size={16} aria-hidden="true" />
+              : <Circle size={16} aria-hidden="true" />}
+            <span className="drill-progress-title">{drill.title}</span>
+            {drill.criterion && <span className="drill-criterion">{drill.criterion}</span>}
+            <span className="visually-hidden">{completion ? 'Done' : 'Not done yet'}</span>
+            {completion && completion.score !== null && (
+              <span className="drill-progress-score">{completion.score}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+export default DrillProgress;
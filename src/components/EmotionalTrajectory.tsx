@@ -0,0 +1,80 @@
+import { memo } from 'react';
+import { Activity } from 'lucide-react';
+import { StakeholderTrajectory, EMOTIONAL_STATES, EMOTIONAL_STATE_LABELS, EMOTIONAL_STATE_SCORES } from '../utils/emotionalTrajectory';
+
+interface EmotionalTrajectoryProps {
+  trajectories: StakeholderTrajectory[];
+}
+
+// Chart geometry in SVG units
+const WIDTH = 480;
+const ROW_HEIGHT = 24;
+const LABEL_WIDTH = 90;
+const PADDING = 12;
+const HEIGHT = ROW_HEIGHT * (EMOTIONAL_STATES.length - 1) + PADDING * 2 + 20;
+const SPEAKER_PALETTE_SIZE = 6;
+
+export const EmotionalTrajectory = memo(function EmotionalTrajectory({ trajectories }: EmotionalTrajectoryProps) {
+  const lastTurn = Math.max(1, ...trajectories.flatMap(({ points }) => points.map((point) => point.turn)));
+  const plotWidth = WIDTH - LABEL_WIDTH - PADDING * 2;
+  const x = (turn: number) => LABEL_WIDTH + PADDING + (lastTurn === 1 ? plotWidth / 2 : ((turn - 1) / (lastTurn - 1)) * plotWidth);
+  const y = (score: number) => PADDING + (EMOTIONAL_STATES.length - score) * ROW_HEIGHT;
+
+  return (
+    <div className="emotional-trajectory">
+      <h3>
+        <Activity size={20} />
+        How They Felt, Turn by Turn
+      </h3>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label="Stakeholder mood after each of your turns"
+      >
+        {EMOTIONAL_STATES.map((state) => (
+          <g key={state} className="trajectory-row">
+            <line x1={LABEL_WIDTH} x2={WIDTH - PADDING} y1={y(EMOTIONAL_STATE_SCORES[state])} y2={y(EMOTIONAL_STATE_SCORES[state])} />
+            <text x={LABEL_WIDTH - 6} y={y(EMOTIONAL_STATE_SCORES[state]) + 4} textAnchor="end">
+              {EMOTIONAL_STATE_LABELS[state]}
+            </text>
+          </g>
+        ))}
+        {Array.from({ length: lastTurn }, (_, idx) => (
+          <text key={idx} className="trajectory-turn" x={x(idx + 1)} y={HEIGHT - 6} textAnchor="middle">
+            {idx + 1}
+          </text>
+        ))}
+        {trajectories.map(({ stakeholder, points }, idx) => (
+          <g key={stakeholder} className={`trajectory-line speaker-${idx % SPEAKER_PALETTE_SIZE}`}>
+            <polyline
+              points={points.map((point) => `${x(point.turn)},${y(EMOTIONAL_STATE_SCORES[point.state])}`).join(' ')}
+            />
+            {points.map((point) => (
+              <circle key={point.turn} cx={x(point.turn)} cy={y(EMOTIONAL_STATE_SCORES[point.state])} r={4}>
+                <title>{`${stakeholder}, turn ${point.turn}: ${EMOTIONAL_STATE_LABELS[point.state]}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <ul className="trajectory-legend">
+        {trajectories.map(({ stakeholder, points }, idx) => {
+          const first = points[0];
+          const last = points[points.length - 1];
+          return (
+            <li key={stakeholder} className={`speaker-${idx % SPEAKER_PALETTE_SIZE}`}>
+              <span className="trajectory-swatch" aria-hidden="true" />
+              <strong>{stakeholder}</strong>
+              {first && last && (
+                <span>
+                  {EMOTIONAL_STATE_LABELS[first.state]} → {EMOTIONAL_STATE_LABELS[last.state]}
+                  {last.concernsTotal > 0 && ` · ${last.concernsAddressed} of ${last.concernsTotal} concerns addressed`}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+});
@@ -4,6 +4,8 @@ export interface ErrorMessageProps {
   message: string;
   onRetry?: () => void;
   onDismiss?: () => void;
+  /** Names what the retry button does, e.g. "Retry this turn" */
+  retryLabel?: string;
   type?: 'error' | 'warning' | 'info';
 }
 
@@ -14,6 +16,7 @@ export function ErrorMessage({
   message,
   onRetry,
   onDismiss,
+  retryLabel,
   type = 'error',
 }: ErrorMessageProps): JSX.Element {
   const styles = {
@@ -87,9 +90,9 @@ export function ErrorMessage({
               <button
                 onClick={onRetry}
                 style={{ ...styles.button, ...styles.retryButton }}
-                aria-label="Retry action"
+                aria-label={retryLabel || 'Retry action'}
               >
-                Try Again
+                {retryLabel || 'Try Again'}
               </button>
             )}
             {onDismiss && (
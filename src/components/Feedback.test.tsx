@@ -109,6 +109,30 @@ describe('Feedback Component', () => {
     expect(screen.getByText('Proficient')).toBeInTheDocument();
   });
 
+  it('shows an unscored notice instead of a score when the evaluation is degraded', () => {
+    const degradedEvaluation = createMockEvaluation({
+      overall_score: null,
+      criterion_scores: [],
+      missed_opportunities: [],
+      degraded: true,
+      validation_errors: ['Response did not contain a JSON object'],
+    });
+
+    renderWithProviders(
+      <Feedback
+        evaluation={degradedEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('This session could not be scored');
+    expect(screen.queryByText('/ 100')).not.toBeInTheDocument();
+    expect(screen.queryByText('70')).not.toBeInTheDocument();
+  });
+
   it('displays scenario title', () => {
     renderWithProviders(
       <Feedback
@@ -173,6 +197,60 @@ describe('Feedback Component', () => {
     expect(screen.getByText('Consider multiple approaches before deciding')).toBeInTheDocument();
   });
 
+  it('shows which parts of the hidden agenda were uncovered', () => {
+    const evaluation = createMockEvaluation({
+      discovery: {
+        found: 1,
+        total: 2,
+        items: [
+          { stakeholder: 'Alex Chen', kind: 'concern', text: 'Last pilot went over budget', turn: 4 },
+          { stakeholder: 'Alex Chen', kind: 'motivation', text: 'Needs a win for the board', turn: null }
+        ]
+      }
+    });
+    renderWithProviders(
+      <Feedback
+        evaluation={evaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+      />
+    );
+
+    expect(screen.getByText('Hidden Agenda: 1 of 2 uncovered')).toBeInTheDocument();
+    expect(screen.getByText('Uncovered at turn 4')).toBeInTheDocument();
+    expect(screen.getByText('Never uncovered')).toBeInTheDocument();
+  });
+
+  it('charts how each stakeholder felt turn by turn', () => {
+    const mood = (state: 'skeptical' | 'curious', addressed: string[]) => ({
+      state,
+      trajectory: 'stable' as const,
+      concernsAddressed: addressed,
+      concernsUnaddressed: ['Budget', 'Timeline'].filter((concern) => !addressed.includes(concern))
+    });
+    const timestamp = new Date().toISOString();
+    renderWithProviders(
+      <Feedback
+        evaluation={mockEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+        messages={[
+          { type: 'user', content: 'Hi', timestamp },
+          { type: 'ai', content: 'Hmm.', timestamp, stakeholder: 'Alex Chen', emotionalState: mood('skeptical', []) },
+          { type: 'user', content: 'It fits the budget.', timestamp },
+          { type: 'ai', content: 'Tell me more.', timestamp, stakeholder: 'Alex Chen', emotionalState: mood('curious', ['Budget']) }
+        ]}
+      />
+    );
+
+    expect(screen.getByRole('img', { name: /stakeholder mood after each of your turns/i })).toBeInTheDocument();
+    expect(screen.getByText('Skeptical → Curious · 1 of 2 concerns addressed')).toBeInTheDocument();
+  });
+
   it('switches to moments tab and displays moments', async () => {
     const user = userEvent.setup();
     
@@ -236,6 +314,110 @@ describe('Feedback Component', () => {
     expect(screen.getByText('20 min')).toBeInTheDocument();
   });
 
+  it('starts a drill and shows which drills were done', async () => {
+    const user = userEvent.setup();
+    const onStartDrill = vi.fn().mockResolvedValue(undefined);
+    const evaluation = createMockEvaluation({
+      drillCompletions: {
+        1: { sessionId: 'drill-session', evaluationId: 'drill-evaluation', score: 80, completedAt: Timestamp.now() },
+      },
+    });
+
+    renderWithProviders(
+      <Feedback
+        evaluation={evaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+        onStartDrill={onStartDrill}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /practice drills/i }));
+    expect(screen.getByText('Done · scored 80')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Repeat drill: Solution Brainstorming' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Start drill: Active Listening Practice' }));
+    expect(onStartDrill).toHaveBeenCalledWith('test-evaluation-id', 0);
+  });
+
+  it('shows why a drill could not be started', async () => {
+    const user = userEvent.setup();
+    const onStartDrill = vi.fn().mockRejectedValue(new Error('Network down'));
+
+    renderWithProviders(
+      <Feedback
+        evaluation={mockEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+        onStartDrill={onStartDrill}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /practice drills/i }));
+    await user.click(screen.getByRole('button', { name: 'Start drill: Active Listening Practice' }));
+
+    expect(await screen.findByText('An unexpected error occurred. Please try again.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Start drill: Active Listening Practice' })).toBeEnabled();
+  });
+
+  it('asks guests to sign up before starting a drill', async () => {
+    const user = userEvent.setup();
+    const onStartDrill = vi.fn();
+
+    renderWithProviders(
+      <Feedback
+        evaluation={mockEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={true}
+        onAuthRequired={mockOnAuthRequired}
+        onStartDrill={onStartDrill}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /practice drills/i }));
+    await user.click(screen.getByRole('button', { name: 'Start drill: Active Listening Practice' }));
+
+    expect(mockOnAuthRequired).toHaveBeenCalledWith(expect.stringMatching(/drills/));
+    expect(onStartDrill).not.toHaveBeenCalled();
+  });
+
+  it('offers to repeat a drill instead of a harder rerun', async () => {
+    const user = userEvent.setup();
+    const onStartDrill = vi.fn().mockResolvedValue(undefined);
+    const drillEvaluation = createMockEvaluation({
+      drill: {
+        evaluationId: 'source-evaluation',
+        drillIndex: 1,
+        title: 'Solution Brainstorming',
+        criterion: { name: 'Problem Solving', description: 'Finds options', anchors: { 1: 'None', 3: 'Some', 5: 'Many' } },
+      },
+    });
+
+    renderWithProviders(
+      <Feedback
+        evaluation={drillEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+        onStartDrill={onStartDrill}
+      />
+    );
+
+    expect(screen.getByText('Scored on Problem Solving only')).toBeInTheDocument();
+    expect(screen.queryByText(/Suggested next level/)).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /harder mode/i })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /repeat drill/i }));
+    expect(onStartDrill).toHaveBeenCalledWith('source-evaluation', 1);
+  });
+
   it('calls onBackHome when back button is clicked', async () => {
     const user = userEvent.setup();
     
@@ -255,12 +437,13 @@ describe('Feedback Component', () => {
     expect(mockOnBackHome).toHaveBeenCalledTimes(1);
   });
 
-  it('calls onRerunScenario when try again button is clicked', async () => {
+  it('reruns at the next level after a strong score', async () => {
     const user = userEvent.setup();
+    mockOnRerunScenario.mockClear();
     
     renderWithProviders(
       <Feedback
-        evaluation={mockEvaluation}
+        evaluation={createMockEvaluation({ overall_score: 90 })}
         scenario={mockScenario}
         onBackHome={mockOnBackHome}
         onRerunScenario={mockOnRerunScenario}
@@ -268,10 +451,34 @@ describe('Feedback Component', () => {
       />
     );
 
+    expect(screen.getByRole('heading', { name: 'Suggested next level: Hard' })).toBeInTheDocument();
     const tryAgainButton = screen.getByRole('button', { name: /try again with harder mode/i });
     await user.click(tryAgainButton);
 
     expect(mockOnRerunScenario).toHaveBeenCalledTimes(1);
+    expect(mockOnRerunScenario).toHaveBeenCalledWith('Hard');
+  });
+
+  it('suggests staying at the same level but still offers harder mode', async () => {
+    const user = userEvent.setup();
+    mockOnRerunScenario.mockClear();
+
+    renderWithProviders(
+      <Feedback
+        evaluation={mockEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+      />
+    );
+
+    expect(screen.getByText('You scored 75 at Medium. Score 85+ to move up a level.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Try Again' }));
+    await user.click(screen.getByRole('button', { name: 'Harder Mode' }));
+
+    expect(mockOnRerunScenario.mock.calls).toEqual([['Medium'], ['Hard']]);
   });
 
   it('displays guest banner when isGuest is true', () => {
@@ -338,4 +545,30 @@ describe('Feedback Component', () => {
     expect(thirtyPercentWeights.length).toBe(2); // Communication and Problem Solving
     expect(screen.getByText('40% weight')).toBeInTheDocument();
   });
+
+  it('shows how each criterion contributed to the overall score', () => {
+    const scoredEvaluation = createMockEvaluation({
+      overall_score: 68,
+      holistic_score: 80,
+      criterion_scores: [
+        { criterion: 'Communication', weight: 0.6, score: 4, evidence: [], contribution: 45 },
+        { criterion: 'Leadership', weight: 0.4, score: 3, evidence: [], contribution: 20 },
+      ],
+    });
+
+    renderWithProviders(
+      <Feedback
+        evaluation={scoredEvaluation}
+        scenario={mockScenario}
+        onBackHome={mockOnBackHome}
+        onRerunScenario={mockOnRerunScenario}
+        isGuest={false}
+      />
+    );
+
+    expect(screen.getByText('Communication: 45 of 60 pts')).toBeInTheDocument();
+    expect(screen.getByText('+20 of 40 pts')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: /communication 45 points, leadership 20 points/i })).toBeInTheDocument();
+    expect(screen.getByText("Evaluator's overall impression: 80 / 100")).toBeInTheDocument();
+  });
 });
@@ -1,12 +1,18 @@
-import { useState, memo } from 'react';
-import { Home, TrendingUp } from 'lucide-react';
+import { useState, useMemo, useCallback, memo } from 'react';
+import { AlertTriangle, Gauge, Home, RotateCcw, TrendingUp } from 'lucide-react';
 import { getScoreLabel } from '../constants/rubrics';
+import { handleApiError } from '../utils/errorHandling';
+import { DIFFICULTY_DESCRIPTIONS, getHarderDifficulty, suggestNextDifficulty } from '../utils/difficulty';
+import { getEmotionalTrajectories } from '../utils/emotionalTrajectory';
 import { FeedbackProps } from '../types/props';
 import { OverallScoreCard } from './OverallScoreCard';
 import { CriteriaScores } from './CriteriaScores';
 import { MissedOpportunities } from './MissedOpportunities';
+import { DiscoveryReport } from './DiscoveryReport';
+import { EmotionalTrajectory } from './EmotionalTrajectory';
 import { MomentsThatMattered } from './MomentsThatMattered';
 import { PracticeDrills } from './PracticeDrills';
+import { ErrorMessage } from './ErrorMessage';
 
 type FeedbackSection = 'overview' | 'moments' | 'drills';
 
@@ -16,9 +22,31 @@ const Feedback = memo(function Feedback({
   onBackHome, 
   onRerunScenario, 
   isGuest, 
-  onAuthRequired 
+  onAuthRequired,
+  onStartDrill,
+  messages = []
 }: FeedbackProps) {
   const [activeSection, setActiveSection] = useState<FeedbackSection>('overview');
+  const [startingDrill, setStartingDrill] = useState<number | null>(null);
+  const [drillError, setDrillError] = useState<string | null>(null);
+  const trajectories = useMemo(() => getEmotionalTrajectories(messages), [messages]);
+
+  // Drills are saved sessions linked to this evaluation, so guests sign up first
+  const startDrill = useCallback(async (evaluationId: string, drillIndex: number) => {
+    if (isGuest || !onStartDrill) {
+      onAuthRequired?.('To practise drills and track which ones you have done');
+      return;
+    }
+    setStartingDrill(drillIndex);
+    setDrillError(null);
+    try {
+      await onStartDrill(evaluationId, drillIndex);
+    } catch (error) {
+      setDrillError(handleApiError(error).userMessage);
+    } finally {
+      setStartingDrill(null);
+    }
+  }, [isGuest, onStartDrill, onAuthRequired]);
   
   if (!evaluation) {
     return (
@@ -29,13 +57,23 @@ const Feedback = memo(function Feedback({
     );
   }
 
-  const scoreLabel = getScoreLabel(evaluation.overall_score);
+  const isScored = !evaluation.degraded && evaluation.overall_score !== null;
+  const drill = evaluation.drill;
+  const canStartDrills = isGuest || Boolean(onStartDrill && evaluation.id);
+  const suggestion = suggestNextDifficulty(scenario.difficulty, isScored ? evaluation.overall_score : null);
+  const harder = getHarderDifficulty(scenario.difficulty);
+  const rerunLabel = suggestion.difficulty === harder
+    ? 'Try Again with Harder Mode'
+    : suggestion.difficulty === scenario.difficulty
+      ? 'Try Again'
+      : `Try Again at ${suggestion.difficulty}`;
 
   return (
     <div className="feedback-container">
       <div className="feedback-header">
-        <h1>Your Performance Report</h1>
+        <h1>{drill ? 'Your Drill Report' : 'Your Performance Report'}</h1>
         <p className="scenario-title">{scenario.title}</p>
+        {drill && <p className="drill-criterion">Scored on {drill.criterion.name} only</p>}
         {isGuest && (
           <div className="guest-feedback-banner">
             <p>📊 Great job! Sign up to save this report and track your progress over time.</p>
@@ -73,11 +111,30 @@ const Feedback = memo(function Feedback({
       <div className="feedback-content">
         {activeSection === 'overview' && (
           <>
-            <OverallScoreCard 
-              score={evaluation.overall_score} 
-              scoreLabel={scoreLabel} 
-            />
-            <CriteriaScores criterionScores={evaluation.criterion_scores} />
+            {isScored ? (
+              <>
+                <OverallScoreCard 
+                  score={evaluation.overall_score as number} 
+                  scoreLabel={getScoreLabel(evaluation.overall_score)} 
+                  criterionScores={evaluation.criterion_scores}
+                  holisticScore={evaluation.holistic_score}
+                />
+                <CriteriaScores criterionScores={evaluation.criterion_scores} />
+              </>
+            ) : (
+              <div className="degraded-evaluation" role="alert">
+                <AlertTriangle size={24} aria-hidden="true" />
+                <div>
+                  <h2>This session could not be scored</h2>
+                  <p>
+                    The evaluator did not return a valid assessment, even after retrying, so no score
+                    was recorded for this session. Your transcript is unaffected.
+                  </p>
+                </div>
+              </div>
+            )}
+            {trajectories.length > 0 && <EmotionalTrajectory trajectories={trajectories} />}
+            {evaluation.discovery && <DiscoveryReport discovery={evaluation.discovery} />}
             <MissedOpportunities opportunities={evaluation.missed_opportunities} />
           </>
         )}
@@ -90,19 +147,59 @@ const Feedback = memo(function Feedback({
         )}
 
         {activeSection === 'drills' && (
-          <PracticeDrills drills={evaluation.drills} />
+          <PracticeDrills
+            drills={evaluation.drills}
+            completions={evaluation.drillCompletions}
+            onStartDrill={canStartDrills ? (drillIndex) => startDrill(evaluation.id, drillIndex) : undefined}
+            startingDrill={startingDrill}
+          />
         )}
       </div>
 
+      {drillError && (
+        <ErrorMessage message={drillError} onDismiss={() => setDrillError(null)} />
+      )}
+
+      {/* A drill is repeated with a fresh micro-scenario rather than rerun at a difficulty */}
+      {!drill && (
+        <div className="difficulty-suggestion">
+          <Gauge size={24} aria-hidden="true" />
+          <div>
+            <h2>Suggested next level: {suggestion.difficulty}</h2>
+            <p>{suggestion.reason}</p>
+            <p className="difficulty-description">{DIFFICULTY_DESCRIPTIONS[suggestion.difficulty]}</p>
+          </div>
+        </div>
+      )}
+
       <div className="feedback-actions">
         <button className="btn btn-secondary" onClick={onBackHome}>
           <Home size={18} />
           Back to Home
         </button>
-        <button className="btn btn-primary" onClick={onRerunScenario}>
-          <TrendingUp size={18} />
-          Try Again with Harder Mode
-        </button>
+        {drill ? (
+          <button
+            className="btn btn-primary"
+            onClick={() => startDrill(drill.evaluationId, drill.drillIndex)}
+            disabled={startingDrill !== null}
+          >
+            <RotateCcw size={18} />
+            {startingDrill !== null ? 'Preparing drill...' : 'Repeat Drill'}
+          </button>
+        ) : (
+          <>
+            {harder && suggestion.difficulty !== harder && (
+              <button className="btn btn-secondary" onClick={() => onRerunScenario(harder)}>
+                <TrendingUp size={18} />
+                Harder Mode
+              </button>
+            )}
+            <button className="btn btn-primary" onClick={() => onRerunScenario(suggestion.difficulty)}>
+              {suggestion.difficulty === harder ? <TrendingUp size={18} /> : <RotateCcw size={18} />}
+              {rerunLabel}
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,24 +1,90 @@
-import { memo, useRef, useEffect, useState } from 'react';
-import { UsersIcon, AlertCircle, Clock, User, ArrowDown } from 'lucide-react';
+import { memo, useRef, useEffect, useState, useMemo, FormEvent } from 'react';
+import { UsersIcon, AlertCircle, Clock, User, ArrowDown, CloudOff, RefreshCw, Pencil, GitBranch } from 'lucide-react';
 import { Message, ScenarioTemplate } from '../types/models';
 import { MESSAGE_TYPES } from '../constants/states';
+import { describeEmotionalState, EMOTIONAL_STATE_LABELS } from '../utils/emotionalTrajectory';
+
+// Number of distinct speaker palettes defined in App.css (.speaker-0 ... .speaker-5)
+const SPEAKER_PALETTE_SIZE = 6;
+
+const getInitials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter((part) => part.length > 0 && !/^(dr|mr|ms|mrs)\.?$/i.test(part))
+    .map((part) => part.charAt(0))
+    .slice(0, 2)
+    .join('')
+    .toUpperCase();
 
 interface MessageListProps {
   scenario: ScenarioTemplate;
   messages: Message[];
   isLoading: boolean;
   isTimeoutActive: boolean;
+  canBranch?: boolean;
+  onRegenerate?: () => void;
+  onEditLastMessage?: (content: string) => void;
+  onBranchFromTurn?: (turnNumber: number) => void;
 }
 
 const MessageList = memo(function MessageList({
   scenario,
   messages,
   isLoading,
-  isTimeoutActive
+  isTimeoutActive,
+  canBranch = false,
+  onRegenerate,
+  onEditLastMessage,
+  onBranchFromTurn
 }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const [editedContent, setEditedContent] = useState<string | null>(null);
+
+  // User turn number of each user message, and where the latest turn and
+  // its last reply are, for the regenerate, edit and branch actions
+  const { turnNumbers, lastUserIndex, lastReplyIndex } = useMemo(() => {
+    const numbers = new Map<number, number>();
+    let userIndex = -1;
+    let replyIndex = -1;
+    messages.forEach((message, idx) => {
+      if (message.type === MESSAGE_TYPES.USER) {
+        numbers.set(idx, numbers.size + 1);
+        userIndex = idx;
+        replyIndex = -1;
+      } else if (message.type === MESSAGE_TYPES.AI && userIndex !== -1) {
+        replyIndex = idx;
+      }
+    });
+    return { turnNumbers: numbers, lastUserIndex: userIndex, lastReplyIndex: replyIndex };
+  }, [messages]);
+
+  // Leave the editor when the conversation moves on without it
+  useEffect(() => {
+    if (!canBranch) setEditedContent(null);
+  }, [canBranch]);
+
+  const handleEditSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const content = editedContent?.trim();
+    if (!content) return;
+    setEditedContent(null);
+    onEditLastMessage?.(content);
+  };
+
+  // Give every stakeholder a stable palette slot in multi-party scenarios
+  const isMultiParty = scenario.stakeholders.length > 1;
+  const speakerIndex = useMemo(() => {
+    const index = new Map<string, number>();
+    scenario.stakeholders.forEach((stakeholder, idx) => {
+      index.set(stakeholder.name, idx % SPEAKER_PALETTE_SIZE);
+    });
+    return index;
+  }, [scenario.stakeholders]);
+
+  // The growing reply replaces the typing indicator once text arrives
+  const isStreamingReply = messages[messages.length - 1]?.streaming === true;
 
   const scrollToBottom = () => {
     if (messagesEndRef.current && typeof messagesEndRef.current.scrollIntoView === 'function') {
@@ -78,17 +144,27 @@ const MessageList = memo(function MessageList({
 
       {/* Chat messages */}
       {messages.map((msg, idx) => {
-        const messageTypeLabel = msg.type === MESSAGE_TYPES.USER ? 'Your message' :
+        const messageTypeLabel = msg.type === MESSAGE_TYPES.USER ? (msg.pending ? 'Your message, pending' : 'Your message') :
                                  msg.type === MESSAGE_TYPES.AI ? `Message from ${msg.stakeholder || 'Stakeholder'}` :
                                  msg.type === MESSAGE_TYPES.COACHING ? 'Coaching hint' :
                                  'System message';
         
+        const speakerClass = isMultiParty && msg.type === MESSAGE_TYPES.AI && msg.stakeholder
+          ? ` speaker-${speakerIndex.get(msg.stakeholder) ?? 0}`
+          : '';
+
+        const isRevisable = canBranch && editedContent === null;
+        const canEdit = isRevisable && idx === lastUserIndex && !!onEditLastMessage;
+        const canRegenerate = isRevisable && idx === lastReplyIndex && !!onRegenerate;
+        const canBranchHere = isRevisable && msg.type === MESSAGE_TYPES.USER && idx !== lastUserIndex && !!onBranchFromTurn;
+
         return (
           <div 
             key={idx} 
-            className={`message ${msg.type}-message`} 
+            className={`message ${msg.type}-message${speakerClass}${msg.streaming ? ' streaming' : ''}${msg.pending ? ' pending' : ''}`} 
             role="article" 
             aria-label={messageTypeLabel}
+            aria-busy={msg.streaming || undefined}
             tabIndex={0}
           >
             {msg.type === MESSAGE_TYPES.USER && (
@@ -99,11 +175,25 @@ const MessageList = memo(function MessageList({
             {msg.type === MESSAGE_TYPES.AI && (
               <>
                 <div className="message-avatar message-avatar-ai" aria-hidden="true" role="presentation">
-                  <UsersIcon size={20} />
+                  {isMultiParty && msg.stakeholder ? (
+                    <span className="speaker-initials">{getInitials(msg.stakeholder)}</span>
+                  ) : (
+                    <UsersIcon size={20} />
+                  )}
                 </div>
                 <div className="message-header">
-                  <span>{msg.stakeholder || 'Stakeholder'}</span>
+                  <span className="speaker-name">{msg.stakeholder || 'Stakeholder'}</span>
                   {msg.role && <span className="role-badge" aria-label={`Role: ${msg.role}`}>{msg.role}</span>}
+                  {msg.emotionalState && (
+                    <span
+                      className={`mood-indicator mood-${msg.emotionalState.state}`}
+                      title={describeEmotionalState(msg.emotionalState)}
+                      aria-label={`Mood: ${describeEmotionalState(msg.emotionalState)}`}
+                    >
+                      <span className="mood-dot" aria-hidden="true" />
+                      {EMOTIONAL_STATE_LABELS[msg.emotionalState.state]}
+                    </span>
+                  )}
                 </div>
               </>
             )}
@@ -119,9 +209,62 @@ const MessageList = memo(function MessageList({
                 <span className="visually-hidden">System message</span>
               </div>
             )}
-            <div className="message-content">
-              <p>{msg.content}</p>
-            </div>
+            {idx === lastUserIndex && editedContent !== null ? (
+              <form className="message-edit" onSubmit={handleEditSubmit}>
+                <label htmlFor="edit-last-message" className="visually-hidden">Edit your message</label>
+                <textarea
+                  id="edit-last-message"
+                  value={editedContent}
+                  onChange={(e) => setEditedContent(e.target.value)}
+                  autoFocus
+                />
+                <div className="message-actions">
+                  <button type="submit" className="message-action" disabled={!editedContent.trim()}>
+                    Resend
+                  </button>
+                  <button type="button" className="message-action" onClick={() => setEditedContent(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="message-content">
+                <p>{msg.content}</p>
+              </div>
+            )}
+            {(canEdit || canRegenerate || canBranchHere) && (
+              <div className="message-actions">
+                {canEdit && (
+                  <button type="button" className="message-action" onClick={() => setEditedContent(msg.content)}>
+                    <Pencil size={12} aria-hidden="true" />
+                    <span>Edit</span>
+                  </button>
+                )}
+                {canRegenerate && (
+                  <button type="button" className="message-action" onClick={onRegenerate}>
+                    <RefreshCw size={12} aria-hidden="true" />
+                    <span>Regenerate</span>
+                  </button>
+                )}
+                {canBranchHere && (
+                  <button
+                    type="button"
+                    className="message-action"
+                    onClick={() => onBranchFromTurn!(turnNumbers.get(idx)!)}
+                    title="Keep the conversation up to this turn and continue from here"
+                  >
+                    <GitBranch size={12} aria-hidden="true" />
+                    <span>Branch from here</span>
+                  </button>
+                )}
+              </div>
+            )}
+            {msg.pending && (
+              <div className="message-pending" title="Will be sent when you're back online">
+                <CloudOff size={12} aria-hidden="true" />
+                <span>Pending</span>
+              </div>
+            )}
             {msg.timestamp && (
               <div 
                 className="message-timestamp" 
@@ -135,7 +278,7 @@ const MessageList = memo(function MessageList({
         );
       })}
 
-      {isLoading && (
+      {isLoading && !isStreamingReply && (
         <div 
           className="message ai-message loading" 
           role="status" 
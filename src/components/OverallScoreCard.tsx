@@ -1,4 +1,5 @@
 import { memo } from 'react';
+import { CriterionScore } from '../types/models';
 
 interface ScoreLabel {
   min: number;
@@ -10,12 +11,25 @@ interface ScoreLabel {
 interface OverallScoreCardProps {
   score: number;
   scoreLabel: ScoreLabel;
+  /** Weighted criteria the score was computed from */
+  criterionScores?: CriterionScore[];
+  /** The evaluator's own impression, shown for comparison only */
+  holisticScore?: number;
 }
 
+const SEGMENT_COLORS = ['#646cff', '#10b981', '#f59e0b', '#3b82f6', '#ec4899', '#8b5cf6'];
+
 export const OverallScoreCard = memo(function OverallScoreCard({ 
   score, 
-  scoreLabel 
+  scoreLabel,
+  criterionScores = [],
+  holisticScore
 }: OverallScoreCardProps) {
+  const contributions = criterionScores.filter(
+    (criterion): criterion is CriterionScore & { contribution: number } =>
+      typeof criterion.contribution === 'number'
+  );
+
   return (
     <div className="overall-score-card">
       <div className="score-display">
@@ -28,6 +42,45 @@ export const OverallScoreCard = memo(function OverallScoreCard({
           <p>Overall Performance</p>
         </div>
       </div>
+
+      {contributions.length > 0 && (
+        <div className="score-contributions">
+          <div
+            className="contribution-bar"
+            role="img"
+            aria-label={`Score made up of ${contributions
+              .map((c) => `${c.criterion} ${c.contribution} points`)
+              .join(', ')}`}
+          >
+            {contributions.map((criterion, idx) => (
+              <span
+                key={criterion.criterion}
+                className="contribution-segment"
+                style={{
+                  width: `${criterion.contribution}%`,
+                  backgroundColor: SEGMENT_COLORS[idx % SEGMENT_COLORS.length]
+                }}
+              />
+            ))}
+          </div>
+          <ul className="contribution-legend">
+            {contributions.map((criterion, idx) => (
+              <li key={criterion.criterion}>
+                <span
+                  className="contribution-swatch"
+                  style={{ backgroundColor: SEGMENT_COLORS[idx % SEGMENT_COLORS.length] }}
+                  aria-hidden="true"
+                />
+                {criterion.criterion}: {criterion.contribution} of {Math.round(criterion.weight * 100)} pts
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {holisticScore !== undefined && (
+        <p className="holistic-score">Evaluator's overall impression: {holisticScore} / 100</p>
+      )}
     </div>
   );
 });
@@ -1,13 +1,22 @@
 import { memo } from 'react';
-import { TrendingUp, ArrowRight } from 'lucide-react';
-import { PracticeDrill } from '../types/models';
+import { TrendingUp, ArrowRight, CheckCircle } from 'lucide-react';
+import { DrillCompletion, PracticeDrill } from '../types/models';
 
 interface PracticeDrillsProps {
   drills: PracticeDrill[];
+  /** Latest finished attempt at each drill, keyed by drill index */
+  completions?: Record<string, DrillCompletion>;
+  /** Starts a drill as a short simulation; without it drills are listed only */
+  onStartDrill?: (drillIndex: number) => void;
+  /** Index of the drill being prepared */
+  startingDrill?: number | null;
 }
 
-export const PracticeDrills = memo(function PracticeDrills({ 
-  drills 
+export const PracticeDrills = memo(function PracticeDrills({
+  drills,
+  completions = {},
+  onStartDrill,
+  startingDrill = null
 }: PracticeDrillsProps) {
   return (
     <div className="drills-section">
@@ -17,20 +26,38 @@ export const PracticeDrills = memo(function PracticeDrills({
       </h3>
       <p className="section-description">
         These targeted exercises will help you strengthen specific skills for next time.
+        Each one runs as a short simulation scored on the skill it targets.
       </p>
-      {drills.map((drill, idx) => (
-        <div key={idx} className="drill-card">
-          <div className="drill-header">
-            <h4>{drill.title}</h4>
-            <span className="time-badge">{drill.estimated_minutes} min</span>
+      {drills.map((drill, idx) => {
+        const completion = completions[idx];
+        return (
+          <div key={idx} className="drill-card">
+            <div className="drill-header">
+              <h4>{drill.title}</h4>
+              <span className="time-badge">{drill.estimated_minutes} min</span>
+            </div>
+            {drill.criterion && <p className="drill-criterion">Practises {drill.criterion}</p>}
+            <p className="drill-instructions">{drill.instructions}</p>
+            {completion && (
+              <p className="drill-completed">
+                <CheckCircle size={16} aria-hidden="true" />
+                Done{completion.score !== null ? ` · scored ${completion.score}` : ''}
+              </p>
+            )}
+            {onStartDrill && (
+              <button
+                className="btn btn-secondary btn-small"
+                onClick={() => onStartDrill(idx)}
+                disabled={startingDrill !== null}
+                aria-label={`${completion ? 'Repeat' : 'Start'} drill: ${drill.title}`}
+              >
+                <ArrowRight size={16} aria-hidden="true" />
+                {startingDrill === idx ? 'Preparing drill...' : completion ? 'Repeat Drill' : 'Start Drill'}
+              </button>
+            )}
           </div>
-          <p className="drill-instructions">{drill.instructions}</p>
-          <button className="btn btn-secondary btn-small">
-            <ArrowRight size={16} />
-            Start Drill
-          </button>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 });
@@ -9,6 +9,7 @@ import * as firestoreModule from '../firebase/firestore';
 // Mock the firestore module
 vi.mock('../firebase/firestore', () => ({
   getUserSessions: vi.fn(),
+  getUserEvaluations: vi.fn(),
 }));
 
 /**
@@ -65,9 +66,11 @@ function createMockIncompleteSession(overrides = {}) {
 describe('ProgressDashboard Component', () => {
   const mockOnStartNewScenario = vi.fn();
   const mockGetUserSessions = vi.mocked(firestoreModule.getUserSessions);
+  const mockGetUserEvaluations = vi.mocked(firestoreModule.getUserEvaluations);
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockGetUserEvaluations.mockResolvedValue([]);
   });
 
   describe('Stats Calculation', () => {
@@ -458,6 +461,59 @@ describe('ProgressDashboard Component', () => {
 
       expect(mockOnStartNewScenario).toHaveBeenCalledTimes(1);
     });
+
+    it('opens session details when a session is selected', async () => {
+      const user = userEvent.setup();
+      const onViewSessionDetails = vi.fn();
+      mockGetUserSessions.mockResolvedValue([createMockSessionWithEvaluation()]);
+
+      renderWithProviders(
+        <ProgressDashboard 
+          userId="test-user-id" 
+          onStartNewScenario={mockOnStartNewScenario}
+          onViewSessionDetails={onViewSessionDetails}
+        />
+      );
+
+      const detailsButton = await screen.findByRole('button', { name: /view details for test scenario 1/i });
+      await user.click(detailsButton);
+
+      expect(onViewSessionDetails).toHaveBeenCalledWith('test-session-1');
+    });
+  });
+
+  describe('Drill Progress', () => {
+    it('shows which recommended drills were done', async () => {
+      const drill = { title: 'Mirror concerns', instructions: 'Restate', estimated_minutes: 5, criterion: 'Empathy' };
+      mockGetUserSessions.mockResolvedValue([createMockSessionWithEvaluation()]);
+      mockGetUserEvaluations.mockResolvedValue([
+        {
+          ...createMockSessionWithEvaluation().evaluation,
+          drills: [drill, { ...drill, title: 'Open questions' }],
+          drillCompletions: {
+            0: { sessionId: 's2', evaluationId: 'eval-2', score: 72, completedAt: Timestamp.now() },
+          },
+        },
+        {
+          ...createMockSessionWithEvaluation().evaluation,
+          id: 'eval-2',
+          drills: [{ ...drill, title: 'Drill recommended by a drill' }],
+          drill: { evaluationId: 'eval-1', drillIndex: 0, title: 'Mirror concerns', criterion: { name: 'Empathy', description: '', anchors: { 1: '', 3: '', 5: '' } } },
+        },
+      ]);
+
+      renderWithProviders(
+        <ProgressDashboard 
+          userId="test-user-id" 
+          onStartNewScenario={mockOnStartNewScenario} 
+        />
+      );
+
+      expect(await screen.findByText('1 of 2 done')).toBeInTheDocument();
+      expect(screen.getByText('Mirror concerns').closest('li')).toHaveTextContent('Done');
+      expect(screen.getByText('Open questions').closest('li')).toHaveTextContent('Not done yet');
+      expect(screen.queryByText('Drill recommended by a drill')).not.toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
@@ -1,15 +1,19 @@
 import { useState, useEffect, memo, useCallback } from 'react';
 import { Target } from 'lucide-react';
-import { getUserSessions } from '../firebase/firestore';
+import { getUserEvaluations, getUserSessions } from '../firebase/firestore';
 import { ProgressDashboardProps, SessionWithEvaluation } from '../types/props';
+import { Evaluation } from '../types/models';
 import StatsGrid, { DashboardStats } from './StatsGrid';
 import SessionList from './SessionList';
+import DrillProgress from './DrillProgress';
 
 const ProgressDashboard = memo(function ProgressDashboard({ 
   userId, 
-  onStartNewScenario 
+  onStartNewScenario,
+  onViewSessionDetails
 }: ProgressDashboardProps) {
   const [sessions, setSessions] = useState<SessionWithEvaluation[]>([]);
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalSessions: 0,
     averageScore: 0,
@@ -25,7 +29,9 @@ const ProgressDashboard = memo(function ProgressDashboard({
         setSessions(userSessions);
         
         // Calculate stats
-        const completedSessions = userSessions.filter((s: SessionWithEvaluation) => s.evaluation);
+        // Degraded evaluations carry no score and stay out of the average
+        const completedSessions = userSessions.filter((s: SessionWithEvaluation) =>
+          typeof s.evaluation?.overall_score === 'number');
         const avgScore = completedSessions.length > 0
           ? completedSessions.reduce((sum: number, s: SessionWithEvaluation) => 
               sum + (s.evaluation?.overall_score || 0), 0) / completedSessions.length
@@ -37,6 +43,13 @@ const ProgressDashboard = memo(function ProgressDashboard({
           totalTime: userSessions.length * 15, // Estimate 15 min per session
           topScenario: completedSessions[0]?.scenario?.title || null
         });
+
+        // Drill progress is extra; the dashboard still loads without it
+        try {
+          setEvaluations(await getUserEvaluations(userId, 10));
+        } catch (error) {
+          console.error('Error loading drill progress:', error);
+        }
       }
       setLoading(false);
     } catch (error) {
@@ -49,11 +62,6 @@ const ProgressDashboard = memo(function ProgressDashboard({
     loadUserProgress();
   }, [loadUserProgress]);
 
-  const handleViewSessionDetails = useCallback((sessionId: string) => {
-    // Placeholder for future implementation
-    console.log('View session details:', sessionId);
-  }, []);
-
   if (loading) {
     return (
       <div className="progress-loading">
@@ -107,12 +115,14 @@ const ProgressDashboard = memo(function ProgressDashboard({
         </div>
       </div>
 
+      <DrillProgress evaluations={evaluations} />
+
       <div className="session-history">
         <h2>Recent Sessions</h2>
         <SessionList 
           sessions={sessions}
           onStartNewScenario={onStartNewScenario}
-          onViewSessionDetails={handleViewSessionDetails}
+          onViewSessionDetails={onViewSessionDetails}
         />
       </div>
     </div>
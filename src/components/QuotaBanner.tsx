@@ -0,0 +1,32 @@
+import { memo } from 'react';
+import { Gauge } from 'lucide-react';
+import type { QuotaStatus } from '../types/api';
+import { describeQuota, isQuotaLow } from '../utils/quota';
+
+export interface QuotaBannerProps {
+  quota?: QuotaStatus | null;
+}
+
+/**
+ * Tells the user how much AI allowance is left, standing out once it runs
+ * low, and why they are being held back once a limit is hit
+ */
+const QuotaBanner = memo(function QuotaBanner({ quota }: QuotaBannerProps) {
+  if (!quota) return null;
+
+  const isExceeded = quota.exceeded !== null;
+  const emphasis = isExceeded ? ' quota-banner-exceeded' : isQuotaLow(quota) ? ' quota-banner-low' : '';
+
+  return (
+    <div
+      className={`quota-banner${emphasis}`}
+      role={isExceeded ? 'alert' : 'status'}
+      aria-live="polite"
+    >
+      <Gauge size={16} aria-hidden="true" />
+      <span>{describeQuota(quota)}</span>
+    </div>
+  );
+});
+
+export default QuotaBanner;
@@ -0,0 +1,65 @@
+import { memo, useState } from 'react';
+import { History } from 'lucide-react';
+import { SimulationSession } from '../types/models';
+
+export interface ResumeSessionPromptProps {
+  session: SimulationSession;
+  onResume: (session: SimulationSession) => void;
+  onAbandon: () => Promise<void>;
+}
+
+const ResumeSessionPrompt = memo(function ResumeSessionPrompt({
+  session,
+  onResume,
+  onAbandon
+}: ResumeSessionPromptProps) {
+  const [isAbandoning, setIsAbandoning] = useState(false);
+
+  const turnCount = session.turnCount || 0;
+  const turnLimit = session.scenario?.turnLimit;
+  const lastActive = (session.updatedAt || session.startedAt)?.toDate?.();
+
+  const handleAbandon = async () => {
+    setIsAbandoning(true);
+    try {
+      await onAbandon();
+    } catch (error) {
+      console.error('Error abandoning session:', error);
+      setIsAbandoning(false);
+    }
+  };
+
+  return (
+    <div className="resume-session-prompt" role="region" aria-labelledby="resume-session-title">
+      <History size={24} aria-hidden="true" />
+      <div className="resume-session-info">
+        <h3 id="resume-session-title">Pick up where you left off?</h3>
+        <p>
+          <strong>{session.scenario?.title || 'Unknown Scenario'}</strong>
+          {' · '}
+          {turnLimit ? `${turnCount} / ${turnLimit} turns` : `${turnCount} turns`}
+          {lastActive && ` · last active ${lastActive.toLocaleString()}`}
+        </p>
+      </div>
+      <div className="resume-session-actions">
+        <button
+          className="btn btn-primary btn-small"
+          onClick={() => onResume(session)}
+          disabled={isAbandoning}
+        >
+          Resume
+        </button>
+        <button
+          className="btn btn-ghost btn-small"
+          onClick={handleAbandon}
+          disabled={isAbandoning}
+          aria-label="Abandon this session without a score"
+        >
+          {isAbandoning ? 'Abandoning...' : 'Abandon'}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default ResumeSessionPrompt;
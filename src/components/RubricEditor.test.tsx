@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { renderWithProviders } from '../test/utils';
+import RubricEditor from './RubricEditor';
+
+describe('RubricEditor Component', () => {
+  const onSave = vi.fn();
+  const onCancel = vi.fn();
+
+  beforeEach(() => {
+    onSave.mockReset().mockResolvedValue(undefined);
+    onCancel.mockReset();
+  });
+
+  function fillCriterion(index: number, name: string, weight: string) {
+    fireEvent.change(screen.getByLabelText('Name *', { selector: `#criterion-name-${index}` }), {
+      target: { value: name },
+    });
+    fireEvent.change(screen.getByLabelText('Weight (%) *', { selector: `#criterion-weight-${index}` }), {
+      target: { value: weight },
+    });
+    fireEvent.change(screen.getByLabelText('What it measures *', { selector: `#criterion-description-${index}` }), {
+      target: { value: `${name} description` },
+    });
+    [1, 3, 5].forEach((level) => {
+      fireEvent.change(screen.getByLabelText(`Score ${level} looks like *`, {
+        selector: `#criterion-anchor-${index}-${level}`,
+      }), { target: { value: `${name} at ${level}` } });
+    });
+  }
+
+  it('blocks saving until the weights add up to 100%', async () => {
+    renderWithProviders(<RubricEditor onSave={onSave} onCancel={onCancel} />);
+
+    fireEvent.change(screen.getByLabelText('Rubric Name *'), { target: { value: 'Incident Postmortem' } });
+    fillCriterion(0, 'Timeline', '60');
+    fireEvent.click(screen.getByRole('button', { name: /Add Criterion/i }));
+    fillCriterion(1, 'Blamelessness', '30');
+
+    expect(screen.getByRole('status')).toHaveTextContent('Total weight: 90% of 100%');
+    fireEvent.click(screen.getByRole('button', { name: /Save Rubric/i }));
+
+    expect(await screen.findByText('Weights must add up to 100% (currently 90%).')).toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Weight (%) *', { selector: '#criterion-weight-1' }), {
+      target: { value: '40' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Save Rubric/i }));
+
+    await waitFor(() => expect(onSave).toHaveBeenCalledTimes(1));
+    const saved = onSave.mock.calls[0]![0];
+    expect(saved.name).toBe('Incident Postmortem');
+    expect(saved.criteria.map((c: { weight: number }) => c.weight)).toEqual([0.6, 0.4]);
+    expect(saved.criteria[1].anchors).toEqual({
+      1: 'Blamelessness at 1',
+      3: 'Blamelessness at 3',
+      5: 'Blamelessness at 5',
+    });
+  });
+
+  it('prefills an existing rubric and offers delete', () => {
+    const onDelete = vi.fn().mockResolvedValue(undefined);
+    renderWithProviders(
+      <RubricEditor
+        rubric={{
+          id: 'custom:abc',
+          name: 'Standup',
+          criteria: [{ name: 'Brevity', weight: 1, description: 'Short', anchors: { 1: 'a', 3: 'b', 5: 'c' } }],
+        }}
+        onSave={onSave}
+        onCancel={onCancel}
+        onDelete={onDelete}
+      />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Edit Rubric' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Rubric Name *')).toHaveValue('Standup');
+    fireEvent.click(screen.getByRole('button', { name: /Delete/i }));
+    expect(onDelete).toHaveBeenCalled();
+  });
+});
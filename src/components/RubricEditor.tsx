@@ -0,0 +1,250 @@
+import { memo, useState, FormEvent } from 'react';
+import { ClipboardList, Plus, Save, Trash2, X } from 'lucide-react';
+import type { Rubric } from '../types/models';
+import {
+  ANCHOR_LEVELS,
+  MAX_CRITERIA,
+  CriterionDraft,
+  RubricDraft,
+  createEmptyCriterion,
+  createEmptyRubricDraft,
+  draftToRubric,
+  rubricToDraft,
+  totalWeightPercent,
+  validateRubricDraft,
+} from '../utils/rubricDraft';
+
+export interface RubricEditorProps {
+  /** Rubric being edited; omit to create a new one */
+  rubric?: Rubric;
+  onSave: (rubric: Omit<Rubric, 'id'>) => Promise<void>;
+  onCancel: () => void;
+  onDelete?: () => Promise<void>;
+}
+
+const RubricEditor = memo(function RubricEditor({ rubric, onSave, onCancel, onDelete }: RubricEditorProps) {
+  const [draft, setDraft] = useState<RubricDraft>(() => (rubric ? rubricToDraft(rubric) : createEmptyRubricDraft()));
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const { valid, errors } = validateRubricDraft(draft);
+  const total = totalWeightPercent(draft);
+
+  const updateCriterion = (index: number, updates: Partial<CriterionDraft>) => {
+    setDraft(prev => ({
+      ...prev,
+      criteria: prev.criteria.map((criterion, i) => (i === index ? { ...criterion, ...updates } : criterion))
+    }));
+  };
+
+  const updateAnchor = (index: number, level: 1 | 3 | 5, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      criteria: prev.criteria.map((criterion, i) =>
+        i === index ? { ...criterion, anchors: { ...criterion.anchors, [level]: value } } : criterion
+      )
+    }));
+  };
+
+  const addCriterion = () => {
+    setDraft(prev => ({
+      ...prev,
+      criteria: [...prev.criteria, createEmptyCriterion(Math.max(0, 100 - totalWeightPercent(prev)))]
+    }));
+  };
+
+  const removeCriterion = (index: number) => {
+    setDraft(prev => ({ ...prev, criteria: prev.criteria.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setShowErrors(true);
+    if (!valid) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draftToRubric(draft));
+    } catch (error) {
+      console.error('Error saving rubric:', error);
+      setSaveError('The rubric could not be saved. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete) return;
+    setIsSaving(true);
+    try {
+      await onDelete();
+    } catch (error) {
+      console.error('Error deleting rubric:', error);
+      setSaveError('The rubric could not be deleted. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="scenario-modal-overlay rubric-editor-overlay" onClick={onCancel}>
+      <div
+        className="scenario-modal-content rubric-editor"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="rubric-editor-title"
+      >
+        <button className="scenario-modal-close" onClick={onCancel} aria-label="Close rubric editor">
+          <X size={24} />
+        </button>
+
+        <div className="scenario-modal-header">
+          <div className="scenario-modal-icon">
+            <ClipboardList size={32} />
+          </div>
+          <div>
+            <h2 id="rubric-editor-title">{rubric ? 'Edit Rubric' : 'Create Rubric'}</h2>
+            <p style={{ opacity: 0.8, fontSize: '0.9rem', marginTop: '0.25rem' }}>
+              Decide what a great conversation looks like and how much each part counts
+            </p>
+          </div>
+        </div>
+
+        <div className="scenario-modal-body">
+          <form onSubmit={handleSubmit} id="rubric-editor-form" noValidate>
+            <div className="form-group">
+              <label htmlFor="rubric-name">Rubric Name *</label>
+              <input
+                id="rubric-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="E.g., Incident Postmortem"
+                aria-invalid={showErrors && !!errors.name}
+              />
+              {showErrors && errors.name && <p className="field-error">{errors.name}</p>}
+            </div>
+
+            {draft.criteria.map((criterion, index) => {
+              const criterionErrors = showErrors ? errors.criteria[index] || {} : {};
+              return (
+                <div key={index} className="stakeholder-form-group rubric-criterion-form">
+                  <div className="stakeholder-form-header">
+                    <h4>Criterion {index + 1}</h4>
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-small"
+                      onClick={() => removeCriterion(index)}
+                      disabled={draft.criteria.length === 1}
+                      aria-label={`Remove criterion ${index + 1}`}
+                    >
+                      <X size={16} />
+                      Remove
+                    </button>
+                  </div>
+
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label htmlFor={`criterion-name-${index}`}>Name *</label>
+                      <input
+                        id={`criterion-name-${index}`}
+                        type="text"
+                        value={criterion.name}
+                        onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                        placeholder="E.g., Root Cause Analysis"
+                        aria-invalid={!!criterionErrors.name}
+                      />
+                      {criterionErrors.name && <p className="field-error">{criterionErrors.name}</p>}
+                    </div>
+                    <div className="form-group">
+                      <label htmlFor={`criterion-weight-${index}`}>Weight (%) *</label>
+                      <input
+                        id={`criterion-weight-${index}`}
+                        type="number"
+                        min="1"
+                        max="100"
+                        step="1"
+                        value={Number.isNaN(criterion.weightPercent) ? '' : criterion.weightPercent}
+                        onChange={(e) => updateCriterion(index, { weightPercent: parseInt(e.target.value) })}
+                        aria-invalid={!!criterionErrors.weight}
+                      />
+                      {criterionErrors.weight && <p className="field-error">{criterionErrors.weight}</p>}
+                    </div>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor={`criterion-description-${index}`}>What it measures *</label>
+                    <textarea
+                      id={`criterion-description-${index}`}
+                      value={criterion.description}
+                      onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                      placeholder="E.g., Separates contributing factors from the trigger"
+                      rows={2}
+                      aria-invalid={!!criterionErrors.description}
+                    />
+                    {criterionErrors.description && <p className="field-error">{criterionErrors.description}</p>}
+                  </div>
+
+                  <div className="rubric-anchor-inputs">
+                    {ANCHOR_LEVELS.map((level) => (
+                      <div key={level} className="form-group">
+                        <label htmlFor={`criterion-anchor-${index}-${level}`}>Score {level} looks like *</label>
+                        <input
+                          id={`criterion-anchor-${index}-${level}`}
+                          type="text"
+                          value={criterion.anchors[level]}
+                          onChange={(e) => updateAnchor(index, level, e.target.value)}
+                          aria-invalid={!!criterionErrors.anchors && !criterion.anchors[level].trim()}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {criterionErrors.anchors && <p className="field-error">{criterionErrors.anchors}</p>}
+                </div>
+              );
+            })}
+
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={addCriterion}
+              disabled={draft.criteria.length >= MAX_CRITERIA}
+            >
+              <Plus size={16} />
+              Add Criterion
+            </button>
+
+            <p
+              className={`rubric-weight-total ${total === 100 ? 'complete' : 'incomplete'}`}
+              role="status"
+              aria-live="polite"
+            >
+              Total weight: {total}% of 100%
+            </p>
+            {showErrors && errors.weights && <p className="field-error">{errors.weights}</p>}
+            {saveError && <p className="field-error" role="alert">{saveError}</p>}
+          </form>
+        </div>
+
+        <div className="scenario-modal-footer">
+          {rubric && onDelete && (
+            <button type="button" className="btn btn-ghost" onClick={handleDelete} disabled={isSaving}>
+              <Trash2 size={18} />
+              Delete
+            </button>
+          )}
+          <button type="button" className="btn btn-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" form="rubric-editor-form" className="btn btn-primary" disabled={isSaving}>
+            <Save size={18} />
+            {isSaving ? 'Saving...' : 'Save Rubric'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default RubricEditor;
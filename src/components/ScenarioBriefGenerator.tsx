@@ -0,0 +1,62 @@
+import { memo, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { FirebaseError } from 'firebase/app';
+import { handleApiError } from '../utils/errorHandling';
+
+interface ScenarioBriefGeneratorProps {
+  /** Generates a draft from the brief and loads it into the form */
+  onGenerate: (brief: string) => Promise<void>;
+}
+
+const MIN_BRIEF_LENGTH = 10;
+
+const ScenarioBriefGenerator = memo(function ScenarioBriefGenerator({ onGenerate }: ScenarioBriefGeneratorProps) {
+  const [brief, setBrief] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onGenerate(brief.trim());
+    } catch (err) {
+      console.error('Error generating scenario:', err);
+      // The server explains what is wrong with a brief in plain words
+      setError(err instanceof FirebaseError && err.code.endsWith('invalid-argument')
+        ? err.message
+        : handleApiError(err).userMessage);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="scenario-brief-generator">
+      <label htmlFor="scenario-brief">Describe it and let AI draft the form</label>
+      <textarea
+        id="scenario-brief"
+        value={brief}
+        onChange={(e) => setBrief(e.target.value)}
+        placeholder="E.g., Push back on a peer who keeps taking credit for my team's work in leadership meetings"
+        rows={3}
+        maxLength={2000}
+      />
+      <div className="scenario-brief-actions">
+        <button
+          type="button"
+          className="btn btn-secondary btn-small"
+          onClick={handleGenerate}
+          disabled={isGenerating || brief.trim().length < MIN_BRIEF_LENGTH}
+        >
+          <Sparkles size={16} />
+          {isGenerating ? 'Drafting...' : 'Draft scenario'}
+        </button>
+        <span className="scenario-brief-hint">Review and edit the draft before you start</span>
+      </div>
+      {error && <p className="field-error" role="alert">{error}</p>}
+    </div>
+  );
+});
+
+export default ScenarioBriefGenerator;
@@ -1,6 +1,9 @@
 import { memo, FormEvent } from 'react';
-import { Play, Plus, Target, TrendingUp, Users, X } from 'lucide-react';
-import { ScenarioTemplate, Stakeholder } from '../types/models';
+import { Download, Pencil, Play, Plus, Save, Target, TrendingUp, Users, X } from 'lucide-react';
+import { Rubric, ScenarioTemplate, Stakeholder } from '../types/models';
+import { BUILT_IN_RUBRICS, isCustomRubricId } from '../constants/rubrics';
+import type { ScenarioFileFormat } from '../utils/scenarioFile';
+import ScenarioBriefGenerator from './ScenarioBriefGenerator';
 
 interface ScenarioModalProps {
   selectedTemplate: ScenarioTemplate | null;
@@ -8,11 +11,23 @@ interface ScenarioModalProps {
   customScenario: ScenarioTemplate;
   onClose: () => void;
   onStartScenario: () => void;
+  /** Downloads the selected scenario as a scenario file */
+  onExportScenario?: (format: ScenarioFileFormat) => void;
   onCustomSubmit: (e: FormEvent<HTMLFormElement>) => void;
+  /** Saves the custom form without starting; omitted for guests */
+  onSaveCustom?: () => void;
+  /** True when the custom form is editing a saved scenario */
+  isEditingSaved?: boolean;
+  /** Fills the custom form from a free-text brief; omitted for guests */
+  onGenerateDraft?: (brief: string) => Promise<void>;
   onCustomScenarioChange: (updates: Partial<ScenarioTemplate>) => void;
   onAddStakeholder: () => void;
   onUpdateStakeholder: (index: number, field: keyof Stakeholder, value: string) => void;
   onRemoveStakeholder: (index: number) => void;
+  /** The user's own rubrics, offered alongside the built-in ones */
+  customRubrics?: Rubric[];
+  onCreateRubric?: () => void;
+  onEditRubric?: (rubricId: string) => void;
 }
 
 const ScenarioModal = memo(function ScenarioModal({
@@ -21,11 +36,18 @@ const ScenarioModal = memo(function ScenarioModal({
   customScenario,
   onClose,
   onStartScenario,
+  onExportScenario,
   onCustomSubmit,
+  onSaveCustom,
+  isEditingSaved = false,
+  onGenerateDraft,
   onCustomScenarioChange,
   onAddStakeholder,
   onUpdateStakeholder,
-  onRemoveStakeholder
+  onRemoveStakeholder,
+  customRubrics = [],
+  onCreateRubric,
+  onEditRubric
 }: ScenarioModalProps) {
   const getCategoryIcon = (category: string) => {
     switch (category) {
@@ -139,6 +161,18 @@ const ScenarioModal = memo(function ScenarioModal({
           </div>
 
           <div className="scenario-modal-footer">
+            {onExportScenario && (
+              <div className="scenario-export-actions">
+                <button className="btn btn-ghost btn-small" onClick={() => onExportScenario('yaml')}>
+                  <Download size={16} />
+                  Export YAML
+                </button>
+                <button className="btn btn-ghost btn-small" onClick={() => onExportScenario('json')}>
+                  <Download size={16} />
+                  Export JSON
+                </button>
+              </div>
+            )}
             <button className="btn btn-secondary" onClick={onClose}>
               Cancel
             </button>
@@ -166,14 +200,15 @@ const ScenarioModal = memo(function ScenarioModal({
               <Plus size={32} />
             </div>
             <div>
-              <h2>Create Custom Scenario</h2>
+              <h2>{isEditingSaved ? 'Edit Scenario' : 'Create Custom Scenario'}</h2>
               <p style={{ opacity: 0.8, fontSize: '0.9rem', marginTop: '0.25rem' }}>
-                Build your own workplace scenario
+                {isEditingSaved ? 'Changes are saved to your scenarios' : 'Build your own workplace scenario'}
               </p>
             </div>
           </div>
 
           <div className="scenario-modal-body">
+            {onGenerateDraft && <ScenarioBriefGenerator onGenerate={onGenerateDraft} />}
             <form onSubmit={onCustomSubmit} id="custom-scenario-form">
               <div className="form-group">
                 <label htmlFor="scenario-title">Scenario Title *</label>
@@ -215,7 +250,7 @@ const ScenarioModal = memo(function ScenarioModal({
                     id="scenario-turn-limit"
                     type="number"
                     min="5"
-                    max="20"
+                    max="50"
                     value={customScenario.turnLimit}
                     onChange={(e) => onCustomScenarioChange({ turnLimit: parseInt(e.target.value) })}
                   />
@@ -227,9 +262,37 @@ const ScenarioModal = memo(function ScenarioModal({
                     value={customScenario.rubricId}
                     onChange={(e) => onCustomScenarioChange({ rubricId: e.target.value })}
                   >
-                    <option value="persuasion_director">Persuasion</option>
-                    <option value="monthly_business_review">Business Review</option>
+                    <optgroup label="Built-in rubrics">
+                      {BUILT_IN_RUBRICS.map((rubric) => (
+                        <option key={rubric.id} value={rubric.id}>{rubric.name}</option>
+                      ))}
+                    </optgroup>
+                    {customRubrics.length > 0 && (
+                      <optgroup label="My rubrics">
+                        {customRubrics.map((rubric) => (
+                          <option key={rubric.id} value={rubric.id}>{rubric.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
                   </select>
+                  <div className="rubric-select-actions">
+                    {onCreateRubric && (
+                      <button type="button" className="btn btn-ghost btn-small" onClick={onCreateRubric}>
+                        <Plus size={16} />
+                        New rubric
+                      </button>
+                    )}
+                    {onEditRubric && isCustomRubricId(customScenario.rubricId) && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-small"
+                        onClick={() => onEditRubric(customScenario.rubricId)}
+                      >
+                        <Pencil size={16} />
+                        Edit rubric
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -328,6 +391,17 @@ const ScenarioModal = memo(function ScenarioModal({
             <button type="button" className="btn btn-secondary" onClick={onClose}>
               Cancel
             </button>
+            {onSaveCustom && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onSaveCustom}
+                disabled={!customScenario.title.trim() || customScenario.stakeholders.length === 0}
+              >
+                <Save size={18} />
+                Save Scenario
+              </button>
+            )}
             <button 
               type="submit" 
               form="custom-scenario-form" 
@@ -1,8 +1,26 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { Timestamp } from 'firebase/firestore';
 import userEvent from '@testing-library/user-event';
 import ScenarioSelect from './ScenarioSelect';
 import { SCENARIO_TEMPLATES } from '../constants/scenarios';
+import * as firestoreModule from '../firebase/firestore';
+import { exportScenario } from '../utils/scenarioFile';
+import { generateScenario } from '../utils/aiService';
+
+vi.mock('../utils/aiService', () => ({
+  generateScenario: vi.fn(),
+}));
+
+vi.mock('../firebase/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../firebase/firestore')>()),
+  getUserRubrics: vi.fn().mockResolvedValue([]),
+  getUserScenarios: vi.fn(),
+  createScenario: vi.fn(),
+  updateScenario: vi.fn(),
+  deleteScenario: vi.fn(),
+  getPracticePlan: vi.fn().mockResolvedValue(null),
+}));
 
 describe('ScenarioSelect', () => {
   const defaultProps = {
@@ -430,4 +448,218 @@ describe('ScenarioSelect', () => {
       });
     });
   });
+
+  describe('Saved Custom Scenarios', () => {
+    const savedScenario = {
+      ...SCENARIO_TEMPLATES[0]!,
+      id: 'saved-1',
+      title: 'Quarterly Budget Ask',
+      category: 'Custom',
+    };
+
+    beforeEach(() => {
+      vi.mocked(firestoreModule.getUserScenarios).mockResolvedValue([savedScenario]);
+      vi.mocked(firestoreModule.createScenario).mockResolvedValue('saved-2');
+      vi.mocked(firestoreModule.updateScenario).mockResolvedValue(undefined);
+      vi.mocked(firestoreModule.deleteScenario).mockResolvedValue(undefined);
+    });
+
+    test('lists saved scenarios next to the templates', async () => {
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      expect(await screen.findByText('Quarterly Budget Ask')).toBeInTheDocument();
+      expect(firestoreModule.getUserScenarios).toHaveBeenCalledWith('user-1');
+      expect(screen.getByText(SCENARIO_TEMPLATES[0]!.title)).toBeInTheDocument();
+    });
+
+    test('edits a saved scenario in place', async () => {
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Edit Quarterly Budget Ask' }));
+      expect(screen.getByText('Edit Scenario')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText(/Scenario Title/i), { target: { value: 'Annual Budget Ask' } });
+      fireEvent.click(screen.getByRole('button', { name: /Save Scenario/i }));
+
+      await waitFor(() => {
+        expect(firestoreModule.updateScenario).toHaveBeenCalledWith(
+          'saved-1',
+          expect.objectContaining({ title: 'Annual Budget Ask' })
+        );
+      });
+      expect(await screen.findByText('Annual Budget Ask')).toBeInTheDocument();
+      expect(firestoreModule.createScenario).not.toHaveBeenCalled();
+    });
+
+    test('duplicates a saved scenario as a new copy', async () => {
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Duplicate Quarterly Budget Ask' }));
+
+      await waitFor(() => {
+        expect(firestoreModule.createScenario).toHaveBeenCalledWith(
+          'user-1',
+          expect.objectContaining({ title: 'Quarterly Budget Ask (copy)' })
+        );
+      });
+      expect(await screen.findByText('Quarterly Budget Ask (copy)')).toBeInTheDocument();
+    });
+
+    test('deletes a saved scenario after confirmation', async () => {
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Delete Quarterly Budget Ask' }));
+
+      await waitFor(() => {
+        expect(screen.queryByText('Quarterly Budget Ask')).not.toBeInTheDocument();
+      });
+      expect(firestoreModule.deleteScenario).toHaveBeenCalledWith('saved-1');
+      confirmSpy.mockRestore();
+    });
+  });
+
+  describe('Scenario Import', () => {
+    beforeEach(() => {
+      vi.mocked(firestoreModule.getUserScenarios).mockResolvedValue([]);
+      vi.mocked(firestoreModule.createScenario).mockResolvedValue('imported-1');
+    });
+
+    test('lists every invalid field and imports nothing', async () => {
+      const user = userEvent.setup();
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      const file = new File(
+        ['format: skillloops-scenario\nversion: 1\nscenario:\n  title: Pitch\n'],
+        'pitch.scenario.yaml',
+        { type: 'application/yaml' }
+      );
+      await user.upload(screen.getByLabelText(/Import scenarios/i), file);
+
+      const alert = await screen.findByRole('alert');
+      expect(alert).toHaveTextContent('Nothing was imported');
+      expect(alert).toHaveTextContent('scenario.category: Required text is missing.');
+      expect(alert).toHaveTextContent('scenario.stakeholders: Add at least one person to interact with.');
+      expect(firestoreModule.createScenario).not.toHaveBeenCalled();
+    });
+
+    test('saves a valid scenario file to my scenarios', async () => {
+      const user = userEvent.setup();
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      const template = { ...SCENARIO_TEMPLATES[0]!, title: 'Imported Pitch' };
+      const file = new File([exportScenario(template, 'json')], 'pitch.scenario.json', { type: 'application/json' });
+      await user.upload(screen.getByLabelText(/Import scenarios/i), file);
+
+      expect(await screen.findByText('Imported 1 scenario from pitch.scenario.json.')).toBeInTheDocument();
+      expect(firestoreModule.createScenario).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ title: 'Imported Pitch', rubricId: template.rubricId })
+      );
+      expect(screen.getByText('Imported Pitch')).toBeInTheDocument();
+    });
+  });
+
+  describe('AI Scenario Draft', () => {
+    beforeEach(() => {
+      vi.mocked(firestoreModule.getUserScenarios).mockResolvedValue([]);
+    });
+
+    test('fills the custom form from a brief', async () => {
+      const draft = { ...SCENARIO_TEMPLATES[1]!, id: 'custom', title: 'Credit Where It Is Due' };
+      vi.mocked(generateScenario).mockResolvedValue(draft);
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      fireEvent.click(screen.getByText('Create Custom'));
+      fireEvent.change(screen.getByLabelText(/let AI draft the form/i), {
+        target: { value: 'A peer keeps taking credit for my work' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: /Draft scenario/i }));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/Scenario Title/i)).toHaveValue('Credit Where It Is Due');
+      });
+      expect(generateScenario).toHaveBeenCalledWith('A peer keeps taking credit for my work', 'persuasion_director');
+      expect(screen.getByDisplayValue(draft.stakeholders[0]!.name)).toBeInTheDocument();
+    });
+
+    test('is not offered to guests', () => {
+      render(<ScenarioSelect {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Create Custom'));
+
+      expect(screen.queryByLabelText(/let AI draft the form/i)).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Today's Practice", () => {
+    const scenario = SCENARIO_TEMPLATES[0]!;
+    const dueItem = (criterion: string, extra: object) => ({
+      criterion,
+      score: 2,
+      ease: 2.5,
+      repetitions: 0,
+      intervalDays: 1,
+      streak: 0,
+      dueAt: new Date(Date.now() - 60_000).toISOString(),
+      practisedAt: new Date(Date.now() - 86_400_000).toISOString(),
+      ...extra,
+    });
+
+    beforeEach(() => {
+      vi.mocked(firestoreModule.getUserScenarios).mockResolvedValue([]);
+      vi.mocked(firestoreModule.getPracticePlan).mockResolvedValue({
+        userId: 'user-1',
+        updatedAt: Timestamp.now(),
+        items: [
+          dueItem('Clarity', {
+            activity: 'drill',
+            drill: { evaluationId: 'eval-1', drillIndex: 0, title: 'Lead with the ask' },
+            scenario,
+            tip: 'State your request first',
+          }),
+          dueItem('Empathy', { activity: 'rerun', scenario }),
+        ],
+      });
+    });
+
+    test('offers the drill or re-run due for each weak criterion', async () => {
+      const user = userEvent.setup();
+      const onStartDrill = vi.fn().mockResolvedValue(undefined);
+      const onSelectScenario = vi.fn();
+      render(
+        <ScenarioSelect
+          {...defaultProps}
+          onSelectScenario={onSelectScenario}
+          onStartDrill={onStartDrill}
+          userId="user-1"
+        />
+      );
+
+      expect(await screen.findByText("Today's practice")).toBeInTheDocument();
+      expect(firestoreModule.getPracticePlan).toHaveBeenCalledWith('user-1');
+      expect(screen.getByText('State your request first')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Start drill: Lead with the ask' }));
+      expect(onStartDrill).toHaveBeenCalledWith('eval-1', 0);
+
+      await user.click(screen.getByRole('button', { name: `Re-run ${scenario.title}` }));
+      expect(onSelectScenario).toHaveBeenCalledWith(scenario);
+    });
+
+    test('shows when practice is next due once today is done', async () => {
+      const tomorrow = new Date(Date.now() + 2 * 86_400_000);
+      vi.mocked(firestoreModule.getPracticePlan).mockResolvedValue({
+        userId: 'user-1',
+        updatedAt: Timestamp.now(),
+        items: [dueItem('Clarity', { activity: 'rerun', scenario, dueAt: tomorrow.toISOString() })],
+      });
+
+      render(<ScenarioSelect {...defaultProps} userId="user-1" />);
+
+      expect(await screen.findByText(/Nothing due today/)).toHaveTextContent(
+        tomorrow.toLocaleDateString()
+      );
+    });
+  });
 });
@@ -1,14 +1,54 @@
-import { useState, memo, useCallback, FormEvent } from 'react';
+import { useState, memo, useCallback, ChangeEvent, FormEvent } from 'react';
+import { Copy, Download, Pencil, Trash2, Upload } from 'lucide-react';
 import { SCENARIO_TEMPLATES } from '../constants/scenarios.ts';
-import { ScenarioTemplate, Stakeholder } from '../types/models';
+import { BUILT_IN_RUBRICS, isCustomRubricId } from '../constants/rubrics';
+import { Rubric, ScenarioTemplate, Stakeholder } from '../types/models';
 import { ScenarioSelectProps } from '../types/props';
+import { useCustomRubrics } from '../hooks/useCustomRubrics';
+import { useCustomScenarios } from '../hooks/useCustomScenarios';
+import { usePracticePlan } from '../hooks/usePracticePlan';
+import { generateScenario } from '../utils/aiService';
 import ScenarioCard from './ScenarioCard';
 import ScenarioModal from './ScenarioModal';
+import RubricEditor from './RubricEditor';
+import TodaysPractice from './TodaysPractice';
+import {
+  ScenarioFieldError,
+  ScenarioFileFormat,
+  exportScenario,
+  exportScenarioPack,
+  parseScenarioFile,
+  scenarioFileName,
+} from '../utils/scenarioFile';
+
+// Rubric used by a new custom scenario, and by one whose rubric is deleted
+const DEFAULT_RUBRIC_ID = 'persuasion_director';
+
+function downloadTextFile(fileName: string, text: string, format: ScenarioFileFormat) {
+  const blob = new Blob([text], { type: format === 'json' ? 'application/json' : 'application/yaml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
 
 const ScenarioSelect = memo(function ScenarioSelect({ 
   onSelectScenario, 
   isGuest, 
-  onAuthRequired 
+  onAuthRequired,
+  userId,
+  onStartDrill
 }: ScenarioSelectProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<ScenarioTemplate | null>(null);
   const [showCustomForm, setShowCustomForm] = useState(false);
@@ -17,7 +57,7 @@ const ScenarioSelect = memo(function ScenarioSelect({
     title: '',
     category: 'Custom',
     difficulty: 'Medium',
-    rubricId: 'persuasion_director',
+    rubricId: DEFAULT_RUBRIC_ID,
     description: '',
     situation: '',
     objective: '',
@@ -25,6 +65,22 @@ const ScenarioSelect = memo(function ScenarioSelect({
     stakeholders: [],
     constraints: []
   });
+  // Id of the saved scenario open in the custom form, null for a new one
+  const [editingScenarioId, setEditingScenarioId] = useState<string | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<ScenarioFieldError[]>([]);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  // 'new' while creating a rubric, or the id of the custom rubric being edited
+  const [editingRubricId, setEditingRubricId] = useState<string | null>(null);
+  const { rubrics: customRubrics, saveRubric, deleteRubric } = useCustomRubrics(userId);
+  const {
+    scenarios: savedScenarios,
+    error: savedScenariosError,
+    saveScenario,
+    duplicateScenario,
+    deleteScenario
+  } = useCustomScenarios(userId);
+  const practiceItems = usePracticePlan(userId);
 
   const handleTemplateSelect = useCallback((template: ScenarioTemplate) => {
     setSelectedTemplate(template);
@@ -50,12 +106,13 @@ const ScenarioSelect = memo(function ScenarioSelect({
     
     setShowCustomForm(true);
     setSelectedTemplate(null);
+    setEditingScenarioId(null);
     setCustomScenario({
       id: 'custom',
       title: '',
       category: 'Custom',
       difficulty: 'Medium',
-      rubricId: 'persuasion_director',
+      rubricId: DEFAULT_RUBRIC_ID,
       description: '',
       situation: '',
       objective: '',
@@ -101,21 +158,164 @@ const ScenarioSelect = memo(function ScenarioSelect({
     }));
   }, []);
 
-  const handleCustomSubmit = useCallback((e: FormEvent<HTMLFormElement>) => {
+  // Saves the form for signed-in users; guests cannot reach the form
+  const saveCustomScenario = useCallback(async (): Promise<ScenarioTemplate> => {
+    if (!userId) return customScenario;
+    const saved = await saveScenario(customScenario, editingScenarioId ?? undefined);
+    setEditingScenarioId(saved.id);
+    return saved;
+  }, [userId, customScenario, editingScenarioId, saveScenario]);
+
+  const handleCustomSubmit = useCallback(async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     
     if (customScenario.stakeholders.length === 0) {
       alert('Please add at least one person to interact with');
       return;
     }
+
+    // A failed save should not stop the learner from practising
+    let scenario = customScenario;
+    try {
+      scenario = await saveCustomScenario();
+    } catch (error) {
+      console.error('Error saving custom scenario:', error);
+    }
     
-    onSelectScenario(customScenario);
-  }, [customScenario, onSelectScenario]);
+    onSelectScenario(scenario);
+  }, [customScenario, saveCustomScenario, onSelectScenario]);
+
+  const handleSaveCustom = useCallback(async () => {
+    try {
+      await saveCustomScenario();
+      setScenarioError(null);
+      setShowCustomForm(false);
+    } catch (error) {
+      console.error('Error saving custom scenario:', error);
+      setScenarioError('Your scenario could not be saved. Please try again.');
+    }
+  }, [saveCustomScenario]);
+
+  // Errors reach ScenarioBriefGenerator, which shows them next to the brief
+  const handleGenerateDraft = useCallback(async (brief: string) => {
+    const draft: ScenarioTemplate = await generateScenario(brief, customScenario.rubricId);
+    setCustomScenario(prev => ({ ...draft, id: prev.id, rubricId: prev.rubricId }));
+  }, [customScenario.rubricId]);
+
+  const handleEditScenario = useCallback((scenario: ScenarioTemplate) => {
+    setCustomScenario(scenario);
+    setEditingScenarioId(scenario.id);
+    setSelectedTemplate(null);
+    setShowCustomForm(true);
+  }, []);
+
+  const handleDuplicateScenario = useCallback(async (scenario: ScenarioTemplate) => {
+    try {
+      await duplicateScenario(scenario);
+      setScenarioError(null);
+    } catch (error) {
+      console.error('Error duplicating custom scenario:', error);
+      setScenarioError(`"${scenario.title}" could not be duplicated. Please try again.`);
+    }
+  }, [duplicateScenario]);
+
+  const handleDeleteScenario = useCallback(async (scenario: ScenarioTemplate) => {
+    if (!window.confirm(`Delete "${scenario.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteScenario(scenario.id);
+      setScenarioError(null);
+    } catch (error) {
+      console.error('Error deleting custom scenario:', error);
+      setScenarioError(`"${scenario.title}" could not be deleted. Please try again.`);
+    }
+  }, [deleteScenario]);
 
   const handleCustomScenarioChange = useCallback((updates: Partial<ScenarioTemplate>) => {
     setCustomScenario(prev => ({ ...prev, ...updates }));
   }, []);
 
+  // Custom rubrics only resolve for their owner, so they travel with the scenario
+  const findCustomRubric = useCallback((scenario: ScenarioTemplate) => (
+    isCustomRubricId(scenario.rubricId)
+      ? customRubrics.find(rubric => rubric.id === scenario.rubricId)
+      : undefined
+  ), [customRubrics]);
+
+  const handleExportScenario = useCallback((format: ScenarioFileFormat) => {
+    if (!selectedTemplate) return;
+    downloadTextFile(
+      scenarioFileName(selectedTemplate.title, format),
+      exportScenario(selectedTemplate, format, findCustomRubric(selectedTemplate)),
+      format
+    );
+  }, [selectedTemplate, findCustomRubric]);
+
+  const handleExportAll = useCallback(() => {
+    const items = savedScenarios.map(scenario => ({ scenario, rubric: findCustomRubric(scenario) }));
+    downloadTextFile('my-scenarios.pack.yaml', exportScenarioPack('My scenarios', items, 'yaml'), 'yaml');
+  }, [savedScenarios, findCustomRubric]);
+
+  const handleImportClick = useCallback((e: { preventDefault: () => void }) => {
+    if (isGuest && onAuthRequired) {
+      e.preventDefault();
+      onAuthRequired('To import scenarios, you need to have an account');
+    }
+  }, [isGuest, onAuthRequired]);
+
+  const handleImportFile = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportStatus(null);
+    let text: string;
+    try {
+      text = await readFileText(file);
+    } catch (error) {
+      console.error('Error reading scenario file:', error);
+      setImportErrors([{ path: 'file', message: `${file.name} could not be read.` }]);
+      return;
+    }
+
+    const { entries, errors } = parseScenarioFile(text, {
+      knownRubricIds: [...BUILT_IN_RUBRICS, ...customRubrics].map(rubric => rubric.id),
+    });
+    setImportErrors(errors);
+    if (errors.length > 0) return;
+
+    try {
+      for (const entry of entries) {
+        const rubricId = entry.rubric ? (await saveRubric(entry.rubric)).id : entry.scenario.rubricId;
+        await saveScenario({ ...entry.scenario, id: '', rubricId });
+      }
+      setImportStatus(`Imported ${entries.length} scenario${entries.length === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (error) {
+      console.error('Error importing scenarios:', error);
+      setImportStatus(`The import from ${file.name} stopped partway. Check My scenarios before trying again.`);
+    }
+  }, [customRubrics, saveRubric, saveScenario]);
+
+  const handleCreateRubric = useCallback(() => setEditingRubricId('new'), []);
+  const handleEditRubric = useCallback((rubricId: string) => setEditingRubricId(rubricId), []);
+  const handleCloseRubricEditor = useCallback(() => setEditingRubricId(null), []);
+
+  const handleSaveRubric = useCallback(async (rubric: Omit<Rubric, 'id'>) => {
+    const saved = await saveRubric(rubric, editingRubricId === 'new' ? undefined : editingRubricId ?? undefined);
+    setCustomScenario(prev => ({ ...prev, rubricId: saved.id }));
+    setEditingRubricId(null);
+  }, [editingRubricId, saveRubric]);
+
+  const handleDeleteRubric = useCallback(async () => {
+    if (!editingRubricId || editingRubricId === 'new') return;
+    await deleteRubric(editingRubricId);
+    setCustomScenario(prev => (
+      prev.rubricId === editingRubricId ? { ...prev, rubricId: DEFAULT_RUBRIC_ID } : prev
+    ));
+    setEditingRubricId(null);
+  }, [editingRubricId, deleteRubric]);
+
+  const editingRubric = customRubrics.find(rubric => rubric.id === editingRubricId);
+
   return (
     <div className="scenario-select">
       {/* Hero Section */}
@@ -142,11 +342,52 @@ const ScenarioSelect = memo(function ScenarioSelect({
         </div>
       </div>
 
+      <TodaysPractice
+        items={practiceItems}
+        onSelectScenario={onSelectScenario}
+        onStartDrill={onStartDrill}
+      />
+
       <div className="scenario-header">
         <h1>Ready to Practice?</h1>
         <p>Pick a scenario below to start your simulation, or build your own custom challenge</p>
+        <div className="scenario-file-actions">
+          <label className="btn btn-ghost btn-small" onClick={handleImportClick}>
+            <Upload size={16} />
+            Import scenarios
+            <input
+              type="file"
+              accept=".json,.yaml,.yml"
+              aria-label="Import scenarios from a JSON or YAML file"
+              onChange={handleImportFile}
+              className="visually-hidden"
+            />
+          </label>
+          {savedScenarios.length > 0 && (
+            <button type="button" className="btn btn-ghost btn-small" onClick={handleExportAll}>
+              <Download size={16} />
+              Export my scenarios
+            </button>
+          )}
+        </div>
       </div>
 
+      {importErrors.length > 0 && (
+        <div className="scenario-import-errors" role="alert">
+          <p>Nothing was imported. Fix these fields and try again:</p>
+          <ul>
+            {importErrors.map((error, index) => (
+              <li key={index}><code>{error.path}</code>: {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {importStatus && <p className="scenario-import-status" role="status">{importStatus}</p>}
+
+      {(scenarioError || savedScenariosError) && (
+        <p className="field-error" role="alert">{scenarioError || savedScenariosError}</p>
+      )}
+
       <div className="scenario-templates">
         {SCENARIO_TEMPLATES.map((template: ScenarioTemplate) => (
           <ScenarioCard
@@ -156,6 +397,44 @@ const ScenarioSelect = memo(function ScenarioSelect({
           />
         ))}
 
+        {savedScenarios.map((scenario) => (
+          <div key={scenario.id} className="custom-scenario-item">
+            <ScenarioCard
+              template={scenario}
+              onClick={() => handleTemplateSelect(scenario)}
+            />
+            <div className="custom-scenario-actions">
+              <button
+                type="button"
+                className="btn btn-ghost btn-small"
+                onClick={() => handleEditScenario(scenario)}
+                aria-label={`Edit ${scenario.title}`}
+              >
+                <Pencil size={14} />
+                Edit
+              </button>
+              <button
+                type="button"
+                className="btn btn-ghost btn-small"
+                onClick={() => handleDuplicateScenario(scenario)}
+                aria-label={`Duplicate ${scenario.title}`}
+              >
+                <Copy size={14} />
+                Duplicate
+              </button>
+              <button
+                type="button"
+                className="btn btn-ghost btn-small"
+                onClick={() => handleDeleteScenario(scenario)}
+                aria-label={`Delete ${scenario.title}`}
+              >
+                <Trash2 size={14} />
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+
         <ScenarioCard
           isCustomCard
           onClick={handleCreateCustom}
@@ -168,12 +447,28 @@ const ScenarioSelect = memo(function ScenarioSelect({
         customScenario={customScenario}
         onClose={handleCloseModal}
         onStartScenario={handleStartScenario}
+        onExportScenario={handleExportScenario}
         onCustomSubmit={handleCustomSubmit}
+        onSaveCustom={userId ? handleSaveCustom : undefined}
+        isEditingSaved={editingScenarioId !== null}
+        onGenerateDraft={userId ? handleGenerateDraft : undefined}
         onCustomScenarioChange={handleCustomScenarioChange}
         onAddStakeholder={addStakeholder}
         onUpdateStakeholder={updateStakeholder}
         onRemoveStakeholder={removeStakeholder}
+        customRubrics={customRubrics}
+        onCreateRubric={userId ? handleCreateRubric : undefined}
+        onEditRubric={userId ? handleEditRubric : undefined}
       />
+
+      {editingRubricId && (
+        <RubricEditor
+          rubric={editingRubric}
+          onSave={handleSaveRubric}
+          onCancel={handleCloseRubricEditor}
+          onDelete={editingRubric ? handleDeleteRubric : undefined}
+        />
+      )}
     </div>
   );
 });
@@ -29,7 +29,7 @@ const SessionCard = memo(function SessionCard({ session, onViewDetails }: Sessio
           {session.startedAt?.toDate?.()?.toLocaleDateString() || 'Unknown date'}
         </p>
       </div>
-      {session.evaluation ? (
+      {session.evaluation && session.evaluation.overall_score !== null ? (
         <div className="session-score">
           <span
             className="score-badge-large"
@@ -39,10 +39,14 @@ const SessionCard = memo(function SessionCard({ session, onViewDetails }: Sessio
           </span>
         </div>
       ) : (
-        <span className="incomplete-badge">Incomplete</span>
+        <span className="incomplete-badge">{session.evaluation ? 'Unscored' : 'Incomplete'}</span>
       )}
-      <button className="btn btn-ghost btn-small" onClick={handleClick}>
-        <ArrowRight size={16} />
+      <button
+        className="btn btn-ghost btn-small"
+        onClick={handleClick}
+        aria-label={`View details for ${session.scenario?.title || 'this session'}`}
+      >
+        <ArrowRight size={16} aria-hidden="true" />
       </button>
     </div>
   );
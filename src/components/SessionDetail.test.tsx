@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import { renderWithProviders, createMockScenario } from '../test/utils';
+import SessionDetail from './SessionDetail';
+import * as firestoreModule from '../firebase/firestore';
+
+vi.mock('../firebase/firestore', () => ({
+  getSession: vi.fn(),
+  getSessionEvaluation: vi.fn(),
+}));
+
+describe('SessionDetail Component', () => {
+  const mockGetSession = vi.mocked(firestoreModule.getSession);
+  const mockGetSessionEvaluation = vi.mocked(firestoreModule.getSessionEvaluation);
+  const onBack = vi.fn();
+
+  const session = {
+    id: 'session-1',
+    userId: 'user-1',
+    scenario: createMockScenario({ title: 'Budget Pitch' }),
+    transcript: [
+      { type: 'ai', content: 'What do you need?', timestamp: '2024-01-15T10:00:00.000Z', stakeholder: 'Alex Chen' },
+      { type: 'user', content: 'Two engineers for one quarter.', timestamp: '2024-01-15T10:01:00.000Z' },
+      { type: 'ai', content: 'What is the risk?', timestamp: '2024-01-15T10:02:00.000Z', stakeholder: 'Alex Chen' },
+      { type: 'user', content: 'We can phase the rollout to keep risk small.', timestamp: '2024-01-15T10:03:00.000Z' },
+    ],
+    turnCount: 2,
+    startedAt: { toDate: () => new Date('2024-01-15') },
+    state: 'EVALUATED',
+  };
+
+  const evaluation = {
+    id: 'eval-1',
+    sessionId: 'session-1',
+    overall_score: 78,
+    criterion_scores: [
+      { criterion: 'Risk Mitigation', weight: 1, score: 4, evidence: ['"phase the rollout"'] },
+    ],
+    moments_that_mattered: [{ turn: 2, description: 'Clear ask', why: 'Named the cost early' }],
+    missed_opportunities: [],
+    drills: [],
+    reflection_prompt: '',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the session and its evaluation', async () => {
+    mockGetSession.mockResolvedValue(session);
+    mockGetSessionEvaluation.mockResolvedValue(evaluation);
+
+    renderWithProviders(<SessionDetail sessionId="session-1" userId="user-1" onBack={onBack} />);
+
+    expect(await screen.findByText('Budget Pitch')).toBeInTheDocument();
+    expect(mockGetSession).toHaveBeenCalledWith('session-1');
+    expect(mockGetSessionEvaluation).toHaveBeenCalledWith('session-1', 'user-1');
+    expect(screen.getByText('78')).toBeInTheDocument();
+  });
+
+  it('pins moments and evidence to the turns they refer to', async () => {
+    mockGetSession.mockResolvedValue(session);
+    mockGetSessionEvaluation.mockResolvedValue(evaluation);
+
+    renderWithProviders(<SessionDetail sessionId="session-1" userId="user-1" onBack={onBack} />);
+
+    const turnTwo = await screen.findByRole('article', { name: 'Turn 2' });
+    expect(turnTwo).toHaveTextContent('Clear ask');
+
+    const turnFour = screen.getByRole('article', { name: 'Turn 4' });
+    expect(turnFour).toHaveTextContent('Risk Mitigation');
+    expect(turnFour).toHaveClass('has-pins');
+  });
+
+  it('steps through the transcript turn by turn', async () => {
+    mockGetSession.mockResolvedValue(session);
+    mockGetSessionEvaluation.mockResolvedValue(null);
+
+    renderWithProviders(<SessionDetail sessionId="session-1" userId="user-1" onBack={onBack} />);
+
+    await screen.findByText('Turn 4 of 4');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Previous turn' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Previous turn' }));
+
+    expect(screen.getByText('Turn 2 of 4')).toBeInTheDocument();
+    expect(screen.queryByRole('article', { name: 'Turn 3' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next turn' }));
+    expect(screen.getByRole('article', { name: 'Turn 3' })).toBeInTheDocument();
+    expect(screen.getByText('Not evaluated')).toBeInTheDocument();
+  });
+
+  it('shows an error with retry when the session is missing', async () => {
+    mockGetSession.mockResolvedValue(null);
+    mockGetSessionEvaluation.mockResolvedValue(null);
+
+    renderWithProviders(<SessionDetail sessionId="missing" userId="user-1" onBack={onBack} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('This session could not be found.')).toBeInTheDocument();
+    });
+  });
+});
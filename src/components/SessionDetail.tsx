@@ -0,0 +1,284 @@
+import { memo, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ArrowLeft, Award, ChevronLeft, ChevronRight, Pause, Play, Quote } from 'lucide-react';
+import { getSession, getSessionEvaluation } from '../firebase/firestore';
+import { anchorEvaluation, TurnAnchor } from '../utils/transcriptAnchors';
+import { ErrorMessage } from './ErrorMessage';
+import { MESSAGE_TYPES } from '../constants/states';
+import type { Evaluation, SimulationSession } from '../types/models';
+
+// Delay between turns while the replay is playing
+const REPLAY_INTERVAL_MS = 1500;
+
+export interface SessionDetailProps {
+  sessionId: string;
+  userId: string | undefined;
+  onBack: () => void;
+}
+
+const TurnPins = memo(function TurnPins({ anchor }: { anchor: TurnAnchor }) {
+  return (
+    <div className="turn-pins">
+      {anchor.moments.map((moment, idx) => (
+        <div key={`moment-${idx}`} className="turn-pin moment-pin">
+          <Award size={14} aria-hidden="true" />
+          <div>
+            <strong>{moment.description}</strong>
+            <p>{moment.why}</p>
+          </div>
+        </div>
+      ))}
+      {anchor.evidence.map((evidence, idx) => (
+        <div key={`evidence-${idx}`} className="turn-pin evidence-pin">
+          <Quote size={14} aria-hidden="true" />
+          <div>
+            <span className="evidence-criterion">{evidence.criterion}</span>
+            <p>{evidence.quote}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+const SessionDetail = memo(function SessionDetail({ sessionId, userId, onBack }: SessionDetailProps) {
+  const [session, setSession] = useState<SimulationSession | null>(null);
+  const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const turnRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  const loadSession = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [sessionData, evaluationData] = await Promise.all([
+        getSession(sessionId),
+        getSessionEvaluation(sessionId, userId),
+      ]);
+      if (!sessionData) {
+        setError('This session could not be found.');
+      } else {
+        setSession(sessionData);
+        setEvaluation(evaluationData);
+        setVisibleCount(sessionData.transcript?.length || 0);
+      }
+    } catch (err) {
+      console.error('Error loading session details:', err);
+      setError('Unable to load this session. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, userId]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const transcript = session?.transcript || [];
+  const totalTurns = transcript.length;
+
+  const anchors = useMemo(
+    () => anchorEvaluation(transcript, evaluation?.moments_that_mattered, evaluation?.criterion_scores),
+    [transcript, evaluation]
+  );
+
+  // Advance one turn at a time while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (visibleCount >= totalTurns) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setVisibleCount((count) => count + 1), REPLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, visibleCount, totalTurns]);
+
+  useEffect(() => {
+    if (focusedIndex === null) return;
+    const element = turnRefs.current.get(focusedIndex);
+    if (element && typeof element.scrollIntoView === 'function') {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [focusedIndex, visibleCount]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && visibleCount >= totalTurns) {
+      setVisibleCount(1);
+    }
+    setFocusedIndex(null);
+    setIsPlaying((playing) => !playing);
+  };
+
+  const handleStep = (delta: number) => {
+    setIsPlaying(false);
+    setFocusedIndex(null);
+    setVisibleCount((count) => Math.min(Math.max(count + delta, 1), totalTurns));
+  };
+
+  const handleJumpToTurn = (index: number) => {
+    setIsPlaying(false);
+    setVisibleCount((count) => Math.max(count, index + 1));
+    setFocusedIndex(index);
+  };
+
+  if (loading) {
+    return (
+      <div className="progress-loading">
+        <div className="spinner"></div>
+        <p>Loading session...</p>
+      </div>
+    );
+  }
+
+  if (error || !session) {
+    return (
+      <div className="session-detail">
+        <button className="btn btn-ghost btn-small" onClick={onBack}>
+          <ArrowLeft size={16} aria-hidden="true" />
+          Back to progress
+        </button>
+        <ErrorMessage message={error || 'This session could not be found.'} onRetry={loadSession} />
+      </div>
+    );
+  }
+
+  const pinnedIndexes = Array.from(anchors.byIndex.keys()).sort((a, b) => a - b);
+  const hasUnanchored = anchors.unanchored.moments.length > 0 || anchors.unanchored.evidence.length > 0;
+
+  return (
+    <div className="session-detail">
+      <div className="session-detail-header">
+        <button className="btn btn-ghost btn-small" onClick={onBack}>
+          <ArrowLeft size={16} aria-hidden="true" />
+          Back to progress
+        </button>
+        <div>
+          <h1>{session.scenario?.title || 'Unknown Scenario'}</h1>
+          <p className="session-date">
+            {session.startedAt?.toDate?.()?.toLocaleDateString() || 'Unknown date'}
+          </p>
+        </div>
+        {evaluation && evaluation.overall_score !== null ? (
+          <span className="score-badge-large" aria-label={`Overall score ${evaluation.overall_score}`}>
+            {evaluation.overall_score}
+          </span>
+        ) : (
+          <span className="incomplete-badge">{evaluation ? 'Unscored' : 'Not evaluated'}</span>
+        )}
+      </div>
+
+      <div className="session-detail-body">
+        <div className="replay-panel">
+          <div className="replay-controls" role="toolbar" aria-label="Replay controls">
+            <button
+              className="btn btn-ghost btn-small"
+              onClick={() => handleStep(-1)}
+              disabled={visibleCount <= 1}
+              aria-label="Previous turn"
+            >
+              <ChevronLeft size={16} aria-hidden="true" />
+            </button>
+            <button
+              className="btn btn-secondary btn-small"
+              onClick={handlePlayPause}
+              disabled={totalTurns === 0}
+              aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+            >
+              {isPlaying ? <Pause size={16} aria-hidden="true" /> : <Play size={16} aria-hidden="true" />}
+            </button>
+            <button
+              className="btn btn-ghost btn-small"
+              onClick={() => handleStep(1)}
+              disabled={visibleCount >= totalTurns}
+              aria-label="Next turn"
+            >
+              <ChevronRight size={16} aria-hidden="true" />
+            </button>
+            <span className="replay-position" role="status" aria-live="polite">
+              Turn {visibleCount} of {totalTurns}
+            </span>
+            <button
+              className="btn btn-ghost btn-small"
+              onClick={() => {
+                setIsPlaying(false);
+                setVisibleCount(totalTurns);
+              }}
+              disabled={visibleCount >= totalTurns}
+            >
+              Show all
+            </button>
+          </div>
+
+          <div className="replay-transcript" role="log" aria-label="Session transcript">
+            {transcript.length === 0 && <p className="section-description">This session has no messages.</p>}
+            {transcript.slice(0, visibleCount).map((msg, idx) => {
+              const anchor = anchors.byIndex.get(idx);
+              return (
+                <div
+                  key={idx}
+                  ref={(element) => {
+                    if (element) turnRefs.current.set(idx, element);
+                    else turnRefs.current.delete(idx);
+                  }}
+                  className={`message ${msg.type}-message${anchor ? ' has-pins' : ''}${focusedIndex === idx ? ' focused-turn' : ''}`}
+                  role="article"
+                  aria-label={`Turn ${idx + 1}`}
+                >
+                  <div className="message-header">
+                    <span className="turn-badge">Turn {idx + 1}</span>
+                    <span className="speaker-name">
+                      {msg.type === MESSAGE_TYPES.USER ? 'You' : msg.stakeholder || 'Stakeholder'}
+                    </span>
+                  </div>
+                  <div className="message-content">
+                    <p>{msg.content}</p>
+                  </div>
+                  {anchor && <TurnPins anchor={anchor} />}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <aside className="pinned-feedback" aria-label="Feedback pinned to turns">
+          <h2>Where it mattered</h2>
+          {!evaluation && <p className="section-description">This session was not evaluated.</p>}
+          {evaluation && pinnedIndexes.length === 0 && (
+            <p className="section-description">No feedback could be tied to specific turns.</p>
+          )}
+          {pinnedIndexes.map((index) => {
+            const anchor = anchors.byIndex.get(index)!;
+            return (
+              <button
+                key={index}
+                className="pinned-feedback-item"
+                onClick={() => handleJumpToTurn(index)}
+                aria-label={`Go to turn ${index + 1}`}
+              >
+                <span className="turn-badge">Turn {index + 1}</span>
+                <span>
+                  {[
+                    ...anchor.moments.map((moment) => moment.description),
+                    ...anchor.evidence.map((evidence) => evidence.criterion),
+                  ].join(' · ')}
+                </span>
+              </button>
+            );
+          })}
+
+          {hasUnanchored && (
+            <div className="unanchored-feedback">
+              <h3>Not tied to a specific turn</h3>
+              <TurnPins anchor={anchors.unanchored} />
+            </div>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+});
+
+export default SessionDetail;
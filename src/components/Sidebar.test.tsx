@@ -2,29 +2,31 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import Sidebar from './Sidebar';
 import { SIDEBAR_TABS } from '../constants/states';
-import type { ScenarioTemplate } from '../types/models';
+import type { Message, ScenarioTemplate } from '../types/models';
 
 // Mock rubrics
-vi.mock('../constants/rubrics', () => ({
-  RUBRICS: {
-    PERSUASION_DIRECTOR: {
-      id: 'persuasion_director',
-      name: 'Persuasion to a Director',
-      criteria: [
-        {
-          name: 'Test Criterion',
-          weight: 0.5,
-          description: 'Test description',
-          anchors: {
-            1: 'Poor',
-            3: 'Average',
-            5: 'Excellent'
-          }
+vi.mock('../constants/rubrics', async (importOriginal) => {
+  const rubric = {
+    id: 'persuasion_director',
+    name: 'Persuasion to a Director',
+    criteria: [
+      {
+        name: 'Test Criterion',
+        weight: 0.5,
+        description: 'Test description',
+        anchors: {
+          1: 'Poor',
+          3: 'Average',
+          5: 'Excellent'
         }
-      ]
-    }
-  }
-}));
+      }
+    ]
+  };
+  return {
+    ...(await importOriginal<typeof import('../constants/rubrics')>()),
+    findRubric: (rubricId: string) => (rubricId === rubric.id ? rubric : undefined)
+  };
+});
 
 describe('Sidebar', () => {
   const mockScenario: ScenarioTemplate = {
@@ -224,6 +226,45 @@ describe('Sidebar', () => {
 
       expect(screen.queryByText('test.pdf')).not.toBeInTheDocument();
     });
+
+    it('should keep a hidden agenda out of view until it is discovered', () => {
+      const scenario: ScenarioTemplate = {
+        ...mockScenario,
+        stakeholders: [{
+          ...mockScenario.stakeholders[0]!,
+          hiddenConcerns: [{ text: 'Worried about a reorg' }],
+          hiddenMotivations: [{ text: 'Wants a promotion' }]
+        }]
+      };
+      const props = {
+        scenario,
+        activeTab: SIDEBAR_TABS.CONTEXT,
+        onTabChange: mockOnTabChange,
+        notes: '',
+        onNotesChange: mockOnNotesChange
+      };
+      const { rerender } = render(<Sidebar {...props} />);
+
+      expect(screen.getByText(/jane smith isn't saying everything/i)).toBeInTheDocument();
+      expect(screen.queryByText('Worried about a reorg')).not.toBeInTheDocument();
+
+      rerender(
+        <Sidebar
+          {...props}
+          messages={[{
+            type: 'ai',
+            content: 'Honestly, the reorg has me nervous.',
+            timestamp: new Date().toISOString(),
+            stakeholder: 'Jane Smith',
+            revealed: [{ kind: 'concern', text: 'Worried about a reorg' }]
+          }]}
+        />
+      );
+
+      expect(screen.getByText('Discovered so far (1 of 2):')).toBeInTheDocument();
+      expect(screen.getByText('Worried about a reorg')).toBeInTheDocument();
+      expect(screen.queryByText('Wants a promotion')).not.toBeInTheDocument();
+    });
   });
 
   describe('Rubric Tab', () => {
@@ -241,7 +282,10 @@ describe('Sidebar', () => {
       expect(screen.getByText('Persuasion to a Director')).toBeInTheDocument();
       expect(screen.getByText('Test Criterion')).toBeInTheDocument();
       expect(screen.getByText('Test description')).toBeInTheDocument();
-      expect(screen.getByText('50%')).toBeInTheDocument(); // weight * 100
+      // weight * 100, scaled down to make room for Consistency
+      expect(screen.getByText('45%')).toBeInTheDocument();
+      expect(screen.getByText('Consistency')).toBeInTheDocument();
+      expect(screen.getByText('10%')).toBeInTheDocument();
     });
 
     it('should display criterion anchors', () => {
@@ -259,6 +303,38 @@ describe('Sidebar', () => {
       expect(screen.getByText('Average')).toBeInTheDocument();
       expect(screen.getByText('Excellent')).toBeInTheDocument();
     });
+
+    it('should add Discovery when a stakeholder has a hidden agenda', () => {
+      render(
+        <Sidebar
+          scenario={{ ...mockScenario, difficulty: 'Hard' }}
+          activeTab={SIDEBAR_TABS.RUBRIC}
+          onTabChange={mockOnTabChange}
+          notes=""
+          onNotesChange={mockOnNotesChange}
+        />
+      );
+
+      expect(screen.getByText('Discovery')).toBeInTheDocument();
+      expect(screen.getByText('36%')).toBeInTheDocument();
+      expect(screen.getByText('18%')).toBeInTheDocument();
+      expect(screen.getByText('10%')).toBeInTheDocument();
+    });
+
+    it('should report an unknown rubric instead of showing another one', () => {
+      render(
+        <Sidebar
+          scenario={{ ...mockScenario, rubricId: 'retired_rubric' }}
+          activeTab={SIDEBAR_TABS.RUBRIC}
+          onTabChange={mockOnTabChange}
+          notes=""
+          onNotesChange={mockOnNotesChange}
+        />
+      );
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Rubric "retired_rubric" could not be found');
+      expect(screen.queryByText('Persuasion to a Director')).not.toBeInTheDocument();
+    });
   });
 
   describe('Notes Tab', () => {
@@ -308,6 +384,58 @@ describe('Sidebar', () => {
       const textarea = screen.getByPlaceholderText(/take notes during the simulation/i) as HTMLTextAreaElement;
       expect(textarea.value).toBe('Existing notes content');
     });
+
+    it('should flag contradictions and open commitments from the latest reply', () => {
+      const reply = (consistency: NonNullable<Message['consistency']>): Message => ({
+        type: 'ai',
+        content: 'Go on.',
+        stakeholder: 'Jane Smith',
+        timestamp: new Date().toISOString(),
+        consistency
+      });
+      render(
+        <Sidebar
+          scenario={mockScenario}
+          activeTab={SIDEBAR_TABS.NOTES}
+          onTabChange={mockOnTabChange}
+          notes=""
+          onNotesChange={mockOnNotesChange}
+          messages={[
+            reply({ contradictions: [], unfulfilledCommitments: [{ turn: 1, summary: 'I will send the budget' }] }),
+            reply({
+              contradictions: [{
+                turn1: 1,
+                turn2: 3,
+                description: 'Contradictory numeric claims about weeks',
+                content1: 'It takes 2 weeks',
+                content2: 'Realistically 6 weeks'
+              }],
+              unfulfilledCommitments: []
+            })
+          ]}
+        />
+      );
+
+      expect(screen.getByText('Consistency Flags')).toBeInTheDocument();
+      expect(screen.getByText('Contradiction: turns 1 and 3')).toBeInTheDocument();
+      expect(screen.getByText('Realistically 6 weeks')).toBeInTheDocument();
+      // Followed up on since the earlier reply
+      expect(screen.queryByText('I will send the budget')).not.toBeInTheDocument();
+    });
+
+    it('should show no flags before any are raised', () => {
+      render(
+        <Sidebar
+          scenario={mockScenario}
+          activeTab={SIDEBAR_TABS.NOTES}
+          onTabChange={mockOnTabChange}
+          notes=""
+          onNotesChange={mockOnNotesChange}
+        />
+      );
+
+      expect(screen.queryByText('Consistency Flags')).not.toBeInTheDocument();
+    });
   });
 
   describe('Accessibility', () => {
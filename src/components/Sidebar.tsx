@@ -1,16 +1,29 @@
-import { useState, ChangeEvent } from 'react';
-import { FileText, Target, StickyNote, Upload, X } from 'lucide-react';
+import { useState, useMemo, ChangeEvent } from 'react';
+import { AlertCircle, AlertTriangle, FileText, Search, Target, StickyNote, Upload, X } from 'lucide-react';
 import { SIDEBAR_TABS } from '../constants/states';
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore - rubrics.js doesn't have type definitions
-import { RUBRICS } from '../constants/rubrics';
+import { withConsistencyCriterion, withDiscoveryCriterion } from '../constants/rubrics';
+import { useRubric } from '../hooks/useRubric';
+import { countConsistencyFlags, getConsistencyFlags } from '../utils/consistency';
+import { countHiddenAgenda, getDiscoveredItems, getVisibleConcerns, hasHiddenAgenda } from '../utils/hiddenAgenda';
 import { SidebarProps } from '../types/props';
 
-export default function Sidebar({ scenario, activeTab, onTabChange, notes, onNotesChange, onFileUpload }: SidebarProps) {
+export default function Sidebar({ scenario, activeTab, onTabChange, notes, onNotesChange, onFileUpload, messages = [] }: SidebarProps) {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const rubric: any = RUBRICS[scenario.rubricId.toUpperCase()] || RUBRICS.PERSUASION_DIRECTOR;
+  // Same lookup as evaluateSession: an unknown id is shown as an error
+  // rather than replaced with a rubric the session won't be scored on
+  const { rubric: scenarioRubric, loading: rubricLoading } = useRubric(scenario.rubricId);
+
+  // Hidden agendas add a Discovery criterion and every session is scored on
+  // Consistency, as in evaluateSession
+  const rubric = useMemo(() => {
+    if (!scenarioRubric) return scenarioRubric;
+    const withDiscovery = hasHiddenAgenda(scenario) ? withDiscoveryCriterion(scenarioRubric) : scenarioRubric;
+    return withConsistencyCriterion(withDiscovery);
+  }, [scenarioRubric, scenario]);
+
+  const discovered = useMemo(() => getDiscoveredItems(messages), [messages]);
+  const consistency = useMemo(() => getConsistencyFlags(messages), [messages]);
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -69,33 +82,58 @@ export default function Sidebar({ scenario, activeTab, onTabChange, notes, onNot
             
             <div className="context-section">
               <h4>Stakeholders</h4>
-              {scenario.stakeholders.map((stakeholder, idx) => (
-                <div key={idx} className="stakeholder-card">
-                  <div className="stakeholder-header">
-                    <strong>{stakeholder.name}</strong>
-                    <span className="role-tag">{stakeholder.role}</span>
-                  </div>
-                  <p className="stakeholder-personality">{stakeholder.personality}</p>
-                  <div className="stakeholder-details">
-                    <div>
-                      <strong>Concerns:</strong>
-                      <ul>
-                        {stakeholder.concerns.map((concern, i) => (
-                          <li key={i}>{concern}</li>
-                        ))}
-                      </ul>
+              {scenario.stakeholders.map((stakeholder, idx) => {
+                const hiddenCount = countHiddenAgenda(stakeholder, scenario.difficulty);
+                const found = discovered.filter((item) => item.stakeholder === stakeholder.name);
+                return (
+                  <div key={idx} className="stakeholder-card">
+                    <div className="stakeholder-header">
+                      <strong>{stakeholder.name}</strong>
+                      <span className="role-tag">{stakeholder.role}</span>
                     </div>
-                    <div>
-                      <strong>Motivations:</strong>
-                      <ul>
-                        {stakeholder.motivations.map((motivation, i) => (
-                          <li key={i}>{motivation}</li>
-                        ))}
-                      </ul>
+                    <p className="stakeholder-personality">{stakeholder.personality}</p>
+                    <div className="stakeholder-details">
+                      <div>
+                        <strong>Concerns:</strong>
+                        <ul>
+                          {getVisibleConcerns(stakeholder, scenario.difficulty).map((concern, i) => (
+                            <li key={i}>{concern}</li>
+                          ))}
+                        </ul>
+                      </div>
+                      <div>
+                        <strong>Motivations:</strong>
+                        <ul>
+                          {stakeholder.motivations.map((motivation, i) => (
+                            <li key={i}>{motivation}</li>
+                          ))}
+                        </ul>
+                      </div>
+                      {hiddenCount > 0 && (
+                        <div className="discovered-agenda">
+                          <strong>
+                            <Search size={14} aria-hidden="true" />
+                            Discovered so far ({found.length} of {hiddenCount}):
+                          </strong>
+                          {found.length > 0 ? (
+                            <ul>
+                              {found.map((item, i) => (
+                                <li key={i}>
+                                  <span className="discovered-kind">{item.kind}</span> {item.text}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="help-text">
+                              {stakeholder.name} isn't saying everything. Ask open questions to find out more.
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
 
             <div className="context-section">
@@ -143,12 +181,29 @@ export default function Sidebar({ scenario, activeTab, onTabChange, notes, onNot
           </div>
         )}
 
-        {activeTab === SIDEBAR_TABS.RUBRIC && (
+        {activeTab === SIDEBAR_TABS.RUBRIC && rubricLoading && (
+          <div className="rubric-panel">
+            <p className="help-text">Loading rubric...</p>
+          </div>
+        )}
+
+        {activeTab === SIDEBAR_TABS.RUBRIC && !rubric && !rubricLoading && (
+          <div className="rubric-panel">
+            <div className="rubric-missing" role="alert">
+              <AlertCircle size={20} aria-hidden="true" />
+              <p>
+                Rubric "{scenario.rubricId}" could not be found, so this session cannot be evaluated.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {activeTab === SIDEBAR_TABS.RUBRIC && rubric && (
           <div className="rubric-panel">
             <h3>{rubric.name}</h3>
             <p className="help-text">You'll be evaluated on these criteria after the simulation</p>
             
-            {rubric.criteria.map((criterion: any, idx: number) => (
+            {rubric.criteria.map((criterion, idx) => (
               <div key={idx} className="rubric-criterion">
                 <div className="criterion-header">
                   <h4>{criterion.name}</h4>
@@ -190,6 +245,32 @@ export default function Sidebar({ scenario, activeTab, onTabChange, notes, onNot
               className="notes-textarea"
               aria-label="Notes textarea"
             />
+
+            {countConsistencyFlags(consistency) > 0 && (
+              <div className="consistency-flags">
+                <h4>
+                  <AlertTriangle size={16} aria-hidden="true" />
+                  Consistency Flags
+                </h4>
+                <p className="help-text">Stakeholders notice these, and they count toward Consistency</p>
+                <ul>
+                  {consistency.contradictions.map((item, idx) => (
+                    <li key={`contradiction-${idx}`} className="consistency-flag contradiction">
+                      <strong>Contradiction: turns {item.turn1} and {item.turn2}</strong>
+                      <span>{item.description}</span>
+                      <q>{item.content1}</q>
+                      <q>{item.content2}</q>
+                    </li>
+                  ))}
+                  {consistency.unfulfilledCommitments.map((item, idx) => (
+                    <li key={`commitment-${idx}`} className="consistency-flag commitment">
+                      <strong>Open commitment (turn {item.turn})</strong>
+                      <q>{item.summary}</q>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
       </div>
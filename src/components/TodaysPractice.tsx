@@ -0,0 +1,100 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { ArrowRight, CalendarClock, RotateCcw } from 'lucide-react';
+import { PracticePlanItem, ScenarioTemplate } from '../types/models';
+import { getNextPracticeDate, getTodaysPractice } from '../utils/practicePlan';
+import { handleApiError } from '../utils/errorHandling';
+import { ErrorMessage } from './ErrorMessage';
+
+export interface TodaysPracticeProps {
+  /** Every item in the user's practice plan */
+  items: PracticePlanItem[];
+  onSelectScenario: (scenario: ScenarioTemplate) => void;
+  /** Starts a drill; rejects when it cannot be started */
+  onStartDrill?: (evaluationId: string, drillIndex: number) => Promise<void>;
+}
+
+/**
+ * What the practice plan has due today: a drill or a scenario re-run for
+ * each weak criterion whose review has come round
+ */
+const TodaysPractice = memo(function TodaysPractice({
+  items,
+  onSelectScenario,
+  onStartDrill
+}: TodaysPracticeProps) {
+  const [startingCriterion, setStartingCriterion] = useState<string | null>(null);
+  const [drillError, setDrillError] = useState<string | null>(null);
+  const today = useMemo(() => getTodaysPractice(items), [items]);
+  const nextDate = useMemo(() => getNextPracticeDate(items), [items]);
+
+  const startDrill = useCallback(async (item: PracticePlanItem) => {
+    if (!item.drill || !onStartDrill) return;
+    setStartingCriterion(item.criterion);
+    setDrillError(null);
+    try {
+      await onStartDrill(item.drill.evaluationId, item.drill.drillIndex);
+    } catch (error) {
+      setDrillError(handleApiError(error).userMessage);
+    } finally {
+      setStartingCriterion(null);
+    }
+  }, [onStartDrill]);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="todays-practice" aria-labelledby="todays-practice-title">
+      <h2 id="todays-practice-title">
+        <CalendarClock size={20} aria-hidden="true" />
+        Today's practice
+      </h2>
+      {today.length === 0 ? (
+        <p className="section-description">
+          Nothing due today.
+          {nextDate && ` Your next practice is on ${nextDate.toLocaleDateString()}.`}
+        </p>
+      ) : (
+        <ul className="todays-practice-list">
+          {today.map((item) => {
+            const canDrill = Boolean(item.drill && onStartDrill);
+            const useDrill = canDrill && (item.activity === 'drill' || !item.scenario);
+            return (
+              <li key={item.criterion} className="todays-practice-item">
+                <div className="todays-practice-info">
+                  <h3>{item.criterion}</h3>
+                  <p className="todays-practice-score">Last scored {item.score} / 5</p>
+                  {item.tip && <p className="todays-practice-tip">{item.tip}</p>}
+                </div>
+                {useDrill && item.drill ? (
+                  <button
+                    className="btn btn-primary btn-small"
+                    onClick={() => startDrill(item)}
+                    disabled={startingCriterion !== null}
+                  >
+                    <ArrowRight size={16} aria-hidden="true" />
+                    {startingCriterion === item.criterion ? 'Preparing drill...' : `Start drill: ${item.drill.title}`}
+                  </button>
+                ) : item.scenario ? (
+                  <button
+                    className="btn btn-secondary btn-small"
+                    onClick={() => onSelectScenario(item.scenario!)}
+                  >
+                    <RotateCcw size={16} aria-hidden="true" />
+                    Re-run {item.scenario.title}
+                  </button>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {drillError && (
+        <ErrorMessage message={drillError} onDismiss={() => setDrillError(null)} />
+      )}
+    </section>
+  );
+});
+
+export default TodaysPractice;
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_RUBRICS, findRubric, getRubric, getScoreLabel, withConsistencyCriterion, withDiscoveryCriterion } from './rubrics';
+import { SCENARIO_TEMPLATES } from './scenarios';
+
+describe('Rubric registry', () => {
+  it('gives every built-in rubric weights that sum to 1 and all three anchors', () => {
+    BUILT_IN_RUBRICS.forEach((rubric) => {
+      const total = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+      expect(total).toBeCloseTo(1, 2);
+      rubric.criteria.forEach((criterion) => {
+        expect(criterion.anchors[1]).toBeTruthy();
+        expect(criterion.anchors[3]).toBeTruthy();
+        expect(criterion.anchors[5]).toBeTruthy();
+      });
+    });
+  });
+
+  it('has a rubric for every built-in scenario', () => {
+    SCENARIO_TEMPLATES.forEach((scenario) => {
+      expect(findRubric(scenario.rubricId), scenario.id).toBeDefined();
+    });
+  });
+
+  it('looks rubrics up by scenario rubricId', () => {
+    expect(getRubric('monthly_business_review').name).toBe('Monthly Business Review');
+    expect(findRubric('missing')).toBeUndefined();
+  });
+
+  it('throws for an unknown rubric id', () => {
+    expect(() => getRubric('missing')).toThrow('Unknown rubric "missing"');
+  });
+
+  it('adds Discovery and Consistency the way evaluateSession does', () => {
+    const rubric = withConsistencyCriterion(withDiscoveryCriterion(getRubric('monthly_business_review')));
+    const weights = Object.fromEntries(rubric.criteria.map((criterion) => [criterion.name, criterion.weight]));
+
+    expect(weights.Discovery).toBeCloseTo(0.18, 4);
+    expect(weights.Consistency).toBeCloseTo(0.1, 4);
+    expect(rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0)).toBeCloseTo(1, 2);
+    expect(withConsistencyCriterion(rubric)).toBe(rubric);
+  });
+
+  it('labels scores by band', () => {
+    expect(getScoreLabel(90).label).toBe('Strong');
+    expect(getScoreLabel(55).label).toBe('Developing');
+    expect(getScoreLabel(null).label).toBe('Needs Work');
+  });
+});
@@ -0,0 +1,107 @@
+// Rubric definitions for scenario evaluation
+// The built-in rubrics live in functions/rubrics.json so that the sidebar and
+// the evaluateSession function read the same definitions. Edit them there.
+
+import rubricData from '../../functions/rubrics.json';
+import type { Rubric, RubricCriterion } from '../types/models';
+
+export const BUILT_IN_RUBRICS: Rubric[] = rubricData.rubrics;
+
+// Added to the rubric of scenarios whose stakeholders have a hidden agenda
+export const DISCOVERY_CRITERION: RubricCriterion = rubricData.discoveryCriterion;
+
+// Added to every rubric; scored from the contradictions and commitments the
+// server flags in the user's messages
+export const CONSISTENCY_CRITERION: RubricCriterion = rubricData.consistencyCriterion;
+
+// Scale the rubric's own weights down to make room for an added criterion
+function withCriterion(rubric: Rubric, added: RubricCriterion): Rubric {
+  if (rubric.criteria.some((criterion) => criterion.name === added.name)) {
+    return rubric;
+  }
+  const share = 1 - added.weight;
+  return {
+    ...rubric,
+    criteria: [
+      ...rubric.criteria.map((criterion) => ({
+        ...criterion,
+        weight: Math.round(criterion.weight * share * 10000) / 10000,
+      })),
+      { ...added },
+    ],
+  };
+}
+
+/**
+ * Add the Discovery criterion. Mirrors withDiscoveryCriterion in
+ * functions/rubricRegistry.js so the sidebar shows what evaluateSession scores.
+ */
+export function withDiscoveryCriterion(rubric: Rubric): Rubric {
+  return withCriterion(rubric, DISCOVERY_CRITERION);
+}
+
+/**
+ * Add the Consistency criterion. Applied after withDiscoveryCriterion, as
+ * evaluateSession does, so it keeps its full weight.
+ */
+export function withConsistencyCriterion(rubric: Rubric): Rubric {
+  return withCriterion(rubric, CONSISTENCY_CRITERION);
+}
+
+// Rubrics users author are stored in the customRubrics collection and
+// referenced from scenarios as `custom:<document id>`
+export const CUSTOM_RUBRIC_PREFIX = 'custom:';
+
+export function isCustomRubricId(rubricId: string | undefined): boolean {
+  return !!rubricId && rubricId.startsWith(CUSTOM_RUBRIC_PREFIX);
+}
+
+export function toCustomRubricId(documentId: string): string {
+  return `${CUSTOM_RUBRIC_PREFIX}${documentId}`;
+}
+
+export function fromCustomRubricId(rubricId: string): string {
+  return rubricId.slice(CUSTOM_RUBRIC_PREFIX.length);
+}
+
+/**
+ * Built-in rubric with the given id, if there is one
+ */
+export function findRubric(rubricId: string | undefined): Rubric | undefined {
+  return BUILT_IN_RUBRICS.find((rubric) => rubric.id === rubricId);
+}
+
+/**
+ * Built-in rubric with the given id
+ * @throws Error if no rubric has the id
+ */
+export function getRubric(rubricId: string): Rubric {
+  const rubric = findRubric(rubricId);
+  if (!rubric) {
+    throw new Error(`Unknown rubric "${rubricId}"`);
+  }
+  return rubric;
+}
+
+export interface ScoreLabel {
+  min: number;
+  max: number;
+  label: string;
+  color: string;
+}
+
+export const SCORE_LABELS: Record<number, ScoreLabel> = {
+  0: { min: 0, max: 49, label: 'Needs Work', color: '#ef4444' },
+  1: { min: 50, max: 69, label: 'Developing', color: '#f59e0b' },
+  2: { min: 70, max: 84, label: 'Proficient', color: '#3b82f6' },
+  3: { min: 85, max: 100, label: 'Strong', color: '#10b981' }
+};
+
+export function getScoreLabel(score: number | null): ScoreLabel {
+  for (const level of Object.values(SCORE_LABELS)) {
+    if (score !== null && score >= level.min && score <= level.max) {
+      return level;
+    }
+  }
+  return SCORE_LABELS[0]!;
+}
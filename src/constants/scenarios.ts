@@ -20,6 +20,18 @@ export const SCENARIO_TEMPLATES: ScenarioTemplate[] = [
         personality: 'Eager to please, hardworking, sometimes takes on too much',
         concerns: ['Not wanting to disappoint', 'Managing workload', 'Learning new tools'],
         motivations: ['Career growth', 'Team contribution', 'Skill development'],
+        hiddenConcerns: [
+          {
+            text: 'Looking after a sick parent, which has cut into her evenings',
+            revealWhen: ['outside of work', 'going on', 'everything okay', 'personal', 'home'],
+          },
+        ],
+        hiddenMotivations: [
+          {
+            text: 'Hoping to move into data engineering',
+            revealWhen: ['long term', 'enjoy', 'interest', 'where do you see'],
+          },
+        ],
         communicationStyle: {
           directness: 'indirect',
           formality: 'professional',
@@ -98,6 +110,18 @@ export const SCENARIO_TEMPLATES: ScenarioTemplate[] = [
         personality: 'Data-driven, risk-averse, focused on quarterly targets',
         concerns: ['Budget constraints', 'Team capacity', 'Unclear ROI', 'Timeline risk'],
         motivations: ['Hitting Q4 targets', 'Board presentation prep', 'Team morale'],
+        hiddenConcerns: [
+          {
+            text: 'Their last pilot went over budget and the CFO still brings it up',
+            revealWhen: ['last time', 'past', 'before', 'previous', 'history'],
+          },
+        ],
+        hiddenMotivations: [
+          {
+            text: 'Needs a win to show the board before the reorg',
+            revealWhen: ['board', 'matter most', 'success look', 'you need', 'pressure'],
+          },
+        ],
         communicationStyle: {
           directness: 'direct',
           formality: 'professional',
@@ -411,6 +435,12 @@ export const SCENARIO_TEMPLATES: ScenarioTemplate[] = [
         personality: 'Protective of team, collaborative but firm on priorities',
         concerns: ['Team burnout', 'Platform stability', 'Own commitments'],
         motivations: ['Technical excellence', 'Team health', 'Strategic impact'],
+        hiddenConcerns: [
+          {
+            text: 'Two of their engineers are interviewing elsewhere',
+            revealWhen: ['team doing', 'morale', 'retention', 'attrition', 'people'],
+          },
+        ],
         communicationStyle: {
           directness: 'direct',
           formality: 'professional',
@@ -7,7 +7,8 @@ export const SIM_STATES = {
   TIMEOUT: 'TIMEOUT',
   EXITED: 'EXITED',
   EVALUATED: 'EVALUATED',
-  PROGRESS_VIEW: 'PROGRESS_VIEW'
+  PROGRESS_VIEW: 'PROGRESS_VIEW',
+  SESSION_DETAIL: 'SESSION_DETAIL'
 } as const;
 
 export const SIDEBAR_TABS = {
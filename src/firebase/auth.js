@@ -5,6 +5,7 @@ import {
   onAuthStateChanged,
   GoogleAuthProvider,
   signInWithPopup,
+  signInAnonymously,
   sendPasswordResetEmail
 } from 'firebase/auth';
 import { auth } from './config';
@@ -55,6 +56,13 @@ export const signInWithGoogle = async () => {
   return user;
 };
 
+// Sign in as a guest; the anonymous account only identifies the guest to
+// the AI functions' usage limits and keeps no data
+export const signInAsGuest = async () => {
+  const userCredential = await signInAnonymously(auth);
+  return userCredential.user;
+};
+
 // Sign out
 export const signOutUser = async () => {
   await signOut(auth);
@@ -1,8 +1,8 @@
 import { initializeApp, FirebaseApp } from 'firebase/app';
-import { Auth, getAuth } from 'firebase/auth';
-import { Firestore, getFirestore } from 'firebase/firestore';
-import { FirebaseStorage, getStorage } from 'firebase/storage';
-import { Functions, getFunctions } from 'firebase/functions';
+import { Auth, connectAuthEmulator, getAuth } from 'firebase/auth';
+import { Firestore, connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { FirebaseStorage, connectStorageEmulator, getStorage } from 'firebase/storage';
+import { Functions, connectFunctionsEmulator, getFunctions } from 'firebase/functions';
 
 // Firebase configuration
 // TODO: Replace with your Firebase project configuration
@@ -24,4 +24,27 @@ export const db: Firestore = getFirestore(app);
 export const storage: FirebaseStorage = getStorage(app);
 export const functions: Functions = getFunctions(app);
 
+// Region the HTTP functions are deployed to (callables resolve it themselves)
+const FUNCTIONS_REGION = 'us-central1';
+
+const useEmulators = import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true';
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || 'localhost';
+
+/**
+ * URL of an HTTP (non-callable) function, such as the streaming endpoint
+ */
+export const getFunctionUrl = (name: string): string =>
+  useEmulators
+    ? `http://${emulatorHost}:5001/${firebaseConfig.projectId}/${FUNCTIONS_REGION}/${name}`
+    : `https://${FUNCTIONS_REGION}-${firebaseConfig.projectId}.cloudfunctions.net/${name}`;
+
+// Point the app at the local Firebase emulators (ports match firebase.json).
+// Pair with LLM_PROVIDER=mock in functions/.env.local for fully offline runs.
+if (useEmulators) {
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+  connectStorageEmulator(storage, emulatorHost, 9199);
+  connectFunctionsEmulator(functions, emulatorHost, 5001);
+}
+
 export default app;
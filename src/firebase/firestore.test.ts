@@ -186,6 +186,40 @@ describe('Firebase Firestore Operations', () => {
     });
   });
 
+  describe('Unfinished Sessions', () => {
+    it('should query the user\'s IN_SIM sessions, newest first', async () => {
+      const { getUnfinishedSessions } = await import('./firestore.ts');
+
+      vi.mocked(getDocs).mockResolvedValue({
+        docs: [{ id: 'session-1', data: () => ({ state: 'IN_SIM', turnCount: 3 }) }],
+      } as any);
+
+      const sessions = await getUnfinishedSessions('user123');
+
+      expect(where).toHaveBeenCalledWith('userId', '==', 'user123');
+      expect(where).toHaveBeenCalledWith('state', '==', 'IN_SIM');
+      expect(orderBy).toHaveBeenCalledWith('startedAt', 'desc');
+      expect(limit).toHaveBeenCalledWith(5);
+      expect(sessions).toEqual([{ id: 'session-1', state: 'IN_SIM', turnCount: 3 }]);
+    });
+
+    it('should mark abandoned sessions EXITED without evaluating', async () => {
+      const { abandonSession } = await import('./firestore.ts');
+
+      vi.mocked(doc).mockReturnValue({ id: 'session-1' } as any);
+      vi.mocked(updateDoc).mockResolvedValue(undefined);
+
+      await abandonSession('session-1');
+
+      expect(updateDoc).toHaveBeenCalledWith(
+        { id: 'session-1' },
+        expect.objectContaining({ state: 'EXITED', abandoned: true })
+      );
+      const update = vi.mocked(updateDoc).mock.calls[0]?.[1] as unknown as Record<string, unknown>;
+      expect(update).not.toHaveProperty('evaluationId');
+    });
+  });
+
   describe('Caching Behavior', () => {
     it('should cache frequently accessed scenario data', async () => {
       vi.mocked(doc).mockReturnValue({} as any);
@@ -6,6 +6,7 @@ import {
   getDocs,
   addDoc,
   updateDoc,
+  deleteDoc,
   query,
   where,
   orderBy,
@@ -19,15 +20,19 @@ import {
   Timestamp,
 } from 'firebase/firestore';
 import { db } from './config';
+import { toCustomRubricId, fromCustomRubricId } from '../constants/rubrics';
+import type { Rubric, ScenarioTemplate } from '../types/models';
 
 // Collection names
 export const COLLECTIONS = {
   USERS: 'users',
-  SCENARIOS: 'scenarios',
+  CUSTOM_SCENARIOS: 'customScenarios',
   SESSIONS: 'sessions',
   EVALUATIONS: 'evaluations',
+  CUSTOM_RUBRICS: 'customRubrics',
   ASSETS: 'assets',
   ANALYTICS: 'analytics_daily',
+  PRACTICE_PLANS: 'practicePlans',
 } as const;
 
 // Types
@@ -49,9 +54,13 @@ export interface SessionData {
     difficulty: string;
   };
   transcript?: any[];
+  turnCount?: number;
+  notes?: string;
   state?: string;
   startedAt?: Timestamp | ReturnType<typeof serverTimestamp>;
   updatedAt?: Timestamp | ReturnType<typeof serverTimestamp>;
+  completedAt?: Timestamp | Date | ReturnType<typeof serverTimestamp>;
+  abandoned?: boolean;
 }
 
 export interface SessionUpdate {
@@ -62,8 +71,9 @@ export interface SessionUpdate {
 export interface EvaluationData {
   sessionId: string;
   rubricId?: string;
-  overall_score?: number;
+  overall_score?: number | null;
   criterion_scores?: any[];
+  degraded?: boolean;
   createdAt?: Timestamp | ReturnType<typeof serverTimestamp>;
 }
 
@@ -122,17 +132,35 @@ export const getUserWithCache = async (userId: string): Promise<any | null> => {
 };
 
 // Scenario operations
-export const createScenario = async (scenarioData: any): Promise<string> => {
-  const scenariosRef = collection(db, COLLECTIONS.SCENARIOS);
+// Built-in scenarios live in constants/scenarios.ts; only the scenarios users
+// write themselves are stored, in customScenarios, owned by userId
+export const createScenario = async (userId: string, scenario: Omit<ScenarioTemplate, 'id'>): Promise<string> => {
+  const scenariosRef = collection(db, COLLECTIONS.CUSTOM_SCENARIOS);
   const docRef = await addDoc(scenariosRef, {
-    ...scenarioData,
+    ...scenario,
+    userId,
     createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
   });
   return docRef.id;
 };
 
+export const updateScenario = async (scenarioId: string, scenario: Omit<ScenarioTemplate, 'id'>): Promise<void> => {
+  const scenarioRef = doc(db, COLLECTIONS.CUSTOM_SCENARIOS, scenarioId);
+  await updateDoc(scenarioRef, {
+    ...scenario,
+    updatedAt: serverTimestamp(),
+  });
+  scenarioCache.delete(scenarioId);
+};
+
+export const deleteScenario = async (scenarioId: string): Promise<void> => {
+  await deleteDoc(doc(db, COLLECTIONS.CUSTOM_SCENARIOS, scenarioId));
+  scenarioCache.delete(scenarioId);
+};
+
 export const getScenario = async (scenarioId: string): Promise<any | null> => {
-  const scenarioRef = doc(db, COLLECTIONS.SCENARIOS, scenarioId);
+  const scenarioRef = doc(db, COLLECTIONS.CUSTOM_SCENARIOS, scenarioId);
   const scenarioSnap = await getDoc(scenarioRef);
   return scenarioSnap.exists() ? { id: scenarioSnap.id, ...scenarioSnap.data() } : null;
 };
@@ -150,16 +178,66 @@ export const getScenarioWithCache = async (scenarioId: string): Promise<any | nu
   return scenario;
 };
 
-export const getUserScenarios = async (userId: string, limitCount: number = 50): Promise<any[]> => {
-  const scenariosRef = collection(db, COLLECTIONS.SCENARIOS);
+export const getUserScenarios = async (userId: string, limitCount: number = 50): Promise<ScenarioTemplate[]> => {
+  const scenariosRef = collection(db, COLLECTIONS.CUSTOM_SCENARIOS);
   const q = query(
     scenariosRef,
-    where('ownerId', '==', userId),
-    orderBy('createdAt', 'desc'),
+    where('userId', '==', userId),
+    orderBy('updatedAt', 'desc'),
     limit(limitCount) // Added limit to prevent unbounded reads
   );
   const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+  return querySnapshot.docs.map(doc => ({ ...(doc.data() as Omit<ScenarioTemplate, 'id'>), id: doc.id }));
+};
+
+// Custom rubric operations
+// Rubrics are returned with their scenario-facing id (custom:<document id>)
+export const createCustomRubric = async (userId: string, rubric: Omit<Rubric, 'id'>): Promise<string> => {
+  const rubricsRef = collection(db, COLLECTIONS.CUSTOM_RUBRICS);
+  const docRef = await addDoc(rubricsRef, {
+    name: rubric.name,
+    criteria: rubric.criteria,
+    userId,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return toCustomRubricId(docRef.id);
+};
+
+export const updateCustomRubric = async (rubricId: string, rubric: Omit<Rubric, 'id'>): Promise<void> => {
+  const rubricRef = doc(db, COLLECTIONS.CUSTOM_RUBRICS, fromCustomRubricId(rubricId));
+  await updateDoc(rubricRef, {
+    name: rubric.name,
+    criteria: rubric.criteria,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteCustomRubric = async (rubricId: string): Promise<void> => {
+  await deleteDoc(doc(db, COLLECTIONS.CUSTOM_RUBRICS, fromCustomRubricId(rubricId)));
+};
+
+export const getCustomRubric = async (rubricId: string): Promise<Rubric | null> => {
+  const rubricRef = doc(db, COLLECTIONS.CUSTOM_RUBRICS, fromCustomRubricId(rubricId));
+  const rubricSnap = await getDoc(rubricRef);
+  return rubricSnap.exists()
+    ? { ...(rubricSnap.data() as Omit<Rubric, 'id'>), id: toCustomRubricId(rubricSnap.id) }
+    : null;
+};
+
+export const getUserRubrics = async (userId: string, limitCount: number = 50): Promise<Rubric[]> => {
+  const rubricsRef = collection(db, COLLECTIONS.CUSTOM_RUBRICS);
+  const q = query(
+    rubricsRef,
+    where('userId', '==', userId),
+    orderBy('updatedAt', 'desc'),
+    limit(limitCount)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => ({
+    ...(doc.data() as Omit<Rubric, 'id'>),
+    id: toCustomRubricId(doc.id),
+  }));
 };
 
 // Session operations
@@ -188,6 +266,29 @@ export const getSession = async (sessionId: string): Promise<any | null> => {
   return sessionSnap.exists() ? { id: sessionSnap.id, ...sessionSnap.data() } : null;
 };
 
+// Sessions still IN_SIM were left mid-conversation (e.g. the page reloaded)
+export const getUnfinishedSessions = async (userId: string, limitCount: number = 5): Promise<any[]> => {
+  const sessionsRef = collection(db, COLLECTIONS.SESSIONS);
+  const q = query(
+    sessionsRef,
+    where('userId', '==', userId),
+    where('state', '==', 'IN_SIM'),
+    orderBy('startedAt', 'desc'),
+    limit(limitCount)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+};
+
+// Close an unfinished session without requesting an evaluation
+export const abandonSession = async (sessionId: string): Promise<void> => {
+  await updateSession(sessionId, {
+    state: 'EXITED',
+    abandoned: true,
+    completedAt: serverTimestamp(),
+  });
+};
+
 export const getUserSessions = async (userId: string, limitCount: number = 10): Promise<any[]> => {
   const sessionsRef = collection(db, COLLECTIONS.SESSIONS);
   const q = query(
@@ -264,17 +365,43 @@ export const getEvaluation = async (evaluationId: string): Promise<any | null> =
   return evaluationSnap.exists() ? { id: evaluationSnap.id, ...evaluationSnap.data() } : null;
 };
 
-export const getSessionEvaluation = async (sessionId: string): Promise<any | null> => {
+// Pass userId when reading as a signed-in user: security rules only allow
+// queries that are limited to the user's own evaluations
+export const getSessionEvaluation = async (sessionId: string, userId?: string): Promise<any | null> => {
   const evaluationsRef = collection(db, COLLECTIONS.EVALUATIONS);
+  const constraints: QueryConstraint[] = [where('sessionId', '==', sessionId)];
+  if (userId) {
+    constraints.push(where('userId', '==', userId));
+  }
   const q = query(
     evaluationsRef,
-    where('sessionId', '==', sessionId),
+    ...constraints,
     limit(1)
   );
   const querySnapshot = await getDocs(q);
   return querySnapshot.empty ? null : { id: querySnapshot.docs[0].id, ...querySnapshot.docs[0].data() };
 };
 
+// Most recent evaluations first, for drill progress
+export const getUserEvaluations = async (userId: string, limitCount: number = 10): Promise<any[]> => {
+  const evaluationsRef = collection(db, COLLECTIONS.EVALUATIONS);
+  const q = query(
+    evaluationsRef,
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc'),
+    limit(limitCount)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+};
+
+// The user's practice plan, or null before their first evaluation
+export const getPracticePlan = async (userId: string): Promise<any | null> => {
+  const planRef = doc(db, COLLECTIONS.PRACTICE_PLANS, userId);
+  const planSnap = await getDoc(planRef);
+  return planSnap.exists() ? planSnap.data() : null;
+};
+
 // Batch operations for evaluations
 export const batchCreateEvaluations = async (evaluations: EvaluationData[]): Promise<string[]> => {
   const batch = writeBatch(db);
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { observeAuthState, getCurrentUser } from '../firebase/auth';
+import { observeAuthState, getCurrentUser, signInAsGuest } from '../firebase/auth';
 import { getUser } from '../firebase/firestore';
 
 export function useAuth() {
@@ -12,7 +12,7 @@ export function useAuth() {
   useEffect(() => {
     const unsubscribe = observeAuthState(async (firebaseUser) => {
       try {
-        if (firebaseUser) {
+        if (firebaseUser && !firebaseUser.isAnonymous) {
           setUser(firebaseUser);
           setIsGuest(false);
           // Fetch additional user data from Firestore
@@ -23,6 +23,15 @@ export function useAuth() {
           setUser(null);
           setUserData(null);
           setIsGuest(true);
+          // Guests sign in anonymously so their usage limits follow them;
+          // without it the functions fall back to limiting by IP address
+          if (!firebaseUser) {
+            try {
+              await signInAsGuest();
+            } catch (err) {
+              console.warn('Anonymous sign-in unavailable:', err.message);
+            }
+          }
         }
       } catch (err) {
         console.error('Error in auth state observer:', err);
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getUserRubrics,
+  createCustomRubric,
+  updateCustomRubric,
+  deleteCustomRubric,
+} from '../firebase/firestore';
+import type { Rubric } from '../types/models';
+
+/**
+ * Return value from the useCustomRubrics hook
+ */
+interface UseCustomRubricsReturn {
+  rubrics: Rubric[];
+  loading: boolean;
+  error: string | null;
+  saveRubric: (rubric: Omit<Rubric, 'id'>, rubricId?: string) => Promise<Rubric>;
+  deleteRubric: (rubricId: string) => Promise<void>;
+}
+
+/**
+ * Hook for the signed-in user's custom rubrics
+ * @param userId - Signed-in user's ID; guests have no custom rubrics
+ * @returns The user's rubrics and actions to save or delete one
+ */
+export function useCustomRubrics(userId: string | undefined): UseCustomRubricsReturn {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setRubrics([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRubrics = async () => {
+      setLoading(true);
+      try {
+        const userRubrics = await getUserRubrics(userId);
+        if (!cancelled) {
+          setRubrics(userRubrics || []);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error loading custom rubrics:', err);
+        if (!cancelled) {
+          setError('Your rubrics could not be loaded.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadRubrics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Creates the rubric, or updates it when rubricId is given
+  const saveRubric = useCallback(async (rubric: Omit<Rubric, 'id'>, rubricId?: string): Promise<Rubric> => {
+    if (!userId) {
+      throw new Error('You need an account to save rubrics');
+    }
+
+    if (rubricId) {
+      await updateCustomRubric(rubricId, rubric);
+      const updated = { ...rubric, id: rubricId };
+      setRubrics(prev => [updated, ...prev.filter(r => r.id !== rubricId)]);
+      return updated;
+    }
+
+    const id = await createCustomRubric(userId, rubric);
+    const created = { ...rubric, id };
+    setRubrics(prev => [created, ...prev]);
+    return created;
+  }, [userId]);
+
+  const deleteRubric = useCallback(async (rubricId: string) => {
+    await deleteCustomRubric(rubricId);
+    setRubrics(prev => prev.filter(r => r.id !== rubricId));
+  }, []);
+
+  return { rubrics, loading, error, saveRubric, deleteRubric };
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getUserScenarios,
+  createScenario,
+  updateScenario,
+  deleteScenario as deleteStoredScenario,
+} from '../firebase/firestore';
+import type { ScenarioTemplate } from '../types/models';
+
+/**
+ * Return value from the useCustomScenarios hook
+ */
+interface UseCustomScenariosReturn {
+  scenarios: ScenarioTemplate[];
+  loading: boolean;
+  error: string | null;
+  saveScenario: (scenario: ScenarioTemplate, scenarioId?: string) => Promise<ScenarioTemplate>;
+  duplicateScenario: (scenario: ScenarioTemplate) => Promise<ScenarioTemplate>;
+  deleteScenario: (scenarioId: string) => Promise<void>;
+}
+
+/**
+ * Hook for the signed-in user's custom scenarios
+ * @param userId - Signed-in user's ID; guests have no saved scenarios
+ * @returns The user's scenarios and actions to save, duplicate or delete one
+ */
+export function useCustomScenarios(userId: string | undefined): UseCustomScenariosReturn {
+  const [scenarios, setScenarios] = useState<ScenarioTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setScenarios([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadScenarios = async () => {
+      setLoading(true);
+      try {
+        const userScenarios = await getUserScenarios(userId);
+        if (!cancelled) {
+          setScenarios(userScenarios || []);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error loading custom scenarios:', err);
+        if (!cancelled) {
+          setError('Your scenarios could not be loaded.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadScenarios();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Creates the scenario, or updates it when scenarioId is given
+  const saveScenario = useCallback(async (scenario: ScenarioTemplate, scenarioId?: string): Promise<ScenarioTemplate> => {
+    if (!userId) {
+      throw new Error('You need an account to save scenarios');
+    }
+
+    const { id: _id, ...fields } = scenario;
+
+    if (scenarioId) {
+      await updateScenario(scenarioId, fields);
+      const updated = { ...fields, id: scenarioId };
+      setScenarios(prev => [updated, ...prev.filter(s => s.id !== scenarioId)]);
+      return updated;
+    }
+
+    const id = await createScenario(userId, fields);
+    const created = { ...fields, id };
+    setScenarios(prev => [created, ...prev]);
+    return created;
+  }, [userId]);
+
+  const duplicateScenario = useCallback((scenario: ScenarioTemplate) => (
+    saveScenario({ ...scenario, title: `${scenario.title} (copy)`.slice(0, 100) })
+  ), [saveScenario]);
+
+  const deleteScenario = useCallback(async (scenarioId: string) => {
+    await deleteStoredScenario(scenarioId);
+    setScenarios(prev => prev.filter(s => s.id !== scenarioId));
+  }, []);
+
+  return { scenarios, loading, error, saveScenario, duplicateScenario, deleteScenario };
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { getPracticePlan } from '../firebase/firestore';
+import type { PracticePlan, PracticePlanItem } from '../types/models';
+
+/**
+ * Hook that loads the signed-in user's practice plan: the weak criteria
+ * the functions have scheduled for drills and re-runs
+ * @param userId - Signed-in user's ID; guests have no plan
+ * @returns Every scheduled item, soonest due first
+ */
+export function usePracticePlan(userId: string | undefined): PracticePlanItem[] {
+  const [items, setItems] = useState<PracticePlanItem[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadPracticePlan = async () => {
+      try {
+        const plan = (await getPracticePlan(userId)) as PracticePlan | null;
+        if (!cancelled) {
+          setItems(plan?.items ?? []);
+        }
+      } catch (error) {
+        console.error('Error loading practice plan:', error);
+      }
+    };
+
+    loadPracticePlan();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return items;
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { findRubric, isCustomRubricId } from '../constants/rubrics';
+import { getCustomRubric } from '../firebase/firestore';
+import type { Rubric } from '../types/models';
+
+/**
+ * Return value from the useRubric hook
+ */
+interface UseRubricReturn {
+  rubric: Rubric | undefined;
+  loading: boolean;
+}
+
+/**
+ * Hook that looks up a scenario's rubric the way evaluateSession does:
+ * built-in ids from the shared registry, `custom:` ids from the user's
+ * customRubrics. An unknown id resolves to undefined, never to another rubric.
+ * @param rubricId - scenario.rubricId
+ * @returns The rubric once found, and whether it is still loading
+ */
+export function useRubric(rubricId: string | undefined): UseRubricReturn {
+  const builtIn = isCustomRubricId(rubricId) ? undefined : findRubric(rubricId);
+  const [customRubric, setCustomRubric] = useState<Rubric | undefined>(undefined);
+  const [loading, setLoading] = useState(isCustomRubricId(rubricId));
+
+  useEffect(() => {
+    if (!rubricId || !isCustomRubricId(rubricId)) {
+      setCustomRubric(undefined);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRubric = async () => {
+      setLoading(true);
+      try {
+        const rubric = await getCustomRubric(rubricId);
+        if (!cancelled) {
+          setCustomRubric(rubric ?? undefined);
+        }
+      } catch (error) {
+        console.error('Error loading rubric:', error);
+        if (!cancelled) {
+          setCustomRubric(undefined);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadRubric();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rubricId]);
+
+  return { rubric: builtIn ?? customRubric, loading };
+}
@@ -1,32 +1,39 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
 import { useSimulation } from './useSimulation';
-import { updateSession } from '../firebase/firestore';
-import { getStakeholderResponse, getCoachingHint, evaluateSession } from '../utils/aiService';
+import { getStakeholderResponse, getCoachingHint, evaluateSession, branchSession } from '../utils/aiService';
+import { ApiRequestError } from '../utils/errorHandling';
+import type { StakeholderResponse } from '../types/api';
+import type { EmotionalSnapshot, Evaluation, ScenarioTemplate } from '../types/models';
 
 // Mock dependencies
-vi.mock('../firebase/firestore', () => ({
-  updateSession: vi.fn(),
-}));
-
 vi.mock('../utils/aiService', () => ({
   getStakeholderResponse: vi.fn(),
   getCoachingHint: vi.fn(),
   evaluateSession: vi.fn(),
+  branchSession: vi.fn(),
 }));
 
 describe('useSimulation', () => {
-  const mockScenario = {
+  const mockScenario: ScenarioTemplate = {
     id: 'scenario-1',
     title: 'Test Scenario',
-    turnLimit: 10,
+    category: 'Test',
     difficulty: 'Medium',
+    rubricId: 'rubric-1',
+    description: 'Test description',
+    situation: 'Test situation',
+    objective: 'Test objective',
+    turnLimit: 10,
+    stakeholders: [],
+    constraints: [],
   };
 
   const mockSessionId = 'session-123';
 
   beforeEach(() => {
     vi.clearAllMocks();
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: true });
   });
 
   it('should initialize with empty messages and zero turn count', () => {
@@ -75,6 +82,47 @@ describe('useSimulation', () => {
     expect(result.current.turnCount).toBe(1);
   });
 
+  it('should keep the stakeholder mood on the ai message and drop a missing one', async () => {
+    const emotionalState: EmotionalSnapshot = {
+      state: 'curious',
+      trajectory: 'improving',
+      concernsAddressed: ['Budget'],
+      concernsUnaddressed: [],
+    };
+    vi.mocked(getStakeholderResponse)
+      .mockResolvedValueOnce({
+        message: 'Go on',
+        stakeholder: 'Manager',
+        role: 'supervisor',
+        timestamp: new Date().toISOString(),
+        emotionalState,
+      })
+      .mockResolvedValueOnce({
+        message: 'Hmm',
+        stakeholder: 'Manager',
+        role: 'supervisor',
+        timestamp: new Date().toISOString(),
+        emotionalState: null,
+      });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+    await act(async () => {
+      await result.current.sendMessage('Anyway');
+    });
+
+    expect(result.current.messages[1]?.emotionalState).toEqual(emotionalState);
+    expect(result.current.messages[3]).not.toHaveProperty('emotionalState');
+  });
+
   it('should update session when sending message', async () => {
     const mockAIResponse = {
       message: 'AI response',
@@ -96,20 +144,143 @@ describe('useSimulation', () => {
       await result.current.sendMessage('Test message');
     });
 
+    expect(getStakeholderResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: mockSessionId, turnCount: 1 }),
+      'Test message',
+      expect.any(Object)
+    );
+  });
+
+  it('should take the turn count from the server for saved sessions', async () => {
+    vi.mocked(getStakeholderResponse).mockResolvedValue({
+      message: 'AI response',
+      stakeholder: 'Manager',
+      role: 'supervisor',
+      timestamp: new Date().toISOString(),
+      session: { turnCount: 10, state: 'EXITED' },
+    });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Test message');
+    });
+
+    expect(result.current.turnCount).toBe(10);
+  });
+
+  it('should append one AI message per stakeholder in multi-party turns', async () => {
+    const timestamp = new Date().toISOString();
+    vi.mocked(getStakeholderResponse).mockResolvedValue({
+      message: 'I think we are moving too fast.',
+      stakeholder: 'Jamie Lee',
+      role: 'Product Designer',
+      timestamp,
+      responses: [
+        { message: 'I think we are moving too fast.', stakeholder: 'Jamie Lee', role: 'Product Designer', timestamp },
+        { message: 'And I think we are moving too slow.', stakeholder: 'Taylor Morgan', role: 'Product Manager', timestamp },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('How is everyone feeling?');
+    });
+
+    expect(result.current.messages).toHaveLength(3);
+    expect(result.current.messages[1]?.stakeholder).toBe('Jamie Lee');
+    expect(result.current.messages[2]?.stakeholder).toBe('Taylor Morgan');
+    expect(result.current.messages[2]?.role).toBe('Product Manager');
+    expect(result.current.turnCount).toBe(1);
+  });
+
+  it('should grow the ai message while a reply streams and save once complete', async () => {
+    const timestamp = new Date().toISOString();
+    let finish: (value: StakeholderResponse) => void = () => {};
+
+    vi.mocked(getStakeholderResponse).mockImplementation((_session: unknown, _content: unknown, options: any) => {
+      options.onStart({ stakeholder: 'Manager', role: 'supervisor' });
+      options.onDelta('Hel');
+      options.onDelta('lo');
+      return new Promise((resolve) => {
+        finish = resolve;
+      });
+    });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    let sending: Promise<void> = Promise.resolve();
+    act(() => {
+      sending = result.current.sendMessage('Hello');
+    });
+
     await waitFor(() => {
-      expect(updateSession).toHaveBeenCalled();
+      expect(result.current.messages[1]?.content).toBe('Hello');
     });
+    expect(result.current.messages[1]?.streaming).toBe(true);
+    expect(result.current.isStreaming).toBe(true);
 
-    expect(updateSession).toHaveBeenCalledWith(
-      mockSessionId,
-      expect.objectContaining({
-        transcript: expect.any(Array),
-        turnCount: 1,
+    await act(async () => {
+      finish({ message: 'Hello', stakeholder: 'Manager', role: 'supervisor', timestamp });
+      await sending;
+    });
+
+    expect(result.current.messages[1]?.streaming).toBeUndefined();
+    expect(result.current.isStreaming).toBe(false);
+  });
+
+  it('should drop a cancelled reply and keep the user message', async () => {
+    vi.mocked(getStakeholderResponse).mockImplementation((_session: unknown, _content: unknown, options: any) => {
+      options.onStart({ stakeholder: 'Manager', role: 'supervisor' });
+      options.onDelta('I think');
+      return new Promise((_resolve, reject) => {
+        options.cancelToken.onCancel((reason: string) => reject(new Error(reason)));
+      });
+    });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
       })
     );
+
+    let sending: Promise<void> = Promise.resolve();
+    act(() => {
+      sending = result.current.sendMessage('Hello');
+    });
+
+    await waitFor(() => {
+      expect(result.current.isStreaming).toBe(true);
+    });
+
+    await act(async () => {
+      result.current.cancelResponse();
+      await sending;
+    });
+
+    expect(result.current.messages).toHaveLength(1);
+    expect(result.current.messages[0]?.type).toBe('user');
+    expect(result.current.turnCount).toBe(1);
   });
 
-  it('should handle AI response errors', async () => {
+  it('should keep an unanswered turn and report the error outside the transcript', async () => {
     vi.mocked(getStakeholderResponse).mockRejectedValue(new Error('API Error'));
 
     const { result } = renderHook(() =>
@@ -127,9 +298,235 @@ describe('useSimulation', () => {
       expect(result.current.isLoading).toBe(false);
     });
 
-    expect(result.current.messages).toHaveLength(2);
-    expect(result.current.messages[1].type).toBe('system');
-    expect(result.current.messages[1].content).toContain('Error');
+    expect(result.current.messages).toHaveLength(1);
+    expect(result.current.messages[0]?.type).toBe('user');
+    expect(result.current.turnError).toMatchObject({
+      turnId: result.current.messages[0]?.turnId,
+      error: { userMessage: 'An unexpected error occurred. Please try again.' },
+    });
+
+    act(() => {
+      result.current.dismissTurnError();
+    });
+    expect(result.current.turnError).toBeNull();
+  });
+
+  it('should report a response without replies as a failed turn', async () => {
+    vi.mocked(getStakeholderResponse).mockResolvedValue({ responses: [] } as unknown as StakeholderResponse);
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    expect(result.current.messages).toHaveLength(1);
+    expect(result.current.turnError).toMatchObject({
+      turnId: result.current.messages[0]?.turnId,
+      error: { userMessage: 'The reply could not be generated. Please try again.', retryable: true },
+    });
+  });
+
+  it('should regenerate the latest reply on a new branch of a saved session', async () => {
+    const timestamp = new Date().toISOString();
+    vi.mocked(getStakeholderResponse)
+      .mockResolvedValueOnce({ message: 'First reply', stakeholder: 'Manager', role: 'supervisor', timestamp })
+      .mockResolvedValueOnce({ message: 'Second reply', stakeholder: 'Manager', role: 'supervisor', timestamp });
+    vi.mocked(branchSession).mockResolvedValue({
+      branchId: 'branch-1',
+      transcript: [],
+      session: { turnCount: 0, state: 'IN_SIM' },
+    });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+    expect(result.current.canBranch).toBe(true);
+
+    await act(async () => {
+      await result.current.regenerateReply();
+    });
+
+    expect(branchSession).toHaveBeenCalledWith(mockSessionId, 0, expect.any(String));
+    expect(result.current.branchId).toBe('branch-1');
+    expect(result.current.messages.map((message) => message.content)).toEqual(['Hello', 'Second reply']);
+    expect(result.current.turnCount).toBe(1);
+  });
+
+  it('should edit the latest turn and branch from an earlier one for guests', async () => {
+    const timestamp = new Date().toISOString();
+    vi.mocked(getStakeholderResponse).mockImplementation(async (_session: unknown, content: unknown) => ({
+      message: `Re: ${content}`,
+      stakeholder: 'Manager',
+      role: 'supervisor',
+      timestamp,
+    }));
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: null,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('One');
+    });
+    await act(async () => {
+      await result.current.sendMessage('Two');
+    });
+    await act(async () => {
+      await result.current.editLastMessage('Two, edited');
+    });
+
+    expect(result.current.messages.map((message) => message.content))
+      .toEqual(['One', 'Re: One', 'Two, edited', 'Re: Two, edited']);
+
+    await act(async () => {
+      await result.current.branchFromTurn(1);
+    });
+
+    expect(result.current.messages.map((message) => message.content)).toEqual(['One', 'Re: One']);
+    expect(result.current.turnCount).toBe(1);
+    expect(branchSession).not.toHaveBeenCalled();
+  });
+
+  it('should retry a failed turn with the same turn id', async () => {
+    const timestamp = new Date().toISOString();
+    vi.mocked(getStakeholderResponse)
+      .mockRejectedValueOnce(new ApiRequestError({
+        code: 'deadline-exceeded',
+        message: 'Timed out',
+        userMessage: 'The request took too long. Please try again.',
+        retryable: true,
+      }))
+      .mockResolvedValueOnce({ message: 'Go on', stakeholder: 'Manager', role: 'supervisor', timestamp });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: null,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+    expect(result.current.turnError?.error.retryable).toBe(true);
+
+    act(() => {
+      result.current.retryTurn();
+    });
+
+    await waitFor(() => {
+      expect(result.current.messages).toHaveLength(2);
+    });
+    expect(result.current.turnError).toBeNull();
+    expect(result.current.messages[1]?.content).toBe('Go on');
+    const [first, second] = vi.mocked(getStakeholderResponse).mock.calls;
+    expect(second?.[0].turnId).toBe(first?.[0].turnId);
+  });
+
+  it('should hold turns sent offline and replay them in order once back online', async () => {
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: false });
+    vi.mocked(getStakeholderResponse)
+      .mockResolvedValueOnce({ message: 'Reply one', stakeholder: 'Manager', role: 'supervisor', timestamp: '2026-01-01T10:01:00.000Z' })
+      .mockResolvedValueOnce({ message: 'Reply two', stakeholder: 'Manager', role: 'supervisor', timestamp: '2026-01-01T10:02:00.000Z' });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('First');
+    });
+    await act(async () => {
+      await result.current.sendMessage('Second');
+    });
+
+    expect(getStakeholderResponse).not.toHaveBeenCalled();
+    expect(result.current.messages.map((message) => message.pending)).toEqual([true, true]);
+    expect(result.current.turnCount).toBe(2);
+
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: true });
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => {
+      expect(result.current.messages.map((message) => message.content))
+        .toEqual(['First', 'Reply one', 'Second', 'Reply two']);
+    });
+    expect(result.current.messages.some((message) => message.pending)).toBe(false);
+
+    // The second turn is sent after the first was answered, with its reply
+    const calls = vi.mocked(getStakeholderResponse).mock.calls;
+    expect(calls.map((call) => call[1])).toEqual(['First', 'Second']);
+    expect(calls[1]?.[0].transcript.map((message: { content: string }) => message.content))
+      .toEqual(['First', 'Reply one', 'Second']);
+    expect(calls[0]?.[0].turnId).toBe(result.current.messages[0]?.turnId);
+  });
+
+  it('should resend a turn whose connection dropped under the same turn id', async () => {
+    vi.mocked(getStakeholderResponse)
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({ message: 'AI response', stakeholder: 'Manager', role: 'supervisor', timestamp: '2026-01-01T10:01:00.000Z' });
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    await waitFor(() => {
+      expect(result.current.messages).toHaveLength(2);
+    });
+    expect(result.current.messages[1]?.content).toBe('AI response');
+    expect(result.current.messages[0]?.pending).toBeUndefined();
+
+    const [first, second] = vi.mocked(getStakeholderResponse).mock.calls;
+    expect(second?.[0].turnId).toBe(first?.[0].turnId);
+  });
+
+  it('should offer a retry when a resent turn still cannot reach the server', async () => {
+    vi.mocked(getStakeholderResponse).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    await act(async () => {
+      await result.current.sendMessage('Hello');
+    });
+
+    await waitFor(() => {
+      expect(result.current.turnError?.turnId).toBe(result.current.messages[0]?.turnId);
+    });
+    expect(getStakeholderResponse).toHaveBeenCalledTimes(2);
+    expect(result.current.messages[0]?.pending).toBeUndefined();
   });
 
   it('should request timeout and get coaching hint', async () => {
@@ -157,12 +554,12 @@ describe('useSimulation', () => {
   });
 
   it('should exit simulation and evaluate', async () => {
-    const mockEvaluation = {
+    const mockEvaluation: Partial<Evaluation> = {
       overall_score: 85,
       criterion_scores: [],
     };
 
-    vi.mocked(evaluateSession).mockResolvedValue(mockEvaluation);
+    vi.mocked(evaluateSession).mockResolvedValue(mockEvaluation as Evaluation);
 
     const onEvaluationComplete = vi.fn();
 
@@ -182,14 +579,6 @@ describe('useSimulation', () => {
       expect(result.current.isLoading).toBe(false);
     });
 
-    expect(updateSession).toHaveBeenCalledWith(
-      mockSessionId,
-      expect.objectContaining({
-        completedAt: expect.any(Date),
-        state: 'EXITED',
-      })
-    );
-
     expect(evaluateSession).toHaveBeenCalledWith(
       mockSessionId,
       expect.objectContaining({
@@ -216,4 +605,25 @@ describe('useSimulation', () => {
     expect(result.current.messages).toEqual([]);
     expect(result.current.turnCount).toBe(0);
   });
+
+  it('should restore messages and turn count from a saved session', () => {
+    const saved = [
+      { type: 'user' as const, content: 'Hi', timestamp: '2024-01-01T00:00:00.000Z' },
+      { type: 'ai' as const, content: 'Hello', timestamp: '2024-01-01T00:00:01.000Z', stakeholder: 'Manager' },
+    ];
+
+    const { result } = renderHook(() =>
+      useSimulation({
+        scenario: mockScenario,
+        sessionId: mockSessionId,
+      })
+    );
+
+    act(() => {
+      result.current.restoreSession({ messages: saved, turnCount: 1 });
+    });
+
+    expect(result.current.messages).toEqual(saved);
+    expect(result.current.turnCount).toBe(1);
+  });
 });
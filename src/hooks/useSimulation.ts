@@ -1,6 +1,20 @@
-import { useState, useCallback } from 'react';
-import { updateSession } from '../firebase/firestore';
-import { getStakeholderResponse, getCoachingHint, evaluateSession } from '../utils/aiService';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { getStakeholderResponse, getCoachingHint, evaluateSession, branchSession } from '../utils/aiService';
+import { CancelToken, QueueManager } from '../utils/raceConditionHandling';
+import { ApiRequestError, handleApiError } from '../utils/errorHandling';
+import {
+  createTurnId,
+  getPendingMessages,
+  insertRepliesAfterTurn,
+  isConnectionError,
+  loadPendingTurns,
+  removePendingTurn,
+  savePendingTurn,
+} from '../utils/offlineQueue';
+import { countUserTurns, getLastUserMessage, truncateMessages } from '../utils/conversationBranch';
+import { useOnlineStatus } from './useOnlineStatus';
+import type { ApiError, QuotaStatus, StakeholderReply, StakeholderResponse } from '../types/api';
+import type { ConsistencyFlags, EmotionalSnapshot, RevealedItem, ScenarioTemplate } from '../types/models';
 
 /**
  * Message in a simulation conversation
@@ -11,24 +25,28 @@ interface Message {
   timestamp: string;
   stakeholder?: string;
   role?: string;
+  streaming?: boolean;
+  turnId?: string;
+  pending?: boolean;
+  revealed?: RevealedItem[];
+  emotionalState?: EmotionalSnapshot;
+  consistency?: ConsistencyFlags;
 }
 
 /**
- * Scenario configuration for a simulation
+ * A turn the AI could not answer, or a branch that could not be made
  */
-interface Scenario {
-  id: string;
-  title: string;
-  turnLimit: number;
-  difficulty: string;
-  [key: string]: any;
+interface TurnError {
+  /** The unanswered turn; null when branching failed */
+  turnId: string | null;
+  error: ApiError;
 }
 
 /**
  * Options for the useSimulation hook
  */
 interface UseSimulationOptions {
-  scenario: Scenario;
+  scenario: ScenarioTemplate;
   sessionId: string | null;
   onEvaluationComplete?: (evaluation: any) => void;
 }
@@ -40,20 +58,100 @@ interface UseSimulationReturn {
   messages: Message[];
   turnCount: number;
   isLoading: boolean;
+  isStreaming: boolean;
+  /** The user's AI allowance as of the latest reply or quota error */
+  quota: QuotaStatus | null;
+  /** Why the latest turn went unanswered, until it is retried or dismissed */
+  turnError: TurnError | null;
+  /** Branch of a saved session the conversation is on, once branched */
+  branchId: string | null;
+  /** Whether the conversation can be branched right now */
+  canBranch: boolean;
   sendMessage: (content: string) => Promise<void>;
+  /** Send the unanswered turn again, with the same turn id */
+  retryTurn: () => void;
+  dismissTurnError: () => void;
+  /** Ask for a new reply to the latest turn */
+  regenerateReply: () => Promise<void>;
+  /** Replace the latest turn with an edited message and send it */
+  editLastMessage: (content: string) => Promise<void>;
+  /** Continue from the given user turn (1-based) on a new branch */
+  branchFromTurn: (turnNumber: number) => Promise<void>;
+  cancelResponse: () => void;
   requestTimeout: () => Promise<void>;
   exitSimulation: () => Promise<void>;
   clearMessages: () => void;
+  restoreSession: (snapshot: RestoredSession) => void;
+}
+
+/**
+ * Conversation state saved on a session document
+ */
+interface RestoredSession {
+  messages: Message[];
+  turnCount: number;
+  /** Saved session whose pending turns should be queued again */
+  sessionId?: string;
+  branchId?: string;
+}
+
+/**
+ * Chat message for a stakeholder reply
+ */
+function toReplyMessage(reply: StakeholderReply): Message {
+  return {
+    type: 'ai',
+    content: reply.message,
+    stakeholder: reply.stakeholder,
+    role: reply.role,
+    timestamp: reply.timestamp,
+    // Kept on the message so discoveries survive a resumed session;
+    // Firestore rejects undefined fields, so omit it when empty
+    ...(reply.revealed && reply.revealed.length > 0 ? { revealed: reply.revealed } : {}),
+    ...(reply.emotionalState ? { emotionalState: reply.emotionalState } : {}),
+    ...(reply.consistency ? { consistency: reply.consistency } : {}),
+    ...(reply.judgment ? { judgment: reply.judgment } : {}),
+  };
+}
+
+/**
+ * Replies in a response; older responses only carry the top-level fields.
+ * An empty list means no reply was generated, which is reported as an error
+ * rather than shown as a blank message.
+ */
+function getReplies(response: StakeholderResponse): StakeholderReply[] {
+  if (!response.responses) {
+    return [response];
+  }
+  if (response.responses.length === 0) {
+    throw new ApiRequestError({
+      code: 'internal',
+      message: 'The response contained no replies',
+      userMessage: 'The reply could not be generated. Please try again.',
+      retryable: true,
+    });
+  }
+  return response.responses;
 }
 
 /**
  * Custom hook for managing simulation state and AI interactions
  * 
  * Handles the complete simulation lifecycle including:
- * - Sending user messages and receiving AI responses
+ * - Sending user messages and streaming AI responses into the chat
  * - Requesting coaching hints
  * - Exiting simulation and triggering evaluation
- * - Syncing state with Firestore
+ * - Restoring an interrupted session from Firestore
+ * - Passing the session id so the server records turns and exits the
+ *   session for signed-in users
+ * - Tracking the AI allowance the server reports with each reply
+ * - Holding turns sent while offline as pending and replaying them, in
+ *   order, once the connection returns
+ * - Keeping a turn the AI failed to answer, with its error, so it can be
+ *   retried
+ * - Regenerating the latest reply, editing and resending the latest turn,
+ *   and branching from an earlier turn; saved sessions keep every branch
+ *   and are evaluated on the one the user submits
  * 
  * @param options - Configuration options for the simulation
  * @returns Simulation state and control functions
@@ -83,71 +181,324 @@ export function useSimulation({
   const [messages, setMessages] = useState<Message[]>([]);
   const [turnCount, setTurnCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [turnError, setTurnError] = useState<TurnError | null>(null);
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const cancelTokenRef = useRef<CancelToken | null>(null);
+  const isOnline = useOnlineStatus();
 
-  const sendMessage = useCallback(
-    async (content: string) => {
+  // Pending turns are replayed one at a time; the replay reads the latest
+  // messages, which can change between one queued turn and the next
+  const replayQueueRef = useRef(new QueueManager<void>());
+  const queuedTurnsRef = useRef(new Set<string>());
+  const messagesRef = useRef<Message[]>(messages);
+  messagesRef.current = messages;
+
+  const updateMessages = useCallback((update: (prev: Message[]) => Message[]) => {
+    messagesRef.current = update(messagesRef.current);
+    setMessages(update);
+  }, []);
+
+  // Stop any reply still streaming when the simulation unmounts
+  useEffect(() => () => cancelTokenRef.current?.cancel('Simulation closed'), []);
+
+  const cancelResponse = useCallback(() => {
+    cancelTokenRef.current?.cancel('Response cancelled');
+  }, []);
+
+  // The turn stays in the chat unanswered; the error is shown beside it
+  // with a retry action instead of being added to the transcript
+  const reportTurnError = useCallback((turnId: string | null, error: unknown) => {
+    const apiError = handleApiError(error);
+    // Over quota: the banner explains the limit as well
+    if (apiError.quota) {
+      setQuota(apiError.quota);
+    }
+    setTurnError({ turnId, error: apiError });
+  }, []);
+
+  // Send a user turn that follows the given conversation
+  const sendTurn = useCallback(
+    async (content: string, history: Message[], previousTurns: number) => {
       const userMessage: Message = {
         type: 'user',
         content,
         timestamp: new Date().toISOString(),
+        turnId: createTurnId(),
       };
+      const newTurnCount = previousTurns + 1;
+      setTurnCount(newTurnCount);
+      setTurnError(null);
 
-      const newMessages = [...messages, userMessage];
-      setMessages(newMessages);
-      setTurnCount((prev) => prev + 1);
-
-      // Update session in Firebase
-      if (sessionId) {
-        try {
-          await updateSession(sessionId, {
-            transcript: newMessages,
-            turnCount: turnCount + 1,
-          });
-        } catch (error) {
-          console.error('Error updating session:', error);
+      // Hold the turn while offline, and behind turns still waiting, so
+      // turns reach the server in the order they were written
+      const holdTurn = () => {
+        updateMessages(() => [...history, { ...userMessage, pending: true }]);
+        if (sessionId) {
+          savePendingTurn({
+            turnId: userMessage.turnId!,
+            sessionId,
+            content,
+            timestamp: userMessage.timestamp,
+          }).catch((error) => console.warn('Could not save pending turn:', error));
         }
+      };
+      if (!isOnline || getPendingMessages(history).length > 0) {
+        holdTurn();
+        return;
       }
 
+      const newMessages = [...history, userMessage];
+      updateMessages(() => newMessages);
+
+      const cancelToken = new CancelToken();
+      cancelTokenRef.current = cancelToken;
+
+      // Replies that finished streaming before a cancel are kept
+      const completedReplies: StakeholderReply[] = [];
+
       // Get AI response
       setIsLoading(true);
       try {
-        const response = await getStakeholderResponse(
-          { scenario, transcript: newMessages, turnCount: turnCount + 1 },
-          content
+        const response: StakeholderResponse = await getStakeholderResponse(
+          { scenario, transcript: newMessages, turnCount: newTurnCount, sessionId, turnId: userMessage.turnId },
+          content,
+          {
+            cancelToken,
+            onStart: ({ stakeholder, role }: { stakeholder: string; role: string }) => {
+              setIsStreaming(true);
+              setMessages((prev) => [
+                ...prev,
+                {
+                  type: 'ai',
+                  content: '',
+                  stakeholder,
+                  role,
+                  timestamp: new Date().toISOString(),
+                  streaming: true,
+                },
+              ]);
+            },
+            onDelta: (text: string) => {
+              setIsStreaming(true);
+              setMessages((prev) => {
+                const last = prev[prev.length - 1];
+                if (!last || !last.streaming) return prev;
+                return [...prev.slice(0, -1), { ...last, content: last.content + text }];
+              });
+            },
+            onReply: (reply: StakeholderReply) => {
+              completedReplies.push(reply);
+              setMessages((prev) => {
+                const last = prev[prev.length - 1];
+                if (!last || !last.streaming) return prev;
+                return [...prev.slice(0, -1), toReplyMessage(reply)];
+              });
+            },
+          }
         );
 
-        const aiMessage: Message = {
-          type: 'ai',
-          content: response.message,
-          stakeholder: response.stakeholder,
-          role: response.role,
-          timestamp: response.timestamp,
-        };
+        // Multi-party turns can bring several replies
+        setMessages([...newMessages, ...getReplies(response).map(toReplyMessage)]);
+        // The server counts turns for saved sessions
+        if (response.session) {
+          setTurnCount(response.session.turnCount);
+        }
+        if (response.quota) {
+          setQuota(response.quota);
+        }
+      } catch (error) {
+        if (cancelToken.isCancelled) {
+          // Drop the half-streamed reply but keep any that completed
+          setMessages([...newMessages, ...completedReplies.map(toReplyMessage)]);
+        } else if (isConnectionError(error)) {
+          // Any partial reply is dropped; the server answers the resent turn
+          // from what it recorded, so nothing is generated twice
+          holdTurn();
+        } else {
+          console.error('Error getting AI response:', error);
+          setMessages(newMessages);
+          reportTurnError(userMessage.turnId!, error);
+        }
+      } finally {
+        if (cancelTokenRef.current === cancelToken) {
+          cancelTokenRef.current = null;
+        }
+        setIsStreaming(false);
+        setIsLoading(false);
+      }
+    },
+    [scenario, sessionId, isOnline, reportTurnError, updateMessages]
+  );
 
-        const updatedMessages = [...newMessages, aiMessage];
-        setMessages(updatedMessages);
+  const sendMessage = useCallback(
+    (content: string) => sendTurn(content, messages, turnCount),
+    [sendTurn, messages, turnCount]
+  );
 
-        // Update session again with AI response
-        if (sessionId) {
-          await updateSession(sessionId, {
-            transcript: updatedMessages,
-          });
+  /**
+   * Send a pending turn if it is the oldest one; a turn that cannot be sent
+   * stays pending, and later turns are never sent ahead of it
+   */
+  const deliverPendingTurn = useCallback(
+    async (turnId: string): Promise<void> => {
+      const current = messagesRef.current;
+      if (getPendingMessages(current)[0]?.turnId !== turnId) return;
+
+      const index = current.findIndex((message) => message.turnId === turnId);
+      const turn = current[index]!;
+      const transcript = current.slice(0, index + 1);
+
+      setIsLoading(true);
+      try {
+        const response: StakeholderResponse = await getStakeholderResponse(
+          {
+            scenario,
+            transcript,
+            turnCount: transcript.filter((message) => message.type === 'user').length,
+            sessionId,
+            turnId,
+          },
+          turn.content
+        );
+
+        updateMessages((prev) => insertRepliesAfterTurn(prev, turnId, getReplies(response).map(toReplyMessage)));
+        if (response.session) {
+          setTurnCount(response.session.turnCount);
+        }
+        if (response.quota) {
+          setQuota(response.quota);
         }
       } catch (error) {
-        console.error('Error getting AI response:', error);
-        const errorMessage: Message = {
-          type: 'system',
-          content: `Error: ${(error as Error).message || 'Unable to get AI response. Check console for details.'}`,
-          timestamp: new Date().toISOString(),
-        };
-        setMessages([...newMessages, errorMessage]);
+        // Offline, the turn waits for the connection to come back. Online,
+        // the call has already used up its retries, so it is treated like
+        // any other failure rather than left pending with nothing to wake it.
+        if (isConnectionError(error) && !navigator.onLine) {
+          return;
+        }
+
+        // Anything else stops the replay of this turn until the user
+        // retries it, so the turns queued behind it can go ahead
+        console.error('Error sending pending turn:', error);
+        updateMessages((prev) => insertRepliesAfterTurn(prev, turnId, []));
+        reportTurnError(turnId, error);
       } finally {
         setIsLoading(false);
       }
+
+      removePendingTurn(turnId).catch((error) => console.warn('Could not clear pending turn:', error));
     },
-    [messages, turnCount, scenario, sessionId]
+    [scenario, sessionId, updateMessages, reportTurnError]
   );
 
+  // Retrying queues the turn again; the replay below sends it with its
+  // original turn id, so the server never records it twice
+  const retryTurn = useCallback(() => {
+    const turnId = turnError?.turnId;
+    setTurnError(null);
+    const turn = turnId ? messagesRef.current.find((message) => message.turnId === turnId) : undefined;
+    if (!turn) return;
+
+    updateMessages((prev) =>
+      prev.map((message) => (message.turnId === turn.turnId ? { ...message, pending: true } : message))
+    );
+    if (sessionId) {
+      savePendingTurn({
+        turnId: turn.turnId!,
+        sessionId,
+        content: turn.content,
+        timestamp: turn.timestamp,
+      }).catch((error) => console.warn('Could not save pending turn:', error));
+    }
+  }, [turnError, sessionId, updateMessages]);
+
+  const dismissTurnError = useCallback(() => setTurnError(null), []);
+
+  const pendingCount = getPendingMessages(messages).length;
+
+  // Saved sessions stop taking turns at the turn limit, and a branch must
+  // not start while a turn is still on its way
+  const canBranch = !isLoading && pendingCount === 0 && turnCount > 0 && turnCount < scenario.turnLimit;
+
+  /**
+   * Cut the conversation back to its first keepTurns turns on a new branch.
+   * Resolves with the branch's messages, or null if it could not be made.
+   */
+  const startBranch = useCallback(
+    async (keepTurns: number): Promise<Message[] | null> => {
+      setTurnError(null);
+      if (!sessionId) {
+        const branch = truncateMessages(messagesRef.current, keepTurns);
+        updateMessages(() => branch);
+        setTurnCount(keepTurns);
+        return branch;
+      }
+
+      setIsLoading(true);
+      try {
+        // The branch id is chosen here so a resent request cannot branch twice
+        const branch = await branchSession(sessionId, keepTurns, createTurnId());
+        updateMessages(() => branch.transcript);
+        setTurnCount(branch.session.turnCount);
+        setBranchId(branch.branchId);
+        return branch.transcript;
+      } catch (error) {
+        console.error('Error branching session:', error);
+        reportTurnError(null, error);
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sessionId, updateMessages, reportTurnError]
+  );
+
+  // Regenerating and editing branch just before the latest turn and send it
+  // again, so the earlier reply stays on the branch that was left
+  const resendLastTurn = useCallback(
+    async (content?: string) => {
+      const lastTurn = getLastUserMessage(messagesRef.current);
+      if (!canBranch || !lastTurn) return;
+
+      const keepTurns = countUserTurns(messagesRef.current) - 1;
+      const branch = await startBranch(keepTurns);
+      if (branch) {
+        await sendTurn(content ?? lastTurn.content, branch, keepTurns);
+      }
+    },
+    [canBranch, startBranch, sendTurn]
+  );
+
+  const regenerateReply = useCallback(() => resendLastTurn(), [resendLastTurn]);
+
+  const editLastMessage = useCallback((content: string) => resendLastTurn(content), [resendLastTurn]);
+
+  const branchFromTurn = useCallback(
+    async (turnNumber: number) => {
+      if (!canBranch || turnNumber >= countUserTurns(messagesRef.current)) return;
+      await startBranch(turnNumber);
+    },
+    [canBranch, startBranch]
+  );
+
+  // Replay pending turns, oldest first, whenever the connection is back
+  useEffect(() => {
+    if (!isOnline || pendingCount === 0) return;
+
+    getPendingMessages(messagesRef.current).forEach(({ turnId }) => {
+      if (!turnId || queuedTurnsRef.current.has(turnId)) return;
+      queuedTurnsRef.current.add(turnId);
+      void replayQueueRef.current.enqueue(async () => {
+        try {
+          await deliverPendingTurn(turnId);
+        } finally {
+          queuedTurnsRef.current.delete(turnId);
+        }
+      });
+    });
+  }, [isOnline, pendingCount, deliverPendingTurn]);
+
   const requestTimeout = useCallback(async () => {
     setIsLoading(true);
 
@@ -156,6 +507,7 @@ export function useSimulation({
         scenario,
         transcript: messages,
         turnCount,
+        sessionId,
       });
 
       const coachingMessage: Message = {
@@ -167,24 +519,21 @@ export function useSimulation({
       setMessages([...messages, coachingMessage]);
     } catch (error) {
       console.error('Error getting coaching hint:', error);
+      const apiError = handleApiError(error);
+      if (apiError.quota) {
+        setQuota(apiError.quota);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [messages, turnCount, scenario]);
+  }, [messages, turnCount, scenario, sessionId]);
 
   const exitSimulation = useCallback(async () => {
+    cancelTokenRef.current?.cancel('Simulation exited');
     setIsLoading(true);
 
     try {
-      // Update session status
-      if (sessionId) {
-        await updateSession(sessionId, {
-          completedAt: new Date(),
-          state: 'EXITED',
-        });
-      }
-
-      // Get evaluation
+      // The server exits a saved session before scoring its stored transcript
       const evaluationResult = await evaluateSession(sessionId, {
         scenario,
         transcript: messages,
@@ -202,17 +551,71 @@ export function useSimulation({
   }, [sessionId, scenario, messages, onEvaluationComplete]);
 
   const clearMessages = useCallback(() => {
+    cancelTokenRef.current?.cancel('Simulation reset');
     setMessages([]);
     setTurnCount(0);
+    setTurnError(null);
+    setBranchId(null);
   }, []);
 
+  const restoreSession = useCallback(({
+    messages: saved,
+    turnCount: savedTurns,
+    sessionId: savedSessionId,
+    branchId: savedBranchId,
+  }: RestoredSession) => {
+    cancelTokenRef.current?.cancel('Simulation reset');
+    setMessages(saved);
+    setTurnCount(savedTurns);
+    setTurnError(null);
+    setBranchId(savedBranchId ?? null);
+    if (!savedSessionId) return;
+
+    // Turns still queued from before a reload; any the server recorded
+    // before the connection dropped are already in the saved transcript
+    loadPendingTurns(savedSessionId)
+      .then((turns) => {
+        const recorded = new Set(saved.map((message) => message.turnId).filter(Boolean));
+        turns
+          .filter((turn) => recorded.has(turn.turnId))
+          .forEach((turn) => void removePendingTurn(turn.turnId));
+
+        const waiting = turns.filter((turn) => !recorded.has(turn.turnId));
+        if (waiting.length === 0) return;
+        updateMessages((prev) => [
+          ...prev,
+          ...waiting.map((turn): Message => ({
+            type: 'user',
+            content: turn.content,
+            timestamp: turn.timestamp,
+            turnId: turn.turnId,
+            pending: true,
+          })),
+        ]);
+        setTurnCount((prev) => prev + waiting.length);
+      })
+      .catch((error) => console.warn('Could not load pending turns:', error));
+  }, [updateMessages]);
+
   return {
     messages,
     turnCount,
     isLoading,
+    isStreaming,
+    quota,
+    turnError,
+    branchId,
+    canBranch,
     sendMessage,
+    retryTurn,
+    dismissTurnError,
+    regenerateReply,
+    editLastMessage,
+    branchFromTurn,
+    cancelResponse,
     requestTimeout,
     exitSimulation,
     clearMessages,
+    restoreSession,
   };
 }
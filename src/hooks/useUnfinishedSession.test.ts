@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useUnfinishedSession } from './useUnfinishedSession';
+import { getUnfinishedSessions, abandonSession } from '../firebase/firestore';
+
+vi.mock('../firebase/firestore', () => ({
+  getUnfinishedSessions: vi.fn(),
+  abandonSession: vi.fn(),
+}));
+
+describe('useUnfinishedSession', () => {
+  const session = {
+    id: 'session-1',
+    userId: 'user-1',
+    scenario: { title: 'Test Scenario', turnLimit: 10 },
+    transcript: [{ type: 'user', content: 'Hi', timestamp: '2024-01-01T00:00:00.000Z' }],
+    turnCount: 1,
+    notes: 'Ask about budget',
+    state: 'IN_SIM',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not look up sessions for guests', () => {
+    const { result } = renderHook(() => useUnfinishedSession(undefined));
+
+    expect(result.current.unfinishedSession).toBeNull();
+    expect(getUnfinishedSessions).not.toHaveBeenCalled();
+  });
+
+  it('should load the most recent unfinished session', async () => {
+    vi.mocked(getUnfinishedSessions).mockResolvedValue([session]);
+
+    const { result } = renderHook(() => useUnfinishedSession('user-1'));
+
+    await waitFor(() => {
+      expect(result.current.unfinishedSession?.id).toBe('session-1');
+    });
+    expect(getUnfinishedSessions).toHaveBeenCalledWith('user-1', 1);
+  });
+
+  it('should abandon the session and clear it', async () => {
+    vi.mocked(getUnfinishedSessions).mockResolvedValue([session]);
+    vi.mocked(abandonSession).mockResolvedValue(undefined);
+
+    const { result } = renderHook(() => useUnfinishedSession('user-1'));
+
+    await waitFor(() => {
+      expect(result.current.unfinishedSession).not.toBeNull();
+    });
+
+    await act(async () => {
+      await result.current.abandon();
+    });
+
+    expect(abandonSession).toHaveBeenCalledWith('session-1');
+    expect(result.current.unfinishedSession).toBeNull();
+  });
+
+  it('should keep the session when dismissed', async () => {
+    vi.mocked(getUnfinishedSessions).mockResolvedValue([session]);
+
+    const { result } = renderHook(() => useUnfinishedSession('user-1'));
+
+    await waitFor(() => {
+      expect(result.current.unfinishedSession).not.toBeNull();
+    });
+
+    act(() => {
+      result.current.dismiss();
+    });
+
+    expect(result.current.unfinishedSession).toBeNull();
+    expect(abandonSession).not.toHaveBeenCalled();
+  });
+});
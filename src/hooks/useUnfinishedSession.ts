@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getUnfinishedSessions, abandonSession } from '../firebase/firestore';
+import type { SimulationSession } from '../types/models';
+
+/**
+ * Return value from the useUnfinishedSession hook
+ */
+interface UseUnfinishedSessionReturn {
+  unfinishedSession: SimulationSession | null;
+  abandon: () => Promise<void>;
+  dismiss: () => void;
+}
+
+/**
+ * Hook that finds the signed-in user's most recent session left IN_SIM
+ * (e.g. by a page reload) so it can be resumed or abandoned
+ * @param userId - Signed-in user's ID; guests have no saved sessions
+ * @returns The unfinished session, if any, and actions to close it
+ */
+export function useUnfinishedSession(userId: string | undefined): UseUnfinishedSessionReturn {
+  const [unfinishedSession, setUnfinishedSession] = useState<SimulationSession | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setUnfinishedSession(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadUnfinishedSession = async () => {
+      try {
+        const [latest] = await getUnfinishedSessions(userId, 1);
+        if (!cancelled) {
+          setUnfinishedSession((latest as SimulationSession | undefined) ?? null);
+        }
+      } catch (error) {
+        console.error('Error loading unfinished sessions:', error);
+      }
+    };
+
+    loadUnfinishedSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const abandon = useCallback(async () => {
+    if (!unfinishedSession) return;
+    await abandonSession(unfinishedSession.id);
+    setUnfinishedSession(null);
+  }, [unfinishedSession]);
+
+  const dismiss = useCallback(() => {
+    setUnfinishedSession(null);
+  }, []);
+
+  return { unfinishedSession, abandon, dismiss };
+}
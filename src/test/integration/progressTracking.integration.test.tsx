@@ -133,6 +133,7 @@ describe('Progress Tracking Integration Tests', () => {
     
     vi.mocked(firestoreModule.getUser).mockResolvedValue(mockUserData);
     vi.mocked(firestoreModule.getUserSessions).mockResolvedValue(mockSessions);
+    vi.mocked(firestoreModule.getUserEvaluations).mockResolvedValue([]);
     vi.mocked(firestoreModule.createSession).mockResolvedValue('session-123');
   });
 
@@ -166,6 +166,24 @@ describe('Scenario Selection and Simulation Integration Tests', () => {
     expect(screen.getByText(/objective/i)).toBeInTheDocument();
   });
 
+  it('should warn and continue unsaved when the session cannot be created', async () => {
+    vi.mocked(firestoreModule.createSession).mockRejectedValue(new Error('Network error'));
+    const user = userEvent.setup();
+    render(<App />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/Ready to Practice/i)).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByText(SCENARIO_TEMPLATES[0]!.title));
+    await user.click(await screen.findByRole('button', { name: /start simulation/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/This session will not be saved/i)).toBeInTheDocument();
+    });
+    expect(screen.getByText(/0 \/ \d+ turns/i)).toBeInTheDocument();
+  });
+
   it('should allow guest users to start simulations', async () => {
     const user = userEvent.setup();
     
@@ -7,6 +7,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { Timestamp } from 'firebase/firestore';
 import App from '../../App';
 import * as authModule from '../../firebase/auth';
 import * as firestoreModule from '../../firebase/firestore';
@@ -100,7 +101,7 @@ describe('Simulation Exit and Evaluation Integration Tests', () => {
         estimated_minutes: 10,
       },
     ],
-    createdAt: { seconds: Date.now() / 1000, nanoseconds: 0 },
+    createdAt: Timestamp.now(),
   };
 
   beforeEach(() => {
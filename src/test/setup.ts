@@ -12,6 +12,8 @@ vi.mock('../firebase/config', () => ({
   auth: {},
   db: {},
   storage: {},
+  functions: {},
+  getFunctionUrl: (name: string) => `http://localhost/${name}`,
 }));
 
 // Mock window.matchMedia
@@ -1,4 +1,4 @@
-import { ScenarioTemplate, Message, Evaluation } from './models';
+import { ScenarioTemplate, Message, Evaluation, RevealedItem, EmotionalSnapshot, ConsistencyFlags, TurnJudgment } from './models';
 
 // AI Service Request Types
 export interface SimulateStakeholderRequest {
@@ -6,12 +6,17 @@ export interface SimulateStakeholderRequest {
   transcript: Message[];
   userMessage: string;
   turnCount: number;
+  /** Saved sessions are answered from the stored transcript */
+  sessionId?: string;
+  /** A turn the saved session already recorded is answered from it */
+  turnId?: string;
 }
 
 export interface GetCoachingHintRequest {
   scenario: ScenarioTemplate;
   transcript: Message[];
   turnCount: number;
+  sessionId?: string;
 }
 
 export interface GetSuggestionsRequest {
@@ -20,30 +25,126 @@ export interface GetSuggestionsRequest {
 }
 
 export interface EvaluateSessionRequest {
-  sessionId: string;
+  /** Null for guests, whose sessions are scored from the payload */
+  sessionId: string | null;
   scenario: ScenarioTemplate;
   transcript: Message[];
   rubricId: string;
 }
 
+export interface GenerateScenarioRequest {
+  brief: string;
+  rubricId: string;
+}
+
+export interface BranchSessionRequest {
+  sessionId: string;
+  /** Client-chosen id, so a resent request does not branch twice */
+  branchId: string;
+  /** Turns of the current branch the new one starts with */
+  keepTurns: number;
+}
+
+export interface StartDrillRequest {
+  evaluationId: string;
+  /** Index into the evaluation's drills */
+  drillIndex: number;
+}
+
 // AI Service Response Types
-export interface StakeholderResponse {
+export interface StakeholderReply {
   message: string;
   stakeholder: string;
   role: string;
   timestamp: string;
+  /** Hidden concerns and motivations this reply opened up about */
+  revealed?: RevealedItem[];
+  /** Null when the server could not track the stakeholder's mood */
+  emotionalState?: EmotionalSnapshot | null;
+  /** Contradictions and open commitments in the user's messages so far */
+  consistency?: ConsistencyFlags;
+  /** Classifier reading of the user's message, when the classifier is on */
+  judgment?: TurnJudgment;
+}
+
+/**
+ * Top-level fields mirror the first reply; `responses` lists every
+ * stakeholder who spoke this turn, in speaking order.
+ */
+export interface StakeholderResponse extends StakeholderReply {
+  responses?: StakeholderReply[];
+  /** The saved session after the server recorded the turn */
+  session?: SessionProgress;
+  /** The caller's allowance after this turn */
+  quota?: QuotaStatus;
+}
+
+/**
+ * One line of the streamed reply (NDJSON): each speaker's `start`, the
+ * `delta`s of their text and their finished reply (`end`), then `done`
+ * with every reply, or `error`
+ */
+export type StakeholderStreamEvent =
+  | { type: 'start'; stakeholder: string; role: string }
+  | { type: 'delta'; text: string }
+  | ({ type: 'end' } & StakeholderReply)
+  | {
+      type: 'done';
+      responses: StakeholderReply[];
+      session?: SessionProgress;
+      quota?: QuotaStatus;
+    }
+  | { type: 'error'; message?: string };
+
+export interface SessionProgress {
+  turnCount: number;
+  state: 'IN_SIM' | 'EXITED';
+}
+
+/**
+ * A caller's AI allowance: requests per minute and tokens per day.
+ * Signed-in users get a larger allowance than guests.
+ */
+export interface QuotaStatus {
+  tier: 'user' | 'guest';
+  requestsPerMinute: number;
+  requestsRemaining: number;
+  tokensPerDay: number;
+  tokensRemaining: number;
+  /** When the exceeded limit resets, or the daily budget if none is */
+  resetsAt: string;
+  /** Which limit stopped the request, if any */
+  exceeded: 'rate' | 'tokens' | null;
 }
 
 export interface CoachingHintResponse {
   hint: string;
+  quota?: QuotaStatus;
 }
 
 export interface SuggestionsResponse {
   suggestions: string[];
+  quota?: QuotaStatus;
 }
 
 export interface EvaluationResponse extends Evaluation {}
 
+export interface GenerateScenarioResponse {
+  scenario: ScenarioTemplate;
+}
+
+export interface BranchSessionResponse {
+  branchId: string;
+  transcript: Message[];
+  session: SessionProgress;
+}
+
+export interface StartDrillResponse {
+  /** Saved session the drill runs in */
+  sessionId: string;
+  scenario: ScenarioTemplate;
+}
+
 // Firebase Function Response Wrapper
 export interface FirebaseFunctionResponse<T> {
   data: T;
@@ -73,4 +174,6 @@ export interface ApiError {
   message: string;
   userMessage: string;
   retryable: boolean;
+  /** Set when the call was refused for being over quota */
+  quota?: QuotaStatus;
 }
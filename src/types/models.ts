@@ -13,6 +13,16 @@ export interface UserProfile {
 }
 
 // Scenario Models
+/**
+ * Something a stakeholder keeps to themselves until the learner asks a
+ * discovery question about it
+ */
+export interface HiddenAgendaItem {
+  text: string;
+  /** Topics that count as asking about it; defaults to keywords from the text */
+  revealWhen?: string[];
+}
+
 export interface Stakeholder {
   role: string;
   name: string;
@@ -20,6 +30,10 @@ export interface Stakeholder {
   personality: string;
   concerns: string[];
   motivations: string[];
+  /** Concerns never shown to the learner, only revealed when asked about */
+  hiddenConcerns?: HiddenAgendaItem[];
+  /** Motivations never shown to the learner, only revealed when asked about */
+  hiddenMotivations?: HiddenAgendaItem[];
   communicationStyle?: {
     directness: 'direct' | 'indirect' | 'balanced';
     formality: 'formal' | 'casual' | 'professional';
@@ -48,6 +62,22 @@ export interface ScenarioTemplate {
   constraints: string[];
 }
 
+// Rubric Models
+export interface RubricCriterion {
+  name: string;
+  /** Share of the overall score, 0-1; a rubric's weights sum to 1 */
+  weight: number;
+  description: string;
+  /** What a score of 1, 3 and 5 looks like */
+  anchors: { 1: string; 3: string; 5: string };
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  criteria: RubricCriterion[];
+}
+
 // Message Models
 export interface Message {
   type: 'user' | 'ai' | 'system' | 'coaching';
@@ -55,6 +85,74 @@ export interface Message {
   timestamp: string;
   stakeholder?: string;
   role?: string;
+  /** True while the reply is still streaming in */
+  streaming?: boolean;
+  /** Client-generated id of a user turn, so resending it is safe */
+  turnId?: string;
+  /** True while a user turn waits for the connection to be sent */
+  pending?: boolean;
+  /** Hidden concerns and motivations the stakeholder opened up about in this reply */
+  revealed?: RevealedItem[];
+  /** How the stakeholder felt after the user's message this reply answers */
+  emotionalState?: EmotionalSnapshot;
+  /** Contradictions and open commitments in the user's messages so far */
+  consistency?: ConsistencyFlags;
+  /** Classifier reading of the user's message this reply answers */
+  judgment?: TurnJudgment;
+}
+
+export interface RevealedItem {
+  kind: 'concern' | 'motivation';
+  text: string;
+}
+
+export type EmotionalState =
+  | 'frustrated'
+  | 'concerned'
+  | 'skeptical'
+  | 'neutral'
+  | 'curious'
+  | 'warming_up'
+  | 'satisfied';
+
+/**
+ * How the server's classifier read a user message for one stakeholder.
+ * Kept on the stakeholder's reply and sent back with the transcript, so
+ * later turns replay the same reading.
+ */
+export interface TurnJudgment {
+  concernsAddressed: string[];
+  hasSpecifics: boolean;
+  hasEvidence: boolean;
+  isVague: boolean;
+  confident: boolean;
+  reason: string;
+}
+
+export interface EmotionalSnapshot {
+  state: EmotionalState;
+  trajectory: 'improving' | 'declining' | 'stable';
+  concernsAddressed: string[];
+  concernsUnaddressed: string[];
+}
+
+/** Turns count messages from 1, as in the evaluation transcript */
+export interface Contradiction {
+  turn1: number;
+  turn2: number;
+  description: string;
+  content1: string;
+  content2: string;
+}
+
+export interface OpenCommitment {
+  turn: number;
+  summary: string;
+}
+
+export interface ConsistencyFlags {
+  contradictions: Contradiction[];
+  unfulfilledCommitments: OpenCommitment[];
 }
 
 // Session Models
@@ -64,9 +162,20 @@ export interface SimulationSession {
   scenario: ScenarioTemplate;
   transcript: Message[];
   turnCount: number;
+  notes?: string;
   startedAt: Timestamp;
+  updatedAt?: Timestamp;
   completedAt?: Timestamp;
   state: 'IN_SIM' | 'TIMEOUT' | 'EXITED' | 'EVALUATED';
+  /** Set when the user abandoned the session instead of finishing it */
+  abandoned?: boolean;
+  /** Branch the transcript is on; absent until the session is branched */
+  branchId?: string;
+  parentBranchId?: string;
+  /** Turns the branch shares with its parent */
+  forkedAfterTurn?: number;
+  /** Set on sessions started from a recommended drill */
+  drill?: DrillSource;
 }
 
 // Evaluation Models
@@ -75,6 +184,8 @@ export interface CriterionScore {
   weight: number;
   score: number;
   evidence: string[];
+  /** Points (out of 100) this criterion added to overall_score */
+  contribution?: number;
 }
 
 export interface MissedOpportunity {
@@ -93,17 +204,93 @@ export interface PracticeDrill {
   title: string;
   instructions: string;
   estimated_minutes: number;
+  /** Rubric criterion the drill practises */
+  criterion?: string;
+}
+
+/** The recommended drill a drill session was started from */
+export interface DrillSource {
+  evaluationId: string;
+  drillIndex: number;
+  title: string;
+  /** The only criterion the drill session is scored on */
+  criterion: Omit<RubricCriterion, 'weight'>;
+}
+
+export interface DrillCompletion {
+  /** The drill session and its own evaluation */
+  sessionId: string;
+  evaluationId: string;
+  score: number | null;
+  completedAt: Timestamp;
+}
+
+// Practice Plan Models
+/**
+ * A weak criterion scheduled for practice with spaced repetition; written
+ * by the functions after each evaluation
+ */
+export interface PracticePlanItem {
+  criterion: string;
+  /** Latest score for the criterion, 1-5 */
+  score: number;
+  ease: number;
+  /** Reviews in a row scoring 3 or more */
+  repetitions: number;
+  intervalDays: number;
+  /** Reviews in a row scoring 4 or more; two retire the item */
+  streak: number;
+  /** ISO time the item is next due */
+  dueAt: string;
+  practisedAt: string;
+  /** What to do when it is due */
+  activity: 'drill' | 'rerun';
+  drill?: Pick<DrillSource, 'evaluationId' | 'drillIndex' | 'title'>;
+  scenario?: ScenarioTemplate;
+  /** Advice from the evaluation's missed opportunities */
+  tip?: string;
+}
+
+export interface PracticePlan {
+  userId: string;
+  /** Soonest due first */
+  items: PracticePlanItem[];
+  updatedAt: Timestamp;
 }
 
 export interface Evaluation {
   id: string;
   sessionId: string;
   rubricId: string;
-  overall_score: number;
+  /** Computed from the weighted criterion scores; null when degraded */
+  overall_score: number | null;
+  /** The evaluator model's own 0-100 impression, kept for comparison */
+  holistic_score?: number;
   criterion_scores: CriterionScore[];
   missed_opportunities: MissedOpportunity[];
   moments_that_mattered: MomentThatMattered[];
   reflection_prompt: string;
   drills: PracticeDrill[];
+  /** The model never returned a valid evaluation, so nothing was scored */
+  degraded?: boolean;
+  validation_errors?: string[];
+  /** How much of the scenario's hidden agenda was uncovered, when it has one */
+  discovery?: DiscoverySummary;
+  /** Branch of the session that was submitted and scored */
+  branchId?: string;
+  /** Set when the session was a drill, scored on its criterion alone */
+  drill?: DrillSource;
+  /** Latest finished attempt at each recommended drill, keyed by drill index */
+  drillCompletions?: Record<string, DrillCompletion>;
   createdAt: Timestamp;
 }
+
+export interface DiscoverySummary {
+  found: number;
+  total: number;
+  items: Array<RevealedItem & {
+    stakeholder: string;
+    /** Turn of the question that uncovered it; null when never uncovered */
+    turn: number | null;
+  }>;
+}
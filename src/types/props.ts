@@ -1,4 +1,5 @@
 import { ScenarioTemplate, Message, Evaluation } from './models';
+import { ApiError, QuotaStatus } from './api';
 
 // App Component Props
 export interface AppProps {}
@@ -15,6 +16,21 @@ export interface ChatInterfaceProps {
   isLoading: boolean;
   suggestions: string[];
   isSuggestionsLoading: boolean;
+  isStreaming?: boolean;
+  onCancelResponse?: () => void;
+  /** The user's AI allowance, from the latest reply or quota error */
+  quota?: QuotaStatus | null;
+  /** Why the latest turn went unanswered */
+  turnError?: ApiError | null;
+  /** Sends the unanswered turn again */
+  onRetryTurn?: () => void;
+  onDismissTurnError?: () => void;
+  /** Whether the conversation can be regenerated, edited or branched now */
+  canBranch?: boolean;
+  onRegenerate?: () => void;
+  onEditLastMessage?: (content: string) => void;
+  /** Continues from the given user turn (1-based) on a new branch */
+  onBranchFromTurn?: (turnNumber: number) => void;
 }
 
 // ScenarioSelect Component Props
@@ -22,6 +38,10 @@ export interface ScenarioSelectProps {
   onSelectScenario: (scenario: ScenarioTemplate) => void;
   isGuest: boolean;
   onAuthRequired: (reason: string) => void;
+  /** Signed-in user's ID, used to load and save their custom rubrics */
+  userId?: string;
+  /** Starts a drill from the practice plan; rejects when it cannot be started */
+  onStartDrill?: (evaluationId: string, drillIndex: number) => Promise<void>;
 }
 
 // Feedback Component Props
@@ -29,9 +49,14 @@ export interface FeedbackProps {
   evaluation: Evaluation | null;
   scenario: ScenarioTemplate;
   onBackHome: () => void;
-  onRerunScenario: () => void;
+  /** Restarts the scenario at the given difficulty */
+  onRerunScenario: (difficulty: ScenarioTemplate['difficulty']) => void;
   isGuest: boolean;
   onAuthRequired?: (reason: string) => void;
+  /** Starts one of the evaluation's drills; rejects when it cannot be started */
+  onStartDrill?: (evaluationId: string, drillIndex: number) => Promise<void>;
+  /** Transcript of the session, for the emotional trajectory chart */
+  messages?: Message[];
 }
 
 // Sidebar Component Props
@@ -42,6 +67,8 @@ export interface SidebarProps {
   notes: string;
   onNotesChange: (notes: string) => void;
   onFileUpload?: (file: File) => void;
+  /** Conversation so far, for what stakeholders have opened up about */
+  messages?: Message[];
 }
 
 // AuthScreen Component Props
@@ -53,6 +80,7 @@ export interface AuthScreenProps {
 export interface ProgressDashboardProps {
   userId: string | undefined;
   onStartNewScenario: () => void;
+  onViewSessionDetails?: (sessionId: string) => void;
 }
 
 // ThemeToggle Component Props
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FirebaseError } from 'firebase/app';
+import { httpsCallable } from 'firebase/functions';
+import { CALL_TIMEOUTS, getCoachingHint, getSuggestions } from './aiService';
+import { ApiRequestError } from './errorHandling';
+import { CancelToken } from './raceConditionHandling';
+import type { ScenarioTemplate } from '../types/models';
+
+const { callable } = vi.hoisted(() => ({ callable: vi.fn() }));
+
+vi.mock('firebase/functions', () => ({
+  httpsCallable: vi.fn(() => callable),
+}));
+
+vi.mock('../firebase/config', () => ({
+  auth: { currentUser: null },
+  functions: {},
+  getFunctionUrl: (name: string) => `https://functions.test/${name}`,
+}));
+
+describe('aiService', () => {
+  const scenario = { id: 'scenario-1', title: 'Test Scenario' } as ScenarioTemplate;
+  const session = { scenario, transcript: [], turnCount: 1 };
+
+  beforeEach(() => {
+    callable.mockReset();
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should give every function its own timeout', () => {
+    expect(httpsCallable).toHaveBeenCalledWith({}, 'getCoachingHint', { timeout: CALL_TIMEOUTS.getCoachingHint });
+    expect(httpsCallable).toHaveBeenCalledWith({}, 'evaluateSession', { timeout: CALL_TIMEOUTS.evaluateSession });
+  });
+
+  it('should retry retryable errors with exponential backoff', async () => {
+    callable
+      .mockRejectedValueOnce(new FirebaseError('functions/unavailable', 'Unavailable'))
+      .mockRejectedValueOnce(new FirebaseError('functions/deadline-exceeded', 'Timed out'))
+      .mockResolvedValueOnce({ data: { hint: 'Ask about the budget' } });
+
+    const hint = getCoachingHint(session);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(callable).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(callable).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await expect(hint).resolves.toBe('Ask about the budget');
+    expect(callable).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fail with a normalized error once retries run out', async () => {
+    callable.mockRejectedValue(new FirebaseError('functions/unavailable', 'Unavailable'));
+
+    const hint = getCoachingHint(session).catch((error) => error);
+    await vi.runAllTimersAsync();
+    const error = await hint;
+
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect(error).toMatchObject({
+      code: 'unavailable',
+      userMessage: 'Service temporarily unavailable. Please try again.',
+      retryable: true,
+    });
+    expect(callable).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry errors that would fail again', async () => {
+    callable.mockRejectedValue(new FirebaseError('functions/invalid-argument', 'Bad scenario'));
+
+    await expect(getSuggestions(session)).rejects.toMatchObject({
+      code: 'invalid-argument',
+      retryable: false,
+    });
+    expect(callable).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting to retry once cancelled', async () => {
+    callable.mockRejectedValue(new FirebaseError('functions/internal', 'Internal'));
+    const cancelToken = new CancelToken();
+
+    const hint = getCoachingHint(session, { cancelToken }).catch((error) => error);
+    await vi.advanceTimersByTimeAsync(0);
+    cancelToken.cancel('Simulation closed');
+    await vi.runAllTimersAsync();
+
+    await expect(hint).resolves.toMatchObject({ code: 'cancelled', message: 'Simulation closed' });
+    expect(callable).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,389 @@
+// AI Service - handles simulation and evaluation via Firebase Functions with OpenAI API
+//
+// Every call has a timeout, is retried with exponential backoff when the
+// error is retryable (retryWithBackoff), can be cancelled with a
+// CancelToken, and fails with an ApiRequestError carrying a normalized
+// ApiError, so callers can show its userMessage and offer a retry.
+
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions, getFunctionUrl } from '../firebase/config';
+import { CancelToken } from './raceConditionHandling';
+import { ApiRequestError, handleApiError, retryWithBackoff } from './errorHandling';
+import type { Evaluation, Message, ScenarioTemplate } from '../types/models';
+import type {
+  BranchSessionRequest,
+  BranchSessionResponse,
+  CoachingHintResponse,
+  EvaluateSessionRequest,
+  GenerateScenarioRequest,
+  GenerateScenarioResponse,
+  GetCoachingHintRequest,
+  GetSuggestionsRequest,
+  SimulateStakeholderRequest,
+  StakeholderReply,
+  StartDrillRequest,
+  StartDrillResponse,
+  StakeholderResponse,
+  StakeholderStreamEvent,
+  SuggestionsResponse,
+} from '../types/api';
+
+// How long each call may take before it fails with deadline-exceeded, in
+// milliseconds. For streamed replies this is the longest wait for the next
+// piece of text.
+export const CALL_TIMEOUTS = {
+  simulateStakeholder: 60_000,
+  getCoachingHint: 30_000,
+  getSuggestions: 30_000,
+  evaluateSession: 120_000,
+  generateScenario: 90_000,
+  branchSession: 30_000,
+  startDrill: 90_000,
+} as const;
+
+// Attempts per call, including the first; retries wait 1s, then 2s
+export const MAX_ATTEMPTS = 3;
+
+type FunctionName = keyof typeof CALL_TIMEOUTS;
+
+export interface CallOptions {
+  cancelToken?: CancelToken;
+}
+
+export interface StakeholderResponseOptions extends CallOptions {
+  onStart?: (speaker: { stakeholder: string; role: string }) => void;
+  onDelta?: (text: string) => void;
+  onReply?: (reply: StakeholderReply) => void;
+}
+
+export interface SessionData {
+  scenario: ScenarioTemplate;
+  transcript: Message[];
+  turnCount: number;
+  sessionId?: string | null;
+  turnId?: string;
+}
+
+// Firebase Functions endpoints
+const callables = {
+  simulateStakeholder: httpsCallable<SimulateStakeholderRequest, StakeholderResponse>(
+    functions, 'simulateStakeholder', { timeout: CALL_TIMEOUTS.simulateStakeholder }),
+  evaluateSession: httpsCallable<EvaluateSessionRequest, Evaluation>(
+    functions, 'evaluateSession', { timeout: CALL_TIMEOUTS.evaluateSession }),
+  getCoachingHint: httpsCallable<GetCoachingHintRequest, CoachingHintResponse>(
+    functions, 'getCoachingHint', { timeout: CALL_TIMEOUTS.getCoachingHint }),
+  getSuggestions: httpsCallable<GetSuggestionsRequest, SuggestionsResponse>(
+    functions, 'getSuggestions', { timeout: CALL_TIMEOUTS.getSuggestions }),
+  generateScenario: httpsCallable<GenerateScenarioRequest, GenerateScenarioResponse>(
+    functions, 'generateScenario', { timeout: CALL_TIMEOUTS.generateScenario }),
+  branchSession: httpsCallable<BranchSessionRequest, BranchSessionResponse>(
+    functions, 'branchSession', { timeout: CALL_TIMEOUTS.branchSession }),
+  startDrill: httpsCallable<StartDrillRequest, StartDrillResponse>(
+    functions, 'startDrill', { timeout: CALL_TIMEOUTS.startDrill }),
+};
+
+// Error for a call the user cancelled; never retried
+const cancelledError = (reason: string | null) =>
+  new ApiRequestError({
+    code: 'cancelled',
+    message: reason || 'Operation cancelled',
+    userMessage: 'The request was cancelled.',
+    retryable: false,
+  });
+
+// Normalize anything a call can throw into an ApiRequestError
+export const toApiRequestError = (error: unknown, cancelToken?: CancelToken): ApiRequestError => {
+  if (cancelToken?.isCancelled) {
+    return cancelledError(cancelToken.reason);
+  }
+  if (error instanceof ApiRequestError) {
+    return error;
+  }
+  // fetch rejects with a TypeError when the network is down
+  if (error instanceof TypeError) {
+    return new ApiRequestError({
+      code: 'unavailable',
+      message: error.message,
+      userMessage: 'Network error. Please check your connection.',
+      retryable: true,
+    });
+  }
+  return new ApiRequestError(handleApiError(error));
+};
+
+// Settle with the call, or reject as soon as the token is cancelled; a
+// callable cannot be aborted, so its late result is ignored
+const raceCancel = <T>(promise: Promise<T>, cancelToken?: CancelToken): Promise<T> => {
+  if (!cancelToken) return promise;
+  return new Promise((resolve, reject) => {
+    const removeListener = cancelToken.onCancel((reason) => reject(cancelledError(reason)));
+    promise.then(resolve, reject).finally(removeListener);
+  });
+};
+
+// Call a Firebase Function with retries and return its data
+const callFunction = async <Req, Res>(
+  name: FunctionName,
+  data: Req,
+  { cancelToken }: CallOptions = {}
+): Promise<Res> => {
+  const callable = callables[name] as unknown as (data: Req) => Promise<{ data: Res }>;
+  try {
+    const result = await retryWithBackoff(() => raceCancel(callable(data), cancelToken), MAX_ATTEMPTS, cancelToken);
+    return result.data;
+  } catch (error) {
+    throw toApiRequestError(error, cancelToken);
+  }
+};
+
+// Simulate stakeholder response
+// Pass onDelta to stream the reply token by token from streamStakeholder;
+// onStart/onReply mark where each stakeholder's reply begins and ends, and
+// cancelToken (CancelToken) aborts the stream. Resolves with the same shape
+// as the callable either way. With a sessionId the server answers from the
+// saved session and records the turn; the transcript is only used by guests.
+// A turnId makes resending the turn safe: the server answers a turn it has
+// already recorded from the saved session, so failed turns can be retried.
+export const getStakeholderResponse = async (
+  sessionData: SessionData,
+  userMessage: string,
+  options: StakeholderResponseOptions = {}
+): Promise<StakeholderResponse> => {
+  // Ensure data is properly serializable (plain objects only)
+  const payload: SimulateStakeholderRequest = {
+    scenario: JSON.parse(JSON.stringify(sessionData.scenario)),
+    transcript: JSON.parse(JSON.stringify(sessionData.transcript)),
+    userMessage: String(userMessage),
+    turnCount: Number(sessionData.turnCount),
+    ...(sessionData.sessionId ? { sessionId: sessionData.sessionId } : {}),
+    ...(sessionData.turnId ? { turnId: sessionData.turnId } : {})
+  };
+
+  console.log('Sending to Firebase Function:', {
+    hasScenario: !!payload.scenario,
+    hasStakeholders: !!payload.scenario?.stakeholders,
+    transcriptLength: payload.transcript?.length || 0,
+    userMessage: payload.userMessage?.substring(0, 50)
+  });
+
+  if (options.onDelta) {
+    try {
+      return await streamStakeholderResponse(payload, options);
+    } catch (error) {
+      // Once text has reached the UI (or the user cancelled) a silent
+      // retry would duplicate or resurrect the reply
+      if ((error as StreamError).streamStarted || options.cancelToken?.isCancelled) {
+        throw toApiRequestError(error, options.cancelToken);
+      }
+      console.warn('Streaming unavailable, falling back to callable:', (error as Error).message);
+    }
+  }
+
+  return callFunction<SimulateStakeholderRequest, StakeholderResponse>(
+    'simulateStakeholder', payload, options);
+};
+
+type StreamError = Error & { streamStarted?: boolean };
+
+// Stream stakeholder replies from the NDJSON endpoint
+const streamStakeholderResponse = async (
+  payload: SimulateStakeholderRequest,
+  { onStart, onDelta, onReply, cancelToken }: StakeholderResponseOptions
+): Promise<StakeholderResponse> => {
+  const controller = new AbortController();
+  const removeCancelListener = cancelToken
+    ? cancelToken.onCancel(() => controller.abort())
+    : () => {};
+
+  // Give up when the next piece of the stream is overdue
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const armTimeout = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, CALL_TIMEOUTS.simulateStakeholder);
+  };
+
+  try {
+    armTimeout();
+    // Saved sessions are checked against the signed-in user, and every
+    // caller (guests included, via anonymous auth) is charged to their quota
+    const idToken = await auth.currentUser?.getIdToken();
+    const response = await fetch(getFunctionUrl('streamStakeholder'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(idToken ? { Authorization: `Bearer ${idToken}` } : {})
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+
+    // A caller over quota (429) falls back to the callable, which reports
+    // the limit as a resource-exhausted error
+    if (!response.ok || !response.body) {
+      throw new Error(`Streaming request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: StakeholderResponse | null = null;
+
+    const handleEvent = (event: StakeholderStreamEvent) => {
+      switch (event.type) {
+        case 'start':
+          onStart?.({ stakeholder: event.stakeholder, role: event.role });
+          break;
+        case 'delta':
+          onDelta?.(event.text);
+          break;
+        case 'end': {
+          const { type: _type, ...reply } = event;
+          onReply?.(reply);
+          break;
+        }
+        case 'done':
+          // As with the callable, an empty `responses` leaves the top-level
+          // fields unset; callers read `responses` first
+          result = {
+            ...(event.responses[0] as StakeholderReply),
+            responses: event.responses,
+            ...(event.session ? { session: event.session } : {}),
+            ...(event.quota ? { quota: event.quota } : {})
+          };
+          break;
+        case 'error':
+          throw new ApiRequestError({
+            code: 'internal',
+            message: event.message || 'Failed to generate response',
+            userMessage: event.message || 'The reply could not be generated. Please try again.',
+            retryable: true,
+          });
+        default:
+          break;
+      }
+    };
+
+    try {
+      for (;;) {
+        armTimeout();
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.filter((line) => line.trim()).forEach((line) => handleEvent(JSON.parse(line) as StakeholderStreamEvent));
+      }
+      if (buffer.trim()) {
+        handleEvent(JSON.parse(buffer) as StakeholderStreamEvent);
+      }
+    } catch (error) {
+      (error as StreamError).streamStarted = true;
+      throw error;
+    }
+
+    if (!result) {
+      const error: StreamError = new Error('Stream ended before the reply was complete');
+      error.streamStarted = true;
+      throw error;
+    }
+
+    return result;
+  } catch (error) {
+    if (cancelToken?.isCancelled) {
+      throw cancelledError(cancelToken.reason);
+    }
+    if (timedOut) {
+      const timeoutError: StreamError = new ApiRequestError({
+        code: 'deadline-exceeded',
+        message: 'Streaming reply timed out',
+        userMessage: 'The request took too long. Please try again.',
+        retryable: true,
+      });
+      timeoutError.streamStarted = (error as StreamError).streamStarted;
+      throw timeoutError;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    removeCancelListener();
+  }
+};
+
+// Get coaching hint during timeout
+export const getCoachingHint = async (sessionData: SessionData, options: CallOptions = {}): Promise<string> => {
+  const data = await callFunction<GetCoachingHintRequest, CoachingHintResponse>('getCoachingHint', {
+    scenario: sessionData.scenario,
+    transcript: sessionData.transcript,
+    turnCount: sessionData.turnCount,
+    ...(sessionData.sessionId ? { sessionId: sessionData.sessionId } : {})
+  }, options);
+  return data.hint;
+};
+
+// Get AI-powered conversation suggestions
+export const getSuggestions = async (
+  sessionData: Pick<SessionData, 'scenario' | 'transcript'>,
+  options: CallOptions = {}
+): Promise<string[]> => {
+  const data = await callFunction<GetSuggestionsRequest, SuggestionsResponse>('getSuggestions', {
+    scenario: sessionData.scenario,
+    transcript: sessionData.transcript
+  }, options);
+  return data.suggestions;
+};
+
+// Evaluate session performance
+export const evaluateSession = async (
+  sessionId: string | null,
+  sessionData: Pick<SessionData, 'scenario' | 'transcript'>,
+  options: CallOptions = {}
+): Promise<Evaluation> =>
+  callFunction<EvaluateSessionRequest, Evaluation>('evaluateSession', {
+    sessionId: sessionId,
+    scenario: sessionData.scenario,
+    transcript: sessionData.transcript,
+    rubricId: sessionData.scenario.rubricId
+  }, options);
+
+// Draft a complete custom scenario from a free-text brief
+export const generateScenario = async (
+  brief: string,
+  rubricId: string,
+  options: CallOptions = {}
+): Promise<ScenarioTemplate> => {
+  const data = await callFunction<GenerateScenarioRequest, GenerateScenarioResponse>('generateScenario', {
+    brief: String(brief),
+    rubricId
+  }, options);
+  return data.scenario;
+};
+
+// Continue a saved session on a new branch that keeps its first keepTurns
+// turns; branchId makes resending the request safe
+export const branchSession = async (
+  sessionId: string,
+  keepTurns: number,
+  branchId: string,
+  options: CallOptions = {}
+): Promise<BranchSessionResponse> =>
+  callFunction<BranchSessionRequest, BranchSessionResponse>('branchSession', {
+    sessionId,
+    branchId,
+    keepTurns
+  }, options);
+
+// Start one of an evaluation's recommended drills as a short saved session
+export const startDrill = async (
+  evaluationId: string,
+  drillIndex: number,
+  options: CallOptions = {}
+): Promise<StartDrillResponse> =>
+  callFunction<StartDrillRequest, StartDrillResponse>('startDrill', {
+    evaluationId,
+    drillIndex
+  }, options);
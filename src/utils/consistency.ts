@@ -0,0 +1,25 @@
+import type { ConsistencyFlags, Message } from '../types/models';
+
+/**
+ * Consistency helpers for the Notes tab. The server re-reads the whole
+ * conversation on every turn (functions/consistency.js) and returns the
+ * current flags with each reply, so only the latest set matters.
+ */
+
+const NO_FLAGS: ConsistencyFlags = { contradictions: [], unfulfilledCommitments: [] };
+
+/**
+ * Flags from the most recent reply that carried them; a commitment the user
+ * has since followed up on is no longer listed there
+ */
+export function getConsistencyFlags(messages: Message[]): ConsistencyFlags {
+  for (let idx = messages.length - 1; idx >= 0; idx--) {
+    const consistency = messages[idx]?.consistency;
+    if (consistency) return consistency;
+  }
+  return NO_FLAGS;
+}
+
+export function countConsistencyFlags(flags: ConsistencyFlags): number {
+  return flags.contradictions.length + flags.unfulfilledCommitments.length;
+}
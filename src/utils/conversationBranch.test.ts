@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { countUserTurns, getLastUserMessage, truncateMessages } from './conversationBranch';
+import type { Message } from '../types/models';
+
+describe('conversationBranch', () => {
+  const messages: Message[] = [
+    { type: 'user', content: 'Hi', timestamp: '2026-01-01T10:00:00.000Z' },
+    { type: 'ai', content: 'Hello', timestamp: '2026-01-01T10:00:05.000Z' },
+    { type: 'coaching', content: 'Ask about budget', timestamp: '2026-01-01T10:00:10.000Z' },
+    { type: 'user', content: 'Budget?', timestamp: '2026-01-01T10:00:20.000Z' },
+    { type: 'ai', content: 'Tight', timestamp: '2026-01-01T10:00:25.000Z' },
+  ];
+
+  it('should keep turns with their replies and hints', () => {
+    expect(truncateMessages(messages, 1).map((message) => message.content))
+      .toEqual(['Hi', 'Hello', 'Ask about budget']);
+    expect(truncateMessages(messages, 0)).toEqual([]);
+    expect(truncateMessages(messages, 2)).toBe(messages);
+  });
+
+  it('should find the latest turn', () => {
+    expect(countUserTurns(messages)).toBe(2);
+    expect(getLastUserMessage(messages)?.content).toBe('Budget?');
+    expect(getLastUserMessage([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,29 @@
+import type { Message } from '../types/models';
+
+/**
+ * Conversation branching helpers. Branching cuts the chat back to an
+ * earlier user turn so the learner can try that part of the conversation
+ * again. Saved sessions are branched by the branchSession function, which
+ * keeps every branch under the session (functions/sessionStore.js); guest
+ * sessions are branched on the client with the same rule.
+ */
+
+/** User turns in a conversation */
+export function countUserTurns(messages: Message[]): number {
+  return messages.filter((message) => message.type === 'user').length;
+}
+
+/**
+ * The start of a conversation, up to the replies to its nth user turn.
+ * Coaching hints given after that turn are dropped with the later turns.
+ */
+export function truncateMessages(messages: Message[], keepTurns: number): Message[] {
+  let turns = 0;
+  const end = messages.findIndex((message) => message.type === 'user' && ++turns > keepTurns);
+  return end === -1 ? messages : messages.slice(0, end);
+}
+
+/** The latest user turn, if any */
+export function getLastUserMessage(messages: Message[]): Message | undefined {
+  return [...messages].reverse().find((message) => message.type === 'user');
+}
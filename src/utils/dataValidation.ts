@@ -99,9 +99,12 @@ export function validateEvaluationData(data: any): ValidationResult<any> {
     const sanitized = {
       sessionId: data.sessionId,
       rubricId: typeof data.rubricId === 'string' ? data.rubricId : 'default',
-      overall_score: typeof data.overall_score === 'number' && data.overall_score >= 0 && data.overall_score <= 100
-        ? data.overall_score
-        : 0,
+      overall_score: data.degraded
+        ? null
+        : typeof data.overall_score === 'number' && data.overall_score >= 0 && data.overall_score <= 100
+          ? data.overall_score
+          : 0,
+      degraded: data.degraded === true,
       criterion_scores: Array.isArray(data.criterion_scores) ? data.criterion_scores : [],
       missed_opportunities: Array.isArray(data.missed_opportunities) ? data.missed_opportunities : [],
       moments_that_mattered: Array.isArray(data.moments_that_mattered) ? data.moments_that_mattered : [],
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getEasierDifficulty, getHarderDifficulty, suggestNextDifficulty } from './difficulty';
+
+describe('difficulty', () => {
+  it('steps between levels and stops at the ends', () => {
+    expect(getHarderDifficulty('Easy')).toBe('Medium');
+    expect(getHarderDifficulty('Hard')).toBeNull();
+    expect(getEasierDifficulty('Medium')).toBe('Easy');
+    expect(getEasierDifficulty('Easy')).toBeNull();
+  });
+
+  it('moves up after a strong score and down after a weak one', () => {
+    expect(suggestNextDifficulty('Medium', 85).difficulty).toBe('Hard');
+    expect(suggestNextDifficulty('Medium', 84).difficulty).toBe('Medium');
+    expect(suggestNextDifficulty('Medium', 49).difficulty).toBe('Easy');
+    expect(suggestNextDifficulty('Medium', 50).difficulty).toBe('Medium');
+  });
+
+  it('stays put at the ends and when the session was not scored', () => {
+    expect(suggestNextDifficulty('Hard', 95)).toEqual({
+      difficulty: 'Hard',
+      reason: 'You scored 95 at the hardest level. Keep it up.',
+    });
+    expect(suggestNextDifficulty('Easy', 20).difficulty).toBe('Easy');
+    expect(suggestNextDifficulty('Hard', null).difficulty).toBe('Hard');
+  });
+});
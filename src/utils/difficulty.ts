@@ -0,0 +1,84 @@
+import { ScenarioTemplate } from '../types/models';
+import { SCORE_LABELS } from '../constants/rubrics';
+
+export type Difficulty = ScenarioTemplate['difficulty'];
+
+/** Levels from easiest to hardest */
+export const DIFFICULTY_LEVELS: readonly Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+/** Scoring "Strong" moves the learner up a level */
+export const LEVEL_UP_SCORE = SCORE_LABELS[3]!.min;
+
+/** Scoring "Needs Work" moves the learner down a level */
+export const LEVEL_DOWN_SCORE = SCORE_LABELS[1]!.min;
+
+/** What stakeholders do differently at each level, for the feedback screen */
+export const DIFFICULTY_DESCRIPTIONS: Record<Difficulty, string> = {
+  Easy: 'Stakeholders accept reasonable answers and give you time to find your footing.',
+  Medium: 'Stakeholders push back on vague claims and expect their concerns addressed.',
+  Hard: 'Stakeholders object often, keep a concern to themselves until you ask, lose patience quickly and are short on time.',
+};
+
+export interface DifficultySuggestion {
+  difficulty: Difficulty;
+  /** Why this level was picked, in plain words */
+  reason: string;
+}
+
+/** Public concerns held back at each level; mirrors functions/difficultyProfiles.js */
+const WITHHELD_CONCERNS: Record<Difficulty, number> = { Easy: 0, Medium: 0, Hard: 1 };
+
+/**
+ * Concerns a stakeholder keeps to themselves at this level: the last ones
+ * in the list, always leaving at least one in the open
+ */
+export function getWithheldConcerns(concerns: string[], difficulty: Difficulty): string[] {
+  const count = Math.min(WITHHELD_CONCERNS[difficulty] ?? 0, concerns.length - 1);
+  return count > 0 ? concerns.slice(-count) : [];
+}
+
+/**
+ * Get the next level up, or null at the top
+ */
+export function getHarderDifficulty(difficulty: Difficulty): Difficulty | null {
+  const index = DIFFICULTY_LEVELS.indexOf(difficulty);
+  return DIFFICULTY_LEVELS[index + 1] ?? null;
+}
+
+/**
+ * Get the next level down, or null at the bottom
+ */
+export function getEasierDifficulty(difficulty: Difficulty): Difficulty | null {
+  const index = DIFFICULTY_LEVELS.indexOf(difficulty);
+  return DIFFICULTY_LEVELS[index - 1] ?? null;
+}
+
+/**
+ * Suggest the level for the next attempt from the score just earned
+ * @param current - Difficulty the session was played at
+ * @param overallScore - Overall score out of 100, null when unscored
+ */
+export function suggestNextDifficulty(current: Difficulty, overallScore: number | null): DifficultySuggestion {
+  if (overallScore === null) {
+    return { difficulty: current, reason: `This session wasn't scored, so stay at ${current}.` };
+  }
+
+  if (overallScore >= LEVEL_UP_SCORE) {
+    const harder = getHarderDifficulty(current);
+    return harder
+      ? { difficulty: harder, reason: `You scored ${overallScore} at ${current}. Ready for ${harder}.` }
+      : { difficulty: current, reason: `You scored ${overallScore} at the hardest level. Keep it up.` };
+  }
+
+  if (overallScore < LEVEL_DOWN_SCORE) {
+    const easier = getEasierDifficulty(current);
+    if (easier) {
+      return { difficulty: easier, reason: `You scored ${overallScore} at ${current}. Build confidence at ${easier} first.` };
+    }
+  }
+
+  return {
+    difficulty: current,
+    reason: `You scored ${overallScore} at ${current}. Score ${LEVEL_UP_SCORE}+ to move up a level.`,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { EMOTIONAL_STATES, getEmotionalTrajectories } from './emotionalTrajectory';
+import type { EmotionalSnapshot, Message } from '../types/models';
+
+const timestamp = new Date().toISOString();
+
+const mood = (state: EmotionalSnapshot['state'], addressed = 0): EmotionalSnapshot => ({
+  state,
+  trajectory: 'stable',
+  concernsAddressed: ['Budget', 'Timeline'].slice(0, addressed),
+  concernsUnaddressed: ['Budget', 'Timeline'].slice(addressed),
+});
+
+describe('emotionalTrajectory', () => {
+  it('orders states from most to least positive', () => {
+    expect(EMOTIONAL_STATES[0]).toBe('satisfied');
+    expect(EMOTIONAL_STATES[EMOTIONAL_STATES.length - 1]).toBe('frustrated');
+  });
+
+  it('groups moods by stakeholder and numbers them by user turn', () => {
+    const messages: Message[] = [
+      { type: 'user', content: 'Hi both', timestamp },
+      { type: 'ai', content: 'Hi', timestamp, stakeholder: 'Jamie', emotionalState: mood('neutral') },
+      { type: 'ai', content: 'Hello', timestamp, stakeholder: 'Taylor', emotionalState: mood('skeptical') },
+      { type: 'coaching', content: 'Ask about budget', timestamp },
+      { type: 'user', content: 'It fits the budget', timestamp },
+      { type: 'ai', content: 'Good', timestamp, stakeholder: 'Jamie', emotionalState: mood('curious', 1) },
+      { type: 'ai', content: 'Saved before moods were tracked', timestamp, stakeholder: 'Taylor' },
+    ];
+
+    expect(getEmotionalTrajectories(messages)).toEqual([
+      {
+        stakeholder: 'Jamie',
+        points: [
+          { turn: 1, state: 'neutral', concernsAddressed: 0, concernsTotal: 2 },
+          { turn: 2, state: 'curious', concernsAddressed: 1, concernsTotal: 2 },
+        ],
+      },
+      {
+        stakeholder: 'Taylor',
+        points: [{ turn: 1, state: 'skeptical', concernsAddressed: 0, concernsTotal: 2 }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import type { EmotionalSnapshot, EmotionalState, Message } from '../types/models';
+
+/**
+ * Emotional trajectory helpers. The server tracks each stakeholder's mood
+ * (functions/emotionalStateTracker.js) and returns it with every reply;
+ * these turn the stored snapshots into labels and chart points.
+ */
+
+export const EMOTIONAL_STATE_LABELS: Record<EmotionalState, string> = {
+  frustrated: 'Frustrated',
+  concerned: 'Concerned',
+  skeptical: 'Skeptical',
+  neutral: 'Neutral',
+  curious: 'Curious',
+  warming_up: 'Warming up',
+  satisfied: 'Satisfied',
+};
+
+/**
+ * How positive each state is; mirrors stateScores in
+ * functions/emotionalStateTracker.js
+ */
+export const EMOTIONAL_STATE_SCORES: Record<EmotionalState, number> = {
+  frustrated: 1,
+  concerned: 2,
+  skeptical: 3,
+  neutral: 4,
+  curious: 5,
+  warming_up: 6,
+  satisfied: 7,
+};
+
+/** States from most to least positive, as drawn top to bottom */
+export const EMOTIONAL_STATES = (Object.keys(EMOTIONAL_STATE_SCORES) as EmotionalState[])
+  .sort((a, b) => EMOTIONAL_STATE_SCORES[b] - EMOTIONAL_STATE_SCORES[a]);
+
+export interface TrajectoryPoint {
+  /** The user turn the reply answered, counting from 1 */
+  turn: number;
+  state: EmotionalState;
+  concernsAddressed: number;
+  concernsTotal: number;
+}
+
+export interface StakeholderTrajectory {
+  stakeholder: string;
+  points: TrajectoryPoint[];
+}
+
+/**
+ * Short description of a snapshot for the mood indicator
+ */
+export function describeEmotionalState(snapshot: EmotionalSnapshot): string {
+  const label = EMOTIONAL_STATE_LABELS[snapshot.state] ?? EMOTIONAL_STATE_LABELS.neutral;
+  const total = snapshot.concernsAddressed.length + snapshot.concernsUnaddressed.length;
+  return total > 0
+    ? `${label}, ${snapshot.concernsAddressed.length} of ${total} concerns addressed`
+    : label;
+}
+
+/**
+ * Each stakeholder's mood after every user turn, in speaking order. Replies
+ * saved before moods were tracked are skipped.
+ */
+export function getEmotionalTrajectories(messages: Message[]): StakeholderTrajectory[] {
+  const trajectories = new Map<string, TrajectoryPoint[]>();
+  let turn = 0;
+
+  messages.forEach((message) => {
+    if (message.type === 'user') {
+      turn += 1;
+      return;
+    }
+    if (message.type !== 'ai' || !message.emotionalState || turn === 0) return;
+
+    const { state, concernsAddressed, concernsUnaddressed } = message.emotionalState;
+    const stakeholder = message.stakeholder ?? 'Stakeholder';
+    const points = trajectories.get(stakeholder) ?? [];
+    points.push({
+      turn,
+      state,
+      concernsAddressed: concernsAddressed.length,
+      concernsTotal: concernsAddressed.length + concernsUnaddressed.length,
+    });
+    trajectories.set(stakeholder, points);
+  });
+
+  return Array.from(trajectories, ([stakeholder, points]) => ({ stakeholder, points }));
+}
@@ -179,6 +179,28 @@ describe('errorHandling', () => {
         { numRuns: 100 }
       );
     });
+
+    it('should carry the quota of a callable resource-exhausted error', () => {
+      const quota = {
+        tier: 'guest' as const,
+        requestsPerMinute: 6,
+        requestsRemaining: 3,
+        tokensPerDay: 30000,
+        tokensRemaining: 0,
+        resetsAt: '2026-03-03T00:00:00.000Z',
+        exceeded: 'tokens' as const,
+      };
+      const error = Object.assign(
+        new FirebaseError('functions/resource-exhausted', "You've used today's AI allowance."),
+        { details: { quota } }
+      );
+
+      const result = handleApiError(error);
+
+      expect(result).toMatchObject({ code: 'resource-exhausted', retryable: false, quota });
+      expect(result.userMessage).toContain("You've used today's AI allowance");
+      expect(result.userMessage).toContain('Sign in for a larger daily allowance');
+    });
   });
 
   describe('retryWithBackoff', () => {
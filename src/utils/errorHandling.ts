@@ -1,5 +1,7 @@
 import { FirebaseError } from 'firebase/app';
-import { ApiError } from '../types/api';
+import { ApiError, QuotaStatus } from '../types/api';
+import { describeQuota } from './quota';
+import type { CancelToken } from './raceConditionHandling';
 
 /**
  * Maps Firebase error codes to user-friendly messages
@@ -20,17 +22,42 @@ function getFirebaseErrorMessage(code: string): string {
     'resource-exhausted': 'Service quota exceeded. Please try again later.',
     'unauthenticated': 'Please sign in to continue.',
     'unavailable': 'Service temporarily unavailable. Please try again.',
+    'deadline-exceeded': 'The request took too long. Please try again.',
+    'cancelled': 'The request was cancelled.',
   };
 
   return errorMessages[code] || 'An unexpected error occurred. Please try again.';
 }
 
+/**
+ * Firebase error code without the service prefix callable functions add,
+ * e.g. 'functions/not-found' becomes 'not-found'
+ * @param error - Firebase error
+ * @returns Normalized error code
+ */
+function getFirebaseErrorCode(error: FirebaseError): string {
+  return error.code.replace(/^functions\//, '');
+}
+
+/**
+ * Reads the caller's quota from a resource-exhausted function error
+ * @param error - Firebase error
+ * @returns Quota status, or null for any other error
+ */
+function getQuotaDetails(error: FirebaseError): QuotaStatus | null {
+  if (getFirebaseErrorCode(error) !== 'resource-exhausted') {
+    return null;
+  }
+  const details = (error as FirebaseError & { details?: { quota?: QuotaStatus } }).details;
+  return details?.quota ?? null;
+}
+
 /**
  * Determines if a Firebase error is retryable
  * @param code - Firebase error code
  * @returns True if the error should be retried, false otherwise
  */
-function isRetryableFirebaseError(code: string): boolean {
+export function isRetryableFirebaseError(code: string): boolean {
   const retryableErrors = [
     'unavailable',
     'deadline-exceeded',
@@ -43,6 +70,28 @@ function isRetryableFirebaseError(code: string): boolean {
   return retryableErrors.includes(code);
 }
 
+/**
+ * Error carrying a normalized ApiError, thrown by the AI service so callers
+ * can show its userMessage and offer a retry when it is retryable
+ */
+export class ApiRequestError extends Error implements ApiError {
+  code: string;
+  userMessage: string;
+  retryable: boolean;
+  quota?: QuotaStatus;
+
+  constructor(apiError: ApiError) {
+    super(apiError.message);
+    this.name = 'ApiRequestError';
+    this.code = apiError.code;
+    this.userMessage = apiError.userMessage;
+    this.retryable = apiError.retryable;
+    if (apiError.quota) {
+      this.quota = apiError.quota;
+    }
+  }
+}
+
 /**
  * Handles API errors and converts them to a standardized format
  * @param error - The error to handle (can be any type)
@@ -58,12 +107,36 @@ function isRetryableFirebaseError(code: string): boolean {
  * ```
  */
 export function handleApiError(error: unknown): ApiError {
-  if (error instanceof FirebaseError) {
+  if (error instanceof ApiRequestError) {
     return {
       code: error.code,
       message: error.message,
-      userMessage: getFirebaseErrorMessage(error.code),
-      retryable: isRetryableFirebaseError(error.code),
+      userMessage: error.userMessage,
+      retryable: error.retryable,
+      ...(error.quota ? { quota: error.quota } : {}),
+    };
+  }
+
+  if (error instanceof FirebaseError) {
+    const code = getFirebaseErrorCode(error);
+
+    // Over quota: waiting is the only fix, so retrying would not help
+    const quota = getQuotaDetails(error);
+    if (quota) {
+      return {
+        code,
+        message: error.message,
+        userMessage: describeQuota(quota),
+        retryable: false,
+        quota,
+      };
+    }
+
+    return {
+      code,
+      message: error.message,
+      userMessage: getFirebaseErrorMessage(code),
+      retryable: isRetryableFirebaseError(code),
     };
   }
 
@@ -88,10 +161,13 @@ export function handleApiError(error: unknown): ApiError {
  * Retries a function with exponential backoff
  * 
  * Implements exponential backoff strategy: 1s, 2s, 4s delays between retries.
- * Only retries if the error is marked as retryable.
+ * Only retries if the error is marked as retryable, and not while the
+ * browser is offline. Cancelling the token ends the wait for the next
+ * attempt and rejects with the cancellation error.
  * 
  * @param fn - The async function to retry
  * @param maxRetries - Maximum number of retry attempts (default: 3)
+ * @param cancelToken - Optional token that stops further attempts
  * @returns The result of the function
  * @throws The last error if all retries fail or error is not retryable
  * @example
@@ -104,25 +180,38 @@ export function handleApiError(error: unknown): ApiError {
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
-  maxRetries: number = 3
+  maxRetries: number = 3,
+  cancelToken?: CancelToken
 ): Promise<T> {
   let lastError: Error;
 
   for (let i = 0; i < maxRetries; i++) {
+    cancelToken?.throwIfCancelled();
     try {
       return await fn();
     } catch (error) {
       lastError = error as Error;
       const apiError = handleApiError(error);
+      const isOffline = typeof navigator !== 'undefined' && !navigator.onLine;
 
-      // Don't retry if error is not retryable or this is the last attempt
-      if (!apiError.retryable || i === maxRetries - 1) {
+      // Don't retry if error is not retryable, the connection is gone, the
+      // caller gave up or this is the last attempt
+      if (!apiError.retryable || isOffline || cancelToken?.isCancelled || i === maxRetries - 1) {
         throw error;
       }
 
       // Exponential backoff: 1s, 2s, 4s
       const delay = Math.pow(2, i) * 1000;
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          removeListener?.();
+          resolve();
+        }, delay);
+        const removeListener = cancelToken?.onCancel(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
     }
   }
 
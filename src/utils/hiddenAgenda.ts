@@ -0,0 +1,59 @@
+import type { Message, RevealedItem, ScenarioTemplate, Stakeholder } from '../types/models';
+import { getWithheldConcerns } from './difficulty';
+
+/**
+ * Hidden agenda helpers for the sidebar. The server decides which questions
+ * uncover what (functions/hiddenAgenda.js) and returns it on each reply;
+ * these only count what there is to find and collect what has been found.
+ */
+
+export interface DiscoveredItem extends RevealedItem {
+  stakeholder: string;
+}
+
+/**
+ * Number of things a stakeholder keeps to themselves at this difficulty
+ */
+export function countHiddenAgenda(stakeholder: Stakeholder, difficulty: ScenarioTemplate['difficulty']): number {
+  const hasText = (item: { text: string }) => item.text.trim().length > 0;
+  return getWithheldConcerns(stakeholder.concerns, difficulty).length
+    + (stakeholder.hiddenConcerns ?? []).filter(hasText).length
+    + (stakeholder.hiddenMotivations ?? []).filter(hasText).length;
+}
+
+/**
+ * Whether anyone in the scenario has something to uncover, which adds the
+ * Discovery criterion to its rubric
+ */
+export function hasHiddenAgenda(scenario: ScenarioTemplate): boolean {
+  return scenario.stakeholders.some((stakeholder) => countHiddenAgenda(stakeholder, scenario.difficulty) > 0);
+}
+
+/**
+ * Everything stakeholders have opened up about so far, in the order it was
+ * revealed
+ */
+export function getDiscoveredItems(messages: Message[]): DiscoveredItem[] {
+  const seen = new Set<string>();
+  const discovered: DiscoveredItem[] = [];
+  messages.forEach((message) => {
+    (message.revealed ?? []).forEach((item) => {
+      const stakeholder = message.stakeholder ?? '';
+      const key = `${stakeholder}|${item.kind}|${item.text}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        discovered.push({ stakeholder, kind: item.kind, text: item.text });
+      }
+    });
+  });
+  return discovered;
+}
+
+/**
+ * Public concerns the learner is shown up front; those the difficulty
+ * withholds only appear once discovered
+ */
+export function getVisibleConcerns(stakeholder: Stakeholder, difficulty: ScenarioTemplate['difficulty']): string[] {
+  const withheld = getWithheldConcerns(stakeholder.concerns, difficulty);
+  return stakeholder.concerns.filter((concern) => !withheld.includes(concern));
+}
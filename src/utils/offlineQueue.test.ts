@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FirebaseError } from 'firebase/app';
+import { getPendingMessages, insertRepliesAfterTurn, isConnectionError } from './offlineQueue';
+import type { Message } from '../types/models';
+
+describe('offlineQueue', () => {
+  beforeEach(() => {
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: true });
+  });
+
+  const messages: Message[] = [
+    { type: 'user', content: 'First', timestamp: '2026-01-01T10:00:00.000Z', turnId: 't1', pending: true },
+    { type: 'user', content: 'Second', timestamp: '2026-01-01T10:00:05.000Z', turnId: 't2', pending: true },
+  ];
+
+  it('should put replies after their turn and ahead of turns still queued', () => {
+    const reply: Message = { type: 'ai', content: 'Noted', timestamp: '2026-01-01T10:01:00.000Z' };
+
+    const result = insertRepliesAfterTurn(messages, 't1', [reply]);
+
+    expect(result.map((message) => message.content)).toEqual(['First', 'Noted', 'Second']);
+    expect(result[0]).not.toHaveProperty('pending');
+    expect(getPendingMessages(result).map((message) => message.turnId)).toEqual(['t2']);
+  });
+
+  it('should leave the chat alone for a turn that is gone', () => {
+    expect(insertRepliesAfterTurn(messages, 'missing', [])).toBe(messages);
+  });
+
+  it('should only wait for the connection on connection errors', () => {
+    expect(isConnectionError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isConnectionError(new FirebaseError('functions/unavailable', 'unavailable'))).toBe(true);
+    expect(isConnectionError(new FirebaseError('functions/internal', 'internal'))).toBe(false);
+    expect(isConnectionError(new Error('API Error'))).toBe(false);
+
+    Object.defineProperty(navigator, 'onLine', { writable: true, value: false });
+    expect(isConnectionError(new FirebaseError('functions/internal', 'internal'))).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { FirebaseError } from 'firebase/app';
+import { ApiRequestError } from './errorHandling';
+import type { Message } from '../types/models';
+
+/**
+ * Offline queue for simulation turns. A turn the user sends while offline,
+ * or that fails because the connection dropped, stays in the chat as
+ * "pending" and is sent again once the browser is back online.
+ *
+ * Every user turn carries a client-generated turnId. The server records it
+ * with the turn (functions/sessionStore.js) and answers a turn it has
+ * already recorded from the stored transcript, so a retry never duplicates
+ * or reorders turns. Saved sessions keep their pending turns in IndexedDB
+ * so they survive a reload; guest sessions cannot be resumed, so their
+ * pending turns only live as long as the page.
+ */
+
+const DB_NAME = 'skillloops-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingTurns';
+
+/**
+ * A user turn waiting to be sent
+ */
+export interface PendingTurn {
+  turnId: string;
+  /** Saved session the turn belongs to */
+  sessionId: string;
+  content: string;
+  timestamp: string;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the queue database, or resolves to null where IndexedDB is missing
+ * or blocked (private browsing, tests)
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  databasePromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result
+        .createObjectStore(STORE_NAME, { keyPath: 'turnId' })
+        .createIndex('sessionId', 'sessionId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Offline queue unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return databasePromise;
+}
+
+/**
+ * Runs one request against the pending turns store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const database = await openDatabase();
+  if (!database) return null;
+
+  return new Promise((resolve, reject) => {
+    const request = work(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function savePendingTurn(turn: PendingTurn): Promise<void> {
+  await withStore('readwrite', (store) => store.put(turn));
+}
+
+export async function removePendingTurn(turnId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(turnId));
+}
+
+/** Pending turns of a saved session, oldest first */
+export async function loadPendingTurns(sessionId: string): Promise<PendingTurn[]> {
+  const turns = await withStore('readonly', (store) =>
+    store.index('sessionId').getAll(sessionId) as IDBRequest<PendingTurn[]>
+  );
+  return (turns || []).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/** New id for a user turn */
+export function createTurnId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Whether a failed turn should wait for the connection rather than be
+ * reported as an error. Callable functions report a dropped connection as
+ * 'functions/internal', so the browser's own status decides most cases.
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  if (error instanceof FirebaseError || error instanceof ApiRequestError) {
+    return ['functions/unavailable', 'unavailable', 'auth/network-request-failed'].includes(error.code);
+  }
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+}
+
+/** User messages still waiting to be sent, oldest first */
+export function getPendingMessages(messages: Message[]): Message[] {
+  return messages.filter((message) => message.pending);
+}
+
+/**
+ * Chat after a pending turn was answered: the turn is no longer pending and
+ * its replies follow it, ahead of any turns still queued behind it
+ */
+export function insertRepliesAfterTurn(messages: Message[], turnId: string, replies: Message[]): Message[] {
+  const index = messages.findIndex((message) => message.turnId === turnId);
+  if (index === -1) return messages;
+
+  const { pending: _pending, ...turn } = messages[index]!;
+  return [...messages.slice(0, index), turn, ...replies, ...messages.slice(index + 1)];
+}
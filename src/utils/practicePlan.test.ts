@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getNextPracticeDate, getTodaysPractice } from './practicePlan';
+import type { PracticePlanItem } from '../types/models';
+
+function item(criterion: string, dueAt: Date, score = 2): PracticePlanItem {
+  return {
+    criterion,
+    score,
+    ease: 2.5,
+    repetitions: 0,
+    intervalDays: 1,
+    streak: 0,
+    dueAt: dueAt.toISOString(),
+    practisedAt: dueAt.toISOString(),
+    activity: 'rerun',
+  };
+}
+
+describe('practicePlan', () => {
+  const now = new Date(2026, 2, 10, 9, 0);
+  const yesterday = new Date(2026, 2, 9, 9, 0);
+  const tonight = new Date(2026, 2, 10, 21, 0);
+  const nextWeek = new Date(2026, 2, 17, 9, 0);
+
+  it('picks items due by the end of today, most overdue and weakest first', () => {
+    const items = [
+      item('Empathy', tonight, 3),
+      item('Clarity', tonight, 1),
+      item('Evidence', nextWeek),
+      item('Framing', yesterday),
+    ];
+
+    expect(getTodaysPractice(items, now).map((i) => i.criterion))
+      .toEqual(['Framing', 'Clarity', 'Empathy']);
+    expect(getTodaysPractice(items, now, 1)).toHaveLength(1);
+  });
+
+  it('finds when practice is next due after today', () => {
+    expect(getNextPracticeDate([item('Framing', tonight), item('Evidence', nextWeek)], now))
+      .toEqual(nextWeek);
+    expect(getNextPracticeDate([item('Framing', tonight)], now)).toBeNull();
+  });
+});
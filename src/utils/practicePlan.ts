@@ -0,0 +1,36 @@
+import { PracticePlanItem } from '../types/models';
+
+/** Most items the "Today's practice" panel asks for in a day */
+export const DAILY_PRACTICE_LIMIT = 3;
+
+function endOfDay(now: Date): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Plan items due by the end of today, longest overdue first and weakest
+ * first among those due at the same time. The functions keep the schedule
+ * (functions/practicePlan.js); this only picks from it.
+ */
+export function getTodaysPractice(
+  items: PracticePlanItem[],
+  now: Date = new Date(),
+  limit: number = DAILY_PRACTICE_LIMIT
+): PracticePlanItem[] {
+  const end = endOfDay(now).getTime();
+  return items
+    .filter((item) => new Date(item.dueAt).getTime() <= end)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt) || a.score - b.score)
+    .slice(0, limit);
+}
+
+/** When the next item after today is due, or null if nothing is scheduled */
+export function getNextPracticeDate(items: PracticePlanItem[], now: Date = new Date()): Date | null {
+  const end = endOfDay(now).getTime();
+  const upcoming = items
+    .map((item) => new Date(item.dueAt).getTime())
+    .filter((time) => time > end);
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+}
@@ -0,0 +1,41 @@
+import type { QuotaStatus } from '../types/api';
+
+/**
+ * Quota helpers for the chat banner. The server charges every AI call to
+ * the caller (functions/quota.js) and returns their allowance with each
+ * reply, or with the resource-exhausted error once a limit is hit.
+ */
+
+/** Share of the daily allowance below which the banner stands out */
+const LOW_ALLOWANCE_SHARE = 0.2;
+
+/** Percentage of today's token allowance still available */
+export function getAllowanceLeft(quota: QuotaStatus): number {
+  if (quota.tokensPerDay <= 0) return 0;
+  return Math.round((quota.tokensRemaining / quota.tokensPerDay) * 100);
+}
+
+/** Whether the allowance is low enough to call out: a limit was hit or little is left */
+export function isQuotaLow(quota: QuotaStatus | null | undefined): quota is QuotaStatus {
+  return !!quota && (
+    quota.exceeded !== null ||
+    quota.tokensRemaining <= quota.tokensPerDay * LOW_ALLOWANCE_SHARE
+  );
+}
+
+/** Short explanation of where the user stands, for banners and errors */
+export function describeQuota(quota: QuotaStatus): string {
+  const resetTime = new Date(quota.resetsAt).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  const signInHint = quota.tier === 'guest' ? ' Sign in for a larger daily allowance.' : '';
+
+  if (quota.exceeded === 'rate') {
+    return `You're sending messages faster than ${quota.requestsPerMinute} a minute. Try again at ${resetTime}.`;
+  }
+  if (quota.exceeded === 'tokens') {
+    return `You've used today's AI allowance. It resets at ${resetTime}.${signInHint}`;
+  }
+  return `${getAllowanceLeft(quota)}% of today's AI allowance left.${signInHint}`;
+}
@@ -50,10 +50,33 @@ export function debounce<T extends (...args: any[]) => any>(
 export class CancelToken {
   private _cancelled = false;
   private _reason: string | null = null;
+  private _listeners: Array<(reason: string) => void> = [];
 
   cancel(reason: string = 'Operation cancelled'): void {
+    if (this._cancelled) {
+      return;
+    }
     this._cancelled = true;
     this._reason = reason;
+    const listeners = this._listeners;
+    this._listeners = [];
+    listeners.forEach((listener) => listener(reason));
+  }
+
+  /**
+   * Registers a callback for cancellation (e.g. to abort a fetch).
+   * Runs immediately if the token is already cancelled.
+   * Returns a function that removes the callback.
+   */
+  onCancel(listener: (reason: string) => void): () => void {
+    if (this._cancelled) {
+      listener(this._reason || 'Operation cancelled');
+      return () => {};
+    }
+    this._listeners.push(listener);
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
   }
 
   get isCancelled(): boolean {
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEmptyRubricDraft,
+  draftToRubric,
+  rubricToDraft,
+  validateRubricDraft,
+  RubricDraft,
+} from './rubricDraft';
+import { getRubric } from '../constants/rubrics';
+
+function createDraft(overrides: Partial<RubricDraft> = {}): RubricDraft {
+  return {
+    name: 'Incident Postmortem',
+    criteria: [
+      {
+        name: 'Timeline',
+        weightPercent: 60,
+        description: 'Reconstructs what happened and when',
+        anchors: { 1: 'Missing', 3: 'Partial', 5: 'Minute by minute' },
+      },
+      {
+        name: 'Blamelessness',
+        weightPercent: 40,
+        description: 'Focuses on systems, not people',
+        anchors: { 1: 'Blames people', 3: 'Mixed', 5: 'Fully blameless' },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('rubricDraft', () => {
+  it('accepts a complete draft whose weights add up to 100%', () => {
+    expect(validateRubricDraft(createDraft()).valid).toBe(true);
+  });
+
+  it('rejects weights that do not add up to 100%', () => {
+    const draft = createDraft();
+    draft.criteria[1]!.weightPercent = 30;
+
+    const { valid, errors } = validateRubricDraft(draft);
+
+    expect(valid).toBe(false);
+    expect(errors.weights).toBe('Weights must add up to 100% (currently 90%).');
+  });
+
+  it('reports missing fields on the criterion they belong to', () => {
+    const draft = createDraft();
+    draft.criteria[0]!.description = ' ';
+    draft.criteria[1]!.anchors = { 1: 'Blames people', 3: '', 5: 'Fully blameless' };
+    draft.criteria[1]!.name = 'timeline';
+
+    const { errors } = validateRubricDraft(draft);
+
+    expect(errors.criteria[0]).toEqual({ description: 'Describe what this criterion measures.' });
+    expect(errors.criteria[1]).toEqual({
+      name: 'Each criterion needs a different name.',
+      anchors: 'Describe what a 1, 3 and 5 look like.',
+    });
+  });
+
+  it('requires a name and at least one criterion', () => {
+    const { errors } = validateRubricDraft(createDraft({ name: '', criteria: [] }));
+    expect(errors.name).toBe('Give the rubric a name.');
+    expect(errors.weights).toBe('Add at least one criterion.');
+  });
+
+  it('starts new drafts with one criterion at 100%', () => {
+    const draft = createEmptyRubricDraft();
+    expect(draft.criteria).toHaveLength(1);
+    expect(draft.criteria[0]?.weightPercent).toBe(100);
+  });
+
+  it('converts between percentages and stored fractions', () => {
+    const rubric = draftToRubric(createDraft({ name: '  Incident Postmortem ' }));
+    expect(rubric.name).toBe('Incident Postmortem');
+    expect(rubric.criteria.map((criterion) => criterion.weight)).toEqual([0.6, 0.4]);
+
+    const builtIn = getRubric('persuasion_director');
+    const roundTrip = draftToRubric(rubricToDraft(builtIn));
+    expect(roundTrip.criteria).toEqual(builtIn.criteria);
+  });
+});
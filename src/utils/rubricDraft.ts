@@ -0,0 +1,134 @@
+/**
+ * Rubric editor drafts
+ * The editor works in whole percentages; saved rubrics store weights as
+ * fractions of 1, like the built-in rubrics in functions/rubrics.json.
+ */
+
+import type { Rubric, RubricCriterion } from '../types/models';
+
+export const MAX_CRITERIA = 10;
+export const ANCHOR_LEVELS = [1, 3, 5] as const;
+
+export interface CriterionDraft {
+  name: string;
+  weightPercent: number;
+  description: string;
+  anchors: RubricCriterion['anchors'];
+}
+
+export interface RubricDraft {
+  name: string;
+  criteria: CriterionDraft[];
+}
+
+export type CriterionDraftErrors = Partial<Record<'name' | 'weight' | 'description' | 'anchors', string>>;
+
+export interface RubricDraftErrors {
+  name?: string;
+  weights?: string;
+  criteria: CriterionDraftErrors[];
+}
+
+export interface RubricDraftValidation {
+  valid: boolean;
+  errors: RubricDraftErrors;
+}
+
+export function createEmptyCriterion(weightPercent: number = 0): CriterionDraft {
+  return {
+    name: '',
+    weightPercent,
+    description: '',
+    anchors: { 1: '', 3: '', 5: '' },
+  };
+}
+
+export function createEmptyRubricDraft(): RubricDraft {
+  return { name: '', criteria: [createEmptyCriterion(100)] };
+}
+
+export function rubricToDraft(rubric: Rubric): RubricDraft {
+  return {
+    name: rubric.name,
+    criteria: rubric.criteria.map((criterion) => ({
+      name: criterion.name,
+      weightPercent: Math.round(criterion.weight * 100),
+      description: criterion.description,
+      anchors: { ...criterion.anchors },
+    })),
+  };
+}
+
+export function draftToRubric(draft: RubricDraft): Omit<Rubric, 'id'> {
+  return {
+    name: draft.name.trim(),
+    criteria: draft.criteria.map((criterion) => ({
+      name: criterion.name.trim(),
+      weight: criterion.weightPercent / 100,
+      description: criterion.description.trim(),
+      anchors: {
+        1: criterion.anchors[1].trim(),
+        3: criterion.anchors[3].trim(),
+        5: criterion.anchors[5].trim(),
+      },
+    })),
+  };
+}
+
+export function totalWeightPercent(draft: RubricDraft): number {
+  return draft.criteria.reduce((total, criterion) => total + (criterion.weightPercent || 0), 0);
+}
+
+/**
+ * Validates a rubric draft, returning errors keyed by the field they belong to
+ */
+export function validateRubricDraft(draft: RubricDraft): RubricDraftValidation {
+  const errors: RubricDraftErrors = { criteria: [] };
+
+  if (!draft.name.trim()) {
+    errors.name = 'Give the rubric a name.';
+  } else if (draft.name.trim().length > 100) {
+    errors.name = 'Rubric names can be at most 100 characters.';
+  }
+
+  if (draft.criteria.length === 0) {
+    errors.weights = 'Add at least one criterion.';
+  } else if (draft.criteria.length > MAX_CRITERIA) {
+    errors.weights = `A rubric can have at most ${MAX_CRITERIA} criteria.`;
+  }
+
+  const names = new Set<string>();
+  errors.criteria = draft.criteria.map((criterion) => {
+    const criterionErrors: CriterionDraftErrors = {};
+    const name = criterion.name.trim();
+
+    if (!name) {
+      criterionErrors.name = 'Name this criterion.';
+    } else if (names.has(name.toLowerCase())) {
+      criterionErrors.name = 'Each criterion needs a different name.';
+    }
+    names.add(name.toLowerCase());
+
+    if (!Number.isInteger(criterion.weightPercent) || criterion.weightPercent < 1 || criterion.weightPercent > 100) {
+      criterionErrors.weight = 'Weight must be a whole number from 1 to 100.';
+    }
+    if (!criterion.description.trim()) {
+      criterionErrors.description = 'Describe what this criterion measures.';
+    }
+    if (ANCHOR_LEVELS.some((level) => !criterion.anchors[level].trim())) {
+      criterionErrors.anchors = 'Describe what a 1, 3 and 5 look like.';
+    }
+
+    return criterionErrors;
+  });
+
+  const total = totalWeightPercent(draft);
+  if (!errors.weights && total !== 100) {
+    errors.weights = `Weights must add up to 100% (currently ${total}%).`;
+  }
+
+  const valid = !errors.name && !errors.weights &&
+    errors.criteria.every((criterionErrors) => Object.keys(criterionErrors).length === 0);
+
+  return { valid, errors };
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportScenario,
+  exportScenarioPack,
+  parseScenarioFile,
+  scenarioFileName,
+} from './scenarioFile';
+import { SCENARIO_TEMPLATES } from '../constants/scenarios';
+import { BUILT_IN_RUBRICS } from '../constants/rubrics';
+import type { Rubric } from '../types/models';
+
+const knownRubricIds = BUILT_IN_RUBRICS.map((rubric) => rubric.id);
+
+const customRubric: Rubric = {
+  id: 'custom:abc123',
+  name: 'Incident Postmortem',
+  criteria: [
+    { name: 'Timeline', weight: 0.6, description: 'What happened when', anchors: { 1: 'Missing', 3: 'Partial', 5: 'Exact' } },
+    { name: 'Blamelessness', weight: 0.4, description: 'Systems, not people', anchors: { 1: 'Blames', 3: 'Mixed', 5: 'Blameless' } },
+  ],
+};
+
+describe('scenarioFile', () => {
+  it('round-trips every template through JSON and YAML', () => {
+    SCENARIO_TEMPLATES.forEach((template) => {
+      const { id: _id, ...fields } = template;
+      (['json', 'yaml'] as const).forEach((format) => {
+        const { entries, errors } = parseScenarioFile(exportScenario(template, format), { knownRubricIds });
+        expect(errors).toEqual([]);
+        expect(entries).toEqual([{ scenario: fields }]);
+      });
+    });
+  });
+
+  it('leaves stored fields the file does not describe out of the export', () => {
+    const template = SCENARIO_TEMPLATES[0]!;
+    const stored = {
+      ...template,
+      userId: 'user-1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      stakeholders: template.stakeholders.map((stakeholder) => ({ ...stakeholder, avatarUrl: 'a.png' })),
+    };
+    const file = JSON.parse(exportScenario(stored, 'json'));
+
+    expect(file.scenario).not.toHaveProperty('id');
+    expect(file.scenario).not.toHaveProperty('userId');
+    expect(file.scenario).not.toHaveProperty('createdAt');
+    expect(file.scenario.stakeholders[0]).not.toHaveProperty('avatarUrl');
+    const { id: _id, ...fields } = template;
+    expect(parseScenarioFile(JSON.stringify(file), { knownRubricIds }).entries).toEqual([{ scenario: fields }]);
+  });
+
+  it('embeds a rubric and ignores the rubricId it replaces', () => {
+    const scenario = { ...SCENARIO_TEMPLATES[0]!, rubricId: customRubric.id };
+    const { entries, errors } = parseScenarioFile(exportScenario(scenario, 'yaml', customRubric), { knownRubricIds });
+
+    expect(errors).toEqual([]);
+    expect(entries[0]?.rubric).toEqual({ name: customRubric.name, criteria: customRubric.criteria });
+  });
+
+  it('reports each invalid field by path', () => {
+    const yaml = `
+format: skillloops-scenario
+version: 1
+scenario:
+  title: ""
+  category: Persuasion
+  difficulty: Extreme
+  rubricId: someone_elses_rubric
+  description: A pitch
+  situation: Budget season
+  objective: Get approval
+  turnLimit: 60
+  stakeholders:
+    - name: Alex Chen
+      role: Director
+      relationshipType: stakeholder
+      personality: Data-driven
+      communicationStyle:
+        directness: blunt
+        formality: formal
+        emotionalExpressiveness: low
+        questioningStyle: probing
+`;
+    const { entries, errors } = parseScenarioFile(yaml, { knownRubricIds });
+
+    expect(entries).toEqual([]);
+    expect(errors).toEqual([
+      { path: 'scenario.title', message: 'Required text is missing.' },
+      { path: 'scenario.difficulty', message: 'Must be one of: Easy, Medium, Hard.' },
+      {
+        path: 'scenario.rubricId',
+        message: 'Unknown rubric "someone_elses_rubric". Embed the rubric in the file or use a built-in one.',
+      },
+      { path: 'scenario.turnLimit', message: 'Must be a whole number from 5 to 50.' },
+      {
+        path: 'scenario.stakeholders[0].communicationStyle.directness',
+        message: 'Must be one of: direct, indirect, balanced.',
+      },
+    ]);
+  });
+
+  it('accepts hidden agenda items as text or with revealWhen', () => {
+    const stakeholder = SCENARIO_TEMPLATES[0]!.stakeholders[0]!;
+    const scenario = {
+      ...SCENARIO_TEMPLATES[0]!,
+      stakeholders: [{ ...stakeholder, hiddenConcerns: [], hiddenMotivations: [] }],
+    };
+    const file = JSON.parse(exportScenario(scenario, 'json'));
+    file.scenario.stakeholders[0].hiddenConcerns = ['Worried about layoffs', 42];
+    file.scenario.stakeholders[0].hiddenMotivations = [{ text: 'Wants to lead EMEA', revealWhen: ['career'] }];
+
+    const { errors } = parseScenarioFile(JSON.stringify(file), { knownRubricIds });
+    expect(errors).toEqual([
+      {
+        path: 'scenario.stakeholders[0].hiddenConcerns[1]',
+        message: 'Must be text or an object with text and revealWhen.',
+      },
+    ]);
+
+    file.scenario.stakeholders[0].hiddenConcerns = ['Worried about layoffs'];
+    const { entries } = parseScenarioFile(JSON.stringify(file), { knownRubricIds });
+    expect(entries[0]?.scenario.stakeholders[0]).toMatchObject({
+      hiddenConcerns: [{ text: 'Worried about layoffs' }],
+      hiddenMotivations: [{ text: 'Wants to lead EMEA', revealWhen: ['career'] }],
+    });
+  });
+
+  it('checks embedded rubrics with the rubric editor rules', () => {
+    const file = JSON.parse(exportScenario(SCENARIO_TEMPLATES[0]!, 'json', customRubric));
+    file.rubric.criteria[1].weight = 0.3;
+    file.rubric.criteria[0].anchors['5'] = '';
+
+    const { errors } = parseScenarioFile(JSON.stringify(file));
+
+    expect(errors).toEqual([
+      { path: 'rubric.criteria', message: 'Weights must add up to 100% (currently 90%).' },
+      { path: 'rubric.criteria[0].anchors', message: 'Describe what a 1, 3 and 5 look like.' },
+    ]);
+  });
+
+  it('imports packs and prefixes errors with the entry', () => {
+    const pack = exportScenarioPack('Onboarding', [
+      { scenario: SCENARIO_TEMPLATES[0]! },
+      { scenario: { ...SCENARIO_TEMPLATES[1]!, stakeholders: [] } },
+    ], 'yaml');
+
+    expect(parseScenarioFile(pack).errors).toEqual([
+      { path: 'scenarios[1].scenario.stakeholders', message: 'Add at least one person to interact with.' },
+    ]);
+
+    const validPack = exportScenarioPack('Onboarding', SCENARIO_TEMPLATES.slice(0, 3).map((scenario) => ({ scenario })), 'json');
+    expect(parseScenarioFile(validPack).entries).toHaveLength(3);
+  });
+
+  it('rejects unreadable files, unknown formats and newer versions', () => {
+    expect(parseScenarioFile('{ not json').errors[0]?.path).toBe('file');
+    expect(parseScenarioFile('title: Just a scenario').errors).toEqual([
+      { path: 'format', message: 'Must be "skillloops-scenario" or "skillloops-scenario-pack".' },
+    ]);
+    expect(parseScenarioFile('format: skillloops-scenario\nversion: 2').errors).toEqual([
+      { path: 'version', message: 'Version 2 is newer than this app supports (1).' },
+    ]);
+  });
+
+  it('names exported files after the scenario title', () => {
+    expect(scenarioFileName('Pitch: Q3 Budget!', 'yaml')).toBe('pitch-q3-budget.scenario.yaml');
+    expect(scenarioFileName('???', 'json')).toBe('scenario.scenario.json');
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Scenario files
+ * A versioned JSON/YAML format for keeping scenarios in git next to training
+ * material. A file holds one scenario, or a pack of them, each optionally
+ * carrying its own rubric so it can be imported by someone who does not
+ * have that rubric yet.
+ *
+ *   format: skillloops-scenario        format: skillloops-scenario-pack
+ *   version: 1                         version: 1
+ *   scenario: { title, ... }           name: Onboarding drills
+ *   rubric: { name, criteria }         scenarios:
+ *                                        - scenario: { title, ... }
+ *                                          rubric: { name, criteria }
+ */
+
+import YAML from 'yaml';
+import type { HiddenAgendaItem, Rubric, ScenarioTemplate, Stakeholder } from '../types/models';
+import { rubricToDraft, validateRubricDraft, MAX_CRITERIA } from './rubricDraft';
+
+export const SCENARIO_FILE_FORMAT = 'skillloops-scenario';
+export const SCENARIO_PACK_FORMAT = 'skillloops-scenario-pack';
+export const SCENARIO_FILE_VERSION = 1;
+
+const MAX_STAKEHOLDERS = 10;
+const MIN_TURN_LIMIT = 5;
+const MAX_TURN_LIMIT = 50;
+
+export type ScenarioFileFormat = 'json' | 'yaml';
+
+/** A scenario and, when it was exported with one, its rubric */
+export interface ScenarioFileEntry {
+  scenario: Omit<ScenarioTemplate, 'id'>;
+  rubric?: Omit<Rubric, 'id'>;
+}
+
+/** A problem with one field of an imported file, e.g. `scenario.stakeholders[0].name` */
+export interface ScenarioFieldError {
+  path: string;
+  message: string;
+}
+
+export interface ScenarioFileParseResult {
+  entries: ScenarioFileEntry[];
+  errors: ScenarioFieldError[];
+}
+
+export interface ParseScenarioFileOptions {
+  /** Rubric ids the importing user can use; entries without an embedded rubric must name one */
+  knownRubricIds?: string[];
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+const RELATIONSHIP_TYPES = ['direct_report', 'peer', 'stakeholder'] as const;
+const COMMUNICATION_STYLE_OPTIONS = {
+  directness: ['direct', 'indirect', 'balanced'],
+  formality: ['formal', 'casual', 'professional'],
+  emotionalExpressiveness: ['high', 'medium', 'low'],
+  questioningStyle: ['probing', 'supportive', 'challenging'],
+} as const;
+const SPEECH_PATTERN_OPTIONS = {
+  averageSentenceLength: ['short', 'medium', 'long'],
+  thinkingPauses: ['frequent', 'occasional', 'rare'],
+} as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects field errors while a parsed document is checked
+ */
+class FieldChecker {
+  errors: ScenarioFieldError[] = [];
+
+  add(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  text(data: Record<string, unknown>, key: string, path: string, maxLength?: number): string {
+    const value = data[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      this.add(`${path}.${key}`, 'Required text is missing.');
+      return '';
+    }
+    if (maxLength !== undefined && value.trim().length > maxLength) {
+      this.add(`${path}.${key}`, `Must be at most ${maxLength} characters.`);
+    }
+    return value.trim();
+  }
+
+  textList(data: Record<string, unknown>, key: string, path: string, required: boolean): string[] {
+    const value = data[key];
+    if (value === undefined && !required) return [];
+    if (!Array.isArray(value)) {
+      this.add(`${path}.${key}`, 'Must be a list of text.');
+      return [];
+    }
+    value.forEach((item, index) => {
+      if (typeof item !== 'string' || !item.trim()) {
+        this.add(`${path}.${key}[${index}]`, 'Must be non-empty text.');
+      }
+    });
+    return value.filter((item): item is string => typeof item === 'string').map(item => item.trim());
+  }
+
+  choice<T extends string>(data: Record<string, unknown>, key: string, path: string, options: readonly T[]): T {
+    const value = data[key];
+    if (typeof value !== 'string' || !(options as readonly string[]).includes(value)) {
+      this.add(`${path}.${key}`, `Must be one of: ${options.join(', ')}.`);
+      return options[0]!;
+    }
+    return value as T;
+  }
+
+  /** Hidden items may be plain text or `{ text, revealWhen }` */
+  hiddenItems(data: Record<string, unknown>, key: string, path: string): HiddenAgendaItem[] | undefined {
+    const value = data[key];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      this.add(`${path}.${key}`, 'Must be a list.');
+      return undefined;
+    }
+    return value.map((item, index) => {
+      const itemPath = `${path}.${key}[${index}]`;
+      if (typeof item === 'string' && item.trim()) {
+        return { text: item.trim() };
+      }
+      if (!isObject(item)) {
+        this.add(itemPath, 'Must be text or an object with text and revealWhen.');
+        return { text: '' };
+      }
+      const hidden: HiddenAgendaItem = { text: this.text(item, 'text', itemPath) };
+      if (item.revealWhen !== undefined) {
+        hidden.revealWhen = this.textList(item, 'revealWhen', itemPath, true);
+      }
+      return hidden;
+    });
+  }
+}
+
+function checkStakeholder(checker: FieldChecker, data: unknown, path: string): Stakeholder {
+  if (!isObject(data)) {
+    checker.add(path, 'Must be an object describing the person.');
+    return {} as Stakeholder;
+  }
+
+  const stakeholder: Stakeholder = {
+    name: checker.text(data, 'name', path),
+    role: checker.text(data, 'role', path),
+    relationshipType: checker.choice(data, 'relationshipType', path, RELATIONSHIP_TYPES),
+    personality: checker.text(data, 'personality', path),
+    concerns: checker.textList(data, 'concerns', path, false),
+    motivations: checker.textList(data, 'motivations', path, false),
+  };
+
+  const hiddenConcerns = checker.hiddenItems(data, 'hiddenConcerns', path);
+  if (hiddenConcerns) stakeholder.hiddenConcerns = hiddenConcerns;
+  const hiddenMotivations = checker.hiddenItems(data, 'hiddenMotivations', path);
+  if (hiddenMotivations) stakeholder.hiddenMotivations = hiddenMotivations;
+
+  if (data.communicationStyle !== undefined) {
+    const stylePath = `${path}.communicationStyle`;
+    if (!isObject(data.communicationStyle)) {
+      checker.add(stylePath, 'Must be an object.');
+    } else {
+      const style = data.communicationStyle;
+      stakeholder.communicationStyle = {
+        directness: checker.choice(style, 'directness', stylePath, COMMUNICATION_STYLE_OPTIONS.directness),
+        formality: checker.choice(style, 'formality', stylePath, COMMUNICATION_STYLE_OPTIONS.formality),
+        emotionalExpressiveness: checker.choice(
+          style, 'emotionalExpressiveness', stylePath, COMMUNICATION_STYLE_OPTIONS.emotionalExpressiveness
+        ),
+        questioningStyle: checker.choice(
+          style, 'questioningStyle', stylePath, COMMUNICATION_STYLE_OPTIONS.questioningStyle
+        ),
+      };
+    }
+  }
+
+  if (data.speechPatterns !== undefined) {
+    const patternsPath = `${path}.speechPatterns`;
+    if (!isObject(data.speechPatterns)) {
+      checker.add(patternsPath, 'Must be an object.');
+    } else {
+      const patterns = data.speechPatterns;
+      ['usesIdioms', 'usesHumor'].forEach((key) => {
+        if (typeof patterns[key] !== 'boolean') {
+          checker.add(`${patternsPath}.${key}`, 'Must be true or false.');
+        }
+      });
+      stakeholder.speechPatterns = {
+        averageSentenceLength: checker.choice(
+          patterns, 'averageSentenceLength', patternsPath, SPEECH_PATTERN_OPTIONS.averageSentenceLength
+        ),
+        usesIdioms: patterns.usesIdioms === true,
+        usesHumor: patterns.usesHumor === true,
+        thinkingPauses: checker.choice(patterns, 'thinkingPauses', patternsPath, SPEECH_PATTERN_OPTIONS.thinkingPauses),
+      };
+    }
+  }
+
+  return stakeholder;
+}
+
+function checkScenario(checker: FieldChecker, data: unknown, path: string, hasRubric: boolean, knownRubricIds?: string[]): Omit<ScenarioTemplate, 'id'> {
+  if (!isObject(data)) {
+    checker.add(path, 'A scenario is required.');
+    return {} as Omit<ScenarioTemplate, 'id'>;
+  }
+
+  const title = checker.text(data, 'title', path, 100);
+  const category = checker.text(data, 'category', path);
+  const difficulty = checker.choice(data, 'difficulty', path, DIFFICULTIES);
+
+  // An embedded rubric replaces whatever rubricId the file names
+  let rubricId = typeof data.rubricId === 'string' ? data.rubricId : '';
+  if (!hasRubric) {
+    rubricId = checker.text(data, 'rubricId', path);
+    if (rubricId && knownRubricIds && !knownRubricIds.includes(rubricId)) {
+      checker.add(`${path}.rubricId`, `Unknown rubric "${rubricId}". Embed the rubric in the file or use a built-in one.`);
+    }
+  }
+
+  const description = checker.text(data, 'description', path);
+  const situation = checker.text(data, 'situation', path);
+  const objective = checker.text(data, 'objective', path);
+
+  const turnLimit = data.turnLimit;
+  if (typeof turnLimit !== 'number' || !Number.isInteger(turnLimit) ||
+      turnLimit < MIN_TURN_LIMIT || turnLimit > MAX_TURN_LIMIT) {
+    checker.add(`${path}.turnLimit`, `Must be a whole number from ${MIN_TURN_LIMIT} to ${MAX_TURN_LIMIT}.`);
+  }
+
+  const stakeholders: Stakeholder[] = [];
+  if (!Array.isArray(data.stakeholders) || data.stakeholders.length === 0) {
+    checker.add(`${path}.stakeholders`, 'Add at least one person to interact with.');
+  } else if (data.stakeholders.length > MAX_STAKEHOLDERS) {
+    checker.add(`${path}.stakeholders`, `A scenario can have at most ${MAX_STAKEHOLDERS} people.`);
+  } else {
+    data.stakeholders.forEach((stakeholder, index) => {
+      stakeholders.push(checkStakeholder(checker, stakeholder, `${path}.stakeholders[${index}]`));
+    });
+  }
+
+  return {
+    title,
+    category,
+    difficulty,
+    rubricId,
+    description,
+    situation,
+    objective,
+    turnLimit: typeof turnLimit === 'number' ? turnLimit : MIN_TURN_LIMIT,
+    stakeholders,
+    constraints: checker.textList(data, 'constraints', path, false),
+  };
+}
+
+function checkRubric(checker: FieldChecker, data: unknown, path: string): Omit<Rubric, 'id'> | undefined {
+  if (!isObject(data)) {
+    checker.add(path, 'Must be an object with a name and criteria.');
+    return undefined;
+  }
+  if (!Array.isArray(data.criteria) || data.criteria.length === 0 || data.criteria.length > MAX_CRITERIA) {
+    checker.add(`${path}.criteria`, `Must list 1 to ${MAX_CRITERIA} criteria.`);
+    return undefined;
+  }
+
+  const criteria = data.criteria.map((criterion, index) => {
+    const criterionPath = `${path}.criteria[${index}]`;
+    if (!isObject(criterion)) {
+      checker.add(criterionPath, 'Must be an object.');
+      return null;
+    }
+    if (typeof criterion.weight !== 'number') {
+      checker.add(`${criterionPath}.weight`, 'Must be a fraction of 1, e.g. 0.25.');
+      return null;
+    }
+    const anchors = isObject(criterion.anchors) ? criterion.anchors : {};
+    return {
+      name: typeof criterion.name === 'string' ? criterion.name : '',
+      weight: criterion.weight,
+      description: typeof criterion.description === 'string' ? criterion.description : '',
+      anchors: {
+        1: typeof anchors[1] === 'string' ? anchors[1] : '',
+        3: typeof anchors[3] === 'string' ? anchors[3] : '',
+        5: typeof anchors[5] === 'string' ? anchors[5] : '',
+      },
+    };
+  });
+  if (criteria.some(criterion => criterion === null)) return undefined;
+
+  // Same rules as the rubric editor, reported against the file's fields
+  const rubric = {
+    id: '',
+    name: typeof data.name === 'string' ? data.name.trim() : '',
+    criteria: criteria as Rubric['criteria'],
+  };
+  const { errors } = validateRubricDraft(rubricToDraft(rubric));
+  if (errors.name) checker.add(`${path}.name`, errors.name);
+  if (errors.weights) checker.add(`${path}.criteria`, errors.weights);
+  errors.criteria.forEach((criterionErrors, index) => {
+    Object.entries(criterionErrors).forEach(([field, message]) => {
+      checker.add(`${path}.criteria[${index}].${field}`, message);
+    });
+  });
+
+  return { name: rubric.name, criteria: rubric.criteria };
+}
+
+function checkEntry(checker: FieldChecker, data: Record<string, unknown>, path: string, options: ParseScenarioFileOptions): ScenarioFileEntry {
+  const hasRubric = data.rubric !== undefined;
+  const rubric = hasRubric ? checkRubric(checker, data.rubric, path ? `${path}.rubric` : 'rubric') : undefined;
+  const scenario = checkScenario(
+    checker, data.scenario, path ? `${path}.scenario` : 'scenario', hasRubric, options.knownRubricIds
+  );
+  return rubric ? { scenario, rubric } : { scenario };
+}
+
+/**
+ * Parses a scenario file or pack. JSON is detected from the content; anything
+ * else is read as YAML. Entries are only returned when the whole file is valid.
+ */
+export function parseScenarioFile(text: string, options: ParseScenarioFileOptions = {}): ScenarioFileParseResult {
+  let document: unknown;
+  try {
+    document = text.trim().startsWith('{') ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : 'unreadable content';
+    return { entries: [], errors: [{ path: 'file', message: `The file could not be read: ${reason}` }] };
+  }
+
+  if (!isObject(document)) {
+    return { entries: [], errors: [{ path: 'file', message: 'The file does not contain a scenario.' }] };
+  }
+
+  const checker = new FieldChecker();
+  const { format, version } = document;
+
+  if (format !== SCENARIO_FILE_FORMAT && format !== SCENARIO_PACK_FORMAT) {
+    checker.add('format', `Must be "${SCENARIO_FILE_FORMAT}" or "${SCENARIO_PACK_FORMAT}".`);
+    return { entries: [], errors: checker.errors };
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    checker.add('version', 'Must be a whole number.');
+    return { entries: [], errors: checker.errors };
+  }
+  if (version > SCENARIO_FILE_VERSION) {
+    checker.add('version', `Version ${version} is newer than this app supports (${SCENARIO_FILE_VERSION}).`);
+    return { entries: [], errors: checker.errors };
+  }
+
+  let entries: ScenarioFileEntry[];
+  if (format === SCENARIO_FILE_FORMAT) {
+    entries = [checkEntry(checker, document, '', options)];
+  } else if (!Array.isArray(document.scenarios) || document.scenarios.length === 0) {
+    checker.add('scenarios', 'A scenario pack must list at least one scenario.');
+    entries = [];
+  } else {
+    entries = document.scenarios.map((entry, index) => {
+      const path = `scenarios[${index}]`;
+      if (!isObject(entry)) {
+        checker.add(path, 'Must be an object with a scenario.');
+        return null;
+      }
+      return checkEntry(checker, entry, path, options);
+    }).filter((entry): entry is ScenarioFileEntry => entry !== null);
+  }
+
+  return checker.errors.length > 0
+    ? { entries: [], errors: checker.errors }
+    : { entries, errors: [] };
+}
+
+// Only the fields the parser reads are written, so a stored custom scenario
+// does not carry its owner or timestamps into the file
+function toFileStakeholder(stakeholder: Stakeholder): Stakeholder {
+  return {
+    name: stakeholder.name,
+    role: stakeholder.role,
+    relationshipType: stakeholder.relationshipType,
+    personality: stakeholder.personality,
+    concerns: stakeholder.concerns,
+    motivations: stakeholder.motivations,
+    ...(stakeholder.hiddenConcerns ? { hiddenConcerns: stakeholder.hiddenConcerns } : {}),
+    ...(stakeholder.hiddenMotivations ? { hiddenMotivations: stakeholder.hiddenMotivations } : {}),
+    ...(stakeholder.communicationStyle ? { communicationStyle: stakeholder.communicationStyle } : {}),
+    ...(stakeholder.speechPatterns ? { speechPatterns: stakeholder.speechPatterns } : {}),
+  };
+}
+
+function toFileEntry(scenario: ScenarioTemplate, rubric?: Rubric): Record<string, unknown> {
+  const fields: Omit<ScenarioTemplate, 'id'> = {
+    title: scenario.title,
+    category: scenario.category,
+    difficulty: scenario.difficulty,
+    rubricId: scenario.rubricId,
+    description: scenario.description,
+    situation: scenario.situation,
+    objective: scenario.objective,
+    turnLimit: scenario.turnLimit,
+    stakeholders: scenario.stakeholders.map(toFileStakeholder),
+    constraints: scenario.constraints,
+  };
+  if (!rubric) return { scenario: fields };
+  return { scenario: fields, rubric: { name: rubric.name, criteria: rubric.criteria } };
+}
+
+function serialize(document: Record<string, unknown>, format: ScenarioFileFormat): string {
+  return format === 'json' ? `${JSON.stringify(document, null, 2)}\n` : YAML.stringify(document);
+}
+
+/**
+ * Serializes one scenario. Pass its rubric to embed it, which is needed for
+ * custom rubrics since their ids only resolve for their owner.
+ */
+export function exportScenario(scenario: ScenarioTemplate, format: ScenarioFileFormat, rubric?: Rubric): string {
+  return serialize({
+    format: SCENARIO_FILE_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    ...toFileEntry(scenario, rubric),
+  }, format);
+}
+
+/**
+ * Serializes several scenarios as one pack
+ */
+export function exportScenarioPack(
+  name: string,
+  items: Array<{ scenario: ScenarioTemplate; rubric?: Rubric }>,
+  format: ScenarioFileFormat
+): string {
+  return serialize({
+    format: SCENARIO_PACK_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    name,
+    scenarios: items.map(({ scenario, rubric }) => toFileEntry(scenario, rubric)),
+  }, format);
+}
+
+/**
+ * File name for an exported scenario, e.g. "budget-pitch.scenario.yaml"
+ */
+export function scenarioFileName(title: string, format: ScenarioFileFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'scenario';
+  return `${slug}.scenario.${format}`;
+}
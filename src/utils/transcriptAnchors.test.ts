@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { anchorEvaluation, extractQuote, findEvidenceIndex, turnToIndex } from './transcriptAnchors';
+import type { Message } from '../types/models';
+
+const at = (type: Message['type'], content: string): Message => ({
+  type,
+  content,
+  timestamp: '2024-01-01T00:00:00.000Z',
+});
+
+describe('transcriptAnchors', () => {
+  const transcript: Message[] = [
+    at('ai', 'What are you asking for and what does it cost?'),
+    at('user', 'We need two engineers for a quarter, roughly $80k.'),
+    at('ai', 'How confident are you in that timeline?'),
+    at('user', "Fair question. We can phase the rollout so the risk stays small, and I'll report progress weekly."),
+  ];
+
+  describe('extractQuote', () => {
+    it('should pull the quoted part out of evidence', () => {
+      expect(extractQuote('User said "we can phase the rollout" to reduce risk')).toBe('we can phase the rollout');
+      expect(extractQuote('Used “curly quotes here” too')).toBe('curly quotes here');
+    });
+
+    it('should fall back to the whole evidence string', () => {
+      expect(extractQuote('Opened with the budget ask')).toBe('Opened with the budget ask');
+    });
+  });
+
+  describe('turnToIndex', () => {
+    it('should map 1-based turns onto transcript indexes', () => {
+      expect(turnToIndex(1, transcript)).toBe(0);
+      expect(turnToIndex(4, transcript)).toBe(3);
+    });
+
+    it('should reject turns outside the transcript', () => {
+      expect(turnToIndex(0, transcript)).toBeNull();
+      expect(turnToIndex(5, transcript)).toBeNull();
+      expect(turnToIndex(1.5, transcript)).toBeNull();
+    });
+  });
+
+  describe('findEvidenceIndex', () => {
+    it('should match quotes ignoring case and punctuation', () => {
+      expect(findEvidenceIndex('"We can phase the rollout, so the risk stays small"', transcript)).toBe(3);
+    });
+
+    it('should use an explicit turn reference when the quote is not found', () => {
+      expect(findEvidenceIndex('Turn 2: stated the cost up front', transcript)).toBe(1);
+    });
+
+    it('should fuzzy match lightly paraphrased quotes', () => {
+      expect(findEvidenceIndex('"we need two engineers for one quarter"', transcript)).toBe(1);
+    });
+
+    it('should prefer the learner\'s turn when both sides say the same thing', () => {
+      const echoed = [at('ai', 'So what is the timeline?'), at('user', 'So what is the timeline?')];
+      expect(findEvidenceIndex('"what is the timeline"', echoed)).toBe(1);
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(findEvidenceIndex('"completely unrelated statement about lunch"', transcript)).toBeNull();
+    });
+  });
+
+  describe('anchorEvaluation', () => {
+    it('should pin moments and evidence to their turns', () => {
+      const anchors = anchorEvaluation(
+        transcript,
+        [
+          { turn: 2, description: 'Clear ask', why: 'Put the cost on the table early' },
+          { turn: 12, description: 'Closing', why: 'Out of range' },
+        ],
+        [
+          {
+            criterion: 'Risk Mitigation',
+            weight: 0.5,
+            score: 4,
+            evidence: ['"phase the rollout"', '"never said this"'],
+          },
+        ]
+      );
+
+      expect(anchors.byIndex.get(1)?.moments[0]?.description).toBe('Clear ask');
+      expect(anchors.byIndex.get(3)?.evidence).toEqual([
+        { criterion: 'Risk Mitigation', quote: 'phase the rollout' },
+      ]);
+      expect(anchors.unanchored.moments.map((m) => m.description)).toEqual(['Closing']);
+      expect(anchors.unanchored.evidence.map((e) => e.quote)).toEqual(['never said this']);
+    });
+
+    it('should handle evaluations without feedback', () => {
+      const anchors = anchorEvaluation(transcript);
+      expect(anchors.byIndex.size).toBe(0);
+      expect(anchors.unanchored).toEqual({ moments: [], evidence: [] });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Transcript anchoring utilities
+ * Pins evaluation feedback (moments that mattered, criterion evidence) to the
+ * transcript turns it refers to, so a saved session can be replayed with the
+ * feedback in place.
+ *
+ * Turn numbers follow buildEvaluationPrompt in functions/index.js: turn N is
+ * transcript[N - 1], counting every message type.
+ */
+
+import type { CriterionScore, Message, MomentThatMattered } from '../types/models';
+
+export interface EvidenceAnchor {
+  criterion: string;
+  quote: string;
+}
+
+export interface TurnAnchor {
+  moments: MomentThatMattered[];
+  evidence: EvidenceAnchor[];
+}
+
+export interface TranscriptAnchors {
+  /** Anchors keyed by transcript index */
+  byIndex: Map<number, TurnAnchor>;
+  /** Feedback that could not be matched to a turn */
+  unanchored: TurnAnchor;
+}
+
+// Share of an evidence quote's words that must appear in a message for a
+// fuzzy match (models often paraphrase slightly when quoting)
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const words = (text: string): string[] =>
+  normalize(text).split(' ').filter((word) => word.length > 2);
+
+/**
+ * Pulls the quoted part out of an evidence string, e.g.
+ * `User said "we can phase the rollout"` -> `we can phase the rollout`
+ */
+export function extractQuote(evidence: string): string {
+  const quoted = evidence.match(/["“]([^"”]{4,})["”]/);
+  return (quoted?.[1] ?? evidence).trim();
+}
+
+/**
+ * Transcript index a turn number points at, or null if out of range
+ */
+export function turnToIndex(turn: number, transcript: Message[]): number | null {
+  if (!Number.isInteger(turn) || turn < 1 || turn > transcript.length) {
+    return null;
+  }
+  return turn - 1;
+}
+
+/**
+ * Finds the transcript index an evidence string refers to.
+ * Tries, in order: an exact (normalized) quote match, an explicit
+ * "Turn N" reference, then the message sharing most of the quote's words.
+ * User messages win ties, since evidence is about the learner's turns.
+ */
+export function findEvidenceIndex(evidence: string, transcript: Message[]): number | null {
+  const quote = normalize(extractQuote(evidence));
+  if (!quote) return null;
+
+  const byPreference = transcript
+    .map((msg, index) => ({ msg, index }))
+    .sort((a, b) => Number(b.msg.type === 'user') - Number(a.msg.type === 'user'));
+
+  const exact = byPreference.find(({ msg }) => normalize(msg.content).includes(quote));
+  if (exact) return exact.index;
+
+  const turnReference = evidence.match(/\bturn\s+(\d+)\b/i);
+  if (turnReference?.[1]) {
+    const index = turnToIndex(Number(turnReference[1]), transcript);
+    if (index !== null) return index;
+  }
+
+  const quoteWords = words(quote);
+  if (quoteWords.length === 0) return null;
+
+  let best: { index: number; overlap: number } | null = null;
+  for (const { msg, index } of byPreference) {
+    const messageWords = new Set(words(msg.content));
+    const overlap = quoteWords.filter((word) => messageWords.has(word)).length / quoteWords.length;
+    if (overlap >= FUZZY_MATCH_THRESHOLD && (!best || overlap > best.overlap)) {
+      best = { index, overlap };
+    }
+  }
+
+  return best ? best.index : null;
+}
+
+/**
+ * Anchors every moment and evidence quote of an evaluation to the transcript
+ */
+export function anchorEvaluation(
+  transcript: Message[],
+  moments: MomentThatMattered[] = [],
+  criterionScores: CriterionScore[] = []
+): TranscriptAnchors {
+  const byIndex = new Map<number, TurnAnchor>();
+  const unanchored: TurnAnchor = { moments: [], evidence: [] };
+
+  const anchorAt = (index: number): TurnAnchor => {
+    let anchor = byIndex.get(index);
+    if (!anchor) {
+      anchor = { moments: [], evidence: [] };
+      byIndex.set(index, anchor);
+    }
+    return anchor;
+  };
+
+  moments.forEach((moment) => {
+    const index = turnToIndex(moment.turn, transcript);
+    (index === null ? unanchored : anchorAt(index)).moments.push(moment);
+  });
+
+  criterionScores.forEach((score) => {
+    (score.evidence || []).forEach((evidence) => {
+      const entry = { criterion: score.criterion, quote: extractQuote(evidence) };
+      const index = findEvidenceIndex(evidence, transcript);
+      (index === null ? unanchored : anchorAt(index)).evidence.push(entry);
+    });
+  });
+
+  return { byIndex, unanchored };
+}
@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly DEV: boolean;
   readonly PROD: boolean;
   readonly MODE: string;
+  readonly VITE_USE_FIREBASE_EMULATORS?: string;
+  readonly VITE_FIREBASE_EMULATOR_HOST?: string;
   // Add other env variables as needed
 }
 